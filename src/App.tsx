@@ -1,15 +1,17 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom'
 import { useSupabaseAuth } from '@/hooks/useSupabaseAuth'
-import { useStore } from '@/store/authStore'
+import { useAuthStore } from '@/store/authStore'
 
 import Login from '@/pages/Login'
 import SignUp from '@/pages/SignUp'
 import Onboarding from '@/pages/Onboarding'
 import Dashboard from '@/pages/Dashboard'
 import Tasks from '@/pages/Tasks'
+import Leaderboard from '@/pages/Leaderboard'
+import Rewards from '@/pages/Rewards'
 
 function App() {
-  const { user } = useStore()
+  const user = useAuthStore((s) => s.user)
   const { loading } = useSupabaseAuth()
 
   if (loading) {
@@ -35,8 +37,12 @@ function App() {
 
         {/* App */}
         <Route path="/onboarding" element={!user ? <Navigate to="/login" replace /> : <Onboarding />} />
+        {/* Lien d'invitation : Onboarding garde le code si l'utilisateur doit se connecter */}
+        <Route path="/join/:code" element={<Onboarding />} />
         <Route path="/dashboard" element={!user ? <Navigate to="/login" replace /> : <Dashboard />} />
         <Route path="/tasks" element={!user ? <Navigate to="/login" replace /> : <Tasks />} />
+        <Route path="/leaderboard" element={!user ? <Navigate to="/login" replace /> : <Leaderboard />} />
+        <Route path="/rewards" element={!user ? <Navigate to="/login" replace /> : <Rewards />} />
 
         {/* Catch all */}
         <Route path="*" element={<Navigate to="/" replace />} />
@@ -0,0 +1,397 @@
+import { useEffect, useState } from 'react'
+import {
+  AlertCircle,
+  Camera,
+  CheckCheck,
+  CheckCircle2,
+  Hourglass,
+  Loader2,
+  ShieldCheck,
+  X,
+  XCircle,
+} from 'lucide-react'
+import CategoryIcon from '@/components/CategoryIcon'
+import { useI18n } from '@/hooks/useI18n'
+import {
+  REJECTION_REASON_MAX,
+  approveTask,
+  listAwaitingApproval,
+  rejectTask,
+  setApprovalRule,
+  type ApprovalRule,
+  type ApprovalTarget,
+} from '@/lib/approvals'
+import { categoryBadgeClass, type Category } from '@/lib/categories'
+import type { MemberMini, Task } from '@/lib/repository'
+
+type Props = {
+  householdId: string
+  currentUserId: string
+  members: MemberMini[]
+  categories: Category[]
+  rules: ApprovalRule[]
+  // Change quand le nombre de demandes change (Realtime) : la liste est rechargée
+  refreshKey: number
+  onClose: () => void
+  onRulesChange: (rules: ApprovalRule[]) => void
+  // Tâche validée ou refusée (spawned : occurrence suivante créée)
+  onDecided: (task: Task, spawned: boolean) => void
+}
+
+/**
+ * Validation parentale : demandes en attente (valider, refuser avec un motif, tout valider)
+ * et règles du foyer (membres / catégories dont les tâches passent par un parent).
+ */
+export default function ApprovalsModal({
+  householdId,
+  currentUserId,
+  members,
+  categories,
+  rules,
+  refreshKey,
+  onClose,
+  onRulesChange,
+  onDecided,
+}: Props) {
+  const { t, formatDate } = useI18n()
+  const [pending, setPending] = useState<Task[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [approvingAll, setApprovingAll] = useState(false)
+
+  // Refus en cours de saisie
+  const [rejectingId, setRejectingId] = useState<string | null>(null)
+  const [reason, setReason] = useState('')
+
+  const [ruleBusy, setRuleBusy] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    listAwaitingApproval(householdId)
+      .then((loaded) => {
+        if (!cancelled) setPending(loaded)
+      })
+      .catch((err) => {
+        console.error('load approvals error:', err)
+        if (!cancelled) setError(t('approvals.error.load'))
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [householdId, refreshKey])
+
+  const memberName = (id: string | null) => members.find((m) => m.id === id)?.display_name ?? t('common.formerMember')
+  const findCategory = (slug: string) => categories.find((c) => c.slug === slug) ?? null
+
+  const removeFromList = (taskId: string) => setPending((prev) => prev.filter((t) => t.id !== taskId))
+
+  // Déjà décidée ailleurs (null) : on la retire simplement de la liste
+  const approve = async (task: Task) => {
+    const result = await approveTask(task, currentUserId)
+    removeFromList(task.id)
+    if (result) onDecided(result.task, result.spawned)
+  }
+
+  const handleApprove = async (task: Task) => {
+    setBusyId(task.id)
+    setError(null)
+    try {
+      await approve(task)
+    } catch (err: any) {
+      console.error('approve task error:', err)
+      setError(t('approvals.error.approve', { title: task.title }))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleApproveAll = async () => {
+    if (!window.confirm(t('approvals.approveAllConfirm', { count: pending.length }))) return
+    setApprovingAll(true)
+    setError(null)
+
+    let failed = 0
+    for (const task of pending) {
+      try {
+        await approve(task)
+      } catch (err: any) {
+        console.error('approve task error:', err)
+        failed++
+      }
+    }
+
+    if (failed > 0) setError(t('approvals.error.approveAll', { count: failed }))
+    setApprovingAll(false)
+  }
+
+  const startReject = (task: Task) => {
+    setRejectingId(task.id)
+    setReason('')
+  }
+
+  const handleReject = async (task: Task) => {
+    if (!reason.trim()) return
+    setBusyId(task.id)
+    setError(null)
+    try {
+      const updated = await rejectTask(task, reason)
+      removeFromList(task.id)
+      setRejectingId(null)
+      if (updated) onDecided(updated, false)
+    } catch (err: any) {
+      console.error('reject task error:', err)
+      setError(t('approvals.error.reject', { title: task.title }))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  // ---- Règles ----
+
+  const isRequired = (target: ApprovalTarget) =>
+    rules.some((r) => ('member_id' in target ? r.member_id === target.member_id : r.category === target.category))
+
+  const toggleRule = async (key: string, target: ApprovalTarget) => {
+    const required = !isRequired(target)
+    setRuleBusy(key)
+    setError(null)
+    try {
+      await setApprovalRule(householdId, target, required)
+      onRulesChange(
+        required
+          ? [
+              ...rules,
+              {
+                id: crypto.randomUUID(),
+                household_id: householdId,
+                member_id: 'member_id' in target ? target.member_id : null,
+                category: 'category' in target ? target.category : null,
+                created_at: new Date().toISOString(),
+              },
+            ]
+          : rules.filter((r) =>
+              'member_id' in target ? r.member_id !== target.member_id : r.category !== target.category
+            )
+      )
+    } catch (err: any) {
+      console.error('toggle approval rule error:', err)
+      setError(t('approvals.error.rule'))
+    } finally {
+      setRuleBusy(null)
+    }
+  }
+
+  const children = members.filter((m) => m.role === 'child')
+  const activeCategories = categories.filter((c) => !c.archived)
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1 rounded-full text-xs font-medium border transition disabled:opacity-50 ${
+      active ? 'border-amber-300 bg-amber-50 text-amber-800' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+    }`
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center">
+          <h3 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <ShieldCheck className="w-6 h-6 text-blue-600" /> {t('approvals.title')}
+          </h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="p-6 space-y-8">
+          <section>
+            <div className="flex items-center justify-between gap-3 mb-3">
+              <h4 className="text-sm font-semibold text-gray-700">
+                {t('approvals.pending')} {pending.length > 0 && <span className="text-gray-500">({pending.length})</span>}
+              </h4>
+              {pending.length > 1 && (
+                <button
+                  onClick={handleApproveAll}
+                  disabled={approvingAll || !!busyId}
+                  className="flex items-center px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 transition text-sm font-medium disabled:opacity-50"
+                >
+                  {approvingAll ? (
+                    <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                  ) : (
+                    <CheckCheck className="w-4 h-4 mr-1" />
+                  )}
+                  {t('approvals.approveAll')}
+                </button>
+              )}
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+              </div>
+            ) : pending.length === 0 ? (
+              <p className="text-center text-sm text-gray-500 py-4">{t('approvals.empty')}</p>
+            ) : (
+              <ul className="divide-y border rounded-xl">
+                {pending.map((task) => {
+                  const category = findCategory(task.category)
+                  const busy = busyId === task.id || approvingAll
+
+                  return (
+                    <li key={task.id} className="p-4 space-y-2">
+                      <div className="flex items-start gap-3">
+                        <Hourglass className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-gray-900 break-words">{task.title}</p>
+                          <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                            <span
+                              className={`flex items-center gap-1 px-2 py-0.5 rounded-full font-medium ${categoryBadgeClass(
+                                category?.color ?? 'gray'
+                              )}`}
+                            >
+                              <CategoryIcon icon={category?.icon ?? 'tag'} />
+                              {category?.label ?? task.category}
+                            </span>
+                            <span>
+                              {memberName(task.submitted_by)}
+                              {task.submitted_at &&
+                                `, ${formatDate(task.submitted_at, {
+                                  day: 'numeric',
+                                  month: 'short',
+                                  hour: '2-digit',
+                                  minute: '2-digit',
+                                })}`}
+                            </span>
+                            <span className="font-medium text-blue-600">{t('common.points', { count: task.points })}</span>
+                            {task.photo_count > 0 && (
+                              <span className="flex items-center">
+                                <Camera className="w-3 h-3 mr-1" />
+                                {task.photo_count}
+                              </span>
+                            )}
+                          </div>
+                          {task.rejection_reason && (
+                            <p className="mt-1 text-xs text-gray-500">
+                              {t('approvals.previouslyRejected', { reason: task.rejection_reason })}
+                            </p>
+                          )}
+                        </div>
+
+                        {rejectingId !== task.id && (
+                          <div className="flex gap-2 flex-shrink-0">
+                            <button
+                              onClick={() => handleApprove(task)}
+                              disabled={busy}
+                              className="flex items-center px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 transition text-sm font-medium disabled:opacity-50"
+                            >
+                              {busyId === task.id ? (
+                                <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                              ) : (
+                                <CheckCircle2 className="w-4 h-4 mr-1" />
+                              )}
+                              {t('approvals.approve')}
+                            </button>
+                            <button
+                              onClick={() => startReject(task)}
+                              disabled={busy}
+                              className="flex items-center px-3 py-1.5 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 transition text-sm font-medium disabled:opacity-50"
+                            >
+                              <XCircle className="w-4 h-4 mr-1" /> {t('approvals.reject')}
+                            </button>
+                          </div>
+                        )}
+                      </div>
+
+                      {rejectingId === task.id && (
+                        <div className="pl-8 space-y-2">
+                          <textarea
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            placeholder={t('approvals.reasonPlaceholder')}
+                            maxLength={REJECTION_REASON_MAX}
+                            rows={2}
+                            autoFocus
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            disabled={busy}
+                          />
+                          <div className="flex justify-end gap-2">
+                            <button
+                              onClick={() => setRejectingId(null)}
+                              disabled={busy}
+                              className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition"
+                            >
+                              {t('common.cancel')}
+                            </button>
+                            <button
+                              onClick={() => handleReject(task)}
+                              disabled={busy || !reason.trim()}
+                              className="px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 transition text-sm font-medium disabled:opacity-50"
+                            >
+                              {t('approvals.rejectConfirm')}
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </section>
+
+          <section className="space-y-4">
+            <div>
+              <h4 className="text-sm font-semibold text-gray-700">{t('approvals.rules.title')}</h4>
+              <p className="text-xs text-gray-500 mt-1">{t('approvals.rules.help')}</p>
+            </div>
+
+            <div>
+              <p className="text-xs font-medium text-gray-600 mb-2">{t('approvals.rules.members')}</p>
+              {children.length === 0 ? (
+                <p className="text-xs text-gray-400">{t('approvals.rules.noChildren')}</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {children.map((m) => (
+                    <button
+                      key={m.id}
+                      onClick={() => toggleRule(`member:${m.id}`, { member_id: m.id })}
+                      disabled={ruleBusy === `member:${m.id}`}
+                      className={chipClass(isRequired({ member_id: m.id }))}
+                    >
+                      {m.display_name}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <p className="text-xs font-medium text-gray-600 mb-2">{t('approvals.rules.categories')}</p>
+              <div className="flex flex-wrap gap-2">
+                {activeCategories.map((c) => (
+                  <button
+                    key={c.slug}
+                    onClick={() => toggleRule(`category:${c.slug}`, { category: c.slug })}
+                    disabled={ruleBusy === `category:${c.slug}`}
+                    className={`flex items-center gap-1 ${chipClass(isRequired({ category: c.slug }))}`}
+                  >
+                    <CategoryIcon icon={c.icon} /> {c.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  )
+}
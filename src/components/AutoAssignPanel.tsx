@@ -0,0 +1,171 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Loader2, Scale } from 'lucide-react'
+import { useI18n } from '@/hooks/useI18n'
+import {
+  ASSIGN_STRATEGIES,
+  STRATEGY_LABEL_KEYS,
+  compareOnStrategy,
+  listCategoryExclusions,
+  loadMemberLoads,
+  rankCandidates,
+  type AssignStrategy,
+  type CategoryExclusion,
+  type MemberLoad,
+} from '@/lib/autoAssign'
+import type { MemberMini } from '@/lib/repository'
+
+type Props = {
+  householdId: string
+  category: string
+  categoryLabel: string
+  members: MemberMini[]
+  strategy: AssignStrategy
+  onStrategyChange: (strategy: AssignStrategy) => void
+  // undefined : calcul en cours ; null : personne ne peut recevoir la tâche
+  onPick: (memberId: string | null | undefined) => void
+  disabled?: boolean
+}
+
+/**
+ * Attribution automatique (formulaire de création) : méthode, membre choisi et pourquoi
+ */
+export default function AutoAssignPanel({
+  householdId,
+  category,
+  categoryLabel,
+  members,
+  strategy,
+  onStrategyChange,
+  onPick,
+  disabled = false,
+}: Props) {
+  const { t, formatDate } = useI18n()
+  const [loads, setLoads] = useState<MemberLoad[] | null>(null)
+  const [exclusions, setExclusions] = useState<CategoryExclusion[]>([])
+  const [failed, setFailed] = useState(false)
+
+  const memberIds = members.map((m) => m.id).join(',')
+
+  useEffect(() => {
+    let cancelled = false
+    setLoads(null)
+    setFailed(false)
+    Promise.all([loadMemberLoads(householdId, memberIds.split(','), category), listCategoryExclusions(householdId)])
+      .then(([loaded, excluded]) => {
+        if (cancelled) return
+        setLoads(loaded)
+        setExclusions(excluded)
+      })
+      .catch((err) => {
+        console.error('load auto-assign stats error:', err)
+        if (!cancelled) setFailed(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [householdId, category, memberIds])
+
+  const excludedIds = useMemo(
+    () => exclusions.filter((e) => e.category === category).map((e) => e.member_id),
+    [exclusions, category]
+  )
+  const ranking = useMemo(
+    () => (loads ? rankCandidates(strategy, loads, excludedIds) : null),
+    [loads, strategy, excludedIds]
+  )
+  const chosen = ranking?.[0] ?? null
+
+  useEffect(() => {
+    onPick(failed ? null : ranking ? (ranking[0]?.memberId ?? null) : undefined)
+    // onPick change à chaque rendu du parent : seul le résultat compte
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ranking, failed])
+
+  const nameOf = (id: string) => members.find((m) => m.id === id)?.display_name ?? '?'
+
+  const reason = (load: MemberLoad) => {
+    const name = nameOf(load.memberId)
+    if (strategy === 'round_robin') {
+      return load.lastInCategory
+        ? t('autoAssign.reason.roundRobin', { name, category: categoryLabel, date: formatDate(load.lastInCategory) })
+        : t('autoAssign.reason.roundRobinNever', { name, category: categoryLabel })
+    }
+    if (strategy === 'least_points') return t('autoAssign.reason.leastPoints', { name, count: load.weekPoints })
+    return t('autoAssign.reason.leastOpen', { name, count: load.openTasks })
+  }
+
+  const isTie = !!ranking && ranking.length > 1 && compareOnStrategy(strategy, ranking[0], ranking[1]) === 0
+
+  return (
+    <div className="p-4 bg-blue-50/60 border border-blue-100 rounded-lg space-y-3 text-sm">
+      <div className="flex items-center gap-2">
+        <Scale className="w-4 h-4 text-blue-600" />
+        <label className="font-medium text-gray-700">{t('autoAssign.strategy')}</label>
+        <select
+          value={strategy}
+          onChange={(e) => onStrategyChange(e.target.value as AssignStrategy)}
+          className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg bg-white"
+          disabled={disabled}
+        >
+          {ASSIGN_STRATEGIES.map((s) => (
+            <option key={s} value={s}>
+              {t(STRATEGY_LABEL_KEYS[s])}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {failed ? (
+        <p className="text-red-600">{t('autoAssign.unavailable')}</p>
+      ) : !ranking ? (
+        <p className="flex items-center text-gray-500">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" /> {t('autoAssign.loading')}
+        </p>
+      ) : !chosen ? (
+        <p className="text-red-600">{t('autoAssign.nobody')}</p>
+      ) : (
+        <>
+          <div>
+            <p className="font-semibold text-gray-900">{t('autoAssign.chosen', { name: nameOf(chosen.memberId) })}</p>
+            <p className="text-gray-600">{reason(chosen)}</p>
+            {isTie && <p className="text-xs text-gray-500 mt-1">{t('autoAssign.tie')}</p>}
+          </div>
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-medium py-1">{t('autoAssign.col.member')}</th>
+                <th className="font-medium py-1 text-right">{t('autoAssign.col.open')}</th>
+                <th className="font-medium py-1 text-right">{t('autoAssign.col.points')}</th>
+                <th className="font-medium py-1 text-right">{t('autoAssign.col.last')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ranking.map((load) => (
+                <tr
+                  key={load.memberId}
+                  className={load.memberId === chosen.memberId ? 'font-semibold text-blue-700' : 'text-gray-700'}
+                >
+                  <td className="py-0.5">{nameOf(load.memberId)}</td>
+                  <td className="py-0.5 text-right">{load.openTasks}</td>
+                  <td className="py-0.5 text-right">{load.weekPoints}</td>
+                  <td className="py-0.5 text-right">
+                    {load.lastInCategory
+                      ? formatDate(load.lastInCategory, { day: 'numeric', month: 'short' })
+                      : t('autoAssign.never')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {excludedIds.length > 0 && (
+        <p className="text-xs text-gray-500">
+          {t('autoAssign.excluded', { category: categoryLabel, names: excludedIds.map(nameOf).join(', ') })}
+        </p>
+      )}
+    </div>
+  )
+}
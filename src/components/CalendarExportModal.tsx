@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react'
+import { AlertCircle, CalendarPlus, Check, Copy, Download, Loader2, Plus, X } from 'lucide-react'
+import { buildFeedUrl, createFeed, listFeeds, revokeFeed, type CalendarFeed } from '@/lib/calendarFeeds'
+import { buildCalendar } from '@/lib/ical'
+import { listTasks, type MemberMini } from '@/lib/repository'
+
+type Props = {
+  householdId: string
+  householdName: string | null
+  currentMemberId: string
+  members: MemberMini[]
+  categoryLabel: (value: string) => string
+  onClose: () => void
+}
+
+type Component = 'VEVENT' | 'VTODO'
+
+// '' = tout le foyer
+type Scope = string
+
+function downloadFile(content: string, filename: string) {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+function slugify(value: string) {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+}
+
+/**
+ * Export .ics (téléchargement) et abonnements calendrier (foyer ou membre)
+ */
+export default function CalendarExportModal({
+  householdId,
+  householdName,
+  currentMemberId,
+  members,
+  categoryLabel,
+  onClose,
+}: Props) {
+  const [scope, setScope] = useState<Scope>('')
+  const [component, setComponent] = useState<Component>('VEVENT')
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isDownloading, setIsDownloading] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+
+  const memberName = (id: string) => members.find((m) => m.id === id)?.display_name ?? null
+  const scopeLabel = (memberId: string | null) => (memberId ? memberName(memberId) ?? 'Ancien membre' : 'Tout le foyer')
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setFeeds(await listFeeds(householdId))
+      } catch (err: any) {
+        console.error('list feeds error:', err)
+        setError('Impossible de charger les abonnements.')
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [householdId])
+
+  const handleDownload = async () => {
+    if (isDownloading) return
+    setIsDownloading(true)
+    setError(null)
+
+    try {
+      const { data: tasks, error: tasksError } = await listTasks(householdId, { assignedTo: scope || null })
+      if (tasksError) throw tasksError
+
+      const name = householdName || 'Foyer'
+      const calendarName = scope ? `HomeFlow · ${name} · ${scopeLabel(scope)}` : `HomeFlow · ${name}`
+      const ics = buildCalendar(tasks, { calendarName, component, categoryLabel, memberName })
+      downloadFile(ics, `${slugify(calendarName) || 'homeflow'}.ics`)
+    } catch (err: any) {
+      console.error('ics export error:', err)
+      setError(err?.kind === 'network' ? "L'export nécessite une connexion." : "Impossible de générer l'export.")
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  const handleCreateFeed = async () => {
+    if (isCreating) return
+    setIsCreating(true)
+    setError(null)
+
+    try {
+      const feed = await createFeed(householdId, scope || null, currentMemberId)
+      setFeeds((curr) => [feed, ...curr])
+    } catch (err: any) {
+      console.error('create feed error:', err)
+      setError("Impossible de créer le lien d'abonnement.")
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleRevoke = async (feed: CalendarFeed) => {
+    if (!confirm('Révoquer ce lien ? Les calendriers abonnés ne seront plus mis à jour.')) return
+
+    setBusyId(feed.id)
+    setError(null)
+    try {
+      await revokeFeed(feed.id)
+      setFeeds((curr) => curr.filter((f) => f.id !== feed.id))
+    } catch (err: any) {
+      console.error('revoke feed error:', err)
+      setError('Action impossible, réessayez.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const feedUrl = (feed: CalendarFeed, protocol: 'https' | 'webcal' = 'https') => {
+    const url = buildFeedUrl(feed.token, protocol)
+    return component === 'VTODO' ? `${url}&type=todo` : url
+  }
+
+  const handleCopy = async (feed: CalendarFeed) => {
+    try {
+      await navigator.clipboard.writeText(feedUrl(feed))
+      setCopiedId(feed.id)
+      setTimeout(() => setCopiedId(null), 2000)
+    } catch {
+      // ignore : le lien reste accessible via "S'abonner"
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center">
+          <h3 className="text-2xl font-bold text-gray-900">Exporter vers un calendrier</h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Tâches</label>
+              <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Tout le foyer</option>
+                {members.map((m) => (
+                  <option key={m.id} value={m.id}>
+                    Assignées à {m.display_name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Format</label>
+              <select
+                value={component}
+                onChange={(e) => setComponent(e.target.value as Component)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="VEVENT">Événements (Google, Apple Calendrier…)</option>
+                <option value="VTODO">Tâches à faire (Apple Rappels, Thunderbird…)</option>
+              </select>
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Seules les tâches avec une échéance sont exportées. Les tâches récurrentes deviennent des événements
+            répétés ; réimporter le fichier met à jour les événements existants au lieu de les dupliquer.
+          </p>
+
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={handleDownload}
+              disabled={isDownloading}
+              className="flex items-center px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium disabled:opacity-50"
+            >
+              {isDownloading ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Download className="w-5 h-5 mr-2" />}
+              Télécharger (.ics)
+            </button>
+            <button
+              onClick={handleCreateFeed}
+              disabled={isCreating}
+              className="flex items-center px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50"
+            >
+              {isCreating ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Plus className="w-5 h-5 mr-2" />}
+              Créer un lien d'abonnement
+            </button>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Vos abonnements actifs</h4>
+            {loading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+              </div>
+            ) : feeds.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">Aucun lien d'abonnement pour le moment.</p>
+            ) : (
+              <ul className="divide-y border rounded-xl">
+                {feeds.map((feed) => (
+                  <li key={feed.id} className="p-4 flex flex-wrap items-center gap-3">
+                    <span className="font-medium text-gray-900">{scopeLabel(feed.member_id)}</span>
+                    <span className="text-xs text-gray-500">
+                      créé le {new Date(feed.created_at).toLocaleDateString('fr-FR')}
+                    </span>
+
+                    <div className="flex gap-2 ml-auto">
+                      <a
+                        href={feedUrl(feed, 'webcal')}
+                        className="flex items-center px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                        title="Ouvrir dans l'application calendrier"
+                      >
+                        <CalendarPlus className="w-4 h-4 mr-1" /> S'abonner
+                      </a>
+                      <button
+                        onClick={() => handleCopy(feed)}
+                        className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                        title="Copier l'URL (Google Agenda : « À partir de l'URL »)"
+                      >
+                        {copiedId === feed.id ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                      </button>
+                      <button
+                        onClick={() => handleRevoke(feed)}
+                        disabled={busyId === feed.id}
+                        className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded-lg transition"
+                      >
+                        Révoquer
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,384 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import { AlertCircle, Archive, ArchiveRestore, Ban, Camera, Loader2, Pencil, Plus, X } from 'lucide-react'
+import CategoryIcon from '@/components/CategoryIcon'
+import { useI18n } from '@/hooks/useI18n'
+import {
+  CATEGORY_COLORS,
+  CATEGORY_ICONS,
+  categoryBadgeClass,
+  createCategory,
+  slugForLabel,
+  updateCategory,
+  type Category,
+  type CategoryColor,
+} from '@/lib/categories'
+import { listCategoryExclusions, setCategoryExclusion, type CategoryExclusion } from '@/lib/autoAssign'
+import type { MemberMini } from '@/lib/repository'
+
+type Props = {
+  householdId: string
+  categories: Category[]
+  members: MemberMini[]
+  onClose: () => void
+  onChange: (categories: Category[]) => void
+}
+
+type Draft = { label: string; color: string; icon: string; default_points: number; requires_photo: boolean }
+
+const EMPTY_DRAFT: Draft = { label: '', color: 'blue', icon: 'tag', default_points: 10, requires_photo: false }
+
+function CategoryForm({
+  initial,
+  submitLabel,
+  busy,
+  onSubmit,
+  onCancel,
+}: {
+  initial: Draft
+  submitLabel: string
+  busy: boolean
+  onSubmit: (draft: Draft) => void
+  onCancel?: () => void
+}) {
+  const { t } = useI18n()
+  const [draft, setDraft] = useState(initial)
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    if (!draft.label.trim()) return
+    onSubmit({ ...draft, label: draft.label.trim() })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="col-span-2">
+          <label className="block text-xs font-medium text-gray-600 mb-1">{t('categories.name')}</label>
+          <input
+            value={draft.label}
+            onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+            placeholder={t('categories.namePlaceholder')}
+            maxLength={40}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            disabled={busy}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">{t('categories.defaultPoints')}</label>
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={draft.default_points}
+            onChange={(e) =>
+              setDraft({ ...draft, default_points: Math.min(100, Math.max(1, parseInt(e.target.value || '10'))) })
+            }
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            disabled={busy}
+          />
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-xs font-medium text-gray-600 mb-1">{t('categories.color')}</span>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(CATEGORY_COLORS) as CategoryColor[]).map((color) => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => setDraft({ ...draft, color })}
+              className={`w-7 h-7 rounded-full ${CATEGORY_COLORS[color].swatch} ${
+                draft.color === color ? 'ring-2 ring-offset-2 ring-gray-900' : ''
+              }`}
+              title={t(CATEGORY_COLORS[color].label)}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-xs font-medium text-gray-600 mb-1">{t('categories.icon')}</span>
+        <div className="flex flex-wrap gap-1">
+          {CATEGORY_ICONS.map((icon) => (
+            <button
+              key={icon}
+              type="button"
+              onClick={() => setDraft({ ...draft, icon })}
+              className={`p-2 rounded-lg border transition ${
+                draft.icon === icon ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              <CategoryIcon icon={icon} className="w-4 h-4" />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={draft.requires_photo}
+          onChange={(e) => setDraft({ ...draft, requires_photo: e.target.checked })}
+          disabled={busy}
+        />
+        {t('categories.requiresPhoto')}
+      </label>
+
+      <div className="flex items-center justify-between gap-3">
+        <span className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium ${categoryBadgeClass(draft.color)}`}>
+          <CategoryIcon icon={draft.icon} /> {draft.label.trim() || t('categories.preview')}
+        </span>
+        <div className="flex gap-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition"
+            >
+              {t('common.cancel')}
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={busy || !draft.label.trim()}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50"
+          >
+            {busy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {submitLabel}
+          </button>
+        </div>
+      </div>
+    </form>
+  )
+}
+
+/**
+ * Catégories du foyer (parents) : créer, modifier, archiver, exclure des membres de l'attribution automatique
+ * Archiver masque la catégorie à la création sans toucher aux tâches existantes.
+ */
+export default function CategoriesModal({ householdId, categories, members, onClose, onChange }: Props) {
+  const { t } = useI18n()
+  const [error, setError] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [isCreating, setIsCreating] = useState(false)
+  const [formKey, setFormKey] = useState(0)
+  const [exclusions, setExclusions] = useState<CategoryExclusion[]>([])
+
+  useEffect(() => {
+    listCategoryExclusions(householdId)
+      .then(setExclusions)
+      .catch((err) => console.error('load exclusions error:', err))
+  }, [householdId])
+
+  const active = categories.filter((c) => !c.archived)
+  const archived = categories.filter((c) => c.archived)
+
+  const replace = (saved: Category) => onChange(categories.map((c) => (c.id === saved.id ? saved : c)))
+
+  const handleCreate = async (draft: Draft) => {
+    setIsCreating(true)
+    setError(null)
+    try {
+      const created = await createCategory(householdId, {
+        ...draft,
+        slug: slugForLabel(draft.label, categories.map((c) => c.slug)),
+        position: categories.reduce((max, c) => Math.max(max, c.position), 0) + 1,
+      })
+      onChange([...categories, created])
+      setFormKey((k) => k + 1)
+    } catch (err: any) {
+      console.error('create category error:', err)
+      setError(t(err?.code === '23505' ? 'categories.error.exists' : 'categories.error.create'))
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleUpdate = async (category: Category, draft: Draft) => {
+    setBusyId(category.id)
+    setError(null)
+    try {
+      replace(await updateCategory(category.id, draft))
+      setEditingId(null)
+    } catch (err: any) {
+      console.error('update category error:', err)
+      setError(t('categories.error.update'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleArchive = async (category: Category, archivedFlag: boolean) => {
+    if (archivedFlag && active.length <= 1) {
+      setError(t('categories.error.lastActive'))
+      return
+    }
+    setBusyId(category.id)
+    setError(null)
+    try {
+      replace(await updateCategory(category.id, { archived: archivedFlag }))
+    } catch (err: any) {
+      console.error('archive category error:', err)
+      setError(t('categories.error.action'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const isExcluded = (category: Category, memberId: string) =>
+    exclusions.some((e) => e.category === category.slug && e.member_id === memberId)
+
+  const handleToggleExclusion = async (category: Category, memberId: string) => {
+    const excluded = !isExcluded(category, memberId)
+    setBusyId(category.id)
+    setError(null)
+    try {
+      await setCategoryExclusion(householdId, memberId, category.slug, excluded)
+      setExclusions((prev) =>
+        excluded
+          ? [
+              ...prev,
+              { household_id: householdId, member_id: memberId, category: category.slug, created_at: new Date().toISOString() },
+            ]
+          : prev.filter((e) => !(e.category === category.slug && e.member_id === memberId))
+      )
+    } catch (err: any) {
+      console.error('toggle exclusion error:', err)
+      setError(t('categories.error.action'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const row = (category: Category) => (
+    <li key={category.id} className="p-4">
+      {editingId === category.id ? (
+        <CategoryForm
+          initial={{
+            label: category.label,
+            color: category.color,
+            icon: category.icon,
+            default_points: category.default_points,
+            requires_photo: category.requires_photo,
+          }}
+          submitLabel={t('common.save')}
+          busy={busyId === category.id}
+          onSubmit={(draft) => handleUpdate(category, draft)}
+          onCancel={() => setEditingId(null)}
+        />
+      ) : (
+        <>
+          <div className="flex items-center gap-3">
+            <span
+              className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium ${categoryBadgeClass(
+                category.color
+              )} ${category.archived ? 'opacity-60' : ''}`}
+            >
+              <CategoryIcon icon={category.icon} /> {category.label}
+            </span>
+            <span className="text-xs text-gray-500">
+              {t('categories.defaultPointsBadge', { count: category.default_points })}
+            </span>
+            {category.requires_photo && (
+              <span className="flex items-center text-xs text-amber-700" title={t('categories.photoRequired')}>
+                <Camera className="w-3 h-3 mr-1" /> {t('categories.photo')}
+              </span>
+            )}
+
+            <div className="flex gap-1 ml-auto">
+              {!category.archived && (
+                <button
+                  onClick={() => setEditingId(category.id)}
+                  className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition"
+                  title={t('common.edit')}
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+              )}
+              <button
+                onClick={() => handleArchive(category, !category.archived)}
+                disabled={busyId === category.id}
+                className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition disabled:opacity-50"
+                title={t(category.archived ? 'categories.restore' : 'categories.archive')}
+              >
+                {category.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+              </button>
+            </div>
+          </div>
+          {!category.archived && members.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1 mt-2 text-xs">
+              <span className="flex items-center text-gray-500 mr-1">
+                <Ban className="w-3 h-3 mr-1" /> {t('categories.exclude')}
+              </span>
+              {members.map((m) => (
+                <button
+                  key={m.id}
+                  onClick={() => handleToggleExclusion(category, m.id)}
+                  disabled={busyId === category.id}
+                  className={`px-2 py-0.5 rounded-full border transition disabled:opacity-50 ${
+                    isExcluded(category, m.id)
+                      ? 'border-red-300 bg-red-50 text-red-700 line-through'
+                      : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {m.display_name}
+                </button>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </li>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center">
+          <h3 className="text-2xl font-bold text-gray-900">{t('categories.title')}</h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="p-6 space-y-6">
+          <section className="p-4 bg-gray-50 rounded-xl">
+            <h4 className="flex items-center text-sm font-semibold text-gray-700 mb-3">
+              <Plus className="w-4 h-4 mr-1" /> {t('categories.new')}
+            </h4>
+            <CategoryForm
+              key={formKey}
+              initial={EMPTY_DRAFT}
+              submitLabel={t('categories.add')}
+              busy={isCreating}
+              onSubmit={handleCreate}
+            />
+          </section>
+
+          <section>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">{t('categories.active')}</h4>
+            <ul className="divide-y border rounded-xl">{active.map(row)}</ul>
+          </section>
+
+          {archived.length > 0 && (
+            <section>
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">{t('categories.archived')}</h4>
+              <p className="text-xs text-gray-500 mb-2">
+                {t('categories.archivedHint')}
+              </p>
+              <ul className="divide-y border rounded-xl">{archived.map(row)}</ul>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import {
+  Baby,
+  BookOpen,
+  Car,
+  ChefHat,
+  Dumbbell,
+  FileText,
+  Hammer,
+  Heart,
+  Leaf,
+  PawPrint,
+  Shirt,
+  ShoppingCart,
+  Sparkles,
+  Tag,
+  Trash2,
+  type LucideIcon,
+} from 'lucide-react'
+import type { CategoryIconName } from '@/lib/categories'
+
+const ICONS: Record<CategoryIconName, LucideIcon> = {
+  tag: Tag,
+  cart: ShoppingCart,
+  sparkles: Sparkles,
+  hammer: Hammer,
+  chef: ChefHat,
+  file: FileText,
+  shirt: Shirt,
+  baby: Baby,
+  paw: PawPrint,
+  leaf: Leaf,
+  car: Car,
+  trash: Trash2,
+  book: BookOpen,
+  heart: Heart,
+  dumbbell: Dumbbell,
+}
+
+/**
+ * Icône d'une catégorie (clé inconnue → étiquette)
+ */
+export default function CategoryIcon({ icon, className = 'w-3 h-3' }: { icon: string; className?: string }) {
+  const Icon = ICONS[icon as CategoryIconName] ?? Tag
+  return <Icon className={className} />
+}
@@ -0,0 +1,358 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import { AlertCircle, ArrowDown, ArrowUp, ListChecks, Loader2, Plus, Trash2, X } from 'lucide-react'
+import { useI18n } from '@/hooks/useI18n'
+import {
+  addChecklistItem,
+  deleteChecklistItem,
+  listChecklist,
+  reorderChecklist,
+  updateChecklistItem,
+  type ChecklistItem,
+  type ChecklistItemChanges,
+} from '@/lib/checklists'
+import { isNetworkError, type MemberMini, type Task, type TaskChanges } from '@/lib/repository'
+
+type Props = {
+  task: Task
+  members: MemberMini[]
+  onClose: () => void
+  // Compteurs locaux tout de suite (le trigger serveur suit, relayé par Realtime)
+  onProgress: (total: number, done: number) => void
+  onOptionsChange: (changes: Pick<TaskChanges, 'auto_complete' | 'split_points'>) => Promise<unknown>
+  // Parents : structure de la liste + options ; sinon on coche seulement
+  canEdit: boolean
+  // Cocher : un parent, ou l'assigné de la tâche (sinon lecture seule)
+  canCheck: boolean
+}
+
+/**
+ * Liste de contrôle d'une tâche : cocher, réordonner, assigner chaque élément
+ * En ligne uniquement (comme l'historique) ; la tâche elle-même reste utilisable hors ligne.
+ */
+export default function ChecklistModal({
+  task,
+  members,
+  onClose,
+  onProgress,
+  onOptionsChange,
+  canEdit,
+  canCheck,
+}: Props) {
+  const { t, formatDate } = useI18n()
+  const [items, setItems] = useState<ChecklistItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [newTitle, setNewTitle] = useState('')
+  const [newAssignee, setNewAssignee] = useState('')
+  const [isAdding, setIsAdding] = useState(false)
+  const [savingOption, setSavingOption] = useState(false)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setItems(await listChecklist(task.id))
+      } catch (err: any) {
+        console.error('checklist load error:', err)
+        setError(t(isNetworkError(err) ? 'checklist.error.offline' : 'checklist.error.load'))
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [task.id])
+
+  const memberName = (id: string | null) => {
+    if (!id) return t('tasks.someone')
+    return members.find((m) => m.id === id)?.display_name ?? t('common.formerMember')
+  }
+
+  const commit = (next: ChecklistItem[]) => {
+    setItems(next)
+    onProgress(next.length, next.filter((i) => i.done).length)
+  }
+
+  const handleAdd = async (e: FormEvent) => {
+    e.preventDefault()
+    const title = newTitle.trim()
+    if (!title || isAdding) return
+
+    setIsAdding(true)
+    setError(null)
+    try {
+      const position = items.reduce((max, i) => Math.max(max, i.position), 0) + 1
+      const item = await addChecklistItem(task, { title, assigned_to: newAssignee || null, position })
+      commit([...items, item])
+      setNewTitle('')
+    } catch (err: any) {
+      console.error('checklist add error:', err)
+      setError(t('checklist.error.add'))
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleUpdate = async (item: ChecklistItem, changes: ChecklistItemChanges) => {
+    setBusyId(item.id)
+    setError(null)
+    // Optimiste : la case se coche sans attendre le serveur
+    commit(items.map((i) => (i.id === item.id ? { ...i, ...changes } : i)))
+
+    try {
+      const saved = await updateChecklistItem(item.id, changes)
+      setItems((curr) =>
+        saved ? curr.map((i) => (i.id === item.id ? saved : i)) : curr.filter((i) => i.id !== item.id)
+      )
+    } catch (err: any) {
+      console.error('checklist update error:', err)
+      setError(t('checklist.error.action'))
+      commit(items)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRename = (item: ChecklistItem, value: string) => {
+    const title = value.trim()
+    if (!title || title === item.title) return
+    handleUpdate(item, { title })
+  }
+
+  const handleDelete = async (item: ChecklistItem) => {
+    setBusyId(item.id)
+    setError(null)
+    try {
+      await deleteChecklistItem(item.id)
+      commit(items.filter((i) => i.id !== item.id))
+    } catch (err: any) {
+      console.error('checklist delete error:', err)
+      setError(t('checklist.error.action'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= items.length) return
+
+    const previous = items
+    const next = [...items]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    setItems(next.map((item, i) => ({ ...item, position: i + 1 })))
+
+    try {
+      await reorderChecklist(task.id, next.map((i) => i.id))
+    } catch (err: any) {
+      console.error('checklist reorder error:', err)
+      setError(t('checklist.error.reorder'))
+      setItems(previous)
+    }
+  }
+
+  const handleOption = async (changes: Pick<TaskChanges, 'auto_complete' | 'split_points'>) => {
+    setSavingOption(true)
+    setError(null)
+    try {
+      await onOptionsChange(changes)
+    } catch (err: any) {
+      console.error('checklist option error:', err)
+      setError(t('checklist.error.option'))
+    } finally {
+      setSavingOption(false)
+    }
+  }
+
+  const doneCount = items.filter((i) => i.done).length
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center gap-4">
+          <div className="min-w-0">
+            <h3 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <ListChecks className="w-6 h-6 text-blue-600" /> {t('tasks.checklist')}
+            </h3>
+            <p className="text-sm text-gray-500 truncate">{task.title}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="p-6 space-y-5">
+          {items.length > 0 && (
+            <div>
+              <div className="flex justify-between text-sm text-gray-600 mb-1">
+                <span>{t('checklist.progress')}</span>
+                <span className="font-medium">
+                  {doneCount}/{items.length}
+                </span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-green-500 transition-all"
+                  style={{ width: `${(doneCount / items.length) * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+            </div>
+          ) : (
+            <ul className="space-y-2">
+              {items.map((item, index) => (
+                <li key={item.id} className="flex items-start gap-2 p-2 rounded-lg border border-gray-100 hover:bg-gray-50">
+                  <input
+                    type="checkbox"
+                    checked={item.done}
+                    disabled={!canCheck || busyId === item.id}
+                    onChange={(e) => handleUpdate(item, { done: e.target.checked })}
+                    className="mt-2 w-4 h-4 accent-green-600"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <input
+                      key={item.title}
+                      defaultValue={item.title}
+                      readOnly={!canEdit}
+                      onBlur={(e) => handleRename(item, e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') e.currentTarget.blur()
+                      }}
+                      className={`w-full px-2 py-1 rounded border border-transparent hover:border-gray-200 focus:border-blue-400 focus:outline-none text-sm ${
+                        item.done ? 'line-through text-gray-500' : 'text-gray-900'
+                      }`}
+                    />
+                    <div className="flex flex-wrap items-center gap-2 px-2 mt-1">
+                      <select
+                        value={item.assigned_to ?? ''}
+                        onChange={(e) => handleUpdate(item, { assigned_to: e.target.value || null })}
+                        disabled={!canEdit}
+                        className="text-xs text-gray-600 bg-transparent border border-gray-200 rounded px-1 py-0.5"
+                      >
+                        <option value="">{t('tasks.form.unassigned')}</option>
+                        {members.map((m) => (
+                          <option key={m.id} value={m.id}>
+                            {m.display_name}
+                          </option>
+                        ))}
+                      </select>
+                      {item.done && item.completed_at && (
+                        <span className="text-xs text-gray-400">
+                          ✓ {memberName(item.completed_by)},{' '}
+                          {formatDate(item.completed_at, { day: 'numeric', month: 'short' })}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  {canEdit && (
+                    <div className="flex items-center">
+                      <button
+                        onClick={() => handleMove(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                        title={t('checklist.moveUp')}
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleMove(index, 1)}
+                        disabled={index === items.length - 1}
+                        className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                        title={t('checklist.moveDown')}
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(item)}
+                        disabled={busyId === item.id}
+                        className="p-1 text-red-500 hover:bg-red-50 rounded"
+                        title={t('common.delete')}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+              {items.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-4">
+                  {t('checklist.emptyHint')}
+                </p>
+              )}
+            </ul>
+          )}
+
+          {canEdit && (
+            <form onSubmit={handleAdd} className="flex gap-2">
+              <input
+                value={newTitle}
+                onChange={(e) => setNewTitle(e.target.value)}
+                placeholder={t('checklist.newItem')}
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <select
+                value={newAssignee}
+                onChange={(e) => setNewAssignee(e.target.value)}
+                className="w-32 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="">{t('checklist.nobody')}</option>
+                {members.map((m) => (
+                  <option key={m.id} value={m.id}>
+                    {m.display_name}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                disabled={!newTitle.trim() || isAdding || loading}
+                className="flex items-center px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                title={t('checklist.add')}
+              >
+                {isAdding ? <Loader2 className="w-5 h-5 animate-spin" /> : <Plus className="w-5 h-5" />}
+              </button>
+            </form>
+          )}
+
+          {canEdit && (
+            <div className="pt-4 border-t space-y-3">
+              <label className="flex items-start gap-3 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={task.auto_complete}
+                  disabled={savingOption}
+                  onChange={(e) => handleOption({ auto_complete: e.target.checked })}
+                  className="mt-0.5 w-4 h-4"
+                />
+                <span>{t('checklist.autoComplete')}</span>
+              </label>
+              <label className="flex items-start gap-3 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={task.split_points}
+                  disabled={savingOption}
+                  onChange={(e) => handleOption({ split_points: e.target.checked })}
+                  className="mt-0.5 w-4 h-4"
+                />
+                <span>
+                  {t('checklist.splitPoints', { count: task.points })}
+                  <span className="block text-xs text-gray-500">{t('checklist.splitPointsHint')}</span>
+                </span>
+              </label>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,373 @@
+import { useEffect, useRef, useState, type FormEvent } from 'react'
+import { AlertCircle, Loader2, MessageSquare, Pencil, Send, Trash2, X } from 'lucide-react'
+import { useI18n } from '@/hooks/useI18n'
+import { supabase } from '@/lib/supabase'
+import {
+  addComment,
+  deleteComment,
+  extractMentions,
+  listComments,
+  mentionQueryAt,
+  splitMentions,
+  updateComment,
+  type TaskComment,
+} from '@/lib/comments'
+import { isNetworkError, type MemberMini, type Task } from '@/lib/repository'
+
+type Props = {
+  task: Task
+  members: MemberMini[]
+  currentUserId: string
+  onClose: () => void
+  // Compteur local tout de suite (le trigger serveur suit, relayé par Realtime)
+  onCountChange: (count: number) => void
+}
+
+function CommentForm({
+  initial,
+  members,
+  submitLabel,
+  busy,
+  onSubmit,
+  onCancel,
+}: {
+  initial: string
+  members: MemberMini[]
+  submitLabel: string
+  busy: boolean
+  onSubmit: (body: string) => Promise<boolean>
+  onCancel?: () => void
+}) {
+  const { t } = useI18n()
+  const [body, setBody] = useState(initial)
+  const [caret, setCaret] = useState(initial.length)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  const mention = mentionQueryAt(body, caret)
+  const suggestions = mention
+    ? members.filter((m) => m.display_name.toLowerCase().startsWith(mention.query.toLowerCase())).slice(0, 5)
+    : []
+
+  const insertMention = (member: MemberMini) => {
+    if (!mention) return
+    const before = body.slice(0, mention.start)
+    const after = body.slice(caret)
+    const inserted = `@${member.display_name} `
+    setBody(before + inserted + after)
+    const nextCaret = before.length + inserted.length
+    setCaret(nextCaret)
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret)
+    })
+  }
+
+  const handleSubmit = async (e?: FormEvent) => {
+    e?.preventDefault()
+    const trimmed = body.trim()
+    if (!trimmed || busy) return
+    if (await onSubmit(trimmed)) {
+      setBody('')
+      setCaret(0)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="relative">
+        <textarea
+          ref={textareaRef}
+          value={body}
+          onChange={(e) => {
+            setBody(e.target.value)
+            setCaret(e.target.selectionStart)
+          }}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleSubmit()
+          }}
+          placeholder={t('comments.placeholder')}
+          rows={initial ? 3 : 2}
+          maxLength={2000}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          disabled={busy}
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute left-2 bottom-full mb-1 w-56 bg-white border border-gray-200 rounded-lg shadow-lg z-10 py-1">
+            {suggestions.map((m) => (
+              <li key={m.id}>
+                <button
+                  type="button"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => insertMention(m)}
+                  className="w-full text-left px-3 py-1.5 text-sm hover:bg-blue-50"
+                >
+                  @{m.display_name}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition"
+          >
+            {t('common.cancel')}
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={busy || !body.trim()}
+          className="flex items-center px-4 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition text-sm font-medium disabled:opacity-50"
+        >
+          {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+/**
+ * Fil de commentaires d'une tâche : @mentions, modification / suppression de ses propres messages
+ * En ligne uniquement (comme la liste de contrôle) ; les messages des autres arrivent par Realtime.
+ */
+export default function CommentsModal({ task, members, currentUserId, onClose, onCountChange }: Props) {
+  const { t, formatDate } = useI18n()
+  const [comments, setComments] = useState<TaskComment[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [isPosting, setIsPosting] = useState(false)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setComments(await listComments(task.id))
+      } catch (err: any) {
+        console.error('comments load error:', err)
+        setError(t(isNetworkError(err) ? 'comments.error.offline' : 'comments.error.load'))
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [task.id])
+
+  useEffect(() => {
+    const upsert = (comment: TaskComment) =>
+      setComments((prev) =>
+        prev.some((c) => c.id === comment.id)
+          ? prev.map((c) => (c.id === comment.id ? comment : c))
+          : [...prev, comment]
+      )
+
+    const filter = `task_id=eq.${task.id}`
+    const channel = supabase
+      .channel(`task_comments:${task.id}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'task_comments', filter }, (payload) =>
+        upsert(payload.new as TaskComment)
+      )
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'task_comments', filter }, (payload) =>
+        upsert(payload.new as TaskComment)
+      )
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'task_comments' }, (payload) => {
+        const commentId = (payload.old as Partial<TaskComment>)?.id
+        if (commentId) setComments((prev) => prev.filter((c) => c.id !== commentId))
+      })
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [task.id])
+
+  const count = comments.length
+  useEffect(() => {
+    if (loading) return
+    onCountChange(count)
+    bottomRef.current?.scrollIntoView({ block: 'nearest' })
+    // onCountChange change à chaque rendu du parent : seul le compteur compte
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [count, loading])
+
+  const memberName = (id: string | null) => {
+    if (!id) return t('common.formerMember')
+    return members.find((m) => m.id === id)?.display_name ?? t('common.formerMember')
+  }
+
+  const handlePost = async (body: string) => {
+    setIsPosting(true)
+    setError(null)
+    try {
+      const created = await addComment(task, currentUserId, body, extractMentions(body, members))
+      setComments((prev) => (prev.some((c) => c.id === created.id) ? prev : [...prev, created]))
+      return true
+    } catch (err: any) {
+      console.error('comment add error:', err)
+      setError(t(isNetworkError(err) ? 'comments.error.sendOffline' : 'comments.error.send'))
+      return false
+    } finally {
+      setIsPosting(false)
+    }
+  }
+
+  const handleEdit = async (comment: TaskComment, body: string) => {
+    if (body === comment.body) {
+      setEditingId(null)
+      return true
+    }
+    setBusyId(comment.id)
+    setError(null)
+    try {
+      const saved = await updateComment(comment.id, body, extractMentions(body, members))
+      setComments((prev) => prev.map((c) => (c.id === saved.id ? saved : c)))
+      setEditingId(null)
+      return true
+    } catch (err: any) {
+      console.error('comment update error:', err)
+      setError(t('comments.error.update'))
+      return false
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (comment: TaskComment) => {
+    if (!window.confirm(t('comments.deleteConfirm'))) return
+    setBusyId(comment.id)
+    setError(null)
+    try {
+      await deleteComment(comment.id)
+      setComments((prev) => prev.filter((c) => c.id !== comment.id))
+    } catch (err: any) {
+      console.error('comment delete error:', err)
+      setError(t('comments.error.delete'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] flex flex-col">
+        <div className="bg-white border-b px-6 py-4 flex justify-between items-center gap-4 rounded-t-2xl">
+          <div className="min-w-0">
+            <h3 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <MessageSquare className="w-6 h-6 text-blue-600" /> {t('comments.title')}
+            </h3>
+            <p className="text-sm text-gray-500 truncate">{task.title}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+            </div>
+          ) : comments.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-6">{t('comments.empty')}</p>
+          ) : (
+            <ul className="space-y-4">
+              {comments.map((comment) => {
+                const isMine = comment.author_id === currentUserId
+                return (
+                  <li key={comment.id} className="group">
+                    <div className="flex items-baseline gap-2">
+                      <span className="text-sm font-semibold text-gray-900">{memberName(comment.author_id)}</span>
+                      <span className="text-xs text-gray-400">
+                        {formatDate(comment.created_at, {
+                          day: 'numeric',
+                          month: 'short',
+                          hour: '2-digit',
+                          minute: '2-digit',
+                        })}
+                        {comment.edited_at && ` · ${t('comments.edited')}`}
+                      </span>
+                      {isMine && editingId !== comment.id && (
+                        <div className="ml-auto flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition">
+                          <button
+                            onClick={() => setEditingId(comment.id)}
+                            disabled={busyId === comment.id}
+                            className="p-1 text-gray-500 hover:bg-gray-100 rounded"
+                            title={t('common.edit')}
+                          >
+                            <Pencil className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(comment)}
+                            disabled={busyId === comment.id}
+                            className="p-1 text-red-600 hover:bg-red-50 rounded"
+                            title={t('common.delete')}
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    {editingId === comment.id ? (
+                      <div className="mt-1">
+                        <CommentForm
+                          initial={comment.body}
+                          members={members}
+                          submitLabel={t('common.save')}
+                          busy={busyId === comment.id}
+                          onSubmit={(body) => handleEdit(comment, body)}
+                          onCancel={() => setEditingId(null)}
+                        />
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">
+                        {splitMentions(comment.body, members).map((segment, i) =>
+                          segment.memberId ? (
+                            <span
+                              key={i}
+                              className={`font-medium rounded px-0.5 ${
+                                segment.memberId === currentUserId ? 'bg-yellow-100 text-yellow-800' : 'text-blue-700'
+                              }`}
+                            >
+                              {segment.text}
+                            </span>
+                          ) : (
+                            <span key={i}>{segment.text}</span>
+                          )
+                        )}
+                      </p>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        <div className="border-t p-4">
+          <CommentForm
+            initial=""
+            members={members}
+            submitLabel={t('comments.send')}
+            busy={isPosting}
+            onSubmit={handlePost}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
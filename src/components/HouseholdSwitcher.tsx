@@ -0,0 +1,88 @@
+import { useEffect, useRef, useState } from 'react'
+import { Check, ChevronDown, Plus } from 'lucide-react'
+import { useI18n } from '@/hooks/useI18n'
+import { ROLE_LABEL_KEYS } from '@/lib/permissions'
+import type { Membership } from '@/lib/repository'
+
+type Props = {
+  memberships: Membership[]
+  currentHouseholdId: string | null
+  currentHouseholdName: string | null
+  // Hors ligne : seul le foyer en cache est disponible
+  disabled?: boolean
+  onSwitch: (membership: Membership) => void
+  onAdd: () => void
+}
+
+/**
+ * Sélecteur de foyer (nav) : passer d'un foyer à l'autre, ou en créer / rejoindre un autre
+ */
+export default function HouseholdSwitcher({
+  memberships,
+  currentHouseholdId,
+  currentHouseholdName,
+  disabled = false,
+  onSwitch,
+  onAdd,
+}: Props) {
+  const { t } = useI18n()
+  const [open, setOpen] = useState(false)
+  const ref = useRef<HTMLDivElement>(null)
+
+  // Fermeture au clic en dehors
+  useEffect(() => {
+    if (!open) return
+    const onPointerDown = (e: PointerEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('pointerdown', onPointerDown)
+    return () => document.removeEventListener('pointerdown', onPointerDown)
+  }, [open])
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        disabled={disabled}
+        className="flex items-center gap-1 px-2 py-1 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition disabled:hover:bg-transparent"
+        title={t('households.switch')}
+      >
+        <span className="max-w-[12rem] truncate">{currentHouseholdName || t('households.fallbackName')}</span>
+        {!disabled && <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {open && (
+        <div className="absolute left-0 mt-2 w-64 bg-white rounded-xl shadow-xl border border-gray-100 py-1 z-40">
+          {memberships.map((m) => (
+            <button
+              key={m.householdId}
+              onClick={() => {
+                setOpen(false)
+                if (m.householdId !== currentHouseholdId) onSwitch(m)
+              }}
+              className="w-full flex items-center gap-2 px-4 py-2 text-left text-sm hover:bg-gray-50"
+            >
+              <span className="flex-1 min-w-0">
+                <span className="block truncate font-medium text-gray-900">{m.householdName}</span>
+                <span className="block text-xs text-gray-500">
+                  {m.displayName} · {t(ROLE_LABEL_KEYS[m.role])}
+                </span>
+              </span>
+              {m.householdId === currentHouseholdId && <Check className="w-4 h-4 text-blue-600" />}
+            </button>
+          ))}
+          <div className="border-t my-1" />
+          <button
+            onClick={() => {
+              setOpen(false)
+              onAdd()
+            }}
+            className="w-full flex items-center gap-2 px-4 py-2 text-left text-sm text-blue-600 hover:bg-blue-50"
+          >
+            <Plus className="w-4 h-4" /> {t('households.add')}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
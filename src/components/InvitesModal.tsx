@@ -0,0 +1,242 @@
+import { useEffect, useState } from 'react'
+import { AlertCircle, Check, Copy, Loader2, Plus, X } from 'lucide-react'
+import { useI18n } from '@/hooks/useI18n'
+import {
+  buildInviteLink,
+  createInvite,
+  expireInvite,
+  getInviteStatus,
+  listInvites,
+  revokeInvite,
+  type HouseholdInvite,
+  type InviteRole,
+  type InviteStatus,
+} from '@/lib/households'
+import { ROLE_LABEL_KEYS } from '@/lib/permissions'
+
+type Props = {
+  householdId: string
+  currentMemberId: string
+  onClose: () => void
+}
+
+const STATUS_LABELS: Record<InviteStatus, { label: string; color: string }> = {
+  active: { label: 'Actif', color: 'bg-green-100 text-green-700' },
+  expired: { label: 'Expiré', color: 'bg-gray-100 text-gray-600' },
+  revoked: { label: 'Révoqué', color: 'bg-red-100 text-red-700' },
+  used_up: { label: 'Épuisé', color: 'bg-gray-100 text-gray-600' },
+}
+
+const INVITE_ROLES: InviteRole[] = ['parent', 'child']
+
+const EXPIRY_OPTIONS = [
+  { value: '1', label: '24 heures' },
+  { value: '7', label: '7 jours' },
+  { value: '30', label: '30 jours' },
+  { value: '', label: 'Jamais' },
+]
+
+export default function InvitesModal({ householdId, currentMemberId, onClose }: Props) {
+  const { t } = useI18n()
+  const [invites, setInvites] = useState<HouseholdInvite[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+
+  const [expiresInDays, setExpiresInDays] = useState('7')
+  const [maxUses, setMaxUses] = useState('')
+  const [role, setRole] = useState<InviteRole>('parent')
+  const [isCreating, setIsCreating] = useState(false)
+
+  const reload = async () => {
+    try {
+      setInvites(await listInvites(householdId))
+    } catch (err: any) {
+      console.error('list invites error:', err)
+      setError('Impossible de charger les invitations.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    reload()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [householdId])
+
+  const handleCreate = async () => {
+    if (isCreating) return
+    setIsCreating(true)
+    setError(null)
+
+    try {
+      const invite = await createInvite(householdId, currentMemberId, {
+        expiresInDays: expiresInDays === '' ? null : parseInt(expiresInDays),
+        maxUses: maxUses === '' ? null : Math.max(1, parseInt(maxUses)),
+        role,
+      })
+      setInvites((curr) => [invite, ...curr])
+    } catch (err: any) {
+      console.error('create invite error:', err)
+      setError("Impossible de générer l'invitation.")
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleAction = async (invite: HouseholdInvite, action: 'expire' | 'revoke') => {
+    if (action === 'revoke' && !confirm('Révoquer ce code ? Il ne pourra plus être utilisé.')) return
+
+    setBusyId(invite.id)
+    setError(null)
+    try {
+      if (action === 'expire') await expireInvite(invite.id)
+      else await revokeInvite(invite.id)
+      await reload()
+    } catch (err: any) {
+      console.error('invite action error:', err)
+      setError('Action impossible, réessayez.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleCopy = async (invite: HouseholdInvite) => {
+    try {
+      await navigator.clipboard.writeText(buildInviteLink(invite.code))
+      setCopiedId(invite.id)
+      setTimeout(() => setCopiedId(null), 2000)
+    } catch {
+      // ignore : le code reste affiché
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center">
+          <h3 className="text-2xl font-bold text-gray-900">Inviter dans le foyer</h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Rôle</label>
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as InviteRole)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={isCreating}
+              >
+                {INVITE_ROLES.map((r) => (
+                  <option key={r} value={r}>
+                    {t(ROLE_LABEL_KEYS[r])}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Expiration</label>
+              <select
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={isCreating}
+              >
+                {EXPIRY_OPTIONS.map((o) => (
+                  <option key={o.label} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Utilisations max</label>
+              <input
+                type="number"
+                min="1"
+                value={maxUses}
+                onChange={(e) => setMaxUses(e.target.value)}
+                placeholder="Illimité"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={isCreating}
+              />
+            </div>
+            <button
+              onClick={handleCreate}
+              disabled={isCreating}
+              className="flex items-center justify-center px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50"
+            >
+              {isCreating ? <Loader2 className="w-5 h-5 animate-spin" /> : <Plus className="w-5 h-5 mr-1" />}
+              Générer
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+            </div>
+          ) : invites.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">Aucun code d’invitation pour le moment.</p>
+          ) : (
+            <ul className="divide-y border rounded-xl">
+              {invites.map((invite) => {
+                const status = getInviteStatus(invite)
+                const style = STATUS_LABELS[status]
+                return (
+                  <li key={invite.id} className="p-4 flex flex-wrap items-center gap-3">
+                    <span className="font-mono text-lg tracking-widest text-gray-900">{invite.code}</span>
+                    <span className={`px-3 py-1 rounded-full text-xs font-medium ${style.color}`}>{style.label}</span>
+                    <span className="text-xs text-gray-600">{t(ROLE_LABEL_KEYS[invite.role])}</span>
+                    <span className="text-xs text-gray-500">
+                      {invite.use_count}
+                      {invite.max_uses !== null ? `/${invite.max_uses}` : ''} utilisation(s)
+                      {invite.expires_at && ` • expire le ${new Date(invite.expires_at).toLocaleDateString('fr-FR')}`}
+                    </span>
+
+                    {status === 'active' && (
+                      <div className="flex gap-2 ml-auto">
+                        <button
+                          onClick={() => handleCopy(invite)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                          title="Copier le lien"
+                        >
+                          {copiedId === invite.id ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                        </button>
+                        <button
+                          onClick={() => handleAction(invite, 'expire')}
+                          disabled={busyId === invite.id}
+                          className="px-3 py-1 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition"
+                        >
+                          Expirer
+                        </button>
+                        <button
+                          onClick={() => handleAction(invite, 'revoke')}
+                          disabled={busyId === invite.id}
+                          className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded-lg transition"
+                        >
+                          Révoquer
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
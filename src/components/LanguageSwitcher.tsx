@@ -0,0 +1,46 @@
+import { Languages } from 'lucide-react'
+import { useI18n } from '@/hooks/useI18n'
+import { isLocale, LOCALES, saveLocalePreference } from '@/lib/i18n'
+import { useAuthStore } from '@/store/authStore'
+
+type Props = {
+  className?: string
+}
+
+/**
+ * Choix de la langue : appliqué tout de suite, puis mémorisé sur le compte si connecté
+ */
+export default function LanguageSwitcher({ className = '' }: Props) {
+  const { locale, setLocale, t } = useI18n()
+  const user = useAuthStore((s) => s.user)
+
+  const handleChange = async (value: string) => {
+    if (!isLocale(value) || value === locale) return
+    setLocale(value)
+    if (!user) return
+    try {
+      await saveLocalePreference(value)
+    } catch (err: any) {
+      // La langue reste appliquée sur cet appareil
+      console.error('save locale error:', err)
+    }
+  }
+
+  return (
+    <label className={`flex items-center gap-1 text-sm text-gray-600 ${className}`} title={t('common.language')}>
+      <Languages className="w-4 h-4" />
+      <select
+        value={locale}
+        onChange={(e) => handleChange(e.target.value)}
+        aria-label={t('common.language')}
+        className="bg-transparent border-none focus:ring-0 cursor-pointer pr-1"
+      >
+        {LOCALES.map((l) => (
+          <option key={l.value} value={l.value}>
+            {l.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
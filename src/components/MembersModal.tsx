@@ -0,0 +1,111 @@
+import { useState } from 'react'
+import { AlertCircle, Loader2, X } from 'lucide-react'
+import { useI18n } from '@/hooks/useI18n'
+import { onboardingErrorMessage, updateMemberRole, type MemberRole } from '@/lib/households'
+import type { MessageKey } from '@/lib/i18n'
+import { ROLE_LABEL_KEYS } from '@/lib/permissions'
+import type { MemberMini } from '@/lib/repository'
+
+type Props = {
+  householdId: string
+  currentMemberId: string
+  members: MemberMini[]
+  onClose: () => void
+  onChange: (members: MemberMini[]) => void
+}
+
+const ROLE_HINT_KEYS: Record<MemberRole, MessageKey> = {
+  admin: 'roles.hint.admin',
+  parent: 'roles.hint.parent',
+  child: 'roles.hint.child',
+}
+
+/**
+ * Membres du foyer (admins) : changer le rôle de chacun
+ * La base refuse de rétrograder le dernier admin (LAST_ADMIN).
+ */
+export default function MembersModal({ householdId, currentMemberId, members, onClose, onChange }: Props) {
+  const { locale, t } = useI18n()
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const adminCount = members.filter((m) => m.role === 'admin').length
+
+  const handleRoleChange = async (member: MemberMini, role: MemberRole) => {
+    if (role === member.role) return
+    if (member.id === currentMemberId && !confirm(t('members.selfRoleConfirm'))) {
+      return
+    }
+
+    setBusyId(member.id)
+    setError(null)
+    try {
+      await updateMemberRole(householdId, member.id, role)
+      onChange(members.map((m) => (m.id === member.id ? { ...m, role } : m)))
+    } catch (err: any) {
+      console.error('update member role error:', err)
+      setError(onboardingErrorMessage(err, locale))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center">
+          <h3 className="text-2xl font-bold text-gray-900">{t('members.title')}</h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="p-6 space-y-4">
+          <ul className="divide-y border rounded-xl">
+            {members.map((member) => {
+              // Le dernier admin ne peut pas être rétrogradé
+              const locked = member.role === 'admin' && adminCount <= 1
+              return (
+                <li key={member.id} className="p-4 flex flex-wrap items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 truncate">
+                      {member.display_name}
+                      {member.id === currentMemberId && (
+                        <span className="ml-2 text-xs text-gray-500">{t('members.you')}</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">{t(ROLE_HINT_KEYS[member.role])}</p>
+                  </div>
+                  {busyId === member.id && <Loader2 className="w-4 h-4 animate-spin text-blue-600" />}
+                  <select
+                    value={member.role}
+                    onChange={(e) => handleRoleChange(member, e.target.value as MemberRole)}
+                    disabled={busyId !== null || locked}
+                    title={locked ? t('errors.lastAdmin') : undefined}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                  >
+                    {(Object.keys(ROLE_LABEL_KEYS) as MemberRole[]).map((r) => (
+                      <option key={r} value={r}>
+                        {t(ROLE_LABEL_KEYS[r])}
+                      </option>
+                    ))}
+                  </select>
+                </li>
+              )
+            })}
+          </ul>
+          <p className="text-xs text-gray-500">
+            {t('members.inviteRoleHint')}
+          </p>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from 'react'
+import {
+  AlertTriangle,
+  AtSign,
+  Bell,
+  CheckCircle2,
+  Clock,
+  Hourglass,
+  Settings,
+  Siren,
+  UserPlus,
+  XCircle,
+} from 'lucide-react'
+import { useI18n } from '@/hooks/useI18n'
+import { useNotifications } from '@/hooks/useNotifications'
+import {
+  NOTIFICATION_KINDS,
+  NOTIFICATION_LABEL_KEYS,
+  browserNotificationPermission,
+  requestBrowserNotificationPermission,
+  type NotificationKind,
+} from '@/lib/notifications'
+import { parseDateOnly } from '@/lib/recurrence'
+
+type Props = {
+  householdId: string | null
+  memberId: string | null
+  // Hors ligne : la cloche reste visible mais inactive
+  disabled?: boolean
+}
+
+const KIND_ICONS: Record<NotificationKind, JSX.Element> = {
+  task_assigned: <UserPlus className="w-4 h-4 text-blue-600" />,
+  task_due_soon: <Clock className="w-4 h-4 text-amber-600" />,
+  task_overdue: <AlertTriangle className="w-4 h-4 text-red-600" />,
+  task_escalated: <Siren className="w-4 h-4 text-red-600" />,
+  comment_mention: <AtSign className="w-4 h-4 text-purple-600" />,
+  approval_requested: <Hourglass className="w-4 h-4 text-amber-600" />,
+  task_approved: <CheckCircle2 className="w-4 h-4 text-green-600" />,
+  task_rejected: <XCircle className="w-4 h-4 text-red-600" />,
+}
+
+/**
+ * Cloche (nav) : notifications du foyer courant, compteur de non lues, préférences d'alerte
+ */
+export default function NotificationCenter({ householdId, memberId, disabled = false }: Props) {
+  const { t, formatDate } = useI18n()
+  const { notifications, unreadCount, preferences, markRead, markAllRead, updatePreferences } = useNotifications(
+    disabled ? null : householdId,
+    memberId
+  )
+
+  const [open, setOpen] = useState(false)
+  const [showSettings, setShowSettings] = useState(false)
+  const [permission, setPermission] = useState(browserNotificationPermission)
+  const ref = useRef<HTMLDivElement>(null)
+
+  // Fermeture au clic en dehors
+  useEffect(() => {
+    if (!open) return
+    const onPointerDown = (e: PointerEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('pointerdown', onPointerDown)
+    return () => document.removeEventListener('pointerdown', onPointerDown)
+  }, [open])
+
+  const handleBrowserToggle = async (enabled: boolean) => {
+    if (enabled && permission !== 'granted') {
+      const result = await requestBrowserNotificationPermission()
+      setPermission(result)
+      if (result !== 'granted') return
+    }
+    updatePreferences({ ...preferences, browser_enabled: enabled })
+  }
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        disabled={disabled}
+        className="relative p-2 text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition disabled:opacity-50 disabled:hover:bg-transparent"
+        title={unreadCount > 0 ? t('notifications.unread', { count: unreadCount }) : t('notifications.title')}
+        aria-label={t('notifications.title')}
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-semibold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-xl shadow-xl border border-gray-100 z-40">
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <h3 className="font-semibold text-gray-900">{t('notifications.title')}</h3>
+            <div className="flex items-center gap-2">
+              {unreadCount > 0 && (
+                <button onClick={markAllRead} className="text-xs text-blue-600 hover:underline">
+                  {t('notifications.markAllRead')}
+                </button>
+              )}
+              <button
+                onClick={() => setShowSettings((v) => !v)}
+                className={`p-1 rounded-lg transition ${showSettings ? 'bg-gray-100 text-gray-900' : 'text-gray-500 hover:bg-gray-100'}`}
+                title={t('notifications.settings')}
+              >
+                <Settings className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {showSettings && (
+            <div className="px-4 py-3 border-b bg-gray-50 space-y-2 text-sm">
+              <label className="flex items-start gap-2 text-gray-700">
+                <input
+                  type="checkbox"
+                  className="mt-0.5"
+                  checked={preferences.browser_enabled && permission === 'granted'}
+                  onChange={(e) => handleBrowserToggle(e.target.checked)}
+                  disabled={permission === 'unsupported' || permission === 'denied'}
+                />
+                {t('notifications.browser')}
+              </label>
+              {permission === 'denied' && <p className="text-xs text-red-600">{t('notifications.browserDenied')}</p>}
+              {permission === 'unsupported' && (
+                <p className="text-xs text-gray-500">{t('notifications.browserUnsupported')}</p>
+              )}
+              <p className="text-xs font-medium text-gray-500 pt-1">{t('notifications.notifyFor')}</p>
+              {NOTIFICATION_KINDS.map((kind) => (
+                <label key={kind} className="flex items-center gap-2 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={preferences[kind]}
+                    onChange={(e) => updatePreferences({ ...preferences, [kind]: e.target.checked })}
+                    disabled={!preferences.browser_enabled}
+                  />
+                  {t(NOTIFICATION_LABEL_KEYS[kind])}
+                </label>
+              ))}
+            </div>
+          )}
+
+          <ul className="max-h-96 overflow-y-auto divide-y">
+            {notifications.length === 0 ? (
+              <li className="px-4 py-8 text-center text-sm text-gray-500">{t('notifications.empty')}</li>
+            ) : (
+              notifications.map((n) => (
+                <li key={n.id}>
+                  <button
+                    onClick={() => markRead([n.id])}
+                    className={`w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-gray-50 ${
+                      n.read_at ? '' : 'bg-blue-50/50'
+                    }`}
+                  >
+                    <span className="mt-0.5">{KIND_ICONS[n.kind]}</span>
+                    <span className="flex-1 min-w-0">
+                      <span className="block text-sm font-medium text-gray-900">{t(NOTIFICATION_LABEL_KEYS[n.kind])}</span>
+                      <span className="block text-sm text-gray-700 truncate">{n.task_title}</span>
+                      <span className="block text-xs text-gray-500">
+                        {n.due_date && <>{t('notifications.due', { date: formatDate(parseDateOnly(n.due_date)) })} · </>}
+                        {formatDate(n.created_at, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                      </span>
+                    </span>
+                    {!n.read_at && <span className="mt-1.5 w-2 h-2 rounded-full bg-blue-600 flex-shrink-0" />}
+                  </button>
+                </li>
+              ))
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
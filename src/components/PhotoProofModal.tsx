@@ -0,0 +1,241 @@
+import { useEffect, useRef, useState } from 'react'
+import { AlertCircle, Camera, CheckCircle2, ImagePlus, Loader2, Trash2, X } from 'lucide-react'
+import { useI18n } from '@/hooks/useI18n'
+import { deleteTaskPhoto, listTaskPhotos, signPhotoPaths, uploadTaskPhoto, type TaskPhoto } from '@/lib/photos'
+import { isNetworkError, type MemberMini, type Task } from '@/lib/repository'
+
+type Props = {
+  task: Task
+  members: MemberMini[]
+  currentUserId: string
+  // Parents : peuvent retirer n'importe quelle photo (les autres : les leurs, tant que la tâche n'est pas soumise)
+  canDeleteAny: boolean
+  required: boolean
+  // Ouvert depuis la complétion : bouton "Terminer" une fois la preuve jointe
+  completing: boolean
+  onClose: () => void
+  // Compteur local tout de suite (le trigger serveur suit, relayé par Realtime)
+  onPhotosChange: (count: number) => void
+  onComplete: (photoCount: number) => void
+}
+
+type PhotoView = TaskPhoto & { thumbUrl: string | null }
+
+/**
+ * Photos de preuve d'une tâche : ajout (compressées avant l'envoi), aperçu, suppression
+ * En ligne uniquement : la complétion d'une tâche à photo obligatoire attend donc le réseau.
+ */
+export default function PhotoProofModal({
+  task,
+  members,
+  currentUserId,
+  canDeleteAny,
+  required,
+  completing,
+  onClose,
+  onPhotosChange,
+  onComplete,
+}: Props) {
+  const { t, formatDate } = useI18n()
+  const [photos, setPhotos] = useState<PhotoView[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [uploading, setUploading] = useState<{ done: number; total: number } | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const loaded = await listTaskPhotos(task.id)
+        const urls = await signPhotoPaths(loaded.map((p) => p.thumb_path))
+        setPhotos(loaded.map((p, i) => ({ ...p, thumbUrl: urls[i] })))
+      } catch (err: any) {
+        console.error('photos load error:', err)
+        setError(t(isNetworkError(err) ? 'photos.error.offline' : 'photos.error.load'))
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [task.id])
+
+  const memberName = (id: string | null) =>
+    members.find((m) => m.id === id)?.display_name ?? t('common.formerMember')
+
+  const commit = (next: PhotoView[]) => {
+    setPhotos(next)
+    onPhotosChange(next.length)
+  }
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    const list = Array.from(files)
+    setError(null)
+    setUploading({ done: 0, total: list.length })
+
+    let next = photos
+    for (const file of list) {
+      try {
+        const saved = await uploadTaskPhoto(task, file, currentUserId)
+        const [thumbUrl] = await signPhotoPaths([saved.thumb_path])
+        next = [...next, { ...saved, thumbUrl }]
+        commit(next)
+      } catch (err: any) {
+        console.error('photo upload error:', err)
+        setError(
+          err?.message === 'NOT_AN_IMAGE'
+            ? t('photos.error.notImage', { name: file.name })
+            : isNetworkError(err)
+              ? t('photos.error.uploadOffline')
+              : t('photos.error.upload', { name: file.name })
+        )
+      }
+      setUploading((prev) => prev && { ...prev, done: prev.done + 1 })
+    }
+
+    setUploading(null)
+    if (inputRef.current) inputRef.current.value = ''
+  }
+
+  const handleOpen = async (photo: TaskPhoto) => {
+    try {
+      const [url] = await signPhotoPaths([photo.path])
+      if (url) window.open(url, '_blank', 'noopener')
+    } catch (err: any) {
+      console.error('photo open error:', err)
+      setError(t('photos.error.open'))
+    }
+  }
+
+  const handleDelete = async (photo: PhotoView) => {
+    if (!window.confirm(t('photos.deleteConfirm'))) return
+    setBusyId(photo.id)
+    setError(null)
+    try {
+      await deleteTaskPhoto(photo)
+      commit(photos.filter((p) => p.id !== photo.id))
+    } catch (err: any) {
+      console.error('photo delete error:', err)
+      setError(t('photos.error.delete'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  // Même règle que require_task_photo : seules les photos envoyées depuis la dernière réouverture comptent
+  const hasProof = photos.some((p) => !task.reopened_at || p.created_at > task.reopened_at)
+  const canComplete = !required || hasProof
+  // Tâche soumise ou terminée : la preuve reste (seul un parent peut la retirer)
+  const proofLocked = task.status === 'awaiting_approval' || task.status === 'completed'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center gap-4">
+          <div className="min-w-0">
+            <h3 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <Camera className="w-6 h-6 text-blue-600" /> {t('photos.title')}
+            </h3>
+            <p className="text-sm text-gray-500 truncate">{task.title}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="p-6 space-y-5">
+          {required && (
+            <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+              {t(photos.length > 0 && !hasProof ? 'photos.stale' : 'photos.required')}
+            </p>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+            </div>
+          ) : photos.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-4">{t('photos.empty')}</p>
+          ) : (
+            <ul className="grid grid-cols-3 gap-3">
+              {photos.map((photo) => (
+                <li key={photo.id} className="relative group">
+                  <button
+                    onClick={() => handleOpen(photo)}
+                    className="block w-full aspect-square rounded-lg overflow-hidden bg-gray-100"
+                    title={t('photos.takenBy', {
+                      name: memberName(photo.uploaded_by),
+                      date: formatDate(photo.created_at, {
+                        day: 'numeric',
+                        month: 'short',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      }),
+                    })}
+                  >
+                    {photo.thumbUrl && <img src={photo.thumbUrl} alt="" className="w-full h-full object-cover" />}
+                  </button>
+                  {(canDeleteAny || (photo.uploaded_by === currentUserId && !proofLocked)) && (
+                    <button
+                      onClick={() => handleDelete(photo)}
+                      disabled={busyId === photo.id}
+                      className="absolute top-1 right-1 p-1 bg-white/90 text-red-600 rounded-md opacity-0 group-hover:opacity-100 focus:opacity-100 transition"
+                      title={t('common.delete')}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap gap-3">
+            <input
+              ref={inputRef}
+              type="file"
+              accept="image/*"
+              capture="environment"
+              multiple
+              className="hidden"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            <button
+              onClick={() => inputRef.current?.click()}
+              disabled={!!uploading || loading}
+              className="flex-1 flex items-center justify-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition text-sm font-medium disabled:opacity-50"
+            >
+              {uploading ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />{' '}
+                  {t('photos.uploading', { done: uploading.done, total: uploading.total })}
+                </>
+              ) : (
+                <>
+                  <ImagePlus className="w-4 h-4 mr-2" /> {t('photos.add')}
+                </>
+              )}
+            </button>
+            {completing && (
+              <button
+                onClick={() => onComplete(photos.length)}
+                disabled={!canComplete || !!uploading}
+                className="flex-1 flex items-center justify-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition text-sm font-medium disabled:opacity-50"
+              >
+                <CheckCircle2 className="w-4 h-4 mr-2" /> {t('photos.complete')}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+import { useI18n } from '@/hooks/useI18n'
+import type { MessageKey } from '@/lib/i18n'
+import { WEEKDAYS, type RecurrenceRule } from '@/lib/recurrence'
+
+type Props = {
+  value: RecurrenceRule | null
+  onChange: (rule: RecurrenceRule | null) => void
+  disabled?: boolean
+  // Masque l'option "Ne se répète pas" (ex: modale de modification d'une série)
+  required?: boolean
+}
+
+type RuleType = RecurrenceRule['type'] | 'none'
+
+const RULE_TYPES: { value: RuleType; label: MessageKey }[] = [
+  { value: 'none', label: 'recurrence.none' },
+  { value: 'daily', label: 'recurrence.daily' },
+  { value: 'weekly', label: 'recurrence.weekly' },
+  { value: 'monthly', label: 'recurrence.monthly' },
+  { value: 'after_completion', label: 'recurrence.afterCompletionOption' },
+]
+
+function defaultRule(type: RecurrenceRule['type']): RecurrenceRule {
+  switch (type) {
+    case 'daily':
+      return { type: 'daily' }
+    case 'weekly':
+      return { type: 'weekly', weekdays: [new Date().getDay()] }
+    case 'monthly':
+      return { type: 'monthly', day: new Date().getDate() }
+    case 'after_completion':
+      return { type: 'after_completion', days: 7 }
+  }
+}
+
+export default function RecurrenceFields({ value, onChange, disabled, required }: Props) {
+  const { t } = useI18n()
+  const inputClass =
+    'px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+  const toggleWeekday = (day: number) => {
+    if (value?.type !== 'weekly') return
+    const weekdays = value.weekdays.includes(day)
+      ? value.weekdays.filter((d) => d !== day)
+      : [...value.weekdays, day]
+    onChange({ type: 'weekly', weekdays })
+  }
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={value?.type ?? 'none'}
+        onChange={(e) => {
+          const type = e.target.value as RuleType
+          onChange(type === 'none' ? null : defaultRule(type))
+        }}
+        className={`w-full ${inputClass}`}
+        disabled={disabled}
+      >
+        {RULE_TYPES.filter((r) => !required || r.value !== 'none').map((r) => (
+          <option key={r.value} value={r.value}>
+            {t(r.label)}
+          </option>
+        ))}
+      </select>
+
+      {value?.type === 'weekly' && (
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAYS.map((d) => (
+            <button
+              key={d.value}
+              type="button"
+              onClick={() => toggleWeekday(d.value)}
+              disabled={disabled}
+              title={t(d.label)}
+              className={`w-11 py-2 rounded-lg text-sm font-medium transition ${
+                value.weekdays.includes(d.value)
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {t(d.short)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value?.type === 'monthly' && (
+        <div className="flex items-center gap-2 text-sm text-gray-700">
+          <span>{t('recurrence.monthlyBefore')}</span>
+          <input
+            type="number"
+            min="1"
+            max="31"
+            value={value.day}
+            onChange={(e) =>
+              onChange({ type: 'monthly', day: Math.min(31, Math.max(1, parseInt(e.target.value || '1'))) })
+            }
+            className={`w-24 ${inputClass}`}
+            disabled={disabled}
+          />
+          <span>{t('recurrence.monthlyAfter')}</span>
+        </div>
+      )}
+
+      {value?.type === 'after_completion' && (
+        <div className="flex items-center gap-2 text-sm text-gray-700">
+          <span>{t('recurrence.everyBefore')}</span>
+          <input
+            type="number"
+            min="1"
+            value={value.days}
+            onChange={(e) => onChange({ type: 'after_completion', days: Math.max(1, parseInt(e.target.value || '1')) })}
+            className={`w-24 ${inputClass}`}
+            disabled={disabled}
+          />
+          <span>{t('recurrence.everyAfter')}</span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react'
+import { AlertCircle, Loader2, Repeat, X } from 'lucide-react'
+import RecurrenceFields from '@/components/RecurrenceFields'
+import { useI18n } from '@/hooks/useI18n'
+import {
+  describeRecurrence,
+  isValidRecurrence,
+  stopRecurrence,
+  updateRecurrence,
+  type RecurrenceRule,
+  type RecurrenceScope,
+} from '@/lib/recurrence'
+
+type Props = {
+  task: {
+    id: string
+    household_id: string
+    title: string
+    series_id?: string | null
+    recurrence?: RecurrenceRule | null
+    due_date: string | null
+    status: string
+  }
+  onClose: () => void
+  onSaved: () => void
+}
+
+export default function RecurrenceModal({ task, onClose, onSaved }: Props) {
+  const { t } = useI18n()
+  const [rule, setRule] = useState<RecurrenceRule | null>(task.recurrence ?? null)
+  const [scope, setScope] = useState<RecurrenceScope>('future')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (action: () => Promise<void>) => {
+    if (isSubmitting) return
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      await action()
+      onSaved()
+    } catch (err: any) {
+      console.error('recurrence update error:', err)
+      setError(err?.message || t('recurrence.error.update'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleSave = () => {
+    if (!rule || !isValidRecurrence(rule)) {
+      setError(t('recurrence.error.days'))
+      return
+    }
+    run(() => updateRecurrence(task, rule, scope))
+  }
+
+  const handleStop = () => {
+    const message = scope === 'future' ? t('recurrence.stopConfirmFuture') : t('recurrence.stopConfirmThis')
+    if (!confirm(message)) return
+    run(() => stopRecurrence(task, scope))
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <Repeat className="w-5 h-5 text-blue-600" /> {t('tasks.form.recurrence')}
+            </h3>
+            <p className="text-sm text-gray-500">{task.title}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition" disabled={isSubmitting}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="p-6 space-y-6">
+          {task.recurrence && (
+            <p className="text-sm text-gray-600">
+              {t('recurrence.current')} <span className="font-medium">{describeRecurrence(task.recurrence, t)}</span>
+            </p>
+          )}
+
+          <RecurrenceFields value={rule} onChange={setRule} disabled={isSubmitting} required />
+
+          <fieldset className="space-y-2">
+            <legend className="block text-sm font-medium text-gray-700 mb-2">{t('tasks.form.applyTo')}</legend>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="radio"
+                checked={scope === 'this'}
+                onChange={() => setScope('this')}
+                disabled={isSubmitting}
+              />
+              {t('tasks.form.scopeThis')}
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="radio"
+                checked={scope === 'future'}
+                onChange={() => setScope('future')}
+                disabled={isSubmitting || !task.series_id}
+              />
+              {t('recurrence.scopeFuture')}
+            </label>
+          </fieldset>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={handleStop}
+              className="px-4 py-3 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 transition font-medium"
+              disabled={isSubmitting}
+            >
+              {t('recurrence.stop')}
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSubmitting}
+              className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50 flex items-center justify-center"
+            >
+              {isSubmitting ? <Loader2 className="w-5 h-5 animate-spin" /> : t('common.save')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
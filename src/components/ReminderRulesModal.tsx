@@ -0,0 +1,265 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import { AlertCircle, Loader2, Plus, Trash2, X } from 'lucide-react'
+import { useI18n } from '@/hooks/useI18n'
+import {
+  createReminderRule,
+  deleteReminderRule,
+  describeReminderRule,
+  getLateDecayPercent,
+  listReminderRules,
+  setReminderRuleEnabled,
+  updateLateDecayPercent,
+  type ReminderRule,
+  type ReminderTarget,
+} from '@/lib/reminders'
+
+type Props = {
+  householdId: string
+  onClose: () => void
+}
+
+type When = 'before' | 'on' | 'after'
+
+/**
+ * Rappels du foyer (parents) : règles de rappel / d'escalade et perte de points en cas de retard
+ * Les notifications sont créées quand chaque membre ouvre l'app (refresh_due_notifications).
+ */
+export default function ReminderRulesModal({ householdId, onClose }: Props) {
+  const { locale, t } = useI18n()
+  const [rules, setRules] = useState<ReminderRule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const [target, setTarget] = useState<ReminderTarget>('assignee')
+  const [when, setWhen] = useState<When>('before')
+  const [days, setDays] = useState(1)
+  const [isCreating, setIsCreating] = useState(false)
+
+  const [decayPercent, setDecayPercent] = useState(0)
+  const [savedDecayPercent, setSavedDecayPercent] = useState(0)
+  const [isSavingDecay, setIsSavingDecay] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([listReminderRules(householdId), getLateDecayPercent(householdId)])
+      .then(([loadedRules, percent]) => {
+        if (cancelled) return
+        setRules(loadedRules)
+        setDecayPercent(percent)
+        setSavedDecayPercent(percent)
+      })
+      .catch((err) => {
+        console.error('load reminder rules error:', err)
+        if (!cancelled) setError(t('reminders.error.load'))
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [householdId])
+
+  // Escalade : uniquement le jour même ou après l'échéance
+  const effectiveWhen: When = target === 'parents' && when === 'before' ? 'after' : when
+  const offsetDays = effectiveWhen === 'on' ? 0 : effectiveWhen === 'before' ? -days : days
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault()
+    setIsCreating(true)
+    setError(null)
+    try {
+      const created = await createReminderRule(householdId, { target, offset_days: offsetDays })
+      setRules((prev) =>
+        [...prev, created].sort((a, b) => a.target.localeCompare(b.target) || a.offset_days - b.offset_days)
+      )
+    } catch (err: any) {
+      console.error('create reminder rule error:', err)
+      setError(t(err?.code === '23505' ? 'reminders.error.duplicate' : 'reminders.error.create'))
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleToggle = async (rule: ReminderRule) => {
+    setBusyId(rule.id)
+    setError(null)
+    try {
+      await setReminderRuleEnabled(rule.id, !rule.enabled)
+      setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, enabled: !rule.enabled } : r)))
+    } catch (err: any) {
+      console.error('toggle reminder rule error:', err)
+      setError(t('reminders.error.toggle'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDelete = async (rule: ReminderRule) => {
+    setBusyId(rule.id)
+    setError(null)
+    try {
+      await deleteReminderRule(rule.id)
+      setRules((prev) => prev.filter((r) => r.id !== rule.id))
+    } catch (err: any) {
+      console.error('delete reminder rule error:', err)
+      setError(t('reminders.error.delete'))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleSaveDecay = async (e: FormEvent) => {
+    e.preventDefault()
+    setIsSavingDecay(true)
+    setError(null)
+    try {
+      await updateLateDecayPercent(householdId, decayPercent)
+      setSavedDecayPercent(decayPercent)
+    } catch (err: any) {
+      console.error('update late decay error:', err)
+      setError(t('reminders.error.decay'))
+    } finally {
+      setIsSavingDecay(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center">
+          <h3 className="text-2xl font-bold text-gray-900">{t('reminders.title')}</h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="p-12 flex justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <div className="p-6 space-y-6">
+            <section className="space-y-3">
+              <h4 className="font-semibold text-gray-900">{t('reminders.rules')}</h4>
+              {rules.length === 0 ? (
+                <p className="text-sm text-gray-500">{t('reminders.noRules')}</p>
+              ) : (
+                <ul className="divide-y border rounded-xl">
+                  {rules.map((rule) => (
+                    <li key={rule.id} className="p-3 flex items-center gap-3">
+                      <label className="flex-1 flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={rule.enabled}
+                          onChange={() => handleToggle(rule)}
+                          disabled={busyId === rule.id}
+                        />
+                        <span className={rule.enabled ? '' : 'text-gray-400 line-through'}>
+                          {describeReminderRule(rule, locale)}
+                        </span>
+                      </label>
+                      <button
+                        onClick={() => handleDelete(rule)}
+                        disabled={busyId === rule.id}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition disabled:opacity-50"
+                        title={t('common.delete')}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-2 p-3 bg-gray-50 rounded-xl">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">{t('reminders.action')}</label>
+                  <select
+                    value={target}
+                    onChange={(e) => setTarget(e.target.value as ReminderTarget)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    disabled={isCreating}
+                  >
+                    <option value="assignee">{t('reminders.target.assignee')}</option>
+                    <option value="parents">{t('reminders.target.parents')}</option>
+                  </select>
+                </div>
+                {effectiveWhen !== 'on' && (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">{t('reminders.days')}</label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={30}
+                      value={days}
+                      onChange={(e) => setDays(Math.min(30, Math.max(1, parseInt(e.target.value || '1'))))}
+                      className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      disabled={isCreating}
+                    />
+                  </div>
+                )}
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">{t('reminders.when')}</label>
+                  <select
+                    value={effectiveWhen}
+                    onChange={(e) => setWhen(e.target.value as When)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    disabled={isCreating}
+                  >
+                    {target === 'assignee' && <option value="before">{t('reminders.when.before')}</option>}
+                    <option value="on">{t('reminders.when.on')}</option>
+                    <option value="after">{t('reminders.when.after')}</option>
+                  </select>
+                </div>
+                <button
+                  type="submit"
+                  disabled={isCreating}
+                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition text-sm font-medium disabled:opacity-50"
+                >
+                  {isCreating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+                  {t('reminders.add')}
+                </button>
+              </form>
+            </section>
+
+            <section className="space-y-3">
+              <h4 className="font-semibold text-gray-900">{t('reminders.decay')}</h4>
+              <form onSubmit={handleSaveDecay} className="flex flex-wrap items-end gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">{t('reminders.decayPercent')}</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={decayPercent}
+                    onChange={(e) => setDecayPercent(Math.min(100, Math.max(0, parseInt(e.target.value || '0'))))}
+                    className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    disabled={isSavingDecay}
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={isSavingDecay || decayPercent === savedDecayPercent}
+                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition text-sm font-medium disabled:opacity-50"
+                >
+                  {isSavingDecay && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {t('common.save')}
+                </button>
+              </form>
+              <p className="text-xs text-gray-500">{t('reminders.decayHint')}</p>
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState } from 'react'
+import { Bookmark, BookmarkPlus, Check, ChevronDown, Trash2 } from 'lucide-react'
+import { useI18n } from '@/hooks/useI18n'
+import { deleteSavedView, listSavedViews, saveView, type SavedView } from '@/lib/taskQuery'
+
+type Props = {
+  householdId: string
+  memberId: string
+  // Chaîne de requête courante de /tasks (sans le "?")
+  currentQuery: string
+  // Hors ligne : les vues vivent sur le serveur
+  disabled?: boolean
+  onApply: (query: string) => void
+  onError: (message: string) => void
+}
+
+/**
+ * Vues enregistrées (barre de filtres) : rappeler, enregistrer ou supprimer une combinaison de filtres
+ */
+export default function SavedViewsMenu({
+  householdId,
+  memberId,
+  currentQuery,
+  disabled = false,
+  onApply,
+  onError,
+}: Props) {
+  const { t } = useI18n()
+  const [open, setOpen] = useState(false)
+  const [views, setViews] = useState<SavedView[]>([])
+  const ref = useRef<HTMLDivElement>(null)
+
+  const activeView = views.find((v) => v.query === currentQuery) ?? null
+
+  useEffect(() => {
+    let cancelled = false
+    listSavedViews(householdId, memberId)
+      .then((loaded) => {
+        if (!cancelled) setViews(loaded)
+      })
+      .catch((err) => console.error('saved views load error:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [householdId, memberId])
+
+  // Fermeture au clic en dehors
+  useEffect(() => {
+    if (!open) return
+    const onPointerDown = (e: PointerEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('pointerdown', onPointerDown)
+    return () => document.removeEventListener('pointerdown', onPointerDown)
+  }, [open])
+
+  const handleSave = async () => {
+    const name = prompt(t('tasks.views.namePrompt'), activeView?.name ?? '')?.trim()
+    if (!name) return
+    setOpen(false)
+
+    try {
+      const saved = await saveView(householdId, memberId, name, currentQuery)
+      setViews((current) =>
+        [...current.filter((v) => v.id !== saved.id && v.name !== saved.name), saved].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      )
+    } catch (err: any) {
+      console.error('saved view save error:', err)
+      onError(t('tasks.views.saveFailed'))
+    }
+  }
+
+  const handleDelete = async (view: SavedView) => {
+    if (!confirm(t('tasks.views.deleteConfirm', { name: view.name }))) return
+
+    try {
+      await deleteSavedView(view.id)
+      setViews((current) => current.filter((v) => v.id !== view.id))
+    } catch (err: any) {
+      console.error('saved view delete error:', err)
+      onError(t('tasks.views.deleteFailed'))
+    }
+  }
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        disabled={disabled}
+        className="flex items-center gap-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition disabled:opacity-50 disabled:hover:bg-transparent"
+        title={t('tasks.views.label')}
+      >
+        <Bookmark className={`w-4 h-4 ${activeView ? 'text-blue-600' : 'text-gray-500'}`} />
+        <span className="max-w-[10rem] truncate">
+          {activeView ? t('tasks.views.current', { name: activeView.name }) : t('tasks.views.label')}
+        </span>
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 bg-white rounded-xl shadow-xl border border-gray-100 py-1 z-40">
+          {views.length === 0 ? (
+            <p className="px-4 py-2 text-sm text-gray-500">{t('tasks.views.none')}</p>
+          ) : (
+            views.map((view) => (
+              <div key={view.id} className="flex items-center hover:bg-gray-50">
+                <button
+                  onClick={() => {
+                    setOpen(false)
+                    onApply(view.query)
+                  }}
+                  className="flex-1 min-w-0 flex items-center gap-2 px-4 py-2 text-left text-sm"
+                >
+                  <span className="flex-1 truncate text-gray-900">{view.name}</span>
+                  {view.id === activeView?.id && <Check className="w-4 h-4 text-blue-600" />}
+                </button>
+                <button
+                  onClick={() => handleDelete(view)}
+                  className="p-2 mr-2 text-gray-400 hover:text-red-600 rounded-lg"
+                  title={t('tasks.views.delete')}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))
+          )}
+          <div className="border-t my-1" />
+          <button
+            onClick={handleSave}
+            className="w-full flex items-center gap-2 px-4 py-2 text-left text-sm text-blue-600 hover:bg-blue-50"
+          >
+            <BookmarkPlus className="w-4 h-4" /> {t('tasks.views.save')}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
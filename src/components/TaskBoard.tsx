@@ -0,0 +1,224 @@
+import type { PointerEvent as ReactPointerEvent } from 'react'
+import { Clock, GripVertical, ListChecks, MessageSquare, Pencil, User } from 'lucide-react'
+import { useI18n } from '@/hooks/useI18n'
+import { usePointerDrag } from '@/hooks/usePointerDrag'
+import type { MessageKey } from '@/lib/i18n'
+import { parseDateOnly } from '@/lib/recurrence'
+import { isOverdue } from '@/lib/reminders'
+import type { MemberMini, Task, TaskStatus } from '@/lib/repository'
+
+type Props = {
+  tasks: Task[]
+  members: MemberMini[]
+  categoryLabel: (value: string) => string
+  categoryStyle: (value: string) => string
+  onMove: (task: Task, status: TaskStatus) => void
+  // Absent : pas de bouton "Modifier" (enfants)
+  onEdit?: (task: Task) => void
+  // Enfant : seulement les cartes qui lui sont assignées
+  canMove: (task: Task) => boolean
+}
+
+const COLUMNS: { status: TaskStatus; label: MessageKey; accent: string }[] = [
+  { status: 'pending', label: 'tasks.board.pending', accent: 'border-gray-300' },
+  { status: 'in_progress', label: 'tasks.board.inProgress', accent: 'border-blue-400' },
+  { status: 'awaiting_approval', label: 'tasks.board.awaiting', accent: 'border-amber-400' },
+  { status: 'completed', label: 'tasks.board.completed', accent: 'border-green-400' },
+]
+
+function isTaskStatus(value: string): value is TaskStatus {
+  return COLUMNS.some((c) => c.status === value)
+}
+
+function BoardCard({
+  task,
+  assignee,
+  categoryLabel,
+  categoryStyle,
+  onEdit,
+  onGrab,
+  onStep,
+  ghost = false,
+}: {
+  task: Task
+  assignee: string | null
+  categoryLabel: (value: string) => string
+  categoryStyle: (value: string) => string
+  onEdit?: () => void
+  onGrab?: (e: ReactPointerEvent<HTMLElement>) => void
+  onStep?: (direction: -1 | 1) => void
+  ghost?: boolean
+}) {
+  const { t, formatDate } = useI18n()
+
+  return (
+    <div
+      className={`bg-white rounded-lg p-3 border shadow-sm ${
+        ghost ? 'shadow-xl rotate-2 border-blue-300' : 'border-gray-100 hover:shadow-md transition'
+      }`}
+    >
+      <div className="flex items-start gap-2">
+        {/* Poignée : touch-none pour que le doigt déplace la carte au lieu de faire défiler */}
+        {onGrab || ghost ? (
+          <button
+            type="button"
+            onPointerDown={onGrab}
+            onKeyDown={(e) => {
+              // Clavier : ← / → déplace d'une colonne
+              if (e.key === 'ArrowLeft') onStep?.(-1)
+              if (e.key === 'ArrowRight') onStep?.(1)
+            }}
+            className="mt-0.5 text-gray-400 hover:text-gray-600 cursor-grab active:cursor-grabbing touch-none"
+            title={t('tasks.board.move')}
+          >
+            <GripVertical className="w-4 h-4" />
+          </button>
+        ) : (
+          <span className="w-4 flex-shrink-0" />
+        )}
+
+        <div className="flex-1 min-w-0">
+          <p
+            className={`text-sm font-medium break-words ${
+              task.status === 'completed' ? 'text-gray-500 line-through' : 'text-gray-900'
+            }`}
+          >
+            {task.title}
+          </p>
+
+          <div className="mt-2 flex flex-wrap gap-2 items-center">
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${categoryStyle(task.category)}`}>
+              {categoryLabel(task.category)}
+            </span>
+            {task.due_date && (
+              <span className={`flex items-center text-xs ${isOverdue(task) ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                <Clock className="w-3 h-3 mr-1" />
+                {formatDate(parseDateOnly(task.due_date))}
+              </span>
+            )}
+            <span className="text-xs font-medium text-blue-600">{t('common.points', { count: task.points })}</span>
+            {task.checklist_total > 0 && (
+              <span
+                className={`flex items-center text-xs font-medium ${
+                  task.checklist_done === task.checklist_total ? 'text-green-600' : 'text-gray-600'
+                }`}
+              >
+                <ListChecks className="w-3 h-3 mr-1" />
+                {task.checklist_done}/{task.checklist_total}
+              </span>
+            )}
+            {task.comment_count > 0 && (
+              <span className="flex items-center text-xs font-medium text-gray-600">
+                <MessageSquare className="w-3 h-3 mr-1" />
+                {task.comment_count}
+              </span>
+            )}
+          </div>
+
+          {assignee && (
+            <p className="mt-2 flex items-center text-xs text-gray-500">
+              <User className="w-3 h-3 mr-1" /> {assignee}
+            </p>
+          )}
+        </div>
+
+        {onEdit && (
+          <button
+            type="button"
+            onClick={onEdit}
+            className="p-1 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded transition"
+            title={t('common.edit')}
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Tableau Kanban : À faire / En cours / À valider / Terminé
+ * Glisser une carte dans une autre colonne change son statut (souris et tactile) ;
+ * "À valider" et "Terminé" passent par la même règle de validation (onMove décide).
+ */
+export default function TaskBoard({ tasks, members, categoryLabel, categoryStyle, onMove, onEdit, canMove }: Props) {
+  const { t } = useI18n()
+  const { drag, startDrag } = usePointerDrag<Task>({
+    onDrop: (task, target) => {
+      if (isTaskStatus(target) && target !== task.status) onMove(task, target)
+    },
+  })
+
+  const step = (task: Task, direction: -1 | 1) => {
+    const index = COLUMNS.findIndex((c) => c.status === task.status) + direction
+    if (index >= 0 && index < COLUMNS.length) onMove(task, COLUMNS[index].status)
+  }
+
+  const assigneeName = (task: Task) =>
+    task.assigned_to ? members.find((m) => m.id === task.assigned_to)?.display_name ?? null : null
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+        {COLUMNS.map((column) => {
+          const columnTasks = tasks.filter((task) => task.status === column.status)
+          const isOver = drag?.overTarget === column.status && drag.item.status !== column.status
+
+          return (
+            <section
+              key={column.status}
+              data-drop-target={column.status}
+              className={`rounded-xl border-t-4 ${column.accent} p-3 min-h-[12rem] transition ${
+                isOver ? 'bg-blue-50 ring-2 ring-blue-300' : 'bg-gray-100/70'
+              }`}
+            >
+              <h3 className="flex items-center justify-between text-sm font-semibold text-gray-700 mb-3 px-1">
+                {t(column.label)}
+                <span className="text-xs font-medium text-gray-500 bg-white rounded-full px-2 py-0.5">
+                  {columnTasks.length}
+                </span>
+              </h3>
+
+              <div className="space-y-2">
+                {columnTasks.map((task) => (
+                  <div key={task.id} data-drag-item className={drag?.item.id === task.id ? 'opacity-40' : ''}>
+                    <BoardCard
+                      task={task}
+                      assignee={assigneeName(task)}
+                      categoryLabel={categoryLabel}
+                      categoryStyle={categoryStyle}
+                      onEdit={onEdit && (() => onEdit(task))}
+                      onGrab={canMove(task) ? (e) => startDrag(e, task) : undefined}
+                      onStep={canMove(task) ? (direction) => step(task, direction) : undefined}
+                    />
+                  </div>
+                ))}
+
+                {columnTasks.length === 0 && (
+                  <p className="text-xs text-gray-400 text-center py-6">{t('tasks.board.dropHere')}</p>
+                )}
+              </div>
+            </section>
+          )
+        })}
+      </div>
+
+      {/* Carte qui suit le pointeur (pointer-events-none : on détecte la colonne en dessous) */}
+      {drag && (
+        <div
+          className="fixed z-50 pointer-events-none"
+          style={{ left: drag.x - drag.offsetX, top: drag.y - drag.offsetY, width: drag.width }}
+        >
+          <BoardCard
+            task={drag.item}
+            assignee={assigneeName(drag.item)}
+            categoryLabel={categoryLabel}
+            categoryStyle={categoryStyle}
+            ghost
+          />
+        </div>
+      )}
+    </>
+  )
+}
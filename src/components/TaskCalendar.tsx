@@ -0,0 +1,279 @@
+import { useMemo, useState, type PointerEvent as ReactPointerEvent } from 'react'
+import { CalendarOff, ChevronLeft, ChevronRight } from 'lucide-react'
+import { useI18n } from '@/hooks/useI18n'
+import { usePointerDrag } from '@/hooks/usePointerDrag'
+import { WEEKDAYS, formatDateOnly } from '@/lib/recurrence'
+import { isOverdue } from '@/lib/reminders'
+import type { Task } from '@/lib/repository'
+
+type CalendarMode = 'month' | 'week'
+
+type Props = {
+  tasks: Task[]
+  categoryLabel: (value: string) => string
+  categoryStyle: (value: string) => string
+  // Absents : calendrier en lecture seule (enfants)
+  onReschedule?: (task: Task, dueDate: string | null) => void
+  onEdit?: (task: Task) => void
+}
+
+const MODE_KEY = 'homeflow_calendar_mode'
+const UNSCHEDULED = 'unscheduled'
+const MONTH_MAX_VISIBLE = 3
+
+function addDays(date: Date, days: number) {
+  const next = new Date(date)
+  next.setDate(next.getDate() + days)
+  return next
+}
+
+// Semaine à la française : lundi en premier
+function startOfWeek(date: Date) {
+  const offset = (date.getDay() + 6) % 7
+  return addDays(new Date(date.getFullYear(), date.getMonth(), date.getDate()), -offset)
+}
+
+function monthGrid(anchor: Date) {
+  const first = new Date(anchor.getFullYear(), anchor.getMonth(), 1)
+  const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0)
+  const days: Date[] = []
+  for (let d = startOfWeek(first); d <= last || days.length % 7 !== 0; d = addDays(d, 1)) {
+    days.push(d)
+  }
+  return days
+}
+
+function TaskChip({
+  task,
+  categoryLabel,
+  categoryStyle,
+  onEdit,
+  onGrab,
+  dimmed = false,
+}: {
+  task: Task
+  categoryLabel: (value: string) => string
+  categoryStyle: (value: string) => string
+  onEdit?: () => void
+  onGrab?: (e: ReactPointerEvent<HTMLElement>) => void
+  dimmed?: boolean
+}) {
+  const { t } = useI18n()
+  return (
+    <button
+      type="button"
+      data-drag-item
+      onClick={onEdit}
+      onPointerDown={onGrab}
+      className={`w-full text-left px-2 py-1 rounded-md text-xs font-medium truncate ${
+        onGrab ? 'touch-none cursor-grab active:cursor-grabbing' : 'cursor-default'
+      } ${categoryStyle(
+        task.category
+      )} ${task.status === 'completed' ? 'line-through opacity-60' : ''} ${isOverdue(task) ? 'ring-1 ring-red-400' : ''} ${
+        dimmed ? 'opacity-40' : ''
+      }`}
+      title={`${task.title} · ${categoryLabel(task.category)} · ${t('common.points', { count: task.points })}`}
+    >
+      {task.title}
+    </button>
+  )
+}
+
+/**
+ * Calendrier des tâches (mois / semaine) par date d'échéance
+ * - glisser une tâche sur un autre jour la replanifie
+ * - le bac "Sans date" reçoit les tâches sans échéance (y déposer une tâche retire sa date)
+ */
+export default function TaskCalendar({ tasks, categoryLabel, categoryStyle, onReschedule, onEdit }: Props) {
+  const { t, formatDate } = useI18n()
+  const [mode, setMode] = useState<CalendarMode>(() =>
+    localStorage.getItem(MODE_KEY) === 'week' ? 'week' : 'month'
+  )
+  const [anchor, setAnchor] = useState(() => new Date())
+
+  const { drag, startDrag } = usePointerDrag<Task>({
+    onDrop: (task, target) => {
+      const dueDate = target === UNSCHEDULED ? null : target
+      if (dueDate !== (task.due_date?.slice(0, 10) ?? null)) onReschedule?.(task, dueDate)
+    },
+  })
+
+  const changeMode = (next: CalendarMode) => {
+    setMode(next)
+    try {
+      localStorage.setItem(MODE_KEY, next)
+    } catch {
+      // ignore
+    }
+  }
+
+  const days = useMemo(
+    () => (mode === 'month' ? monthGrid(anchor) : Array.from({ length: 7 }, (_, i) => addDays(startOfWeek(anchor), i))),
+    [mode, anchor]
+  )
+
+  const byDay = useMemo(() => {
+    const map = new Map<string, Task[]>()
+    for (const task of tasks) {
+      if (!task.due_date) continue
+      const key = task.due_date.slice(0, 10)
+      map.set(key, [...(map.get(key) ?? []), task])
+    }
+    return map
+  }, [tasks])
+
+  const unscheduled = tasks.filter((task) => !task.due_date)
+  const today = formatDateOnly(new Date())
+
+  const move = (direction: -1 | 1) => {
+    setAnchor((current) =>
+      mode === 'month'
+        ? new Date(current.getFullYear(), current.getMonth() + direction, 1)
+        : addDays(current, 7 * direction)
+    )
+  }
+
+  const title =
+    mode === 'month'
+      ? formatDate(anchor, { month: 'long', year: 'numeric' })
+      : t('calendar.weekOf', { date: formatDate(startOfWeek(anchor), { day: 'numeric', month: 'long' }) })
+
+  const chip = (task: Task) => (
+    <TaskChip
+      key={task.id}
+      task={task}
+      categoryLabel={categoryLabel}
+      categoryStyle={categoryStyle}
+      onEdit={onEdit && (() => onEdit(task))}
+      onGrab={onReschedule ? (e) => startDrag(e, task) : undefined}
+      dimmed={drag?.item.id === task.id}
+    />
+  )
+
+  const dropClass = (target: string) => {
+    const current = drag?.item.due_date?.slice(0, 10) ?? UNSCHEDULED
+    return drag?.overTarget === target && current !== target ? 'ring-2 ring-blue-400 bg-blue-50' : ''
+  }
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-4">
+      <div className="flex-1 bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => move(-1)}
+              className="p-2 hover:bg-gray-100 rounded-lg transition"
+              title={t('calendar.previous')}
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => move(1)}
+              className="p-2 hover:bg-gray-100 rounded-lg transition"
+              title={t('calendar.next')}
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setAnchor(new Date())}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+            >
+              {t('calendar.today')}
+            </button>
+            <h3 className="ml-2 text-lg font-semibold text-gray-900 capitalize">{title}</h3>
+          </div>
+
+          <div className="flex bg-gray-100 rounded-lg p-1">
+            {(['month', 'week'] as const).map((m) => (
+              <button
+                key={m}
+                onClick={() => changeMode(m)}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition ${
+                  mode === m ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {m === 'month' ? t('calendar.month') : t('calendar.week')}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-7 gap-px bg-gray-200 rounded-lg overflow-hidden border border-gray-200">
+          {WEEKDAYS.map((d) => (
+            <div key={d.value} className="bg-gray-50 px-2 py-1 text-xs font-medium text-gray-500 uppercase">
+              {t(d.short)}
+            </div>
+          ))}
+
+          {days.map((day) => {
+            const key = formatDateOnly(day)
+            const dayTasks = byDay.get(key) ?? []
+            const outside = mode === 'month' && day.getMonth() !== anchor.getMonth()
+            const visible = mode === 'month' ? dayTasks.slice(0, MONTH_MAX_VISIBLE) : dayTasks
+            const hidden = dayTasks.length - visible.length
+
+            return (
+              <div
+                key={key}
+                data-drop-target={key}
+                className={`p-1.5 transition ${mode === 'month' ? 'min-h-[6rem]' : 'min-h-[20rem]'} ${
+                  outside ? 'bg-gray-50' : 'bg-white'
+                } ${dropClass(key)}`}
+              >
+                <div
+                  className={`text-xs mb-1 w-6 h-6 flex items-center justify-center rounded-full ${
+                    key === today ? 'bg-blue-600 text-white font-semibold' : outside ? 'text-gray-400' : 'text-gray-700'
+                  }`}
+                >
+                  {day.getDate()}
+                </div>
+                <div className="space-y-1">
+                  {visible.map(chip)}
+                  {hidden > 0 && (
+                    <button
+                      onClick={() => {
+                        setAnchor(day)
+                        changeMode('week')
+                      }}
+                      className="w-full text-left px-2 text-xs text-blue-600 hover:underline"
+                    >
+                      {t('calendar.more', { count: hidden })}
+                    </button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      <aside
+        data-drop-target={UNSCHEDULED}
+        className={`lg:w-64 bg-white rounded-xl shadow-sm border border-gray-100 p-4 transition ${dropClass(UNSCHEDULED)}`}
+      >
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-3">
+          <CalendarOff className="w-4 h-4 text-gray-500" /> {t('calendar.unscheduled')}
+          <span className="ml-auto text-xs font-medium text-gray-500 bg-gray-100 rounded-full px-2 py-0.5">
+            {unscheduled.length}
+          </span>
+        </h3>
+        <div className="space-y-1">
+          {unscheduled.map(chip)}
+          {unscheduled.length === 0 && (
+            <p className="text-xs text-gray-400 text-center py-6">{t('calendar.unscheduledHint')}</p>
+          )}
+        </div>
+      </aside>
+
+      {/* Puce qui suit le pointeur */}
+      {drag && (
+        <div
+          className="fixed z-50 pointer-events-none shadow-xl rounded-md"
+          style={{ left: drag.x - drag.offsetX, top: drag.y - drag.offsetY, width: drag.width }}
+        >
+          <TaskChip task={drag.item} categoryLabel={categoryLabel} categoryStyle={categoryStyle} />
+        </div>
+      )}
+    </div>
+  )
+}
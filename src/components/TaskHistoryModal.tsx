@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react'
+import { AlertCircle, ArrowRight, History, Loader2, X } from 'lucide-react'
+import { useI18n } from '@/hooks/useI18n'
+import type { MessageKey } from '@/lib/i18n'
+import { parseDateOnly } from '@/lib/recurrence'
+import {
+  listTaskHistory,
+  type MemberMini,
+  type TaskHistoryEntry,
+  type TaskHistoryField,
+  type TaskStatus,
+} from '@/lib/repository'
+
+type Props = {
+  task: { id: string; title: string }
+  members: MemberMini[]
+  categoryLabel: (value: string) => string
+  onClose: () => void
+}
+
+const FIELD_LABEL_KEYS: Record<Exclude<TaskHistoryField, 'created'>, MessageKey> = {
+  title: 'history.field.title',
+  description: 'history.field.description',
+  category: 'history.field.category',
+  assigned_to: 'history.field.assigned_to',
+  due_date: 'history.field.due_date',
+  points: 'history.field.points',
+  status: 'history.field.status',
+}
+
+const STATUS_LABEL_KEYS: Record<TaskStatus, MessageKey> = {
+  pending: 'tasks.board.pending',
+  in_progress: 'tasks.board.inProgress',
+  awaiting_approval: 'tasks.board.awaiting',
+  completed: 'tasks.board.completed',
+}
+
+/**
+ * Historique d'une tâche : qui a changé quoi, et quand (plus récent en haut)
+ */
+export default function TaskHistoryModal({ task, members, categoryLabel, onClose }: Props) {
+  const { t, formatDate } = useI18n()
+  const [entries, setEntries] = useState<TaskHistoryEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      const { data, error } = await listTaskHistory(task.id)
+      if (error) {
+        console.error('task history error:', error)
+        setError(t(error.kind === 'network' ? 'history.error.offline' : 'history.error.load'))
+      } else {
+        setEntries(data)
+      }
+      setLoading(false)
+    }
+    load()
+  }, [task.id])
+
+  const memberName = (id: string | null) => {
+    if (!id) return t('tasks.someone')
+    return members.find((m) => m.id === id)?.display_name ?? t('common.formerMember')
+  }
+
+  const formatValue = (field: TaskHistoryField, value: string | null) => {
+    if (value === null || value === '') {
+      if (field === 'assigned_to') return t('history.unassigned')
+      if (field === 'due_date') return t('history.noDueDate')
+      return t('history.emptyValue')
+    }
+    switch (field) {
+      case 'assigned_to':
+        return memberName(value)
+      case 'category':
+        return categoryLabel(value)
+      case 'due_date':
+        return formatDate(parseDateOnly(value))
+      case 'points':
+        return t('common.points', { count: Number(value) })
+      case 'status':
+        return value in STATUS_LABEL_KEYS ? t(STATUS_LABEL_KEYS[value as TaskStatus]) : value
+      default:
+        return value
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <History className="w-5 h-5 text-blue-600" /> {t('tasks.history')}
+            </h3>
+            <p className="text-sm text-gray-500">{task.title}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+            </div>
+          ) : error ? (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">{t('history.empty')}</p>
+          ) : (
+            <ul className="space-y-4">
+              {entries.map((entry) => (
+                <li key={entry.id} className="border-l-2 border-blue-100 pl-4">
+                  <p className="text-xs text-gray-500">
+                    <span className="font-medium text-gray-700">{memberName(entry.changed_by)}</span> ·{' '}
+                    {formatDate(entry.changed_at, {
+                      day: '2-digit',
+                      month: '2-digit',
+                      year: '2-digit',
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                  </p>
+                  {entry.field === 'created' ? (
+                    <p className="text-sm text-gray-800">{t('history.created')}</p>
+                  ) : (
+                    <p className="text-sm text-gray-800 flex flex-wrap items-center gap-1">
+                      <span className="font-medium">
+                        {t('history.fieldChanged', { field: t(FIELD_LABEL_KEYS[entry.field]) })}
+                      </span>
+                      <span className="text-gray-500 line-through">{formatValue(entry.field, entry.old_value)}</span>
+                      <ArrowRight className="w-3 h-3 text-gray-400" />
+                      <span>{formatValue(entry.field, entry.new_value)}</span>
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
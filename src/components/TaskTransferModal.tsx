@@ -0,0 +1,387 @@
+import { useMemo, useState, type ChangeEvent } from 'react'
+import { AlertCircle, ArrowLeft, CheckCircle2, Download, FileUp, Loader2, Upload, X } from 'lucide-react'
+import type { Category } from '@/lib/categories'
+import { listTasks, type MemberMini } from '@/lib/repository'
+import {
+  IMPORT_FIELDS,
+  guessMapping,
+  importTasks,
+  parseImportFile,
+  tasksToCsv,
+  tasksToJson,
+  validateRows,
+  type ColumnMapping,
+  type ImportField,
+  type RawTable,
+} from '@/lib/taskTransfer'
+
+type Props = {
+  householdId: string
+  householdName: string | null
+  currentMemberId: string
+  members: MemberMini[]
+  categories: Category[]
+  onClose: () => void
+  onImported: () => void
+}
+
+type Step = 'file' | 'mapping' | 'preview' | 'importing' | 'done'
+
+type ExportFormat = 'csv' | 'json'
+
+const PREVIEW_LIMIT = 200
+
+function downloadFile(content: string, filename: string, type: string) {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Sauvegarde (CSV / JSON) et import en masse des tâches du foyer
+ * Import en 3 étapes : fichier → correspondance des colonnes → aperçu des erreurs
+ */
+export default function TaskTransferModal({
+  householdId,
+  householdName,
+  currentMemberId,
+  members,
+  categories,
+  onClose,
+  onImported,
+}: Props) {
+  const [error, setError] = useState<string | null>(null)
+  const [exporting, setExporting] = useState<ExportFormat | null>(null)
+
+  const [step, setStep] = useState<Step>('file')
+  const [fileName, setFileName] = useState('')
+  const [table, setTable] = useState<RawTable | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [progress, setProgress] = useState({ done: 0, total: 0 })
+  const [importedCount, setImportedCount] = useState(0)
+
+  const rows = useMemo(
+    () => (table && mapping ? validateRows(table, mapping, members, categories) : []),
+    [table, mapping, members, categories]
+  )
+  const validCount = rows.filter((r) => r.draft).length
+  const invalidCount = rows.length - validCount
+
+  const handleExport = async (format: ExportFormat) => {
+    if (exporting) return
+    setExporting(format)
+    setError(null)
+
+    try {
+      const { data: tasks, error: tasksError } = await listTasks(householdId)
+      if (tasksError) throw tasksError
+
+      const date = new Date().toISOString().slice(0, 10)
+      if (format === 'csv') {
+        downloadFile(tasksToCsv(tasks, members, categories), `homeflow-taches-${date}.csv`, 'text/csv;charset=utf-8')
+      } else {
+        downloadFile(
+          tasksToJson(tasks, members, categories, householdName),
+          `homeflow-taches-${date}.json`,
+          'application/json;charset=utf-8'
+        )
+      }
+    } catch (err: any) {
+      console.error('tasks export error:', err)
+      setError(err?.kind === 'network' ? "L'export nécessite une connexion." : "Impossible de générer l'export.")
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setError(null)
+
+    try {
+      const parsed = parseImportFile(file.name, await file.text())
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        setError('Le fichier ne contient aucune ligne à importer.')
+        return
+      }
+      setFileName(file.name)
+      setTable(parsed)
+      setMapping(guessMapping(parsed.headers))
+      setStep('mapping')
+    } catch (err: any) {
+      console.error('import parse error:', err)
+      setError(err instanceof SyntaxError ? 'Fichier JSON invalide.' : err?.message || 'Fichier illisible.')
+    }
+  }
+
+  const updateMapping = (field: ImportField, value: string) => {
+    setMapping((curr) => (curr ? { ...curr, [field]: value === '' ? null : Number(value) } : curr))
+  }
+
+  const handleImport = async () => {
+    if (validCount === 0) return
+    setStep('importing')
+    setError(null)
+    setProgress({ done: 0, total: validCount })
+
+    try {
+      const inserted = await importTasks(householdId, currentMemberId, rows, (done, total) =>
+        setProgress({ done, total })
+      )
+      setImportedCount(inserted)
+      setStep('done')
+      onImported()
+    } catch (err: any) {
+      console.error('import tasks error:', err)
+      setError(
+        err?.kind === 'network'
+          ? "Connexion perdue pendant l'import. Relancez : les tâches déjà importées ne seront pas dupliquées."
+          : "L'import a échoué. Relancez pour reprendre là où il s'est arrêté."
+      )
+      setStep('preview')
+      // Les lots déjà passés sont en base : la liste doit les montrer
+      onImported()
+    }
+  }
+
+  const resetImport = () => {
+    setStep('file')
+    setFileName('')
+    setTable(null)
+    setMapping(null)
+    setError(null)
+  }
+
+  const titleMapped = mapping?.title !== null && mapping?.title !== undefined
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center">
+          <h3 className="text-2xl font-bold text-gray-900">Import / export des tâches</h3>
+          <button
+            onClick={onClose}
+            disabled={step === 'importing'}
+            className="p-2 hover:bg-gray-100 rounded-lg transition disabled:opacity-50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="p-6 space-y-8">
+          {/* Export */}
+          <section>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Exporter</h4>
+            <p className="text-xs text-gray-500 mb-3">
+              Toutes les tâches du foyer, avec le nom des membres assignés. Le CSV s'ouvre dans Excel ou LibreOffice.
+            </p>
+            <div className="flex flex-wrap gap-3">
+              {(['csv', 'json'] as const).map((format) => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  disabled={exporting !== null}
+                  className="flex items-center px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium disabled:opacity-50"
+                >
+                  {exporting === format ? (
+                    <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="w-5 h-5 mr-2" />
+                  )}
+                  Télécharger (.{format})
+                </button>
+              ))}
+            </div>
+          </section>
+
+          {/* Import */}
+          <section>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Importer</h4>
+
+            {step === 'file' && (
+              <>
+                <p className="text-xs text-gray-500 mb-3">
+                  Fichier CSV (séparateur , ou ;) ou JSON. La première ligne du CSV doit contenir les noms de colonnes.
+                </p>
+                <label className="flex flex-col items-center justify-center gap-2 px-4 py-8 border-2 border-dashed border-gray-300 rounded-xl text-gray-600 hover:border-blue-400 hover:bg-blue-50 transition cursor-pointer">
+                  <FileUp className="w-8 h-8 text-gray-400" />
+                  <span className="text-sm font-medium">Choisir un fichier</span>
+                  <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} className="hidden" />
+                </label>
+              </>
+            )}
+
+            {step === 'mapping' && table && mapping && (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  <span className="font-medium">{fileName}</span> · {table.rows.length} ligne
+                  {table.rows.length > 1 ? 's' : ''}. Associez chaque champ à une colonne du fichier.
+                </p>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {IMPORT_FIELDS.map(({ field, label, required }) => (
+                    <div key={field}>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        {label}
+                        {required && ' *'}
+                      </label>
+                      <select
+                        value={mapping[field] ?? ''}
+                        onChange={(e) => updateMapping(field, e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="">{required ? '— Choisir —' : '— Ignorer (valeur par défaut) —'}</option>
+                        {table.headers.map((header, index) => (
+                          <option key={index} value={index}>
+                            {header || `Colonne ${index + 1}`}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex justify-between">
+                  <button
+                    onClick={resetImport}
+                    className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition"
+                  >
+                    <ArrowLeft className="w-4 h-4 mr-2" /> Autre fichier
+                  </button>
+                  <button
+                    onClick={() => setStep('preview')}
+                    disabled={!titleMapped}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50"
+                  >
+                    Vérifier les lignes
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {(step === 'preview' || step === 'importing') && (
+              <div className="space-y-4">
+                <div className="flex flex-wrap gap-3 text-sm">
+                  <span className="px-3 py-1 rounded-full bg-green-100 text-green-700 font-medium">
+                    {validCount} prête{validCount > 1 ? 's' : ''}
+                  </span>
+                  {invalidCount > 0 && (
+                    <span className="px-3 py-1 rounded-full bg-red-100 text-red-700 font-medium">
+                      {invalidCount} en erreur (ignorée{invalidCount > 1 ? 's' : ''})
+                    </span>
+                  )}
+                </div>
+
+                <div className="border rounded-xl overflow-hidden">
+                  <div className="max-h-80 overflow-y-auto">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 text-left text-xs text-gray-500 uppercase sticky top-0">
+                        <tr>
+                          <th className="px-3 py-2 w-16">Ligne</th>
+                          <th className="px-3 py-2">Titre</th>
+                          <th className="px-3 py-2">Résultat</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                          <tr key={row.line} className={row.draft ? '' : 'bg-red-50'}>
+                            <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                            <td className="px-3 py-2 text-gray-900">
+                              {row.draft?.title ?? (mapping?.title != null ? table?.rows[row.line - 2]?.[mapping.title] : '')}
+                            </td>
+                            <td className="px-3 py-2">
+                              {row.draft ? (
+                                <span className="flex items-center text-green-700">
+                                  <CheckCircle2 className="w-4 h-4 mr-1" /> OK
+                                </span>
+                              ) : (
+                                <ul className="text-red-600 space-y-0.5">
+                                  {row.errors.map((e) => (
+                                    <li key={e}>{e}</li>
+                                  ))}
+                                </ul>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {rows.length > PREVIEW_LIMIT && (
+                    <p className="px-3 py-2 text-xs text-gray-500 bg-gray-50 border-t">
+                      {rows.length - PREVIEW_LIMIT} lignes supplémentaires non affichées
+                    </p>
+                  )}
+                </div>
+
+                {step === 'importing' ? (
+                  <div>
+                    <div className="flex justify-between text-sm text-gray-600 mb-1">
+                      <span className="flex items-center">
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" /> Import en cours…
+                      </span>
+                      <span>
+                        {progress.done} / {progress.total}
+                      </span>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-blue-600 transition-all"
+                        style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex justify-between">
+                    <button
+                      onClick={() => setStep('mapping')}
+                      className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition"
+                    >
+                      <ArrowLeft className="w-4 h-4 mr-2" /> Colonnes
+                    </button>
+                    <button
+                      onClick={handleImport}
+                      disabled={validCount === 0}
+                      className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50"
+                    >
+                      <Upload className="w-4 h-4 mr-2" />
+                      Importer {validCount} tâche{validCount > 1 ? 's' : ''}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {step === 'done' && (
+              <div className="text-center py-6 space-y-3">
+                <CheckCircle2 className="w-12 h-12 text-green-600 mx-auto" />
+                <p className="text-gray-900 font-medium">
+                  {importedCount} tâche{importedCount > 1 ? 's' : ''} importée{importedCount > 1 ? 's' : ''}
+                </p>
+                <button
+                  onClick={resetImport}
+                  className="px-4 py-2 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                >
+                  Importer un autre fichier
+                </button>
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+import { useEffect } from 'react'
+import { X } from 'lucide-react'
+
+export type Toast = { id: string; message: string }
+
+type Props = {
+  toasts: Toast[]
+  onDismiss: (id: string) => void
+  durationMs?: number
+}
+
+function ToastItem({ toast, onDismiss, durationMs }: { toast: Toast; onDismiss: (id: string) => void; durationMs: number }) {
+  useEffect(() => {
+    const timer = setTimeout(() => onDismiss(toast.id), durationMs)
+    return () => clearTimeout(timer)
+  }, [toast.id, onDismiss, durationMs])
+
+  return (
+    <div className="flex items-center gap-3 bg-gray-900 text-white text-sm px-4 py-3 rounded-xl shadow-lg">
+      <span className="flex-1">{toast.message}</span>
+      <button onClick={() => onDismiss(toast.id)} className="text-gray-400 hover:text-white transition">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  )
+}
+
+/**
+ * Notifications discrètes en bas d'écran (disparaissent seules)
+ */
+export default function Toasts({ toasts, onDismiss, durationMs = 4000 }: Props) {
+  if (toasts.length === 0) return null
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex flex-col gap-2 w-full max-w-sm px-4">
+      {toasts.map((toast) => (
+        <ToastItem key={toast.id} toast={toast} onDismiss={onDismiss} durationMs={durationMs} />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+import { useMemo } from 'react'
+import {
+  formatDate,
+  formatNumber,
+  translate,
+  type MessageKey,
+  type MessageParams,
+} from '@/lib/i18n'
+import { useLocaleStore } from '@/store/localeStore'
+
+/**
+ * t() / formatDate() / formatNumber() liés à la langue courante (re-rendu au changement)
+ */
+export function useI18n() {
+  const locale = useLocaleStore((s) => s.locale)
+  const setLocale = useLocaleStore((s) => s.setLocale)
+
+  return useMemo(
+    () => ({
+      locale,
+      setLocale,
+      t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+      formatDate: (value: Date | string, options?: Intl.DateTimeFormatOptions) => formatDate(locale, value, options),
+      formatNumber: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(locale, value, options),
+    }),
+    [locale, setLocale]
+  )
+}
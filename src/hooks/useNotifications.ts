@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useI18n } from '@/hooks/useI18n'
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_LABEL_KEYS,
+  getNotificationPreferences,
+  listNotifications,
+  markNotificationsRead,
+  refreshDueNotifications,
+  saveNotificationPreferences,
+  showBrowserNotification,
+  type AppNotification,
+  type NotificationPreferences,
+} from '@/lib/notifications'
+
+// Les rappels d'échéance sont recalculés au plus toutes les heures (et au retour sur l'onglet)
+const REFRESH_INTERVAL_MS = 60 * 60 * 1000
+
+/**
+ * ✅ Notifications du membre dans le foyer courant
+ * - chargement + rappels d'échéance, puis Realtime (INSERT / UPDATE filtrés par member_id)
+ * - alerte navigateur sur INSERT si l'utilisateur l'a activée pour ce type d'événement
+ * - householdId null (hors ligne, chargement) : rien n'est chargé
+ */
+export function useNotifications(householdId: string | null, memberId: string | null) {
+  const { t } = useI18n()
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES)
+
+  // Lus depuis le callback Realtime sans réabonnement
+  const preferencesRef = useRef(preferences)
+  const tRef = useRef(t)
+  preferencesRef.current = preferences
+  tRef.current = t
+
+  const reload = useCallback(async () => {
+    if (!householdId || !memberId) return
+    try {
+      await refreshDueNotifications(householdId).catch((err) => console.warn('refresh due notifications:', err))
+      setNotifications(await listNotifications(householdId, memberId))
+    } catch (err: any) {
+      console.error('load notifications error:', err)
+    }
+  }, [householdId, memberId])
+
+  useEffect(() => {
+    setNotifications([])
+    reload()
+  }, [reload])
+
+  useEffect(() => {
+    if (!memberId) return
+    getNotificationPreferences(memberId)
+      .then(setPreferences)
+      .catch((err) => console.error('load notification preferences error:', err))
+  }, [memberId])
+
+  // Rappels : périodiquement et quand l'onglet redevient visible
+  useEffect(() => {
+    if (!householdId || !memberId) return
+    const timer = setInterval(reload, REFRESH_INTERVAL_MS)
+    const onVisibility = () => {
+      if (document.visibilityState === 'visible') reload()
+    }
+    document.addEventListener('visibilitychange', onVisibility)
+    return () => {
+      clearInterval(timer)
+      document.removeEventListener('visibilitychange', onVisibility)
+    }
+  }, [householdId, memberId, reload])
+
+  useEffect(() => {
+    if (!householdId || !memberId) return
+
+    const filter = `member_id=eq.${memberId}`
+    const channel = supabase
+      .channel(`notifications:${memberId}:${householdId}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'notifications', filter }, (payload) => {
+        const incoming = payload.new as AppNotification
+        if (incoming.household_id !== householdId) return
+        setNotifications((prev) => (prev.some((n) => n.id === incoming.id) ? prev : [incoming, ...prev]))
+
+        const prefs = preferencesRef.current
+        if (prefs.browser_enabled && prefs[incoming.kind]) {
+          showBrowserNotification(tRef.current(NOTIFICATION_LABEL_KEYS[incoming.kind]), incoming.task_title, incoming.id)
+        }
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'notifications', filter }, (payload) => {
+        // Lue sur un autre appareil
+        const incoming = payload.new as AppNotification
+        setNotifications((prev) => prev.map((n) => (n.id === incoming.id ? incoming : n)))
+      })
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [householdId, memberId])
+
+  const markRead = async (ids: string[]) => {
+    const unreadIds = ids.filter((id) => notifications.some((n) => n.id === id && !n.read_at))
+    if (unreadIds.length === 0) return
+
+    const readAt = new Date().toISOString()
+    setNotifications((prev) => prev.map((n) => (unreadIds.includes(n.id) ? { ...n, read_at: readAt } : n)))
+    try {
+      await markNotificationsRead(unreadIds)
+    } catch (err: any) {
+      console.error('mark notifications read error:', err)
+      reload()
+    }
+  }
+
+  const markAllRead = () => markRead(notifications.map((n) => n.id))
+
+  const updatePreferences = async (next: NotificationPreferences) => {
+    if (!memberId) return
+    const previous = preferences
+    setPreferences(next)
+    try {
+      await saveNotificationPreferences(memberId, next)
+    } catch (err: any) {
+      console.error('save notification preferences error:', err)
+      setPreferences(previous)
+    }
+  }
+
+  return {
+    notifications,
+    unreadCount: notifications.filter((n) => !n.read_at).length,
+    preferences,
+    markRead,
+    markAllRead,
+    updatePreferences,
+  }
+}
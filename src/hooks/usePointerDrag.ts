@@ -0,0 +1,113 @@
+import { useEffect, useRef, useState, type PointerEvent as ReactPointerEvent } from 'react'
+
+export type DragState<T> = {
+  item: T
+  // Position du pointeur (viewport)
+  x: number
+  y: number
+  // Point de saisie dans l'élément, pour que le fantôme ne "saute" pas
+  offsetX: number
+  offsetY: number
+  width: number
+  // data-drop-target de la zone survolée
+  overTarget: string | null
+}
+
+type Options<T> = {
+  onDrop: (item: T, target: string) => void
+  // Distance (px) avant de considérer que c'est un glisser et pas un clic
+  threshold?: number
+}
+
+function dropTargetAt(x: number, y: number) {
+  const el = document.elementFromPoint(x, y) as HTMLElement | null
+  const zone = el?.closest('[data-drop-target]') as HTMLElement | null
+  return zone?.dataset.dropTarget ?? null
+}
+
+// Après un glisser, le navigateur peut émettre un click sur l'élément saisi : on l'ignore
+function suppressNextClick() {
+  const stop = (ev: MouseEvent) => {
+    ev.stopPropagation()
+    ev.preventDefault()
+  }
+  window.addEventListener('click', stop, { capture: true, once: true })
+  setTimeout(() => window.removeEventListener('click', stop, { capture: true }), 0)
+}
+
+/**
+ * ✅ Glisser-déposer souris + tactile (Pointer Events)
+ * - l'API HTML5 drag & drop ne fonctionne pas au doigt : on suit le pointeur à la main
+ * - zones de dépôt : n'importe quel élément avec data-drop-target="…"
+ * - l'élément saisi doit avoir touch-action: none (classe touch-none),
+ *   sinon le navigateur fait défiler la page au lieu de nous envoyer les mouvements
+ * - Échap annule
+ */
+export function usePointerDrag<T>({ onDrop, threshold = 5 }: Options<T>) {
+  const [drag, setDrag] = useState<DragState<T> | null>(null)
+  const onDropRef = useRef(onDrop)
+  onDropRef.current = onDrop
+  const cleanupRef = useRef<(() => void) | null>(null)
+
+  useEffect(() => () => cleanupRef.current?.(), [])
+
+  const startDrag = (e: ReactPointerEvent<HTMLElement>, item: T) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return
+    e.preventDefault()
+    cleanupRef.current?.()
+
+    const startX = e.clientX
+    const startY = e.clientY
+    // Saisie par une poignée : on mesure l'élément entier (data-drag-item) pour le fantôme
+    const source = (e.currentTarget.closest('[data-drag-item]') as HTMLElement | null) ?? e.currentTarget
+    const rect = source.getBoundingClientRect()
+    let active = false
+
+    const update = (x: number, y: number) => {
+      setDrag({
+        item,
+        x,
+        y,
+        offsetX: startX - rect.left,
+        offsetY: startY - rect.top,
+        width: rect.width,
+        overTarget: dropTargetAt(x, y),
+      })
+    }
+
+    const onMove = (ev: PointerEvent) => {
+      if (!active && Math.hypot(ev.clientX - startX, ev.clientY - startY) < threshold) return
+      active = true
+      update(ev.clientX, ev.clientY)
+    }
+
+    const onUp = (ev: PointerEvent) => {
+      cleanup()
+      if (!active) return
+      suppressNextClick()
+      const target = dropTargetAt(ev.clientX, ev.clientY)
+      if (target) onDropRef.current(item, target)
+    }
+
+    const onKey = (ev: KeyboardEvent) => {
+      if (ev.key === 'Escape') cleanup()
+    }
+
+    const cleanup = () => {
+      window.removeEventListener('pointermove', onMove)
+      window.removeEventListener('pointerup', onUp)
+      window.removeEventListener('pointercancel', cleanup)
+      window.removeEventListener('keydown', onKey)
+      cleanupRef.current = null
+      setDrag(null)
+    }
+
+    window.addEventListener('pointermove', onMove)
+    window.addEventListener('pointerup', onUp)
+    window.addEventListener('pointercancel', cleanup)
+    window.addEventListener('keydown', onKey)
+    cleanupRef.current = cleanup
+  }
+
+  return { drag, startDrag }
+}
@@ -0,0 +1,57 @@
+import { useEffect, useRef } from 'react'
+import { supabase } from '@/lib/supabase'
+import type { Task } from '@/lib/repository'
+
+export type RealtimeTaskEvent =
+  | { type: 'INSERT'; task: Task }
+  | { type: 'UPDATE'; task: Task; previous: Partial<Task> }
+  | { type: 'DELETE'; taskId: string }
+
+type Options = {
+  onEvent: (event: RealtimeTaskEvent) => void
+  // Appelé après une reconnexion : des événements ont pu être manqués
+  onResubscribe?: () => void
+}
+
+/**
+ * ✅ Abonnement Realtime aux tâches d'un foyer
+ * - INSERT / UPDATE filtrés par household_id côté serveur
+ * - DELETE non filtrable (seule la clé primaire est envoyée) :
+ *   l'appelant ignore simplement les ids qu'il ne connaît pas
+ */
+export function useRealtimeTasks(householdId: string | null, { onEvent, onResubscribe }: Options) {
+  // Callbacks dans des refs : pas de réabonnement à chaque rendu
+  const onEventRef = useRef(onEvent)
+  const onResubscribeRef = useRef(onResubscribe)
+  onEventRef.current = onEvent
+  onResubscribeRef.current = onResubscribe
+
+  useEffect(() => {
+    if (!householdId) return
+
+    let subscribedOnce = false
+    const filter = `household_id=eq.${householdId}`
+
+    const channel = supabase
+      .channel(`tasks:${householdId}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'tasks', filter }, (payload) => {
+        onEventRef.current({ type: 'INSERT', task: payload.new as Task })
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'tasks', filter }, (payload) => {
+        onEventRef.current({ type: 'UPDATE', task: payload.new as Task, previous: payload.old as Partial<Task> })
+      })
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'tasks' }, (payload) => {
+        const taskId = (payload.old as Partial<Task>)?.id
+        if (taskId) onEventRef.current({ type: 'DELETE', taskId })
+      })
+      .subscribe((status) => {
+        if (status !== 'SUBSCRIBED') return
+        if (subscribedOnce) onResubscribeRef.current?.()
+        subscribedOnce = true
+      })
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [householdId])
+}
@@ -1,22 +1,33 @@
 import { useEffect, useState } from 'react'
+import type { User } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
-import { useStore } from '@/store/authStore'
+import { isLocale } from '@/lib/i18n'
+import { useAuthStore } from '@/store/authStore'
+import { useLocaleStore } from '@/store/localeStore'
 
 export function useSupabaseAuth() {
   const [loading, setLoading] = useState(true)
 
-  const setUser = useStore((s) => s.setUser)
-  const clearAuth = useStore((s) => s.clearAuth)
+  const setUser = useAuthStore((s) => s.setUser)
+  const clearAuth = useAuthStore((s) => s.clearAuth)
+  const setLocale = useLocaleStore((s) => s.setLocale)
 
   useEffect(() => {
     let mounted = true
 
+    // Langue enregistrée sur le compte (prioritaire sur celle de l'appareil)
+    const applyUserLocale = (user: User | null) => {
+      const locale = user?.user_metadata?.locale
+      if (isLocale(locale) && locale !== useLocaleStore.getState().locale) setLocale(locale)
+    }
+
     const init = async () => {
       try {
         const { data, error } = await supabase.auth.getSession()
         if (error) throw error
 
         setUser(data.session?.user ?? null)
+        applyUserLocale(data.session?.user ?? null)
       } catch (err) {
         console.error('useSupabaseAuth init error:', err)
         clearAuth()
@@ -29,6 +40,7 @@ export function useSupabaseAuth() {
 
     const { data: listener } = supabase.auth.onAuthStateChange((_event, session) => {
       setUser(session?.user ?? null)
+      applyUserLocale(session?.user ?? null)
       if (!session) clearAuth()
     })
 
@@ -36,7 +48,7 @@ export function useSupabaseAuth() {
       mounted = false
       listener.subscription.unsubscribe()
     }
-  }, [setUser, clearAuth])
+  }, [setUser, clearAuth, setLocale])
 
   return { loading }
 }
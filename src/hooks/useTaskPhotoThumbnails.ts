@@ -0,0 +1,39 @@
+import { useEffect, useRef, useState } from 'react'
+import { loadPhotoThumbnails, type PhotoThumbnail } from '@/lib/photos'
+
+type PhotoCounted = { id: string; photo_count: number }
+
+/**
+ * ✅ Miniatures des photos de preuve pour les cartes affichées
+ * Rechargées seulement pour les tâches dont photo_count a changé (Realtime, ajout, suppression).
+ * disabled (hors ligne) : on garde ce qui est déjà chargé.
+ */
+export function useTaskPhotoThumbnails(tasks: PhotoCounted[], disabled = false) {
+  const [thumbnails, setThumbnails] = useState<Record<string, PhotoThumbnail[]>>({})
+  const loadedCounts = useRef(new Map<string, number>())
+
+  const key = tasks
+    .filter((t) => t.photo_count > 0)
+    .map((t) => `${t.id}:${t.photo_count}`)
+    .join(',')
+
+  useEffect(() => {
+    if (disabled || !key) return
+
+    const stale = key
+      .split(',')
+      .map((entry) => entry.split(':'))
+      .filter(([id, count]) => loadedCounts.current.get(id) !== Number(count))
+    if (stale.length === 0) return
+
+    stale.forEach(([id, count]) => loadedCounts.current.set(id, Number(count)))
+    loadPhotoThumbnails(stale.map(([id]) => id))
+      .then((loaded) => setThumbnails((prev) => ({ ...prev, ...loaded })))
+      .catch((err) => {
+        console.error('load photo thumbnails error:', err)
+        stale.forEach(([id]) => loadedCounts.current.delete(id))
+      })
+  }, [key, disabled])
+
+  return thumbnails
+}
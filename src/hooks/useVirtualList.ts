@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+type Options = {
+  count: number
+  // Clé stable de l'élément i : la hauteur mesurée le suit quand la liste bouge
+  getKey: (index: number) => string
+  // Hauteur supposée d'un élément pas encore mesuré (px, espacement compris)
+  estimateSize: number
+  // Marge rendue au-dessus et au-dessous de l'écran (px)
+  overscan?: number
+}
+
+export type VirtualItem = { index: number; key: string; start: number }
+
+// Dernier index qui commence avant y (starts croissants, au moins un élément)
+function indexAt(starts: number[], y: number) {
+  let low = 0
+  let high = starts.length - 1
+  while (low < high) {
+    const mid = (low + high + 1) >> 1
+    if (starts[mid] <= y) low = mid
+    else high = mid - 1
+  }
+  return low
+}
+
+/**
+ * ✅ Liste virtualisée sur le défilement de la page
+ * - seuls les éléments proches de l'écran sont rendus, positionnés en absolu dans le conteneur
+ * - hauteurs variables : chaque élément rendu est mesuré (ResizeObserver)
+ * - l'état ne change que si la plage visible change : pas de rendu à chaque pixel de défilement
+ * - measure : ref à poser sur chaque élément rendu, avec data-virtual-key={key}
+ */
+export function useVirtualList({ count, getKey, estimateSize, overscan = 800 }: Options) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const sizes = useRef(new Map<string, number>())
+  const [measureVersion, setMeasureVersion] = useState(0)
+  const [range, setRange] = useState({ start: 0, end: -1 })
+
+  // Positions recalculées à chaque rendu (quelques milliers d'éléments : négligeable)
+  const keys: string[] = []
+  const starts: number[] = []
+  let totalSize = 0
+  for (let i = 0; i < count; i++) {
+    const key = getKey(i)
+    keys.push(key)
+    starts.push(totalSize)
+    totalSize += sizes.current.get(key) ?? estimateSize
+  }
+
+  const layout = useRef(starts)
+  layout.current = starts
+
+  const updateRange = useCallback(() => {
+    const el = containerRef.current
+    const positions = layout.current
+    if (!el || positions.length === 0) {
+      setRange((prev) => (prev.end === -1 ? prev : { start: 0, end: -1 }))
+      return
+    }
+
+    const top = -el.getBoundingClientRect().top
+    const start = indexAt(positions, top - overscan)
+    const end = indexAt(positions, top + window.innerHeight + overscan)
+    setRange((prev) => (prev.start === start && prev.end === end ? prev : { start, end }))
+  }, [overscan])
+
+  useEffect(() => {
+    let frame = 0
+    const schedule = () => {
+      if (!frame) {
+        frame = requestAnimationFrame(() => {
+          frame = 0
+          updateRange()
+        })
+      }
+    }
+    window.addEventListener('scroll', schedule, { passive: true })
+    window.addEventListener('resize', schedule)
+    return () => {
+      cancelAnimationFrame(frame)
+      window.removeEventListener('scroll', schedule)
+      window.removeEventListener('resize', schedule)
+    }
+  }, [updateRange])
+
+  // Nouvelle liste ou nouvelles mesures : la plage visible peut changer sans défilement
+  useEffect(() => {
+    updateRange()
+  }, [count, totalSize, measureVersion, updateRange])
+
+  const observer = useRef<ResizeObserver | null>(null)
+  if (!observer.current && typeof ResizeObserver !== 'undefined') {
+    observer.current = new ResizeObserver((entries) => {
+      let changed = false
+      entries.forEach((entry) => {
+        const el = entry.target as HTMLElement
+        const key = el.dataset.virtualKey
+        const height = el.offsetHeight
+        if (key && height > 0 && sizes.current.get(key) !== height) {
+          sizes.current.set(key, height)
+          changed = true
+        }
+      })
+      if (changed) setMeasureVersion((v) => v + 1)
+    })
+  }
+
+  const observed = useRef(new Set<HTMLElement>())
+
+  // Éléments sortis de l'écran : on arrête de les suivre, leur dernière mesure reste valable
+  useEffect(() => {
+    observed.current.forEach((el) => {
+      if (el.isConnected) return
+      observer.current?.unobserve(el)
+      observed.current.delete(el)
+    })
+  })
+
+  useEffect(
+    () => () => {
+      observer.current?.disconnect()
+      observed.current.clear()
+    },
+    []
+  )
+
+  const measure = useCallback((el: HTMLElement | null) => {
+    if (!el || observed.current.has(el)) return
+    observed.current.add(el)
+    observer.current?.observe(el)
+  }, [])
+
+  const items: VirtualItem[] = []
+  for (let i = range.start; i <= Math.min(range.end, count - 1); i++) {
+    items.push({ index: i, key: keys[i], start: starts[i] })
+  }
+
+  return { containerRef, items, totalSize, measure, range }
+}
@@ -0,0 +1,138 @@
+import { supabase } from '@/lib/supabase'
+import type { Tables } from '@/lib/database.types'
+import type { MemberRole } from '@/lib/households'
+import { spawnNextOccurrence } from '@/lib/recurrence'
+import { TASK_COLUMNS, type Task } from '@/lib/repository'
+
+/**
+ * ✅ Validation parentale des tâches terminées
+ * - règles par foyer : tel membre, ou telle catégorie, passe par un parent
+ * - cochée par un membre concerné → "awaiting_approval", sans points
+ * - validée : points crédités par la base, occurrence suivante générée ; refusée : retour "À faire" avec le motif
+ * - la base applique la même règle (trigger require_task_approval)
+ */
+
+export type ApprovalRule = Tables<'approval_rules'>
+
+// Une règle vise un membre OU une catégorie
+export type ApprovalTarget = { member_id: string } | { category: string }
+
+type Actor = { id: string; role: MemberRole | null }
+
+export const REJECTION_REASON_MAX = 500
+
+/**
+ * Les parents ne passent jamais par la validation : ce sont eux qui valident
+ */
+export function needsApproval(task: { category: string }, actor: Actor, rules: ApprovalRule[]) {
+  if (actor.role === 'admin' || actor.role === 'parent') return false
+  return rules.some((rule) => rule.member_id === actor.id || rule.category === task.category)
+}
+
+export async function listApprovalRules(householdId: string) {
+  const { data, error } = await supabase.from('approval_rules').select('*').eq('household_id', householdId)
+
+  if (error) throw error
+  return (data || []) as ApprovalRule[]
+}
+
+export async function setApprovalRule(householdId: string, target: ApprovalTarget, required: boolean) {
+  const isMember = 'member_id' in target
+
+  if (required) {
+    const { error } = await supabase
+      .from('approval_rules')
+      .upsert(
+        { household_id: householdId, ...target },
+        { onConflict: isMember ? 'household_id,member_id' : 'household_id,category', ignoreDuplicates: true }
+      )
+    if (error) throw error
+    return
+  }
+
+  let query = supabase.from('approval_rules').delete().eq('household_id', householdId)
+  query = isMember ? query.eq('member_id', target.member_id) : query.eq('category', target.category)
+
+  const { error } = await query
+  if (error) throw error
+}
+
+/**
+ * ✅ Boîte de validation : les plus anciennes demandes d'abord
+ */
+export async function listAwaitingApproval(householdId: string) {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select(TASK_COLUMNS)
+    .eq('household_id', householdId)
+    .eq('status', 'awaiting_approval')
+    .order('submitted_at', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as unknown as Task[]
+}
+
+export async function countAwaitingApproval(householdId: string) {
+  const { count, error } = await supabase
+    .from('tasks')
+    .select('id', { count: 'exact', head: true })
+    .eq('household_id', householdId)
+    .eq('status', 'awaiting_approval')
+
+  if (error) throw error
+  return count ?? 0
+}
+
+/**
+ * ✅ Validation d'un parent
+ * - la tâche est terminée par celui qui l'a cochée, à la date de sa demande (posée par la base, retard compris)
+ * - points crédités par le trigger record_task_points : à l'assigné, à défaut à celui qui l'a cochée
+ * - null si elle n'attend plus de validation (décidée ailleurs entre-temps)
+ */
+export async function approveTask(task: Task, parentId: string) {
+  const { data, error } = await supabase
+    .from('tasks')
+    .update({
+      status: 'completed',
+      completed_by: task.submitted_by ?? parentId,
+      rejection_reason: null,
+    })
+    .eq('id', task.id)
+    .eq('status', 'awaiting_approval')
+    .select(TASK_COLUMNS)
+
+  if (error) throw error
+  const updated = ((data || [])[0] ?? null) as unknown as Task | null
+  if (!updated) return null
+
+  let spawned = false
+  if (task.recurrence) {
+    try {
+      spawned = !!(await spawnNextOccurrence(task, new Date(updated.completed_at ?? Date.now())))
+    } catch (spawnErr) {
+      console.error('recurrence spawn error:', spawnErr)
+    }
+  }
+
+  return { task: updated, spawned }
+}
+
+/**
+ * ✅ Refus d'un parent : retour "À faire", le motif reste affiché jusqu'à la prochaine validation
+ * (la base efface la demande : submitted_at / submitted_by)
+ */
+export async function rejectTask(task: Task, reason: string) {
+  const { data, error } = await supabase
+    .from('tasks')
+    .update({
+      status: 'pending',
+      completed_by: null,
+      rejection_reason: reason.trim().slice(0, REJECTION_REASON_MAX),
+    })
+    .eq('id', task.id)
+    .eq('status', 'awaiting_approval')
+    .select(TASK_COLUMNS)
+
+  if (error) throw error
+  return ((data || [])[0] ?? null) as unknown as Task | null
+}
@@ -0,0 +1,145 @@
+import { supabase } from '@/lib/supabase'
+import type { Tables } from '@/lib/database.types'
+import type { MessageKey } from '@/lib/i18n'
+import { loadLeaderboard } from '@/lib/points'
+
+/**
+ * ✅ Attribution automatique d'une nouvelle tâche
+ * - candidats : membres du foyer, sauf ceux exclus de la catégorie (member_category_exclusions)
+ * - tour de rôle : celui qui n'a pas eu de tâche de la catégorie depuis le plus longtemps
+ * - à égalité : moins de tâches ouvertes, puis moins de points, puis ordre des membres
+ */
+
+export type AssignStrategy = 'round_robin' | 'least_points' | 'least_open'
+
+export type CategoryExclusion = Tables<'member_category_exclusions'>
+
+export type MemberLoad = {
+  memberId: string
+  openTasks: number
+  weekPoints: number
+  // Création de sa dernière tâche dans la catégorie (null = jamais)
+  lastInCategory: string | null
+}
+
+// Valeur de la liste "Assigner à" qui déclenche l'attribution automatique
+export const AUTO_ASSIGNEE = 'auto'
+
+export const AUTO_ASSIGN_STRATEGY_KEY = 'homeflow_auto_assign_strategy'
+
+export const ASSIGN_STRATEGIES: AssignStrategy[] = ['round_robin', 'least_points', 'least_open']
+
+export const STRATEGY_LABEL_KEYS: Record<AssignStrategy, MessageKey> = {
+  round_robin: 'autoAssign.strategy.round_robin',
+  least_points: 'autoAssign.strategy.least_points',
+  least_open: 'autoAssign.strategy.least_open',
+}
+
+// Historique consulté pour le tour de rôle (au-delà, un membre est considéré comme "jamais")
+const ROTATION_WINDOW = 200
+
+export function isAssignStrategy(value: unknown): value is AssignStrategy {
+  return ASSIGN_STRATEGIES.includes(value as AssignStrategy)
+}
+
+/**
+ * Comparaison sur le critère de la stratégie seul (sert aussi à détecter les égalités)
+ */
+export function compareOnStrategy(strategy: AssignStrategy, a: MemberLoad, b: MemberLoad) {
+  // '' (jamais) passe avant toute date ISO
+  if (strategy === 'round_robin') return (a.lastInCategory ?? '').localeCompare(b.lastInCategory ?? '')
+  if (strategy === 'least_points') return a.weekPoints - b.weekPoints
+  return a.openTasks - b.openTasks
+}
+
+/**
+ * ✅ Candidats du plus au moins prioritaire : le premier est choisi
+ * Tri stable : à égalité complète, l'ordre des membres est conservé.
+ */
+export function rankCandidates(strategy: AssignStrategy, loads: MemberLoad[], excluded: string[] = []) {
+  return loads
+    .filter((load) => !excluded.includes(load.memberId))
+    .sort(
+      (a, b) =>
+        compareOnStrategy(strategy, a, b) || a.openTasks - b.openTasks || a.weekPoints - b.weekPoints
+    )
+}
+
+/**
+ * ✅ Charge de chaque membre : tâches ouvertes, points de la semaine, dernière tâche de la catégorie
+ */
+export async function loadMemberLoads(householdId: string, memberIds: string[], category: string) {
+  const [openResult, categoryResult, week] = await Promise.all([
+    supabase
+      .from('tasks')
+      .select('assigned_to')
+      .eq('household_id', householdId)
+      .in('status', ['pending', 'in_progress'])
+      .not('assigned_to', 'is', null),
+    supabase
+      .from('tasks')
+      .select('assigned_to, created_at')
+      .eq('household_id', householdId)
+      .eq('category', category)
+      .not('assigned_to', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(ROTATION_WINDOW),
+    loadLeaderboard(householdId, 'week'),
+  ])
+
+  if (openResult.error) throw openResult.error
+  if (categoryResult.error) throw categoryResult.error
+
+  const openTasks = new Map<string, number>()
+  for (const row of openResult.data || []) {
+    if (row.assigned_to) openTasks.set(row.assigned_to, (openTasks.get(row.assigned_to) ?? 0) + 1)
+  }
+
+  // Trié du plus récent au plus ancien : la première occurrence est la dernière tâche reçue
+  const lastInCategory = new Map<string, string>()
+  for (const row of categoryResult.data || []) {
+    if (row.assigned_to && !lastInCategory.has(row.assigned_to)) lastInCategory.set(row.assigned_to, row.created_at)
+  }
+
+  const weekPoints = new Map(week.map((row) => [row.member_id, row.points]))
+
+  return memberIds.map((memberId) => ({
+    memberId,
+    openTasks: openTasks.get(memberId) ?? 0,
+    weekPoints: weekPoints.get(memberId) ?? 0,
+    lastInCategory: lastInCategory.get(memberId) ?? null,
+  })) as MemberLoad[]
+}
+
+// ---- Exclusions (parents) ----
+
+export async function listCategoryExclusions(householdId: string) {
+  const { data, error } = await supabase
+    .from('member_category_exclusions')
+    .select('*')
+    .eq('household_id', householdId)
+
+  if (error) throw error
+  return (data || []) as CategoryExclusion[]
+}
+
+export async function setCategoryExclusion(householdId: string, memberId: string, category: string, excluded: boolean) {
+  if (excluded) {
+    const { error } = await supabase
+      .from('member_category_exclusions')
+      .upsert(
+        { household_id: householdId, member_id: memberId, category },
+        { onConflict: 'household_id,member_id,category', ignoreDuplicates: true }
+      )
+    if (error) throw error
+    return
+  }
+
+  const { error } = await supabase
+    .from('member_category_exclusions')
+    .delete()
+    .eq('household_id', householdId)
+    .eq('member_id', memberId)
+    .eq('category', category)
+  if (error) throw error
+}
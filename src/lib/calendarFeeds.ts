@@ -0,0 +1,54 @@
+import { supabase } from '@/lib/supabase'
+import type { Tables } from '@/lib/database.types'
+
+export type CalendarFeed = Tables<'calendar_feeds'>
+
+/**
+ * URL du flux servi par la fonction Edge ical-feed
+ * - https : à coller dans Google Agenda ("À partir de l'URL")
+ * - webcal : ouvre directement l'abonnement dans Apple Calendrier / Outlook
+ */
+export function buildFeedUrl(token: string, protocol: 'https' | 'webcal' = 'https') {
+  const base = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ical-feed?token=${token}`
+  return protocol === 'webcal' ? base.replace(/^https?:/, 'webcal:') : base
+}
+
+/**
+ * Seuls ses propres flux sont lus (créés par soi ou à son nom) : le jeton ne circule pas dans le foyer
+ */
+export async function listFeeds(householdId: string) {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select('*')
+    .eq('household_id', householdId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as CalendarFeed[]
+}
+
+/**
+ * memberId null = flux de tout le foyer
+ */
+export async function createFeed(householdId: string, memberId: string | null, createdBy: string) {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .insert({ household_id: householdId, member_id: memberId, created_by: createdBy })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data as CalendarFeed
+}
+
+/**
+ * Le lien cesse de fonctionner immédiatement (les abonnés gardent la dernière copie)
+ */
+export async function revokeFeed(feedId: string) {
+  const { error } = await supabase
+    .from('calendar_feeds')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', feedId)
+  if (error) throw error
+}
@@ -0,0 +1,125 @@
+import { supabase } from '@/lib/supabase'
+import type { Tables, TablesUpdate } from '@/lib/database.types'
+import type { MessageKey } from '@/lib/i18n'
+
+/**
+ * ✅ Catégories du foyer (table household_categories)
+ * - tasks.category contient le slug ; une catégorie n'est jamais supprimée, seulement archivée
+ * - couleur et icône sont des clés : le rendu (classes Tailwind, icônes) reste côté client
+ */
+
+export type Category = Tables<'household_categories'>
+
+export type CategoryChanges = Pick<
+  TablesUpdate<'household_categories'>,
+  'label' | 'color' | 'icon' | 'default_points' | 'requires_photo' | 'archived' | 'position'
+>
+
+// Classes écrites en entier : Tailwind ne voit pas les classes construites dynamiquement (label : clé du catalogue)
+export const CATEGORY_COLORS = {
+  gray: { label: 'categories.colors.gray', badge: 'bg-gray-100 text-gray-700', swatch: 'bg-gray-400' },
+  green: { label: 'categories.colors.green', badge: 'bg-green-100 text-green-700', swatch: 'bg-green-500' },
+  blue: { label: 'categories.colors.blue', badge: 'bg-blue-100 text-blue-700', swatch: 'bg-blue-500' },
+  yellow: { label: 'categories.colors.yellow', badge: 'bg-yellow-100 text-yellow-700', swatch: 'bg-yellow-400' },
+  orange: { label: 'categories.colors.orange', badge: 'bg-orange-100 text-orange-700', swatch: 'bg-orange-500' },
+  purple: { label: 'categories.colors.purple', badge: 'bg-purple-100 text-purple-700', swatch: 'bg-purple-500' },
+  red: { label: 'categories.colors.red', badge: 'bg-red-100 text-red-700', swatch: 'bg-red-500' },
+  pink: { label: 'categories.colors.pink', badge: 'bg-pink-100 text-pink-700', swatch: 'bg-pink-500' },
+  teal: { label: 'categories.colors.teal', badge: 'bg-teal-100 text-teal-700', swatch: 'bg-teal-500' },
+  indigo: { label: 'categories.colors.indigo', badge: 'bg-indigo-100 text-indigo-700', swatch: 'bg-indigo-500' },
+} as const satisfies Record<string, { label: MessageKey; badge: string; swatch: string }>
+
+export type CategoryColor = keyof typeof CATEGORY_COLORS
+
+export const CATEGORY_ICONS = [
+  'tag',
+  'cart',
+  'sparkles',
+  'hammer',
+  'chef',
+  'file',
+  'shirt',
+  'baby',
+  'paw',
+  'leaf',
+  'car',
+  'trash',
+  'book',
+  'heart',
+  'dumbbell',
+] as const
+
+export type CategoryIconName = (typeof CATEGORY_ICONS)[number]
+
+export function categoryBadgeClass(color: string) {
+  return (CATEGORY_COLORS[color as CategoryColor] ?? CATEGORY_COLORS.gray).badge
+}
+
+/**
+ * ✅ Accès par slug
+ * Slug inconnu (catégorie d'un autre appareil pas encore chargée…) : on affiche
+ * le slug tel quel en gris plutôt que de le confondre avec "Général".
+ */
+export function createCategoryLookup(categories: Category[]) {
+  const bySlug = new Map(categories.map((c) => [c.slug, c]))
+  return {
+    find: (slug: string) => bySlug.get(slug) ?? null,
+    label: (slug: string) => bySlug.get(slug)?.label ?? slug,
+    style: (slug: string) => categoryBadgeClass(bySlug.get(slug)?.color ?? 'gray'),
+  }
+}
+
+/**
+ * Slug dérivé du libellé, unique dans le foyer ("Jardin" → jardin, jardin-2…)
+ */
+export function slugForLabel(label: string, taken: string[]) {
+  const base =
+    label
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'categorie'
+
+  let slug = base
+  for (let n = 2; taken.includes(slug); n++) slug = `${base}-${n}`
+  return slug
+}
+
+export async function listCategories(householdId: string) {
+  const { data, error } = await supabase
+    .from('household_categories')
+    .select('*')
+    .eq('household_id', householdId)
+    .order('position')
+    .order('created_at')
+
+  if (error) throw error
+  return (data || []) as Category[]
+}
+
+export async function createCategory(
+  householdId: string,
+  category: Pick<Category, 'slug' | 'label' | 'color' | 'icon' | 'default_points' | 'requires_photo' | 'position'>
+) {
+  const { data, error } = await supabase
+    .from('household_categories')
+    .insert({ ...category, household_id: householdId })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data as Category
+}
+
+export async function updateCategory(categoryId: string, changes: CategoryChanges) {
+  const { data, error } = await supabase
+    .from('household_categories')
+    .update(changes)
+    .eq('id', categoryId)
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data as Category
+}
@@ -0,0 +1,82 @@
+import { supabase } from '@/lib/supabase'
+import type { Tables, TablesUpdate } from '@/lib/database.types'
+
+export type ChecklistItem = Tables<'task_checklist_items'>
+
+export type ChecklistItemChanges = Pick<TablesUpdate<'task_checklist_items'>, 'title' | 'assigned_to' | 'done'>
+
+type ChecklistOwner = { id: string; household_id: string }
+
+/**
+ * Les compteurs tasks.checklist_total / checklist_done sont tenus par trigger :
+ * ces fonctions ne touchent jamais à la tâche elle-même.
+ */
+export async function listChecklist(taskId: string) {
+  const { data, error } = await supabase
+    .from('task_checklist_items')
+    .select('*')
+    .eq('task_id', taskId)
+    .order('position')
+    .order('created_at')
+
+  if (error) throw error
+  return (data || []) as ChecklistItem[]
+}
+
+export async function addChecklistItem(
+  task: ChecklistOwner,
+  item: { title: string; assigned_to: string | null; position: number }
+) {
+  const { data, error } = await supabase
+    .from('task_checklist_items')
+    .insert({ ...item, task_id: task.id, household_id: task.household_id })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data as ChecklistItem
+}
+
+/**
+ * completed_at / completed_by sont posés par le serveur quand done change
+ */
+export async function updateChecklistItem(itemId: string, changes: ChecklistItemChanges) {
+  const { data, error } = await supabase
+    .from('task_checklist_items')
+    .update(changes)
+    .eq('id', itemId)
+    .select('*')
+    .maybeSingle()
+
+  if (error) throw error
+  return data as ChecklistItem | null
+}
+
+export async function deleteChecklistItem(itemId: string) {
+  const { error } = await supabase.from('task_checklist_items').delete().eq('id', itemId)
+  if (error) throw error
+}
+
+export async function reorderChecklist(taskId: string, itemIds: string[]) {
+  const { error } = await supabase.rpc('reorder_checklist_items', { p_task_id: taskId, p_item_ids: itemIds })
+  if (error) throw error
+}
+
+/**
+ * ✅ Occurrence suivante d'une tâche récurrente : même liste, rien de coché
+ */
+export async function copyChecklist(fromTaskId: string, to: ChecklistOwner) {
+  const items = await listChecklist(fromTaskId)
+  if (items.length === 0) return
+
+  const { error } = await supabase.from('task_checklist_items').insert(
+    items.map((item) => ({
+      task_id: to.id,
+      household_id: to.household_id,
+      title: item.title,
+      position: item.position,
+      assigned_to: item.assigned_to,
+    }))
+  )
+  if (error) throw error
+}
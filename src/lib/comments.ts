@@ -0,0 +1,112 @@
+import { supabase } from '@/lib/supabase'
+import type { Tables } from '@/lib/database.types'
+
+export type TaskComment = Tables<'task_comments'>
+
+// Morceau de texte d'un commentaire : memberId renseigné pour une @mention
+export type CommentSegment = { text: string; memberId: string | null }
+
+type CommentOwner = { id: string; household_id: string }
+
+type Mentionable = { id: string; display_name: string }
+
+const WORD_CHAR = /[\p{L}\p{N}]/u
+
+/**
+ * ✅ Découpe le texte en morceaux simples et @mentions
+ * - "@Nom" doit correspondre à un membre du foyer, suivi d'une fin de mot
+ * - nom le plus long d'abord : "@Marie-Anne" n'est pas lu comme "@Marie"
+ */
+export function splitMentions(body: string, members: Mentionable[]) {
+  const candidates = [...members].sort((a, b) => b.display_name.length - a.display_name.length)
+  const segments: CommentSegment[] = []
+  let text = ''
+  let i = 0
+
+  while (i < body.length) {
+    const match =
+      body[i] === '@' && (i === 0 || !WORD_CHAR.test(body[i - 1]))
+        ? candidates.find((m) => {
+            const end = i + 1 + m.display_name.length
+            return (
+              body.slice(i + 1, end).toLowerCase() === m.display_name.toLowerCase() &&
+              (end >= body.length || !WORD_CHAR.test(body[end]))
+            )
+          })
+        : undefined
+
+    if (!match) {
+      text += body[i]
+      i++
+      continue
+    }
+
+    if (text) segments.push({ text, memberId: null })
+    text = ''
+    const length = match.display_name.length + 1
+    segments.push({ text: body.slice(i, i + length), memberId: match.id })
+    i += length
+  }
+
+  if (text) segments.push({ text, memberId: null })
+  return segments
+}
+
+export function extractMentions(body: string, members: Mentionable[]) {
+  const ids = splitMentions(body, members).flatMap((s) => (s.memberId ? [s.memberId] : []))
+  return Array.from(new Set(ids))
+}
+
+/**
+ * "@Ma" en cours de saisie juste avant le curseur (suggestions), sinon null
+ */
+export function mentionQueryAt(text: string, caret: number) {
+  const match = /(^|\s)@([\p{L}\p{N}' -]{0,30})$/u.exec(text.slice(0, caret))
+  if (!match) return null
+  return { start: caret - match[2].length - 1, query: match[2] }
+}
+
+/**
+ * Le compteur tasks.comment_count est tenu par trigger, les mentions notifiées côté base
+ */
+export async function listComments(taskId: string) {
+  const { data, error } = await supabase
+    .from('task_comments')
+    .select('*')
+    .eq('task_id', taskId)
+    .order('created_at')
+
+  if (error) throw error
+  return (data || []) as TaskComment[]
+}
+
+export async function addComment(task: CommentOwner, authorId: string, body: string, mentions: string[]) {
+  const { data, error } = await supabase
+    .from('task_comments')
+    .insert({ task_id: task.id, household_id: task.household_id, author_id: authorId, body, mentions })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data as TaskComment
+}
+
+/**
+ * edited_at est posé par le serveur quand le texte change
+ */
+export async function updateComment(commentId: string, body: string, mentions: string[]) {
+  const { data, error } = await supabase
+    .from('task_comments')
+    .update({ body, mentions })
+    .eq('id', commentId)
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data as TaskComment
+}
+
+export async function deleteComment(commentId: string) {
+  const { error } = await supabase.from('task_comments').delete().eq('id', commentId)
+  if (error) throw error
+}
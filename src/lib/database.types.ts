@@ -0,0 +1,1196 @@
+// Généré par `supabase gen types typescript --local > src/lib/database.types.ts`
+// Ne pas modifier à la main : relancer la commande après chaque migration.
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      approval_rules: {
+        Row: {
+          category: string | null
+          created_at: string
+          household_id: string
+          id: string
+          member_id: string | null
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          household_id: string
+          id?: string
+          member_id?: string | null
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          household_id?: string
+          id?: string
+          member_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'approval_rules_category_fkey'
+            columns: ['household_id', 'category']
+            isOneToOne: false
+            referencedRelation: 'household_categories'
+            referencedColumns: ['household_id', 'slug']
+          },
+          {
+            foreignKeyName: 'approval_rules_household_id_fkey'
+            columns: ['household_id']
+            isOneToOne: false
+            referencedRelation: 'households'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'approval_rules_member_id_fkey'
+            columns: ['household_id', 'member_id']
+            isOneToOne: false
+            referencedRelation: 'members'
+            referencedColumns: ['household_id', 'id']
+          },
+        ]
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          created_by: string
+          household_id: string
+          id: string
+          member_id: string | null
+          revoked_at: string | null
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          household_id: string
+          id?: string
+          member_id?: string | null
+          revoked_at?: string | null
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          household_id?: string
+          id?: string
+          member_id?: string | null
+          revoked_at?: string | null
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'calendar_feeds_created_by_fkey'
+            columns: ['household_id', 'created_by']
+            isOneToOne: false
+            referencedRelation: 'members'
+            referencedColumns: ['household_id', 'id']
+          },
+          {
+            foreignKeyName: 'calendar_feeds_household_id_fkey'
+            columns: ['household_id']
+            isOneToOne: false
+            referencedRelation: 'households'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'calendar_feeds_member_id_fkey'
+            columns: ['household_id', 'member_id']
+            isOneToOne: false
+            referencedRelation: 'members'
+            referencedColumns: ['household_id', 'id']
+          },
+        ]
+      }
+      household_categories: {
+        Row: {
+          archived: boolean
+          color: string
+          created_at: string
+          default_points: number
+          household_id: string
+          icon: string
+          id: string
+          label: string
+          position: number
+          requires_photo: boolean
+          slug: string
+        }
+        Insert: {
+          archived?: boolean
+          color?: string
+          created_at?: string
+          default_points?: number
+          household_id: string
+          icon?: string
+          id?: string
+          label: string
+          position?: number
+          requires_photo?: boolean
+          slug: string
+        }
+        Update: {
+          archived?: boolean
+          color?: string
+          created_at?: string
+          default_points?: number
+          household_id?: string
+          icon?: string
+          id?: string
+          label?: string
+          position?: number
+          requires_photo?: boolean
+          slug?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'household_categories_household_id_fkey'
+            columns: ['household_id']
+            isOneToOne: false
+            referencedRelation: 'households'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      household_invites: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string
+          expires_at: string | null
+          household_id: string
+          id: string
+          max_uses: number | null
+          revoked_at: string | null
+          role: string
+          use_count: number
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          created_by: string
+          expires_at?: string | null
+          household_id: string
+          id?: string
+          max_uses?: number | null
+          revoked_at?: string | null
+          role?: string
+          use_count?: number
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string
+          expires_at?: string | null
+          household_id?: string
+          id?: string
+          max_uses?: number | null
+          revoked_at?: string | null
+          role?: string
+          use_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'household_invites_created_by_fkey'
+            columns: ['household_id', 'created_by']
+            isOneToOne: false
+            referencedRelation: 'members'
+            referencedColumns: ['household_id', 'id']
+          },
+          {
+            foreignKeyName: 'household_invites_household_id_fkey'
+            columns: ['household_id']
+            isOneToOne: false
+            referencedRelation: 'households'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      households: {
+        Row: {
+          created_at: string
+          id: string
+          late_decay_percent: number
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          late_decay_percent?: number
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          late_decay_percent?: number
+          name?: string
+        }
+        Relationships: []
+      }
+      member_category_exclusions: {
+        Row: {
+          category: string
+          created_at: string
+          household_id: string
+          member_id: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          household_id: string
+          member_id: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          household_id?: string
+          member_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'member_category_exclusions_category_fkey'
+            columns: ['household_id', 'category']
+            isOneToOne: false
+            referencedRelation: 'household_categories'
+            referencedColumns: ['household_id', 'slug']
+          },
+          {
+            foreignKeyName: 'member_category_exclusions_household_id_fkey'
+            columns: ['household_id']
+            isOneToOne: false
+            referencedRelation: 'households'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'member_category_exclusions_member_id_fkey'
+            columns: ['household_id', 'member_id']
+            isOneToOne: false
+            referencedRelation: 'members'
+            referencedColumns: ['household_id', 'id']
+          },
+        ]
+      }
+      members: {
+        Row: {
+          created_at: string
+          display_name: string
+          household_id: string
+          id: string
+          role: string
+        }
+        Insert: {
+          created_at?: string
+          display_name: string
+          household_id: string
+          id: string
+          role?: string
+        }
+        Update: {
+          created_at?: string
+          display_name?: string
+          household_id?: string
+          id?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'members_household_id_fkey'
+            columns: ['household_id']
+            isOneToOne: false
+            referencedRelation: 'households'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          approval_requested: boolean
+          browser_enabled: boolean
+          comment_mention: boolean
+          task_approved: boolean
+          task_assigned: boolean
+          task_due_soon: boolean
+          task_escalated: boolean
+          task_overdue: boolean
+          task_rejected: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          approval_requested?: boolean
+          browser_enabled?: boolean
+          comment_mention?: boolean
+          task_approved?: boolean
+          task_assigned?: boolean
+          task_due_soon?: boolean
+          task_escalated?: boolean
+          task_overdue?: boolean
+          task_rejected?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          approval_requested?: boolean
+          browser_enabled?: boolean
+          comment_mention?: boolean
+          task_approved?: boolean
+          task_assigned?: boolean
+          task_due_soon?: boolean
+          task_escalated?: boolean
+          task_overdue?: boolean
+          task_rejected?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          due_date: string | null
+          household_id: string
+          id: string
+          kind: string
+          member_id: string
+          read_at: string | null
+          rule_id: string | null
+          task_id: string | null
+          task_title: string
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          due_date?: string | null
+          household_id: string
+          id?: string
+          kind: string
+          member_id: string
+          read_at?: string | null
+          rule_id?: string | null
+          task_id?: string | null
+          task_title: string
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          due_date?: string | null
+          household_id?: string
+          id?: string
+          kind?: string
+          member_id?: string
+          read_at?: string | null
+          rule_id?: string | null
+          task_id?: string | null
+          task_title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'notifications_actor_id_fkey'
+            columns: ['household_id', 'actor_id']
+            isOneToOne: false
+            referencedRelation: 'members'
+            referencedColumns: ['household_id', 'id']
+          },
+          {
+            foreignKeyName: 'notifications_household_id_fkey'
+            columns: ['household_id']
+            isOneToOne: false
+            referencedRelation: 'households'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'notifications_member_id_fkey'
+            columns: ['household_id', 'member_id']
+            isOneToOne: false
+            referencedRelation: 'members'
+            referencedColumns: ['household_id', 'id']
+          },
+          {
+            foreignKeyName: 'notifications_rule_id_fkey'
+            columns: ['rule_id']
+            isOneToOne: false
+            referencedRelation: 'reminder_rules'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'notifications_task_id_fkey'
+            columns: ['task_id']
+            isOneToOne: false
+            referencedRelation: 'tasks'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      points_ledger: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          household_id: string
+          id: string
+          kind: string
+          late_days: number | null
+          member_id: string
+          note: string | null
+          redemption_id: string | null
+          task_id: string | null
+          task_title: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          household_id: string
+          id?: string
+          kind: string
+          late_days?: number | null
+          member_id: string
+          note?: string | null
+          redemption_id?: string | null
+          task_id?: string | null
+          task_title?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          household_id?: string
+          id?: string
+          kind?: string
+          late_days?: number | null
+          member_id?: string
+          note?: string | null
+          redemption_id?: string | null
+          task_id?: string | null
+          task_title?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'points_ledger_household_id_fkey'
+            columns: ['household_id']
+            isOneToOne: false
+            referencedRelation: 'households'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'points_ledger_member_id_fkey'
+            columns: ['household_id', 'member_id']
+            isOneToOne: false
+            referencedRelation: 'members'
+            referencedColumns: ['household_id', 'id']
+          },
+          {
+            foreignKeyName: 'points_ledger_redemption_id_fkey'
+            columns: ['redemption_id']
+            isOneToOne: false
+            referencedRelation: 'reward_redemptions'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'points_ledger_task_id_fkey'
+            columns: ['task_id']
+            isOneToOne: false
+            referencedRelation: 'tasks'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      reminder_rules: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          household_id: string
+          id: string
+          offset_days: number
+          target: string
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          household_id: string
+          id?: string
+          offset_days: number
+          target: string
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          household_id?: string
+          id?: string
+          offset_days?: number
+          target?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'reminder_rules_household_id_fkey'
+            columns: ['household_id']
+            isOneToOne: false
+            referencedRelation: 'households'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      reward_redemptions: {
+        Row: {
+          cost: number
+          decided_at: string | null
+          decided_by: string | null
+          decision_note: string | null
+          household_id: string
+          id: string
+          member_id: string
+          requested_at: string
+          reward_id: string | null
+          reward_title: string
+          status: string
+        }
+        Insert: {
+          cost: number
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_note?: string | null
+          household_id: string
+          id?: string
+          member_id: string
+          requested_at?: string
+          reward_id?: string | null
+          reward_title: string
+          status?: string
+        }
+        Update: {
+          cost?: number
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_note?: string | null
+          household_id?: string
+          id?: string
+          member_id?: string
+          requested_at?: string
+          reward_id?: string | null
+          reward_title?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'reward_redemptions_household_id_fkey'
+            columns: ['household_id']
+            isOneToOne: false
+            referencedRelation: 'households'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'reward_redemptions_member_id_fkey'
+            columns: ['household_id', 'member_id']
+            isOneToOne: false
+            referencedRelation: 'members'
+            referencedColumns: ['household_id', 'id']
+          },
+          {
+            foreignKeyName: 'reward_redemptions_reward_id_fkey'
+            columns: ['reward_id']
+            isOneToOne: false
+            referencedRelation: 'rewards'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      rewards: {
+        Row: {
+          active: boolean
+          cost: number
+          created_at: string
+          created_by: string | null
+          description: string | null
+          household_id: string
+          id: string
+          title: string
+        }
+        Insert: {
+          active?: boolean
+          cost: number
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          household_id: string
+          id?: string
+          title: string
+        }
+        Update: {
+          active?: boolean
+          cost?: number
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          household_id?: string
+          id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'rewards_household_id_fkey'
+            columns: ['household_id']
+            isOneToOne: false
+            referencedRelation: 'households'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      task_checklist_items: {
+        Row: {
+          assigned_to: string | null
+          completed_at: string | null
+          completed_by: string | null
+          created_at: string
+          done: boolean
+          household_id: string
+          id: string
+          position: number
+          task_id: string
+          title: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          done?: boolean
+          household_id: string
+          id?: string
+          position?: number
+          task_id: string
+          title: string
+        }
+        Update: {
+          assigned_to?: string | null
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          done?: boolean
+          household_id?: string
+          id?: string
+          position?: number
+          task_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'task_checklist_items_assigned_to_fkey'
+            columns: ['household_id', 'assigned_to']
+            isOneToOne: false
+            referencedRelation: 'members'
+            referencedColumns: ['household_id', 'id']
+          },
+          {
+            foreignKeyName: 'task_checklist_items_completed_by_fkey'
+            columns: ['household_id', 'completed_by']
+            isOneToOne: false
+            referencedRelation: 'members'
+            referencedColumns: ['household_id', 'id']
+          },
+          {
+            foreignKeyName: 'task_checklist_items_household_id_fkey'
+            columns: ['household_id']
+            isOneToOne: false
+            referencedRelation: 'households'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'task_checklist_items_task_id_fkey'
+            columns: ['task_id']
+            isOneToOne: false
+            referencedRelation: 'tasks'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      task_comments: {
+        Row: {
+          author_id: string | null
+          body: string
+          created_at: string
+          edited_at: string | null
+          household_id: string
+          id: string
+          mentions: string[]
+          task_id: string
+        }
+        Insert: {
+          author_id?: string | null
+          body: string
+          created_at?: string
+          edited_at?: string | null
+          household_id: string
+          id?: string
+          mentions?: string[]
+          task_id: string
+        }
+        Update: {
+          author_id?: string | null
+          body?: string
+          created_at?: string
+          edited_at?: string | null
+          household_id?: string
+          id?: string
+          mentions?: string[]
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'task_comments_author_id_fkey'
+            columns: ['household_id', 'author_id']
+            isOneToOne: false
+            referencedRelation: 'members'
+            referencedColumns: ['household_id', 'id']
+          },
+          {
+            foreignKeyName: 'task_comments_household_id_fkey'
+            columns: ['household_id']
+            isOneToOne: false
+            referencedRelation: 'households'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'task_comments_task_id_fkey'
+            columns: ['task_id']
+            isOneToOne: false
+            referencedRelation: 'tasks'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      task_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          field: string
+          household_id: string
+          id: string
+          new_value: string | null
+          old_value: string | null
+          task_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          field: string
+          household_id: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          task_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          field?: string
+          household_id?: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'task_history_changed_by_fkey'
+            columns: ['household_id', 'changed_by']
+            isOneToOne: false
+            referencedRelation: 'members'
+            referencedColumns: ['household_id', 'id']
+          },
+          {
+            foreignKeyName: 'task_history_household_id_fkey'
+            columns: ['household_id']
+            isOneToOne: false
+            referencedRelation: 'households'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'task_history_task_id_fkey'
+            columns: ['task_id']
+            isOneToOne: false
+            referencedRelation: 'tasks'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      task_photos: {
+        Row: {
+          created_at: string
+          height: number
+          household_id: string
+          id: string
+          path: string
+          task_id: string
+          thumb_path: string
+          uploaded_by: string | null
+          width: number
+        }
+        Insert: {
+          created_at?: string
+          height: number
+          household_id: string
+          id?: string
+          path: string
+          task_id: string
+          thumb_path: string
+          uploaded_by?: string | null
+          width: number
+        }
+        Update: {
+          created_at?: string
+          height?: number
+          household_id?: string
+          id?: string
+          path?: string
+          task_id?: string
+          thumb_path?: string
+          uploaded_by?: string | null
+          width?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'task_photos_household_id_fkey'
+            columns: ['household_id']
+            isOneToOne: false
+            referencedRelation: 'households'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'task_photos_task_id_fkey'
+            columns: ['task_id']
+            isOneToOne: false
+            referencedRelation: 'tasks'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'task_photos_uploaded_by_fkey'
+            columns: ['household_id', 'uploaded_by']
+            isOneToOne: false
+            referencedRelation: 'members'
+            referencedColumns: ['household_id', 'id']
+          },
+        ]
+      }
+      task_series: {
+        Row: {
+          active: boolean
+          assigned_to: string | null
+          category: string
+          created_at: string
+          created_by: string
+          description: string | null
+          household_id: string
+          id: string
+          points: number
+          recurrence: Json
+          title: string
+        }
+        Insert: {
+          active?: boolean
+          assigned_to?: string | null
+          category?: string
+          created_at?: string
+          created_by: string
+          description?: string | null
+          household_id: string
+          id?: string
+          points?: number
+          recurrence: Json
+          title: string
+        }
+        Update: {
+          active?: boolean
+          assigned_to?: string | null
+          category?: string
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          household_id?: string
+          id?: string
+          points?: number
+          recurrence?: Json
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'task_series_category_fkey'
+            columns: ['household_id', 'category']
+            isOneToOne: false
+            referencedRelation: 'household_categories'
+            referencedColumns: ['household_id', 'slug']
+          },
+          {
+            foreignKeyName: 'task_series_household_id_fkey'
+            columns: ['household_id']
+            isOneToOne: false
+            referencedRelation: 'households'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      task_views: {
+        Row: {
+          created_at: string
+          household_id: string
+          id: string
+          member_id: string
+          name: string
+          query: string
+        }
+        Insert: {
+          created_at?: string
+          household_id: string
+          id?: string
+          member_id?: string
+          name: string
+          query: string
+        }
+        Update: {
+          created_at?: string
+          household_id?: string
+          id?: string
+          member_id?: string
+          name?: string
+          query?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'task_views_household_id_fkey'
+            columns: ['household_id']
+            isOneToOne: false
+            referencedRelation: 'households'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'task_views_member_id_fkey'
+            columns: ['household_id', 'member_id']
+            isOneToOne: false
+            referencedRelation: 'members'
+            referencedColumns: ['household_id', 'id']
+          },
+        ]
+      }
+      tasks: {
+        Row: {
+          assigned_to: string | null
+          auto_complete: boolean
+          category: string
+          checklist_done: number
+          checklist_total: number
+          comment_count: number
+          completed_at: string | null
+          completed_by: string | null
+          created_at: string
+          created_by: string
+          description: string | null
+          due_date: string | null
+          household_id: string
+          id: string
+          photo_count: number
+          points: number
+          recurrence: Json | null
+          rejection_reason: string | null
+          reopened_at: string | null
+          requires_photo: boolean
+          search_vector: unknown | null
+          series_id: string | null
+          split_points: boolean
+          status: string
+          submitted_at: string | null
+          submitted_by: string | null
+          title: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          auto_complete?: boolean
+          category?: string
+          checklist_done?: number
+          checklist_total?: number
+          comment_count?: number
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          created_by: string
+          description?: string | null
+          due_date?: string | null
+          household_id: string
+          id?: string
+          photo_count?: number
+          points?: number
+          recurrence?: Json | null
+          rejection_reason?: string | null
+          reopened_at?: string | null
+          requires_photo?: boolean
+          search_vector?: unknown | null
+          series_id?: string | null
+          split_points?: boolean
+          status?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          title: string
+        }
+        Update: {
+          assigned_to?: string | null
+          auto_complete?: boolean
+          category?: string
+          checklist_done?: number
+          checklist_total?: number
+          comment_count?: number
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          due_date?: string | null
+          household_id?: string
+          id?: string
+          photo_count?: number
+          points?: number
+          recurrence?: Json | null
+          rejection_reason?: string | null
+          reopened_at?: string | null
+          requires_photo?: boolean
+          search_vector?: unknown | null
+          series_id?: string | null
+          split_points?: boolean
+          status?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'tasks_assigned_to_fkey'
+            columns: ['household_id', 'assigned_to']
+            isOneToOne: false
+            referencedRelation: 'members'
+            referencedColumns: ['household_id', 'id']
+          },
+          {
+            foreignKeyName: 'tasks_category_fkey'
+            columns: ['household_id', 'category']
+            isOneToOne: false
+            referencedRelation: 'household_categories'
+            referencedColumns: ['household_id', 'slug']
+          },
+          {
+            foreignKeyName: 'tasks_completed_by_fkey'
+            columns: ['household_id', 'completed_by']
+            isOneToOne: false
+            referencedRelation: 'members'
+            referencedColumns: ['household_id', 'id']
+          },
+          {
+            foreignKeyName: 'tasks_household_id_fkey'
+            columns: ['household_id']
+            isOneToOne: false
+            referencedRelation: 'households'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'tasks_series_id_fkey'
+            columns: ['series_id']
+            isOneToOne: false
+            referencedRelation: 'task_series'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'tasks_submitted_by_fkey'
+            columns: ['household_id', 'submitted_by']
+            isOneToOne: false
+            referencedRelation: 'members'
+            referencedColumns: ['household_id', 'id']
+          },
+        ]
+      }
+    }
+    Views: {
+      member_points_balance: {
+        Row: {
+          balance: number | null
+          household_id: string | null
+          member_id: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      create_household: {
+        Args: { p_display_name: string; p_name: string }
+        Returns: Database['public']['Tables']['households']['Row']
+      }
+      decide_redemption: {
+        Args: { p_approve: boolean; p_note?: string | null; p_redemption_id: string }
+        Returns: Database['public']['Tables']['reward_redemptions']['Row']
+      }
+      expire_invite: {
+        Args: { p_invite_id: string }
+        Returns: undefined
+      }
+      household_leaderboard: {
+        Args: { p_household_id: string; p_since?: string | null }
+        Returns: { member_id: string; points: number }[]
+      }
+      is_household_admin: {
+        Args: { p_household_id: string }
+        Returns: boolean
+      }
+      is_household_member: {
+        Args: { p_household_id: string }
+        Returns: boolean
+      }
+      is_household_parent: {
+        Args: { p_household_id: string }
+        Returns: boolean
+      }
+      join_household: {
+        Args: { p_code: string; p_display_name: string }
+        Returns: Database['public']['Tables']['households']['Row']
+      }
+      preview_invite: {
+        Args: { p_code: string }
+        Returns: { household_id: string; household_name: string }[]
+      }
+      refresh_due_notifications: {
+        Args: { p_household_id: string; p_today: string }
+        Returns: number
+      }
+      reorder_checklist_items: {
+        Args: { p_item_ids: string[]; p_task_id: string }
+        Returns: undefined
+      }
+      request_redemption: {
+        Args: { p_reward_id: string }
+        Returns: Database['public']['Tables']['reward_redemptions']['Row']
+      }
+      storage_household_id: {
+        Args: { p_name: string }
+        Returns: string
+      }
+      task_needs_approval: {
+        Args: { p_category: string; p_household_id: string; p_member_id: string }
+        Returns: boolean
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database['public']
+
+export type Tables<T extends keyof (PublicSchema['Tables'] & PublicSchema['Views'])> = (PublicSchema['Tables'] &
+  PublicSchema['Views'])[T] extends { Row: infer R }
+  ? R
+  : never
+
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert']
+
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update']
@@ -0,0 +1,156 @@
+import { supabase } from '@/lib/supabase'
+import { translate, type Locale } from '@/lib/i18n'
+
+export type Household = { id: string; name: string }
+
+export type MemberRole = 'admin' | 'parent' | 'child'
+
+// Une invitation ne crée jamais d'admin : un admin promeut ensuite
+export type InviteRole = Exclude<MemberRole, 'admin'>
+
+export type HouseholdInvite = {
+  id: string
+  household_id: string
+  code: string
+  created_by: string
+  created_at: string
+  expires_at: string | null
+  max_uses: number | null
+  use_count: number
+  revoked_at: string | null
+  role: InviteRole
+}
+
+export type InviteStatus = 'active' | 'expired' | 'revoked' | 'used_up'
+
+// Pas de 0/O/1/I pour éviter les erreurs de saisie
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const CODE_LENGTH = 8
+
+export const PENDING_INVITE_KEY = 'homeflow_pending_invite'
+
+export function generateInviteCode() {
+  const bytes = new Uint8Array(CODE_LENGTH)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('')
+}
+
+export function normalizeInviteCode(raw: string) {
+  return raw.trim().toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+export function buildInviteLink(code: string) {
+  return `${window.location.origin}/join/${code}`
+}
+
+export function getInviteStatus(invite: HouseholdInvite, now = new Date()): InviteStatus {
+  if (invite.revoked_at) return 'revoked'
+  if (invite.expires_at && new Date(invite.expires_at) <= now) return 'expired'
+  if (invite.max_uses !== null && invite.use_count >= invite.max_uses) return 'used_up'
+  return 'active'
+}
+
+/**
+ * ✅ Traduit les erreurs levées par les RPC (raise exception 'XXX')
+ */
+export function onboardingErrorMessage(err: unknown, locale: Locale = 'fr') {
+  const msg = err && typeof err === 'object' && 'message' in err ? String(err.message || '') : ''
+  if (msg.includes('ALREADY_MEMBER')) return translate(locale, 'errors.alreadyMember')
+  if (msg.includes('INVITE_INVALID')) return translate(locale, 'errors.inviteInvalid')
+  if (msg.includes('INVALID_INPUT')) return translate(locale, 'errors.invalidInput')
+  if (msg.includes('AUTH_REQUIRED')) return translate(locale, 'errors.sessionExpired')
+  if (msg.includes('LAST_ADMIN')) return translate(locale, 'errors.lastAdmin')
+  if (msg.includes('NOT_ALLOWED')) return translate(locale, 'errors.notAllowed')
+  return msg || translate(locale, 'errors.generic')
+}
+
+export async function createHousehold(name: string, displayName: string) {
+  const { data, error } = await supabase.rpc('create_household', {
+    p_name: name,
+    p_display_name: displayName,
+  })
+  if (error) throw error
+  return data as Household
+}
+
+export async function previewInvite(code: string) {
+  const { data, error } = await supabase.rpc('preview_invite', { p_code: normalizeInviteCode(code) })
+  if (error) throw error
+  const row = (data as { household_id: string; household_name: string }[] | null)?.[0]
+  return row ? ({ id: row.household_id, name: row.household_name } as Household) : null
+}
+
+export async function joinHousehold(code: string, displayName: string) {
+  const { data, error } = await supabase.rpc('join_household', {
+    p_code: normalizeInviteCode(code),
+    p_display_name: displayName,
+  })
+  if (error) throw error
+  return data as Household
+}
+
+export async function listInvites(householdId: string) {
+  const { data, error } = await supabase
+    .from('household_invites')
+    .select('*')
+    .eq('household_id', householdId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as HouseholdInvite[]
+}
+
+export async function createInvite(
+  householdId: string,
+  createdBy: string,
+  options: { expiresInDays: number | null; maxUses: number | null; role: InviteRole }
+) {
+  const expiresAt =
+    options.expiresInDays === null
+      ? null
+      : new Date(Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+
+  const { data, error } = await supabase
+    .from('household_invites')
+    .insert({
+      household_id: householdId,
+      code: generateInviteCode(),
+      created_by: createdBy,
+      expires_at: expiresAt,
+      max_uses: options.maxUses,
+      role: options.role,
+    })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data as HouseholdInvite
+}
+
+/**
+ * Expire maintenant (le code reste visible comme "expiré")
+ */
+export async function expireInvite(inviteId: string) {
+  const { error } = await supabase.rpc('expire_invite', { p_invite_id: inviteId })
+  if (error) throw error
+}
+
+export async function revokeInvite(inviteId: string) {
+  const { error } = await supabase
+    .from('household_invites')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', inviteId)
+  if (error) throw error
+}
+
+/**
+ * Admins uniquement (RLS + trigger members_guard_update) ; le dernier admin ne peut pas être rétrogradé
+ */
+export async function updateMemberRole(householdId: string, memberId: string, role: MemberRole) {
+  const { error } = await supabase
+    .from('members')
+    .update({ role })
+    .eq('household_id', householdId)
+    .eq('id', memberId)
+  if (error) throw error
+}
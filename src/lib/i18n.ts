@@ -0,0 +1,87 @@
+import { supabase } from '@/lib/supabase'
+import fr, { type Messages } from '@/locales/fr'
+import en from '@/locales/en'
+
+/**
+ * ✅ Internationalisation (sans dépendance)
+ * - catalogues dans src/locales, le français fait référence
+ * - {param} interpolé ; pluriels via Intl.PluralRules sur {count}
+ * - dates et nombres formatés avec Intl selon la langue
+ * - préférence : localStorage (appareil) + user_metadata.locale (compte)
+ */
+
+export type Locale = 'fr' | 'en'
+export type MessageKey = keyof Messages
+export type MessageParams = Record<string, string | number>
+
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'fr', label: 'Français' },
+  { value: 'en', label: 'English' },
+]
+
+export const LOCALE_KEY = 'homeflow_locale'
+
+const CATALOGUES: Record<Locale, Messages> = { fr, en }
+
+// Balises Intl (en-GB : dates au format jour/mois, comme en France)
+const INTL_TAGS: Record<Locale, string> = { fr: 'fr-FR', en: 'en-GB' }
+
+export function isLocale(value: unknown): value is Locale {
+  return value === 'fr' || value === 'en'
+}
+
+/**
+ * Langue au démarrage : choix mémorisé, sinon langue du navigateur, sinon français
+ */
+export function detectLocale(): Locale {
+  try {
+    const stored = localStorage.getItem(LOCALE_KEY)
+    if (isLocale(stored)) return stored
+  } catch {
+    // ignore
+  }
+  if (typeof navigator !== 'undefined' && navigator.language?.toLowerCase().startsWith('en')) return 'en'
+  return 'fr'
+}
+
+const pluralRules = new Map<Locale, Intl.PluralRules>()
+
+function pluralCategory(locale: Locale, count: number) {
+  let rules = pluralRules.get(locale)
+  if (!rules) {
+    rules = new Intl.PluralRules(INTL_TAGS[locale])
+    pluralRules.set(locale, rules)
+  }
+  return rules.select(count) === 'one' ? 'one' : 'other'
+}
+
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}) {
+  const message = CATALOGUES[locale][key] ?? fr[key]
+  const template =
+    typeof message === 'string'
+      ? message
+      : message[pluralCategory(locale, typeof params.count === 'number' ? params.count : 0)]
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name]
+    if (value === undefined) return match
+    return typeof value === 'number' ? formatNumber(locale, value) : value
+  })
+}
+
+export function formatNumber(locale: Locale, value: number, options?: Intl.NumberFormatOptions) {
+  return new Intl.NumberFormat(INTL_TAGS[locale], options).format(value)
+}
+
+export function formatDate(locale: Locale, value: Date | string, options?: Intl.DateTimeFormatOptions) {
+  const date = typeof value === 'string' ? new Date(value) : value
+  return date.toLocaleDateString(INTL_TAGS[locale], options)
+}
+
+/**
+ * Mémorise la langue sur le compte pour la retrouver sur un autre appareil
+ */
+export async function saveLocalePreference(locale: Locale) {
+  const { error } = await supabase.auth.updateUser({ data: { locale } })
+  if (error) throw error
+}
@@ -0,0 +1,195 @@
+// Export iCalendar (RFC 5545)
+// Sans dépendance (ni Supabase ni alias @/) : aussi importé par la fonction Edge ical-feed
+
+// Même forme que RecurrenceRule (lib/recurrence), redéclarée pour rester autonome
+export type IcalRecurrence =
+  | { type: 'daily' }
+  | { type: 'weekly'; weekdays: number[] }
+  | { type: 'monthly'; day: number }
+  | { type: 'after_completion'; days: number }
+
+export type IcalTask = {
+  id: string
+  title: string
+  description: string | null
+  category: string
+  assigned_to: string | null
+  points: number
+  due_date: string | null
+  status: string
+  completed_at?: string | null
+  series_id?: string | null
+  recurrence?: IcalRecurrence | null
+}
+
+export type IcalOptions = {
+  calendarName: string
+  // VEVENT (Google / Apple Calendar) ou VTODO (Apple Rappels, Thunderbird…)
+  component?: 'VEVENT' | 'VTODO'
+  categoryLabel: (value: string) => string
+  memberName: (id: string) => string | null
+  now?: Date
+}
+
+// Domaine fixe : un UID ne doit jamais changer d'un export à l'autre
+const UID_DOMAIN = 'homeflow.app'
+const BYDAY = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+/**
+ * Échappement TEXT (§3.3.11)
+ */
+export function escapeText(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Lignes de 75 octets max, suite préfixée d'un espace (§3.1)
+ * On coupe entre deux caractères, jamais au milieu d'un caractère UTF-8.
+ */
+export function foldLine(line: string) {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let size = 0
+  const limit = () => (parts.length === 0 ? 75 : 74)
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length
+    if (size + bytes > limit()) {
+      parts.push(current)
+      current = ''
+      size = 0
+    }
+    current += char
+    size += bytes
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+function dateValue(dateOnly: string) {
+  return dateOnly.slice(0, 10).replace(/-/g, '')
+}
+
+function nextDayValue(dateOnly: string) {
+  const [y, m, d] = dateOnly.slice(0, 10).split('-').map(Number)
+  const next = new Date(Date.UTC(y, m - 1, d + 1))
+  return next.toISOString().slice(0, 10).replace(/-/g, '')
+}
+
+function utcValue(date: Date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Règle HomeFlow → RRULE, ou null si non exprimable
+ * - monthly au-delà du 28 : "le jour N, ou le dernier jour du mois s'il est plus court"
+ *   = BYMONTHDAY=28..N + BYSETPOS=-1 (même bornage que nextDueDate)
+ * - after_completion dépend de la date de complétion : pas d'équivalent
+ */
+export function toRrule(rule: IcalRecurrence): string | null {
+  switch (rule.type) {
+    case 'daily':
+      return 'FREQ=DAILY'
+    case 'weekly':
+      if (rule.weekdays.length === 0) return null
+      return `FREQ=WEEKLY;BYDAY=${[...rule.weekdays].sort((a, b) => a - b).map((d) => BYDAY[d]).join(',')}`
+    case 'monthly': {
+      if (rule.day <= 28) return `FREQ=MONTHLY;BYMONTHDAY=${rule.day}`
+      const days = Array.from({ length: rule.day - 27 }, (_, i) => 28 + i)
+      return `FREQ=MONTHLY;BYMONTHDAY=${days.join(',')};BYSETPOS=-1`
+    }
+    case 'after_completion':
+      return null
+  }
+}
+
+type Entry = { uid: string; task: IcalTask & { due_date: string }; rrule: string | null }
+
+/**
+ * Une série exprimable en RRULE → un seul événement (UID de la série) ancré sur
+ * l'occurrence ouverte ; ses autres occurrences ne sont pas exportées (elles
+ * doubleraient les répétitions). Sinon, un événement par tâche (UID de la tâche).
+ */
+function collectEntries(tasks: IcalTask[]): Entry[] {
+  const entries: Entry[] = []
+  const seriesAnchors = new Map<string, Entry>()
+
+  for (const task of tasks) {
+    if (!task.due_date) continue
+    const dated = task as IcalTask & { due_date: string }
+    const rrule = task.series_id && task.recurrence ? toRrule(task.recurrence) : null
+
+    if (task.series_id && rrule && task.status !== 'completed') {
+      const existing = seriesAnchors.get(task.series_id)
+      if (!existing || dated.due_date < existing.task.due_date) {
+        seriesAnchors.set(task.series_id, { uid: `series-${task.series_id}@${UID_DOMAIN}`, task: dated, rrule })
+      }
+      continue
+    }
+    entries.push({ uid: `task-${task.id}@${UID_DOMAIN}`, task: dated, rrule: null })
+  }
+
+  const coveredSeries = new Set(seriesAnchors.keys())
+  return [
+    ...entries.filter((e) => !(e.task.series_id && coveredSeries.has(e.task.series_id))),
+    ...seriesAnchors.values(),
+  ].sort((a, b) => a.task.due_date.localeCompare(b.task.due_date) || a.uid.localeCompare(b.uid))
+}
+
+function describe(task: IcalTask, options: IcalOptions) {
+  const lines = [`Catégorie : ${options.categoryLabel(task.category)}`, `Points : ${task.points}`]
+  const assignee = task.assigned_to ? options.memberName(task.assigned_to) : null
+  lines.push(`Assignée à : ${assignee ?? 'personne'}`)
+  if (task.description) lines.push('', task.description)
+  return lines.join('\n')
+}
+
+/**
+ * ✅ Calendrier complet (texte .ics, fins de ligne CRLF)
+ */
+export function buildCalendar(tasks: IcalTask[], options: IcalOptions) {
+  const component = options.component ?? 'VEVENT'
+  const stamp = utcValue(options.now ?? new Date())
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//HomeFlow//Taches//FR',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.calendarName)}`,
+    'X-PUBLISHED-TTL:PT1H',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+  ]
+
+  for (const { uid, task, rrule } of collectEntries(tasks)) {
+    const completed = task.status === 'completed'
+    lines.push(
+      `BEGIN:${component}`,
+      `UID:${uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${dateValue(task.due_date)}`
+    )
+
+    if (component === 'VEVENT') {
+      lines.push(`DTEND;VALUE=DATE:${nextDayValue(task.due_date)}`, 'TRANSP:TRANSPARENT')
+    } else {
+      lines.push(`DUE;VALUE=DATE:${nextDayValue(task.due_date)}`, `STATUS:${completed ? 'COMPLETED' : 'NEEDS-ACTION'}`)
+      if (completed && task.completed_at) lines.push(`COMPLETED:${utcValue(new Date(task.completed_at))}`)
+    }
+
+    if (rrule) lines.push(`RRULE:${rrule}`)
+
+    const summary = component === 'VEVENT' && completed ? `✓ ${task.title}` : task.title
+    lines.push(
+      `SUMMARY:${escapeText(summary)}`,
+      `DESCRIPTION:${escapeText(describe(task, options))}`,
+      `CATEGORIES:${escapeText(options.categoryLabel(task.category))}`,
+      `END:${component}`
+    )
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,153 @@
+import { supabase } from '@/lib/supabase'
+import type { Tables } from '@/lib/database.types'
+import type { MessageKey } from '@/lib/i18n'
+import { formatDateOnly } from '@/lib/recurrence'
+
+/**
+ * ✅ Notifications du membre connecté (foyer courant)
+ * - créées côté base : triggers (assignation, @mentions, validation)
+ *   + refresh_due_notifications pour les échéances
+ * - alertes navigateur (API Notification) seulement si l'onglet est en arrière-plan
+ */
+
+export type NotificationKind =
+  | 'task_assigned'
+  | 'task_due_soon'
+  | 'task_overdue'
+  | 'task_escalated'
+  | 'comment_mention'
+  | 'approval_requested'
+  | 'task_approved'
+  | 'task_rejected'
+
+export type AppNotification = Omit<Tables<'notifications'>, 'kind'> & { kind: NotificationKind }
+
+export type NotificationPreferences = Pick<
+  Tables<'notification_preferences'>,
+  'browser_enabled' | NotificationKind
+>
+
+export const NOTIFICATION_KINDS: NotificationKind[] = [
+  'task_assigned',
+  'task_due_soon',
+  'task_overdue',
+  'task_escalated',
+  'comment_mention',
+  'approval_requested',
+  'task_approved',
+  'task_rejected',
+]
+
+// Libellé de chaque type dans les catalogues (src/locales)
+export const NOTIFICATION_LABEL_KEYS: Record<NotificationKind, MessageKey> = {
+  task_assigned: 'notifications.kind.task_assigned',
+  task_due_soon: 'notifications.kind.task_due_soon',
+  task_overdue: 'notifications.kind.task_overdue',
+  task_escalated: 'notifications.kind.task_escalated',
+  comment_mention: 'notifications.kind.comment_mention',
+  approval_requested: 'notifications.kind.approval_requested',
+  task_approved: 'notifications.kind.task_approved',
+  task_rejected: 'notifications.kind.task_rejected',
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  browser_enabled: false,
+  task_assigned: true,
+  task_due_soon: true,
+  task_overdue: true,
+  task_escalated: true,
+  comment_mention: true,
+  approval_requested: true,
+  task_approved: true,
+  task_rejected: true,
+}
+
+export async function listNotifications(householdId: string, memberId: string, limit = 30) {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('household_id', householdId)
+    .eq('member_id', memberId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data || []) as AppNotification[]
+}
+
+export async function markNotificationsRead(ids: string[]) {
+  if (ids.length === 0) return
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', ids)
+    .is('read_at', null)
+  if (error) throw error
+}
+
+/**
+ * Crée les rappels "échéance demain" / "en retard" manquants (date locale de l'appareil)
+ * Renvoie le nombre de notifications ajoutées.
+ */
+export async function refreshDueNotifications(householdId: string, today = new Date()) {
+  const { data, error } = await supabase.rpc('refresh_due_notifications', {
+    p_household_id: householdId,
+    p_today: formatDateOnly(today),
+  })
+  if (error) throw error
+  return data ?? 0
+}
+
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select(
+      'browser_enabled, task_assigned, task_due_soon, task_overdue, task_escalated, comment_mention, approval_requested, task_approved, task_rejected'
+    )
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ?? DEFAULT_NOTIFICATION_PREFERENCES
+}
+
+export async function saveNotificationPreferences(userId: string, preferences: NotificationPreferences) {
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert({ user_id: userId, ...preferences, updated_at: new Date().toISOString() })
+  if (error) throw error
+}
+
+// ---- Navigateur ----
+
+export type BrowserPermission = NotificationPermission | 'unsupported'
+
+export function browserNotificationPermission(): BrowserPermission {
+  return typeof window !== 'undefined' && 'Notification' in window ? Notification.permission : 'unsupported'
+}
+
+export async function requestBrowserNotificationPermission(): Promise<BrowserPermission> {
+  if (browserNotificationPermission() === 'unsupported') return 'unsupported'
+  try {
+    return await Notification.requestPermission()
+  } catch {
+    return Notification.permission
+  }
+}
+
+/**
+ * Alerte système si autorisée et si l'onglet n'est pas visible (sinon la cloche suffit)
+ */
+export function showBrowserNotification(title: string, body: string, tag: string) {
+  if (browserNotificationPermission() !== 'granted' || document.visibilityState === 'visible') return
+  try {
+    const notification = new Notification(title, { body, tag })
+    notification.onclick = () => {
+      window.focus()
+      notification.close()
+    }
+  } catch (err) {
+    // Certains navigateurs mobiles exigent un service worker
+    console.warn('browser notification error:', err)
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * ✅ Stockage local (IndexedDB) pour le mode hors ligne
+ * - tasks : dernière copie connue des tâches, par foyer
+ * - queue : mutations en attente de synchronisation (ordre FIFO)
+ * - meta  : contexte minimal pour démarrer sans réseau (foyer, membres)
+ */
+
+const DB_NAME = 'homeflow-offline'
+const DB_VERSION = 1
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb() {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains('tasks')) {
+        const tasks = db.createObjectStore('tasks', { keyPath: 'id' })
+        tasks.createIndex('household_id', 'household_id')
+      }
+      if (!db.objectStoreNames.contains('queue')) {
+        db.createObjectStore('queue', { keyPath: 'seq', autoIncrement: true })
+      }
+      if (!db.objectStoreNames.contains('meta')) {
+        db.createObjectStore('meta')
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+
+  return dbPromise
+}
+
+function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function done(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+// ---- tasks ----
+
+export async function getCachedTasks<T>(householdId: string) {
+  const db = await openDb()
+  const index = db.transaction('tasks').objectStore('tasks').index('household_id')
+  return (await promisify(index.getAll(householdId))) as T[]
+}
+
+/**
+ * replace = true : la liste reçue est complète pour ce foyer
+ * (les tâches absentes ont été supprimées ailleurs)
+ */
+export async function cacheTasks<T extends { id: string }>(householdId: string, tasks: T[], replace: boolean) {
+  const db = await openDb()
+  const tx = db.transaction('tasks', 'readwrite')
+  const store = tx.objectStore('tasks')
+
+  if (replace) {
+    const keys = await promisify(store.index('household_id').getAllKeys(householdId))
+    keys.forEach((key) => store.delete(key))
+  }
+  tasks.forEach((task) => store.put(task))
+
+  await done(tx)
+}
+
+export async function putCachedTask<T extends { id: string }>(task: T) {
+  const db = await openDb()
+  const tx = db.transaction('tasks', 'readwrite')
+  tx.objectStore('tasks').put(task)
+  await done(tx)
+}
+
+export async function deleteCachedTask(taskId: string) {
+  const db = await openDb()
+  const tx = db.transaction('tasks', 'readwrite')
+  tx.objectStore('tasks').delete(taskId)
+  await done(tx)
+}
+
+// ---- queue ----
+
+export type Queued<T> = T & { seq: number }
+
+export async function enqueue<T extends object>(item: T) {
+  const db = await openDb()
+  const tx = db.transaction('queue', 'readwrite')
+  tx.objectStore('queue').add(item)
+  await done(tx)
+}
+
+export async function listQueue<T>() {
+  const db = await openDb()
+  return (await promisify(db.transaction('queue').objectStore('queue').getAll())) as Queued<T>[]
+}
+
+export async function removeFromQueue(seq: number) {
+  const db = await openDb()
+  const tx = db.transaction('queue', 'readwrite')
+  tx.objectStore('queue').delete(seq)
+  await done(tx)
+}
+
+export async function countQueue() {
+  const db = await openDb()
+  return promisify(db.transaction('queue').objectStore('queue').count())
+}
+
+// ---- meta ----
+
+export async function getMeta<T>(key: string) {
+  const db = await openDb()
+  return ((await promisify(db.transaction('meta').objectStore('meta').get(key))) ?? null) as T | null
+}
+
+export async function setMeta<T>(key: string, value: T) {
+  const db = await openDb()
+  const tx = db.transaction('meta', 'readwrite')
+  tx.objectStore('meta').put(value, key)
+  await done(tx)
+}
@@ -0,0 +1,58 @@
+import type { MemberRole } from '@/lib/households'
+import type { MessageKey } from '@/lib/i18n'
+
+/**
+ * ✅ Permissions par rôle (admin / parent / enfant)
+ * - miroir des policies RLS (migration member_roles) : l'interface masque, la base refuse
+ * - un admin a tous les droits d'un parent, plus la gestion des membres
+ * - un enfant ne fait avancer que les tâches qui lui sont assignées
+ */
+
+export type Permission =
+  | 'tasks.manage' // créer / modifier / replanifier, points compris
+  | 'tasks.delete'
+  | 'tasks.complete_any'
+  | 'tasks.approve' // valider / refuser les tâches cochées + règles de validation du foyer
+  | 'categories.manage'
+  | 'rewards.manage'
+  | 'points.adjust'
+  | 'reminders.manage' // règles de rappel + perte de points en cas de retard
+  | 'members.manage' // rôles + invitations
+
+export const ROLE_LABEL_KEYS: Record<MemberRole, MessageKey> = {
+  admin: 'roles.admin',
+  parent: 'roles.parent',
+  child: 'roles.child',
+}
+
+const PARENT_PERMISSIONS: Permission[] = [
+  'tasks.manage',
+  'tasks.delete',
+  'tasks.complete_any',
+  'tasks.approve',
+  'categories.manage',
+  'rewards.manage',
+  'points.adjust',
+  'reminders.manage',
+]
+
+const PERMISSIONS: Record<MemberRole, Permission[]> = {
+  admin: [...PARENT_PERMISSIONS, 'members.manage'],
+  parent: PARENT_PERMISSIONS,
+  child: [],
+}
+
+export function can(role: MemberRole | null | undefined, permission: Permission) {
+  return !!role && PERMISSIONS[role].includes(permission)
+}
+
+/**
+ * Changer le statut : tout parent, ou l'enfant à qui la tâche est assignée
+ */
+export function canChangeStatus(
+  role: MemberRole | null | undefined,
+  memberId: string | null,
+  task: { assigned_to: string | null }
+) {
+  return can(role, 'tasks.complete_any') || (!!memberId && task.assigned_to === memberId)
+}
@@ -0,0 +1,163 @@
+import { supabase } from '@/lib/supabase'
+import type { Tables } from '@/lib/database.types'
+import type { Category } from '@/lib/categories'
+
+/**
+ * ✅ Photos de preuve (bucket privé task-photos)
+ * - compressées dans le navigateur (JPEG) avant l'envoi : photo + miniature
+ * - chemins <household_id>/<task_id>/<photo_id>(_thumb).jpg : les policies Storage lisent le foyer dans le chemin
+ * - affichage par URL signée (bucket privé)
+ */
+
+export type TaskPhoto = Tables<'task_photos'>
+
+export type PhotoThumbnail = { id: string; url: string }
+
+type PhotoOwner = { id: string; household_id: string }
+
+export const PHOTO_BUCKET = 'task-photos'
+
+// Côté le plus long après compression (photo / miniature)
+const PHOTO_MAX_SIZE = 1600
+const THUMB_MAX_SIZE = 240
+
+// Les URLs signées servent le temps d'une session d'utilisation
+const SIGNED_URL_SECONDS = 6 * 60 * 60
+
+export function requiresPhoto(
+  task: { requires_photo: boolean; category: string },
+  findCategory: (slug: string) => Pick<Category, 'requires_photo'> | null
+) {
+  return task.requires_photo || !!findCategory(task.category)?.requires_photo
+}
+
+function canvasToJpeg(canvas: HTMLCanvasElement, quality: number) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('IMAGE_ENCODE_FAILED'))), 'image/jpeg', quality)
+  })
+}
+
+async function resize(bitmap: ImageBitmap, maxSize: number, quality: number) {
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(bitmap.width * scale)
+  canvas.height = Math.round(bitmap.height * scale)
+
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('IMAGE_ENCODE_FAILED')
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+
+  return { blob: await canvasToJpeg(canvas, quality), width: canvas.width, height: canvas.height }
+}
+
+/**
+ * ✅ Photo + miniature en JPEG (orientation EXIF appliquée, métadonnées retirées)
+ */
+export async function compressPhoto(file: File) {
+  if (!file.type.startsWith('image/')) throw new Error('NOT_AN_IMAGE')
+
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' })
+  try {
+    const photo = await resize(bitmap, PHOTO_MAX_SIZE, 0.8)
+    const thumb = await resize(bitmap, THUMB_MAX_SIZE, 0.7)
+    return { photo, thumb }
+  } finally {
+    bitmap.close()
+  }
+}
+
+export async function listTaskPhotos(taskId: string) {
+  const { data, error } = await supabase
+    .from('task_photos')
+    .select('*')
+    .eq('task_id', taskId)
+    .order('created_at')
+
+  if (error) throw error
+  return (data || []) as TaskPhoto[]
+}
+
+/**
+ * ✅ Compresse, envoie les deux fichiers puis enregistre la photo
+ * Si l'enregistrement échoue, les fichiers déjà envoyés sont retirés.
+ */
+export async function uploadTaskPhoto(task: PhotoOwner, file: File, uploaderId: string) {
+  const { photo, thumb } = await compressPhoto(file)
+  const id = crypto.randomUUID()
+  const folder = `${task.household_id}/${task.id}`
+  const path = `${folder}/${id}.jpg`
+  const thumbPath = `${folder}/${id}_thumb.jpg`
+  const bucket = supabase.storage.from(PHOTO_BUCKET)
+
+  const { error: photoError } = await bucket.upload(path, photo.blob, { contentType: 'image/jpeg' })
+  if (photoError) throw photoError
+
+  try {
+    const { error: thumbError } = await bucket.upload(thumbPath, thumb.blob, { contentType: 'image/jpeg' })
+    if (thumbError) throw thumbError
+
+    const { data, error } = await supabase
+      .from('task_photos')
+      .insert({
+        id,
+        task_id: task.id,
+        household_id: task.household_id,
+        path,
+        thumb_path: thumbPath,
+        width: photo.width,
+        height: photo.height,
+        uploaded_by: uploaderId,
+      })
+      .select('*')
+      .single()
+
+    if (error) throw error
+    return data as TaskPhoto
+  } catch (err) {
+    await bucket.remove([path, thumbPath]).catch(() => undefined)
+    throw err
+  }
+}
+
+export async function deleteTaskPhoto(photo: TaskPhoto) {
+  const { error } = await supabase.from('task_photos').delete().eq('id', photo.id)
+  if (error) throw error
+
+  // La ligne fait foi : un fichier orphelin n'est plus référencé nulle part
+  const { error: storageError } = await supabase.storage.from(PHOTO_BUCKET).remove([photo.path, photo.thumb_path])
+  if (storageError) console.warn('remove photo files:', storageError)
+}
+
+/**
+ * URLs signées en un seul appel, dans l'ordre des chemins (null si refusée)
+ */
+export async function signPhotoPaths(paths: string[]) {
+  if (paths.length === 0) return []
+  const { data, error } = await supabase.storage.from(PHOTO_BUCKET).createSignedUrls(paths, SIGNED_URL_SECONDS)
+  if (error) throw error
+  return paths.map((path) => data.find((d) => d.path === path)?.signedUrl ?? null)
+}
+
+/**
+ * ✅ Miniatures de plusieurs tâches (cartes), regroupées par tâche
+ */
+export async function loadPhotoThumbnails(taskIds: string[]) {
+  const byTask: Record<string, PhotoThumbnail[]> = Object.fromEntries(taskIds.map((id) => [id, []]))
+  if (taskIds.length === 0) return byTask
+
+  const { data, error } = await supabase
+    .from('task_photos')
+    .select('id, task_id, thumb_path')
+    .in('task_id', taskIds)
+    .order('created_at')
+
+  if (error) throw error
+
+  const rows = data || []
+  const urls = await signPhotoPaths(rows.map((r) => r.thumb_path))
+  rows.forEach((row, i) => {
+    const url = urls[i]
+    if (url) byTask[row.task_id].push({ id: row.id, url })
+  })
+  return byTask
+}
@@ -0,0 +1,84 @@
+import { supabase } from '@/lib/supabase'
+
+export type LedgerKind = 'task_completed' | 'task_reopened' | 'adjustment' | 'reward_redeemed'
+
+export type LedgerEntry = {
+  id: string
+  household_id: string
+  member_id: string
+  task_id: string | null
+  task_title: string | null
+  amount: number
+  kind: LedgerKind
+  note: string | null
+  // Crédit réduit par le retard (perte de points du foyer) : jours de retard
+  late_days: number | null
+  created_by: string | null
+  created_at: string
+}
+
+export type LeaderboardPeriod = 'week' | 'month' | 'all'
+
+export type LeaderboardRow = { member_id: string; points: number }
+
+export const PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  week: 'Cette semaine',
+  month: 'Ce mois',
+  all: 'Depuis le début',
+}
+
+/**
+ * Début de période en heure locale (semaine = à partir du lundi)
+ */
+export function periodStart(period: LeaderboardPeriod, now = new Date()) {
+  if (period === 'all') return null
+  if (period === 'month') return new Date(now.getFullYear(), now.getMonth(), 1)
+
+  const daysSinceMonday = (now.getDay() + 6) % 7
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() - daysSinceMonday)
+}
+
+export async function addAdjustment(
+  householdId: string,
+  memberId: string,
+  amount: number,
+  note: string,
+  actorId: string
+) {
+  const { error } = await supabase.from('points_ledger').insert({
+    household_id: householdId,
+    member_id: memberId,
+    amount,
+    kind: 'adjustment',
+    note: note || null,
+    created_by: actorId,
+  })
+  if (error) throw error
+}
+
+/**
+ * ✅ Classement calculé depuis le grand livre (pas depuis tasks)
+ * Sommé par la base (rpc household_leaderboard) : une ligne par membre, quel que soit l'historique.
+ * Les points dépensés en récompenses ne font pas reculer au classement.
+ */
+export async function loadLeaderboard(householdId: string, period: LeaderboardPeriod) {
+  const start = periodStart(period)
+  const { data, error } = await supabase.rpc('household_leaderboard', {
+    p_household_id: householdId,
+    p_since: start ? start.toISOString() : null,
+  })
+  if (error) throw error
+  return (data || []) as LeaderboardRow[]
+}
+
+export async function listLedger(householdId: string, limit = 30) {
+  const { data, error } = await supabase
+    .from('points_ledger')
+    .select('*')
+    .eq('household_id', householdId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data || []) as LedgerEntry[]
+}
@@ -0,0 +1,280 @@
+import { supabase } from '@/lib/supabase'
+import { copyChecklist } from '@/lib/checklists'
+import type { MessageKey, MessageParams } from '@/lib/i18n'
+
+export type RecurrenceRule =
+  | { type: 'daily' }
+  | { type: 'weekly'; weekdays: number[] } // 0 = dimanche … 6 = samedi (Date#getDay)
+  | { type: 'monthly'; day: number } // 1..31, borné au dernier jour du mois
+  | { type: 'after_completion'; days: number }
+
+export type RecurrenceScope = 'this' | 'future'
+
+export type TaskSeries = {
+  id: string
+  household_id: string
+  title: string
+  description: string | null
+  category: string
+  assigned_to: string | null
+  created_by: string
+  points: number
+  recurrence: RecurrenceRule
+  active: boolean
+  created_at?: string
+}
+
+type Occurrence = {
+  id: string
+  household_id: string
+  series_id?: string | null
+  recurrence?: RecurrenceRule | null
+  due_date: string | null
+  status: string
+  auto_complete?: boolean
+  split_points?: boolean
+  requires_photo?: boolean
+}
+
+// Lundi en premier pour l'affichage (libellés : clés du catalogue)
+export const WEEKDAYS = [
+  { value: 1, short: 'weekdays.short.mon', label: 'weekdays.mon' },
+  { value: 2, short: 'weekdays.short.tue', label: 'weekdays.tue' },
+  { value: 3, short: 'weekdays.short.wed', label: 'weekdays.wed' },
+  { value: 4, short: 'weekdays.short.thu', label: 'weekdays.thu' },
+  { value: 5, short: 'weekdays.short.fri', label: 'weekdays.fri' },
+  { value: 6, short: 'weekdays.short.sat', label: 'weekdays.sat' },
+  { value: 0, short: 'weekdays.short.sun', label: 'weekdays.sun' },
+] as const satisfies readonly { value: number; short: MessageKey; label: MessageKey }[]
+
+/**
+ * ✅ Dates "YYYY-MM-DD" en heure locale
+ * (new Date('2024-01-15') serait interprété en UTC)
+ */
+export function parseDateOnly(value: string) {
+  const [y, m, d] = value.slice(0, 10).split('-').map(Number)
+  return new Date(y, m - 1, d)
+}
+
+export function formatDateOnly(date: Date) {
+  const y = date.getFullYear()
+  const m = String(date.getMonth() + 1).padStart(2, '0')
+  const d = String(date.getDate()).padStart(2, '0')
+  return `${y}-${m}-${d}`
+}
+
+function addDays(date: Date, days: number) {
+  const next = new Date(date)
+  next.setDate(next.getDate() + days)
+  return next
+}
+
+function startOfToday() {
+  const now = new Date()
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate())
+}
+
+function monthlyDate(year: number, month: number, day: number) {
+  const lastDay = new Date(year, month + 1, 0).getDate()
+  return new Date(year, month, Math.min(day, lastDay))
+}
+
+/**
+ * Première date > after qui respecte la règle (hors after_completion)
+ */
+function nextMatching(rule: RecurrenceRule, after: Date): Date {
+  switch (rule.type) {
+    case 'daily':
+      return addDays(after, 1)
+
+    case 'weekly': {
+      const days = rule.weekdays.length ? rule.weekdays : [after.getDay()]
+      for (let i = 1; i <= 7; i++) {
+        const candidate = addDays(after, i)
+        if (days.includes(candidate.getDay())) return candidate
+      }
+      return addDays(after, 7)
+    }
+
+    case 'monthly': {
+      const sameMonth = monthlyDate(after.getFullYear(), after.getMonth(), rule.day)
+      if (sameMonth > after) return sameMonth
+      return monthlyDate(after.getFullYear(), after.getMonth() + 1, rule.day)
+    }
+
+    case 'after_completion':
+      return addDays(after, Math.max(1, rule.days))
+  }
+}
+
+/**
+ * ✅ Date de la prochaine occurrence
+ * - after_completion : date de complétion + N jours
+ * - sinon : prochaine date après l'échéance courante, sans jamais
+ *   retomber dans le passé (les occurrences manquées sont sautées)
+ */
+export function nextDueDate(rule: RecurrenceRule, currentDue: string | null, completedAt = new Date()) {
+  if (rule.type === 'after_completion') {
+    const completedDay = new Date(completedAt.getFullYear(), completedAt.getMonth(), completedAt.getDate())
+    return formatDateOnly(addDays(completedDay, Math.max(1, rule.days)))
+  }
+
+  const today = startOfToday()
+  let next = nextMatching(rule, currentDue ? parseDateOnly(currentDue) : today)
+  while (next < today) next = nextMatching(rule, next)
+  return formatDateOnly(next)
+}
+
+/**
+ * Première échéance d'une nouvelle série (aujourd'hui si la règle le permet)
+ */
+export function firstDueDate(rule: RecurrenceRule) {
+  const today = startOfToday()
+  if (rule.type === 'daily' || rule.type === 'after_completion') return formatDateOnly(today)
+  return formatDateOnly(nextMatching(rule, addDays(today, -1)))
+}
+
+/**
+ * Résumé lisible d'une règle, dans la langue de t()
+ */
+export function describeRecurrence(rule: RecurrenceRule, t: (key: MessageKey, params?: MessageParams) => string) {
+  switch (rule.type) {
+    case 'daily':
+      return t('recurrence.daily')
+    case 'weekly': {
+      const days = WEEKDAYS.filter((d) => rule.weekdays.includes(d.value)).map((d) => t(d.short))
+      return days.length ? t('recurrence.weeklyOn', { days: days.join(', ') }) : t('recurrence.weekly')
+    }
+    case 'monthly':
+      return t('recurrence.monthlyOn', { day: rule.day })
+    case 'after_completion':
+      return t('recurrence.afterCompletion', { count: rule.days })
+  }
+}
+
+export function isValidRecurrence(rule: RecurrenceRule) {
+  switch (rule.type) {
+    case 'daily':
+      return true
+    case 'weekly':
+      return rule.weekdays.length > 0
+    case 'monthly':
+      return rule.day >= 1 && rule.day <= 31
+    case 'after_completion':
+      return rule.days >= 1
+  }
+}
+
+/**
+ * ✅ Génère l'occurrence suivante après complétion
+ * - le modèle vient de la série (pas de l'occurrence, qui peut être une exception)
+ * - la règle vient de l'occurrence (peut avoir été modifiée "pour cette occurrence")
+ * - idempotent : rien si une occurrence non terminée existe déjà dans la série
+ * - la liste de contrôle et ses options suivent l'occurrence précédente (tout décoché)
+ */
+export async function spawnNextOccurrence(task: Occurrence, completedAt: Date) {
+  if (!task.series_id || !task.recurrence) return null
+
+  const { data: series, error: seriesError } = await supabase
+    .from('task_series')
+    .select('*')
+    .eq('id', task.series_id)
+    .maybeSingle()
+
+  if (seriesError) throw seriesError
+  if (!series || !(series as TaskSeries).active) return null
+
+  const { data: open, error: openError } = await supabase
+    .from('tasks')
+    .select('id')
+    .eq('series_id', task.series_id)
+    .neq('status', 'completed')
+    .neq('id', task.id)
+    .limit(1)
+
+  if (openError) throw openError
+  if (open && open.length > 0) return null
+
+  const template = series as TaskSeries
+  const { data, error } = await supabase
+    .from('tasks')
+    .insert({
+      household_id: template.household_id,
+      title: template.title,
+      description: template.description,
+      category: template.category,
+      assigned_to: template.assigned_to,
+      created_by: template.created_by,
+      points: template.points,
+      due_date: nextDueDate(task.recurrence, task.due_date, completedAt),
+      status: 'pending',
+      series_id: template.id,
+      recurrence: template.recurrence,
+      auto_complete: task.auto_complete ?? false,
+      split_points: task.split_points ?? false,
+      requires_photo: task.requires_photo ?? false,
+    })
+    .select('*')
+    .single()
+
+  if (error) throw error
+
+  try {
+    await copyChecklist(task.id, data)
+  } catch (checklistErr) {
+    console.error('checklist copy error:', checklistErr)
+  }
+  return data
+}
+
+/**
+ * ✅ Modifie la règle
+ * - this   : uniquement cette occurrence (la suivante reprendra la règle de la série)
+ * - future : la série + toutes les occurrences non terminées
+ */
+export async function updateRecurrence(task: Occurrence, rule: RecurrenceRule, scope: RecurrenceScope) {
+  if (scope === 'this' || !task.series_id) {
+    const { error } = await supabase.from('tasks').update({ recurrence: rule }).eq('id', task.id)
+    if (error) throw error
+    return
+  }
+
+  const { error: seriesError } = await supabase
+    .from('task_series')
+    .update({ recurrence: rule, active: true })
+    .eq('id', task.series_id)
+  if (seriesError) throw seriesError
+
+  const { error } = await supabase
+    .from('tasks')
+    .update({ recurrence: rule })
+    .eq('series_id', task.series_id)
+    .neq('status', 'completed')
+  if (error) throw error
+}
+
+/**
+ * ✅ Arrête la répétition
+ * - this   : cette occurrence ne générera pas de suivante
+ * - future : la série est désactivée
+ */
+export async function stopRecurrence(task: Occurrence, scope: RecurrenceScope) {
+  if (scope === 'future' && task.series_id) {
+    const { error: seriesError } = await supabase
+      .from('task_series')
+      .update({ active: false })
+      .eq('id', task.series_id)
+    if (seriesError) throw seriesError
+
+    const { error } = await supabase
+      .from('tasks')
+      .update({ recurrence: null })
+      .eq('series_id', task.series_id)
+      .neq('status', 'completed')
+    if (error) throw error
+    return
+  }
+
+  const { error } = await supabase.from('tasks').update({ recurrence: null }).eq('id', task.id)
+  if (error) throw error
+}
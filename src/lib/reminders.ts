@@ -0,0 +1,103 @@
+import { supabase } from '@/lib/supabase'
+import type { Tables } from '@/lib/database.types'
+import { translate, type Locale } from '@/lib/i18n'
+import { formatDateOnly, parseDateOnly } from '@/lib/recurrence'
+
+/**
+ * ✅ Retards, règles de rappel / d'escalade et perte de points
+ * - en retard = pas terminée et échéance passée (date locale, l'échéance elle-même n'est pas un retard)
+ * - une tâche en attente de validation a été faite : elle n'est plus en retard
+ * - les règles sont évaluées côté base par refresh_due_notifications
+ */
+
+export type ReminderTarget = 'assignee' | 'parents'
+
+export type ReminderRule = Omit<Tables<'reminder_rules'>, 'target'> & { target: ReminderTarget }
+
+type DatedTask = { status: string; due_date: string | null }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function isOverdue(task: DatedTask, today = new Date()) {
+  if (task.status === 'completed' || task.status === 'awaiting_approval') return false
+  return !!task.due_date && task.due_date.slice(0, 10) < formatDateOnly(today)
+}
+
+/**
+ * Jours pleins entre l'échéance et la date donnée (0 si à l'heure)
+ */
+export function daysLate(dueDate: string | null, at = new Date()) {
+  if (!dueDate) return 0
+  const day = new Date(at.getFullYear(), at.getMonth(), at.getDate())
+  return Math.max(0, Math.round((day.getTime() - parseDateOnly(dueDate).getTime()) / DAY_MS))
+}
+
+/**
+ * "Rappeler l'assigné 2 jours avant l'échéance" (escalade : jamais avant l'échéance)
+ */
+export function describeReminderRule(rule: Pick<ReminderRule, 'offset_days' | 'target'>, locale: Locale) {
+  const count = Math.abs(rule.offset_days)
+  if (rule.target === 'parents') {
+    return rule.offset_days === 0
+      ? translate(locale, 'reminders.rule.parents.on')
+      : translate(locale, 'reminders.rule.parents.after', { count })
+  }
+  if (rule.offset_days === 0) return translate(locale, 'reminders.rule.assignee.on')
+  return rule.offset_days < 0
+    ? translate(locale, 'reminders.rule.assignee.before', { count })
+    : translate(locale, 'reminders.rule.assignee.after', { count })
+}
+
+export async function listReminderRules(householdId: string) {
+  const { data, error } = await supabase
+    .from('reminder_rules')
+    .select('*')
+    .eq('household_id', householdId)
+    .order('target', { ascending: true })
+    .order('offset_days', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as ReminderRule[]
+}
+
+export async function createReminderRule(householdId: string, rule: Pick<ReminderRule, 'offset_days' | 'target'>) {
+  const { data, error } = await supabase
+    .from('reminder_rules')
+    .insert({ household_id: householdId, ...rule })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data as ReminderRule
+}
+
+export async function setReminderRuleEnabled(ruleId: string, enabled: boolean) {
+  const { error } = await supabase.from('reminder_rules').update({ enabled }).eq('id', ruleId)
+  if (error) throw error
+}
+
+export async function deleteReminderRule(ruleId: string) {
+  const { error } = await supabase.from('reminder_rules').delete().eq('id', ruleId)
+  if (error) throw error
+}
+
+// ---- Perte de points ----
+
+export async function getLateDecayPercent(householdId: string) {
+  const { data, error } = await supabase
+    .from('households')
+    .select('late_decay_percent')
+    .eq('id', householdId)
+    .single()
+
+  if (error) throw error
+  return data.late_decay_percent
+}
+
+export async function updateLateDecayPercent(householdId: string, percent: number) {
+  const { error } = await supabase
+    .from('households')
+    .update({ late_decay_percent: Math.min(100, Math.max(0, Math.round(percent))) })
+    .eq('id', householdId)
+  if (error) throw error
+}
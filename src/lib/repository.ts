@@ -0,0 +1,496 @@
+import { supabase } from '@/lib/supabase'
+import type { Tables, TablesInsert, TablesUpdate } from '@/lib/database.types'
+import type { MemberRole } from '@/lib/households'
+import { formatDateOnly, type RecurrenceRule } from '@/lib/recurrence'
+import { toPrefixTsQuery } from '@/lib/taskQuery'
+
+/**
+ * ✅ Accès aux données typé (foyers, membres, tâches)
+ * - types dérivés de database.types.ts (générés par la CLI Supabase)
+ * - jamais de throw : chaque fonction renvoie un Result avec une erreur normalisée
+ */
+
+// ---- Types ----
+
+// awaiting_approval : cochée par un membre soumis à validation, en attente d'un parent
+export type TaskStatus = 'pending' | 'in_progress' | 'awaiting_approval' | 'completed'
+
+// Colonnes jsonb / text contraintes : on remplace le type brut généré
+// search_vector : colonne générée pour la recherche, jamais lue ni écrite par le client
+export type Task = Omit<Tables<'tasks'>, 'status' | 'recurrence' | 'search_vector'> & {
+  status: TaskStatus
+  recurrence: RecurrenceRule | null
+}
+
+export type TaskInsert = Omit<TablesInsert<'tasks'>, 'status' | 'recurrence' | 'search_vector'> & {
+  status?: TaskStatus
+  recurrence?: RecurrenceRule | null
+}
+
+// Champs modifiables depuis la fiche tâche (le statut passe par updateTaskStatus)
+// auto_complete / split_points / requires_photo : options de la tâche, jamais propagées à la série
+export type TaskChanges = Pick<
+  TablesUpdate<'tasks'>,
+  | 'title'
+  | 'description'
+  | 'category'
+  | 'assigned_to'
+  | 'due_date'
+  | 'points'
+  | 'auto_complete'
+  | 'split_points'
+  | 'requires_photo'
+>
+
+export type TaskHistoryField =
+  | 'created'
+  | 'title'
+  | 'description'
+  | 'category'
+  | 'assigned_to'
+  | 'due_date'
+  | 'points'
+  | 'status'
+
+export type TaskHistoryEntry = Omit<Tables<'task_history'>, 'field'> & { field: TaskHistoryField }
+
+export type MemberMini = Pick<Tables<'members'>, 'id' | 'display_name'> & { role: MemberRole }
+
+export type Membership = {
+  memberId: string
+  householdId: string
+  householdName: string
+  displayName: string
+  role: MemberRole
+}
+
+export type TaskStatusFilter = 'all' | 'pending' | 'awaiting_approval' | 'completed' | 'overdue'
+
+export type TaskSort = 'created_desc' | 'created_asc' | 'due_asc' | 'due_desc' | 'points_desc' | 'points_asc'
+
+// Position dans la liste triée : la dernière tâche de la page précédente
+export type TaskCursor = Pick<Task, 'id' | 'created_at' | 'due_date' | 'points'>
+
+export type TaskPage = { tasks: Task[]; nextCursor: TaskCursor | null }
+
+// Compteurs de l'en-tête (mêmes filtres que la liste, statut mis à part)
+export type TaskCounts = { pending: number; awaiting: number; completed: number; overdue: number }
+
+// Échéances au format AAAA-MM-JJ, bornes incluses
+export type TaskFilters = {
+  status?: TaskStatusFilter
+  assignedTo?: string | null
+  category?: string | null
+  createdBy?: string | null
+  search?: string
+  dueFrom?: string | null
+  dueTo?: string | null
+  pointsMin?: number | null
+  pointsMax?: number | null
+  sort?: TaskSort
+}
+
+// ---- Erreurs ----
+
+export type DataErrorKind = 'network' | 'auth' | 'forbidden' | 'not_found' | 'conflict' | 'invalid' | 'unknown'
+
+export class DataError extends Error {
+  kind: DataErrorKind
+  code: string | null
+  cause: unknown
+
+  constructor(kind: DataErrorKind, message: string, code: string | null, cause: unknown) {
+    super(message)
+    this.name = 'DataError'
+    this.kind = kind
+    this.code = code
+    this.cause = cause
+  }
+}
+
+export type Result<T> = { data: T; error: null } | { data: null; error: DataError }
+
+const ok = <T>(data: T): Result<T> => ({ data, error: null })
+const fail = <T>(err: unknown): Result<T> => ({ data: null, error: normalizeError(err) })
+
+function classify(err: any): DataErrorKind {
+  const msg = String(err?.message || '').toLowerCase()
+  const code = String(err?.code || '')
+  const status = Number(err?.status || 0)
+
+  if (
+    (typeof navigator !== 'undefined' && !navigator.onLine) ||
+    err instanceof TypeError ||
+    msg.includes('failed to fetch') ||
+    msg.includes('networkerror') ||
+    msg.includes('network request failed') ||
+    msg.includes('load failed')
+  ) {
+    return 'network'
+  }
+
+  if (
+    msg.includes('jwt') ||
+    msg.includes('expired') ||
+    msg.includes('token') ||
+    code === 'PGRST301' ||
+    code === '401' ||
+    status === 401
+  ) {
+    return 'auth'
+  }
+
+  if (code === '42501' || status === 403) return 'forbidden'
+  if (code === 'PGRST116') return 'not_found'
+  if (code === '23505') return 'conflict'
+  if (code === '23502' || code === '23514' || code === '22023' || code === '22P02') return 'invalid'
+  return 'unknown'
+}
+
+/**
+ * ✅ Erreur Supabase / fetch / autre → DataError
+ */
+export function normalizeError(err: unknown): DataError {
+  if (err instanceof DataError) return err
+  const e = err as any
+  return new DataError(classify(e), String(e?.message || 'Erreur inconnue'), e?.code ? String(e.code) : null, err)
+}
+
+export function isNetworkError(err: unknown) {
+  return normalizeError(err).kind === 'network'
+}
+
+export function isJwtExpiredError(err: unknown) {
+  return normalizeError(err).kind === 'auth'
+}
+
+/**
+ * Pour le code qui préfère try/catch : renvoie data ou lève la DataError
+ */
+export function unwrap<T>(result: Result<T>): T {
+  if (result.error) throw result.error
+  return result.data as T
+}
+
+// ---- Foyer & membres ----
+
+/**
+ * ✅ Tous les foyers de l'utilisateur (une ligne members par foyer), triés par nom
+ */
+export async function listMyMemberships(userId: string): Promise<Result<Membership[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('members')
+      .select('id, household_id, display_name, role, households(id, name)')
+      .eq('id', userId)
+
+    if (error) return fail(error)
+
+    return ok(
+      (data || [])
+        .map((row) => ({
+          memberId: row.id,
+          householdId: row.household_id,
+          householdName: row.households?.name ?? '',
+          displayName: row.display_name,
+          role: row.role as MemberRole,
+        }))
+        .sort((a, b) => a.householdName.localeCompare(b.householdName, 'fr'))
+    )
+  } catch (err) {
+    return fail(err)
+  }
+}
+
+/**
+ * Foyer actif : celui demandé s'il en fait toujours partie, sinon le premier
+ */
+export async function getMyMembership(
+  userId: string,
+  preferredHouseholdId: string | null = null
+): Promise<Result<Membership | null>> {
+  const result = await listMyMemberships(userId)
+  if (result.error) return result
+  return ok(result.data.find((m) => m.householdId === preferredHouseholdId) ?? result.data[0] ?? null)
+}
+
+export async function listMembers(householdId: string): Promise<Result<MemberMini[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('members')
+      .select('id, display_name, role')
+      .eq('household_id', householdId)
+      .order('display_name')
+
+    if (error) return fail(error)
+    return ok((data || []).map((m) => ({ ...m, role: m.role as MemberRole })))
+  } catch (err) {
+    return fail(err)
+  }
+}
+
+// ---- Tâches ----
+
+// Colonnes lues par l'application : tout sauf search_vector (volumineux, réservé à la recherche)
+export const TASK_COLUMNS =
+  'id, household_id, title, description, category, status, assigned_to, created_by, created_at, due_date, ' +
+  'points, series_id, recurrence, auto_complete, split_points, requires_photo, checklist_total, checklist_done, ' +
+  'comment_count, photo_count, completed_at, completed_by, submitted_at, submitted_by, rejection_reason, reopened_at'
+
+export const TASK_PAGE_SIZE = 50
+
+// Pages de listTasks : sous max-rows, sinon la tâche en plus (limit + 1) serait coupée
+const FULL_LIST_PAGE_SIZE = 500
+
+const HEAD_COUNT = { count: 'exact', head: true } as const
+
+const SORT_ORDER: Record<TaskSort, { column: 'created_at' | 'due_date' | 'points'; ascending: boolean }> = {
+  created_desc: { column: 'created_at', ascending: false },
+  created_asc: { column: 'created_at', ascending: true },
+  due_asc: { column: 'due_date', ascending: true },
+  due_desc: { column: 'due_date', ascending: false },
+  points_desc: { column: 'points', ascending: false },
+  points_asc: { column: 'points', ascending: true },
+}
+
+/**
+ * ✅ Requête filtrée sur les tâches du foyer (liste, pages et compteurs)
+ * - mêmes règles que matchesTaskQuery côté client
+ * - search : plein texte sur titre + description, par préfixes
+ * - tri complet et stable : colonne choisie (sans échéance en dernier), puis created_at, puis id
+ */
+function selectTasks(householdId: string, filters: TaskFilters, count?: { count: 'exact'; head: true }) {
+  let query = supabase.from('tasks').select(TASK_COLUMNS, count).eq('household_id', householdId)
+
+  if (filters.status === 'pending') query = query.in('status', ['pending', 'in_progress'])
+  if (filters.status === 'awaiting_approval') query = query.eq('status', 'awaiting_approval')
+  if (filters.status === 'completed') query = query.eq('status', 'completed')
+  if (filters.status === 'overdue') {
+    query = query.in('status', ['pending', 'in_progress']).lt('due_date', formatDateOnly(new Date()))
+  }
+  if (filters.assignedTo) query = query.eq('assigned_to', filters.assignedTo)
+  if (filters.category) query = query.eq('category', filters.category)
+  if (filters.createdBy) query = query.eq('created_by', filters.createdBy)
+  if (filters.dueFrom) query = query.gte('due_date', filters.dueFrom)
+  if (filters.dueTo) query = query.lte('due_date', filters.dueTo)
+  if (filters.pointsMin != null) query = query.gte('points', filters.pointsMin)
+  if (filters.pointsMax != null) query = query.lte('points', filters.pointsMax)
+
+  const tsQuery = toPrefixTsQuery(filters.search ?? '')
+  if (tsQuery) query = query.textSearch('search_vector', tsQuery, { config: 'french' })
+
+  if (count) return query
+
+  const sort = filters.sort ?? 'created_desc'
+  const order = SORT_ORDER[sort]
+  const tieAscending = sort === 'created_asc'
+  query = query.order(order.column, { ascending: order.ascending, nullsFirst: false })
+  if (order.column !== 'created_at') query = query.order('created_at', { ascending: tieAscending })
+  return query.order('id', { ascending: tieAscending })
+}
+
+/**
+ * ✅ Condition "après le curseur" (pagination par clé, filtre or() de PostgREST)
+ * Valeurs entre guillemets : les horodatages contiennent ":" et "."
+ */
+function afterCursor(sort: TaskSort, cursor: TaskCursor) {
+  const order = SORT_ORDER[sort]
+  const op = (ascending: boolean) => (ascending ? 'gt' : 'lt')
+  const tieOp = op(sort === 'created_asc')
+  const createdAt = `"${cursor.created_at}"`
+
+  // Égalité sur tout ce qui précède → on départage par created_at puis id
+  const ties = [[`created_at.${tieOp}.${createdAt}`], [`created_at.eq.${createdAt}`, `id.${tieOp}.${cursor.id}`]]
+  const branch = (conditions: string[]) => (conditions.length === 1 ? conditions[0] : `and(${conditions.join(',')})`)
+
+  if (order.column === 'created_at') return ties.map(branch).join(',')
+
+  const value = order.column === 'due_date' ? cursor.due_date : cursor.points
+  // Curseur dans la queue des tâches sans échéance
+  if (value === null) return ties.map((tie) => branch(['due_date.is.null', ...tie])).join(',')
+
+  const column = order.column
+  const shown = column === 'due_date' ? `"${value}"` : String(value)
+  const branches = [`${column}.${op(order.ascending)}.${shown}`]
+  if (column === 'due_date') branches.push('due_date.is.null')
+  ties.forEach((tie) => branches.push(branch([`${column}.eq.${shown}`, ...tie])))
+  return branches.join(',')
+}
+
+/**
+ * ✅ Toutes les tâches du foyer selon les filtres (exports, calendrier)
+ * - lues page par page : une seule requête serait tronquée en silence par max-rows (1000 par défaut)
+ */
+export async function listTasks(householdId: string, filters: TaskFilters = {}): Promise<Result<Task[]>> {
+  const tasks: Task[] = []
+  let cursor: TaskCursor | null = null
+  do {
+    const result: Result<TaskPage> = await listTaskPage(householdId, filters, cursor, FULL_LIST_PAGE_SIZE)
+    if (result.error) return fail(result.error)
+    tasks.push(...result.data.tasks)
+    cursor = result.data.nextCursor
+  } while (cursor)
+  return ok(tasks)
+}
+
+/**
+ * ✅ Une page de tâches (défilement infini)
+ * - pagination par curseur : stable même si des tâches sont ajoutées pendant le défilement
+ * - une tâche de plus est demandée pour savoir s'il reste une page
+ */
+export async function listTaskPage(
+  householdId: string,
+  filters: TaskFilters = {},
+  cursor: TaskCursor | null = null,
+  limit = TASK_PAGE_SIZE
+): Promise<Result<TaskPage>> {
+  try {
+    let query = selectTasks(householdId, filters)
+    if (cursor) query = query.or(afterCursor(filters.sort ?? 'created_desc', cursor))
+
+    const { data, error } = await query.limit(limit + 1)
+    if (error) return fail(error)
+
+    const rows = (data || []) as unknown as Task[]
+    const tasks = rows.slice(0, limit)
+    const last = tasks[tasks.length - 1]
+    const nextCursor =
+      rows.length > limit && last
+        ? { id: last.id, created_at: last.created_at, due_date: last.due_date, points: last.points }
+        : null
+    return ok({ tasks, nextCursor })
+  } catch (err) {
+    return fail(err)
+  }
+}
+
+/**
+ * ✅ Compteurs de l'en-tête, calculés par le serveur (pas sur la page chargée)
+ */
+export async function countTasks(householdId: string, filters: TaskFilters = {}): Promise<Result<TaskCounts>> {
+  try {
+    const count = async (status: TaskStatusFilter) => {
+      const { count: total, error } = await selectTasks(householdId, { ...filters, status }, HEAD_COUNT)
+      if (error) throw error
+      return total ?? 0
+    }
+
+    const [pending, awaiting, completed, overdue] = await Promise.all([
+      count('pending'),
+      count('awaiting_approval'),
+      count('completed'),
+      count('overdue'),
+    ])
+    return ok({ pending, awaiting, completed, overdue })
+  } catch (err) {
+    return fail(err)
+  }
+}
+
+/**
+ * Idempotent si l'id est fourni : rejouer la création ne crée pas de doublon
+ */
+export async function createTask(task: TaskInsert): Promise<Result<Task | null>> {
+  try {
+    const { data, error } = await supabase
+      .from('tasks')
+      .upsert(task, { onConflict: 'id', ignoreDuplicates: true })
+      .select(TASK_COLUMNS)
+
+    if (error) return fail(error)
+    // Vide = la tâche existait déjà
+    return ok(((data || [])[0] ?? null) as unknown as Task | null)
+  } catch (err) {
+    return fail(err)
+  }
+}
+
+/**
+ * Insertion groupée (import) : même règle d'idempotence que createTask
+ * → data = nombre de tâches réellement créées
+ */
+export async function createTasks(tasks: TaskInsert[]): Promise<Result<number>> {
+  if (tasks.length === 0) return ok(0)
+  try {
+    const { data, error } = await supabase
+      .from('tasks')
+      .upsert(tasks, { onConflict: 'id', ignoreDuplicates: true })
+      .select('id')
+
+    if (error) return fail(error)
+    return ok((data || []).length)
+  } catch (err) {
+    return fail(err)
+  }
+}
+
+/**
+ * ✅ Change le statut (completed_by cohérent)
+ * - completed_at, submitted_at / submitted_by sont fixés par le serveur
+ *   (triggers tasks_stamp_completion et tasks_require_approval)
+ * - expected : n'applique que si le statut serveur est encore celui-ci
+ *   → data = null si la tâche a changé ou disparu entre-temps
+ */
+export async function updateTaskStatus(
+  taskId: string,
+  status: TaskStatus,
+  options: { actorId: string; expected?: TaskStatus }
+): Promise<Result<Task | null>> {
+  try {
+    const completed = status === 'completed'
+    let query = supabase
+      .from('tasks')
+      .update({
+        status,
+        completed_by: completed ? options.actorId : null,
+      })
+      .eq('id', taskId)
+
+    if (options.expected) query = query.eq('status', options.expected)
+
+    const { data, error } = await query.select(TASK_COLUMNS)
+    if (error) return fail(error)
+    return ok(((data || [])[0] ?? null) as unknown as Task | null)
+  } catch (err) {
+    return fail(err)
+  }
+}
+
+/**
+ * ✅ Modifie les champs d'une tâche (l'historique est écrit par trigger)
+ * → data = null si la tâche n'existe plus
+ */
+export async function updateTask(taskId: string, changes: TaskChanges): Promise<Result<Task | null>> {
+  try {
+    const { data, error } = await supabase.from('tasks').update(changes).eq('id', taskId).select(TASK_COLUMNS)
+    if (error) return fail(error)
+    return ok(((data || [])[0] ?? null) as unknown as Task | null)
+  } catch (err) {
+    return fail(err)
+  }
+}
+
+export async function deleteTask(taskId: string): Promise<Result<null>> {
+  try {
+    const { error } = await supabase.from('tasks').delete().eq('id', taskId)
+    if (error) return fail(error)
+    return ok(null)
+  } catch (err) {
+    return fail(err)
+  }
+}
+
+export async function listTaskHistory(taskId: string): Promise<Result<TaskHistoryEntry[]>> {
+  try {
+    const { data, error } = await supabase
+      .from('task_history')
+      .select('*')
+      .eq('task_id', taskId)
+      .order('changed_at', { ascending: false })
+
+    if (error) return fail(error)
+    return ok((data || []) as TaskHistoryEntry[])
+  } catch (err) {
+    return fail(err)
+  }
+}
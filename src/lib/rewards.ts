@@ -0,0 +1,115 @@
+import { supabase } from '@/lib/supabase'
+
+export type Reward = {
+  id: string
+  household_id: string
+  title: string
+  description: string | null
+  cost: number
+  active: boolean
+  created_by: string | null
+  created_at: string
+}
+
+export type RedemptionStatus = 'pending' | 'approved' | 'rejected'
+
+export type RewardRedemption = {
+  id: string
+  household_id: string
+  reward_id: string | null
+  reward_title: string
+  member_id: string
+  cost: number
+  status: RedemptionStatus
+  requested_at: string
+  decided_by: string | null
+  decided_at: string | null
+  decision_note: string | null
+}
+
+export const REDEMPTION_STATUS_LABELS: Record<RedemptionStatus, { label: string; color: string }> = {
+  pending: { label: 'En attente', color: 'bg-yellow-100 text-yellow-700' },
+  approved: { label: 'Validée', color: 'bg-green-100 text-green-700' },
+  rejected: { label: 'Refusée', color: 'bg-red-100 text-red-700' },
+}
+
+export function rewardErrorMessage(err: any) {
+  const msg = String(err?.message || '')
+  if (msg.includes('INSUFFICIENT_POINTS')) return 'Pas assez de points pour cette récompense.'
+  if (msg.includes('REWARD_NOT_FOUND')) return "Cette récompense n'est plus disponible."
+  if (msg.includes('ALREADY_DECIDED')) return 'Cette demande a déjà été traitée.'
+  if (msg.includes('NOT_ALLOWED')) return 'Seul un parent peut valider une demande.'
+  return msg || 'Une erreur est survenue.'
+}
+
+export async function listRewards(householdId: string, includeArchived = false) {
+  let query = supabase.from('rewards').select('*').eq('household_id', householdId).order('cost')
+  if (!includeArchived) query = query.eq('active', true)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data || []) as Reward[]
+}
+
+export async function createReward(
+  householdId: string,
+  createdBy: string,
+  reward: { title: string; description: string | null; cost: number }
+) {
+  const { error } = await supabase.from('rewards').insert({ ...reward, household_id: householdId, created_by: createdBy })
+  if (error) throw error
+}
+
+export async function updateReward(
+  rewardId: string,
+  patch: Partial<Pick<Reward, 'title' | 'description' | 'cost' | 'active'>>
+) {
+  const { error } = await supabase.from('rewards').update(patch).eq('id', rewardId)
+  if (error) throw error
+}
+
+export async function requestRedemption(rewardId: string) {
+  const { data, error } = await supabase.rpc('request_redemption', { p_reward_id: rewardId })
+  if (error) throw error
+  return data as RewardRedemption
+}
+
+export async function decideRedemption(redemptionId: string, approve: boolean, note?: string) {
+  const { data, error } = await supabase.rpc('decide_redemption', {
+    p_redemption_id: redemptionId,
+    p_approve: approve,
+    p_note: note ?? null,
+  })
+  if (error) throw error
+  return data as RewardRedemption
+}
+
+export async function listRedemptions(householdId: string, limit = 50) {
+  const { data, error } = await supabase
+    .from('reward_redemptions')
+    .select('*')
+    .eq('household_id', householdId)
+    .order('requested_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data || []) as RewardRedemption[]
+}
+
+/**
+ * ✅ Solde de points par membre (vue member_points_balance)
+ */
+export async function loadBalances(householdId: string) {
+  const { data, error } = await supabase
+    .from('member_points_balance')
+    .select('member_id, balance')
+    .eq('household_id', householdId)
+
+  if (error) throw error
+
+  const balances: Record<string, number> = {}
+  for (const row of (data || []) as { member_id: string; balance: number }[]) {
+    balances[row.member_id] = row.balance
+  }
+  return balances
+}
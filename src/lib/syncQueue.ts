@@ -0,0 +1,77 @@
+import { applyMutation, type MutationOutcome, type TaskMutation } from '@/lib/tasks'
+import { isJwtExpiredError, isNetworkError } from '@/lib/repository'
+import { countQueue, enqueue, listQueue, removeFromQueue } from '@/lib/offlineDb'
+
+type QueuedMutation = TaskMutation & { queued_at: string }
+
+export type RunOutcome = MutationOutcome | { status: 'queued' }
+
+export type ReplayReport = { applied: number; skipped: number; failed: number; remaining: number }
+
+let replaying: Promise<ReplayReport> | null = null
+
+export async function pendingMutationCount() {
+  try {
+    return await countQueue()
+  } catch {
+    return 0
+  }
+}
+
+/**
+ * ✅ Exécute une mutation, ou la met en file si le réseau manque
+ * - si des mutations attendent déjà, la nouvelle passe derrière
+ *   (on ne double jamais la file : l'ordre est garanti)
+ * - les erreurs non réseau (RLS, session…) remontent à l'appelant
+ */
+export async function runMutation(mutation: TaskMutation): Promise<RunOutcome> {
+  const queued = await pendingMutationCount()
+
+  if (queued === 0 && navigator.onLine) {
+    try {
+      return await applyMutation(mutation)
+    } catch (err) {
+      if (!isNetworkError(err)) throw err
+    }
+  }
+
+  await enqueue<QueuedMutation>({ ...mutation, queued_at: new Date().toISOString() })
+  return { status: 'queued' }
+}
+
+/**
+ * ✅ Rejoue la file dans l'ordre
+ * - s'arrête à la première erreur réseau ou de session (on réessaiera plus tard)
+ * - une erreur serveur définitive (RLS, contrainte) retire la mutation :
+ *   la garder bloquerait toutes les suivantes
+ */
+export function replayQueue(): Promise<ReplayReport> {
+  if (replaying) return replaying
+
+  replaying = (async () => {
+    const report: ReplayReport = { applied: 0, skipped: 0, failed: 0, remaining: 0 }
+    const items = await listQueue<QueuedMutation>()
+
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i]
+      try {
+        const outcome = await applyMutation(item)
+        report[outcome.status] += 1
+      } catch (err) {
+        if (isNetworkError(err) || isJwtExpiredError(err)) {
+          report.remaining = items.length - i
+          break
+        }
+        console.error('sync: mutation abandonnée', item, err)
+        report.failed += 1
+      }
+      await removeFromQueue(item.seq)
+    }
+
+    return report
+  })().finally(() => {
+    replaying = null
+  })
+
+  return replaying
+}
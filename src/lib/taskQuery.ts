@@ -0,0 +1,258 @@
+import { supabase } from '@/lib/supabase'
+import type { Tables } from '@/lib/database.types'
+import type { MessageKey } from '@/lib/i18n'
+import { isOverdue } from '@/lib/reminders'
+import type { Task, TaskCounts, TaskFilters, TaskSort, TaskStatusFilter } from '@/lib/repository'
+
+/**
+ * ✅ Recherche, filtres et tri de la liste des tâches
+ * - tout vit dans l'URL de /tasks (?q=...&status=...) : liens partageables, précédent / suivant
+ * - mêmes règles côté serveur (listTasks) et côté client (cache hors ligne, temps réel)
+ * - vues enregistrées : une chaîne de requête nommée, propre à chaque membre
+ */
+
+export type TaskQuery = Required<TaskFilters>
+
+export type SavedView = Tables<'task_views'>
+
+export const VIEW_NAME_MAX = 60
+
+export const DEFAULT_TASK_QUERY: TaskQuery = {
+  status: 'all',
+  assignedTo: null,
+  category: null,
+  createdBy: null,
+  search: '',
+  dueFrom: null,
+  dueTo: null,
+  pointsMin: null,
+  pointsMax: null,
+  sort: 'created_desc',
+}
+
+export const TASK_SORTS: TaskSort[] = [
+  'created_desc',
+  'created_asc',
+  'due_asc',
+  'due_desc',
+  'points_desc',
+  'points_asc',
+]
+
+export const SORT_LABEL_KEYS: Record<TaskSort, MessageKey> = {
+  created_desc: 'tasks.sort.createdDesc',
+  created_asc: 'tasks.sort.createdAsc',
+  due_asc: 'tasks.sort.dueAsc',
+  due_desc: 'tasks.sort.dueDesc',
+  points_desc: 'tasks.sort.pointsDesc',
+  points_asc: 'tasks.sort.pointsAsc',
+}
+
+const STATUS_FILTERS: TaskStatusFilter[] = ['all', 'pending', 'awaiting_approval', 'completed', 'overdue']
+
+// Au-delà, la recherche n'apporte plus rien (et la requête reste courte)
+const MAX_SEARCH_TERMS = 8
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+// ---- URL ----
+
+function readDate(value: string | null) {
+  return value && DATE_ONLY.test(value) ? value : null
+}
+
+function readPoints(value: string | null) {
+  if (!value || !/^\d+$/.test(value)) return null
+  return Number(value)
+}
+
+/**
+ * Paramètres inconnus ou invalides ignorés : un lien abîmé retombe sur la liste complète
+ */
+export function parseTaskQuery(params: URLSearchParams): TaskQuery {
+  const status = params.get('status') as TaskStatusFilter | null
+  const sort = params.get('sort') as TaskSort | null
+
+  return {
+    status: status && STATUS_FILTERS.includes(status) ? status : 'all',
+    assignedTo: params.get('member') || null,
+    category: params.get('category') || null,
+    createdBy: params.get('creator') || null,
+    search: (params.get('q') ?? '').trim(),
+    dueFrom: readDate(params.get('due_from')),
+    dueTo: readDate(params.get('due_to')),
+    pointsMin: readPoints(params.get('points_min')),
+    pointsMax: readPoints(params.get('points_max')),
+    sort: sort && TASK_SORTS.includes(sort) ? sort : 'created_desc',
+  }
+}
+
+/**
+ * Valeurs par défaut omises : /tasks reste /tasks sans filtre
+ */
+export function taskQueryToParams(query: TaskQuery) {
+  const params = new URLSearchParams()
+  if (query.search.trim()) params.set('q', query.search.trim())
+  if (query.status !== 'all') params.set('status', query.status)
+  if (query.category) params.set('category', query.category)
+  if (query.assignedTo) params.set('member', query.assignedTo)
+  if (query.createdBy) params.set('creator', query.createdBy)
+  if (query.dueFrom) params.set('due_from', query.dueFrom)
+  if (query.dueTo) params.set('due_to', query.dueTo)
+  if (query.pointsMin != null) params.set('points_min', String(query.pointsMin))
+  if (query.pointsMax != null) params.set('points_max', String(query.pointsMax))
+  if (query.sort !== 'created_desc') params.set('sort', query.sort)
+  return params
+}
+
+/**
+ * Filtres avancés actifs (hors statut, catégorie et membre, visibles en permanence)
+ */
+export function countAdvancedFilters(query: TaskQuery) {
+  const advanced = [query.createdBy, query.dueFrom, query.dueTo, query.pointsMin, query.pointsMax]
+  return advanced.filter((value) => value != null).length
+}
+
+/**
+ * Aucun filtre (le tri ne compte pas) : la liste chargée est la liste complète du foyer
+ */
+export function isUnfiltered(query: TaskQuery) {
+  return (
+    query.status === 'all' &&
+    !query.assignedTo &&
+    !query.category &&
+    !query.search &&
+    countAdvancedFilters(query) === 0
+  )
+}
+
+// ---- Recherche ----
+
+function fold(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+}
+
+export function searchTerms(search: string) {
+  return search
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, MAX_SEARCH_TERMS)
+}
+
+/**
+ * "vaiss cuis" → "vaiss:* & cuis:*" (to_tsquery), null si rien à chercher
+ * Les mots sont réduits aux lettres et chiffres : aucun opérateur ne passe
+ */
+export function toPrefixTsQuery(search: string) {
+  const terms = searchTerms(search)
+  return terms.length > 0 ? terms.map((term) => `${term}:*`).join(' & ') : null
+}
+
+/**
+ * Équivalent approché côté client : chaque mot apparaît dans le titre ou la description
+ * (sans accents ni casse ; le serveur, lui, tient aussi compte des pluriels)
+ */
+function matchesSearch(task: Task, search: string) {
+  const terms = searchTerms(search).map(fold)
+  if (terms.length === 0) return true
+  const haystack = fold(`${task.title} ${task.description ?? ''}`)
+  return terms.every((term) => haystack.includes(term))
+}
+
+// ---- Filtres & tri côté client ----
+
+/**
+ * Mêmes règles que la requête serveur (cache hors ligne, temps réel, ajouts locaux)
+ */
+export function matchesTaskQuery(task: Task, query: TaskQuery) {
+  const status = query.status
+  if (status === 'pending' && task.status !== 'pending' && task.status !== 'in_progress') return false
+  if (status === 'awaiting_approval' && task.status !== 'awaiting_approval') return false
+  if (status === 'completed' && task.status !== 'completed') return false
+  if (status === 'overdue' && !isOverdue(task)) return false
+  if (query.assignedTo && task.assigned_to !== query.assignedTo) return false
+  if (query.category && task.category !== query.category) return false
+  if (query.createdBy && task.created_by !== query.createdBy) return false
+  if (query.dueFrom && (!task.due_date || task.due_date < query.dueFrom)) return false
+  if (query.dueTo && (!task.due_date || task.due_date > query.dueTo)) return false
+  if (query.pointsMin != null && task.points < query.pointsMin) return false
+  if (query.pointsMax != null && task.points > query.pointsMax) return false
+  return matchesSearch(task, query.search)
+}
+
+// Départage commun (comme la pagination) : created_at puis id, décroissants
+function byNewest(a: Task, b: Task) {
+  return (b.created_at ?? '').localeCompare(a.created_at ?? '') || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0)
+}
+
+/**
+ * Même ordre que listTasks : tâches sans échéance en dernier, puis les plus récentes d'abord
+ */
+export function compareTasks(sort: TaskSort) {
+  return (a: Task, b: Task) => {
+    let diff = 0
+    if (sort === 'created_asc') return -byNewest(a, b)
+    if (sort === 'due_asc' || sort === 'due_desc') {
+      if (a.due_date !== b.due_date) {
+        if (!a.due_date) return 1
+        if (!b.due_date) return -1
+        diff = a.due_date.localeCompare(b.due_date) * (sort === 'due_asc' ? 1 : -1)
+      }
+    }
+    if (sort === 'points_desc') diff = b.points - a.points
+    if (sort === 'points_asc') diff = a.points - b.points
+    return diff || byNewest(a, b)
+  }
+}
+
+/**
+ * Compteurs de l'en-tête sur les tâches connues localement (hors ligne, le serveur ne répond pas)
+ */
+export function tallyTasks(tasks: Task[]): TaskCounts {
+  return {
+    pending: tasks.filter((t) => t.status === 'pending' || t.status === 'in_progress').length,
+    awaiting: tasks.filter((t) => t.status === 'awaiting_approval').length,
+    completed: tasks.filter((t) => t.status === 'completed').length,
+    overdue: tasks.filter((t) => isOverdue(t)).length,
+  }
+}
+
+// ---- Vues enregistrées ----
+
+export async function listSavedViews(householdId: string, memberId: string) {
+  const { data, error } = await supabase
+    .from('task_views')
+    .select('*')
+    .eq('household_id', householdId)
+    .eq('member_id', memberId)
+    .order('name')
+
+  if (error) throw error
+  return (data || []) as SavedView[]
+}
+
+/**
+ * Même nom → la vue existante est remplacée
+ */
+export async function saveView(householdId: string, memberId: string, name: string, query: string) {
+  const { data, error } = await supabase
+    .from('task_views')
+    .upsert(
+      { household_id: householdId, member_id: memberId, name: name.trim().slice(0, VIEW_NAME_MAX), query },
+      { onConflict: 'household_id,member_id,name' }
+    )
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data as SavedView
+}
+
+export async function deleteSavedView(viewId: string) {
+  const { error } = await supabase.from('task_views').delete().eq('id', viewId)
+  if (error) throw error
+}
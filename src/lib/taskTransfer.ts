@@ -0,0 +1,365 @@
+import { createCategoryLookup, type Category } from '@/lib/categories'
+import { createTasks, type MemberMini, type Task, type TaskInsert, type TaskStatus } from '@/lib/repository'
+
+/**
+ * ✅ Import / export des tâches d'un foyer (CSV, JSON)
+ * - export : membres résolus en noms, catégories en libellés (lisible dans un tableur)
+ * - import : colonnes → champs, validation ligne par ligne, insertion par lots
+ */
+
+// ---- Export ----
+
+const EXPORT_COLUMNS = [
+  'title',
+  'description',
+  'category',
+  'assigned_to',
+  'status',
+  'due_date',
+  'points',
+  'created_at',
+  'completed_at',
+] as const
+
+type ExportRow = Record<(typeof EXPORT_COLUMNS)[number], string | number | null>
+
+function toExportRow(task: Task, members: MemberMini[], categoryLabel: (slug: string) => string): ExportRow {
+  return {
+    title: task.title,
+    description: task.description,
+    category: categoryLabel(task.category),
+    assigned_to: task.assigned_to ? members.find((m) => m.id === task.assigned_to)?.display_name ?? null : null,
+    status: task.status,
+    due_date: task.due_date,
+    points: task.points,
+    created_at: task.created_at,
+    completed_at: task.completed_at,
+  }
+}
+
+// Cellule lue comme une formule par Excel / LibreOffice (=, +, -, @, tabulation, retour chariot)
+const FORMULA_START = /^[=+\-@\t\r]/
+
+/**
+ * Texte commençant comme une formule : préfixé d'une apostrophe (affiché tel quel, jamais exécuté)
+ */
+function csvCell(value: string | number | null) {
+  if (value === null) return ''
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value)
+  return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function tasksToCsv(tasks: Task[], members: MemberMini[], categories: Category[]) {
+  const { label } = createCategoryLookup(categories)
+  const lines = [EXPORT_COLUMNS.join(',')]
+  for (const task of tasks) {
+    const row = toExportRow(task, members, label)
+    lines.push(EXPORT_COLUMNS.map((c) => csvCell(row[c])).join(','))
+  }
+  // BOM : sinon Excel lit l'UTF-8 comme du Latin-1 (accents cassés)
+  return '\uFEFF' + lines.join('\r\n') + '\r\n'
+}
+
+export function tasksToJson(
+  tasks: Task[],
+  members: MemberMini[],
+  categories: Category[],
+  householdName: string | null
+) {
+  const { label } = createCategoryLookup(categories)
+  return JSON.stringify(
+    {
+      household: householdName,
+      exported_at: new Date().toISOString(),
+      tasks: tasks.map((t) => toExportRow(t, members, label)),
+    },
+    null,
+    2
+  )
+}
+
+// ---- Lecture des fichiers ----
+
+export type RawTable = { headers: string[]; rows: string[][] }
+
+/**
+ * CSV (RFC 4180) : guillemets, "" échappés, retours à la ligne dans les cellules
+ * Séparateur détecté sur la 1re ligne (, ; ou tabulation : Excel FR exporte en ;)
+ */
+export function parseCsv(text: string): RawTable {
+  const input = text.replace(/^\uFEFF/, '')
+  const firstLine = input.split(/\r?\n/, 1)[0] ?? ''
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  )
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"') quoted = true
+    else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else cell += char
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  const nonEmpty = rows.filter((r) => r.some((c) => c.trim() !== ''))
+  const [headers = [], ...body] = nonEmpty
+  // Apostrophe ajoutée par notre export devant une formule : retirée (aller-retour sans perte)
+  const unescape = (c: string) => (c.startsWith("'") && FORMULA_START.test(c.slice(1)) ? c.slice(1) : c)
+  return { headers: headers.map((h) => h.trim()), rows: body.map((r) => r.map(unescape)) }
+}
+
+/**
+ * JSON : tableau d'objets, ou { tasks: [...] } (format de notre export)
+ */
+export function parseJson(text: string): RawTable {
+  const parsed = JSON.parse(text)
+  const items: unknown[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.tasks) ? parsed.tasks : []
+  if (items.length === 0) throw new Error('Aucune tâche trouvée dans le fichier JSON.')
+
+  const objects = items.filter((i): i is Record<string, unknown> => !!i && typeof i === 'object')
+  const headers = Array.from(new Set(objects.flatMap((o) => Object.keys(o))))
+  const rows = objects.map((o) => headers.map((h) => (o[h] === null || o[h] === undefined ? '' : String(o[h]))))
+  return { headers, rows }
+}
+
+export function parseImportFile(name: string, text: string): RawTable {
+  return name.toLowerCase().endsWith('.json') ? parseJson(text) : parseCsv(text)
+}
+
+// ---- Correspondance colonnes → champs ----
+
+export type ImportField = 'title' | 'description' | 'category' | 'assigned_to' | 'due_date' | 'points' | 'status'
+
+// index de colonne, ou null = champ ignoré (valeur par défaut)
+export type ColumnMapping = Record<ImportField, number | null>
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean }[] = [
+  { field: 'title', label: 'Titre', required: true },
+  { field: 'description', label: 'Description' },
+  { field: 'category', label: 'Catégorie' },
+  { field: 'assigned_to', label: 'Assignée à' },
+  { field: 'due_date', label: 'Échéance' },
+  { field: 'points', label: 'Points' },
+  { field: 'status', label: 'Statut' },
+]
+
+function normalize(value: string) {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+}
+
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  title: ['title', 'titre', 'tache', 'task', 'nom'],
+  description: ['description', 'details', 'notes'],
+  category: ['category', 'categorie'],
+  assigned_to: ['assigned_to', 'assignee', 'assignee a', 'membre', 'qui', 'responsable'],
+  due_date: ['due_date', 'echeance', 'date', 'pour le'],
+  points: ['points', 'pts'],
+  status: ['status', 'statut', 'etat'],
+}
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalize)
+  const mapping = {} as ColumnMapping
+  for (const { field } of IMPORT_FIELDS) {
+    const index = normalized.findIndex((h) => FIELD_ALIASES[field].includes(h))
+    mapping[field] = index === -1 ? null : index
+  }
+  return mapping
+}
+
+// ---- Validation ----
+
+export type ImportRow = {
+  line: number // numéro de ligne dans le fichier (en-tête = 1)
+  draft: Omit<TaskInsert, 'household_id' | 'created_by'> | null
+  errors: string[]
+}
+
+const STATUS_ALIASES: Record<string, TaskStatus> = {
+  pending: 'pending',
+  'a faire': 'pending',
+  in_progress: 'in_progress',
+  'en cours': 'in_progress',
+  // Une demande de validation ne se transfère pas d'un foyer à l'autre : la tâche reste à faire
+  awaiting_approval: 'pending',
+  'a valider': 'pending',
+  completed: 'completed',
+  termine: 'completed',
+  terminee: 'completed',
+  fait: 'completed',
+}
+
+function parseDueDate(value: string): string | null | undefined {
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(value)
+  const fr = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value)
+  const [y, m, d] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : fr
+      ? [Number(fr[3]), Number(fr[2]), Number(fr[1])]
+      : [NaN, NaN, NaN]
+
+  const date = new Date(y, m - 1, d)
+  if (Number.isNaN(date.getTime()) || date.getMonth() !== m - 1 || date.getDate() !== d) return undefined
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`
+}
+
+/**
+ * ✅ Valide chaque ligne sans rien écrire
+ * - catégorie : slug ou libellé d'une catégorie active du foyer (sans accents / casse)
+ * - membre : nom affiché exact (sans casse) ; homonymes = ambigu → erreur
+ */
+export function validateRows(
+  table: RawTable,
+  mapping: ColumnMapping,
+  members: MemberMini[],
+  categories: Category[]
+): ImportRow[] {
+  const activeCategories = categories.filter((c) => !c.archived)
+
+  const membersByName = new Map<string, MemberMini[]>()
+  for (const m of members) {
+    const key = normalize(m.display_name)
+    membersByName.set(key, [...(membersByName.get(key) ?? []), m])
+  }
+
+  return table.rows.map((cells, i) => {
+    const get = (field: ImportField) => {
+      const index = mapping[field]
+      return index === null ? '' : (cells[index] ?? '').trim()
+    }
+    const errors: string[] = []
+
+    const title = get('title')
+    if (!title) errors.push('Titre manquant')
+
+    // Sans colonne catégorie : la première du foyer, et ses points par défaut
+    let category = activeCategories[0]?.slug ?? 'general'
+    let defaultPoints = activeCategories[0]?.default_points ?? 10
+    const rawCategory = get('category')
+    if (rawCategory) {
+      const match = activeCategories.find(
+        (c) => normalize(c.slug) === normalize(rawCategory) || normalize(c.label) === normalize(rawCategory)
+      )
+      if (match) {
+        category = match.slug
+        defaultPoints = match.default_points
+      } else errors.push(`Catégorie inconnue : « ${rawCategory} »`)
+    }
+
+    let assignedTo: string | null = null
+    const rawMember = get('assigned_to')
+    if (rawMember) {
+      const matches = membersByName.get(normalize(rawMember)) ?? []
+      if (matches.length === 1) assignedTo = matches[0].id
+      else if (matches.length > 1) errors.push(`Plusieurs membres s'appellent « ${rawMember} »`)
+      else errors.push(`Membre inconnu : « ${rawMember} »`)
+    }
+
+    let dueDate: string | null = null
+    const rawDate = get('due_date')
+    if (rawDate) {
+      const parsed = parseDueDate(rawDate)
+      if (parsed === undefined) errors.push(`Date invalide : « ${rawDate} » (AAAA-MM-JJ ou JJ/MM/AAAA)`)
+      else dueDate = parsed
+    }
+
+    let points = defaultPoints
+    const rawPoints = get('points')
+    if (rawPoints) {
+      const n = Number(rawPoints)
+      if (!Number.isInteger(n) || n < 1 || n > 100) errors.push(`Points invalides : « ${rawPoints} » (1 à 100)`)
+      else points = n
+    }
+
+    let status: TaskStatus = 'pending'
+    const rawStatus = get('status')
+    if (rawStatus) {
+      const match = STATUS_ALIASES[normalize(rawStatus)]
+      if (match) status = match
+      else errors.push(`Statut inconnu : « ${rawStatus} »`)
+    }
+
+    return {
+      line: i + 2,
+      errors,
+      draft:
+        errors.length > 0
+          ? null
+          : {
+              // id fixé dès la validation : relancer l'import ne duplique pas les lots déjà passés
+              id: crypto.randomUUID(),
+              title,
+              description: get('description') || null,
+              category,
+              assigned_to: assignedTo,
+              due_date: dueDate,
+              points,
+              status,
+              // Terminée à l'import : date = maintenant, sans auteur (pas de points crédités)
+              completed_at: status === 'completed' ? new Date().toISOString() : null,
+            },
+    }
+  })
+}
+
+// ---- Insertion ----
+
+export const IMPORT_BATCH_SIZE = 50
+
+/**
+ * ✅ Insère les lignes valides par lots
+ * - ids générés à la validation : relancer après une coupure ne crée pas de doublon
+ * - s'arrête au premier lot en erreur (les lots précédents restent importés)
+ */
+export async function importTasks(
+  householdId: string,
+  createdBy: string,
+  rows: ImportRow[],
+  onProgress?: (done: number, total: number) => void
+) {
+  const tasks: TaskInsert[] = rows
+    .filter((r) => r.draft)
+    .map((r) => ({ ...r.draft!, household_id: householdId, created_by: createdBy }))
+
+  let inserted = 0
+  for (let i = 0; i < tasks.length; i += IMPORT_BATCH_SIZE) {
+    const batch = tasks.slice(i, i + IMPORT_BATCH_SIZE)
+    const { data, error } = await createTasks(batch)
+    if (error) throw error
+    inserted += data
+    onProgress?.(Math.min(i + batch.length, tasks.length), tasks.length)
+  }
+  return inserted
+}
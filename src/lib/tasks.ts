@@ -0,0 +1,100 @@
+import { supabase } from '@/lib/supabase'
+import { spawnNextOccurrence, type RecurrenceScope, type TaskSeries } from '@/lib/recurrence'
+import {
+  createTask,
+  deleteTask,
+  unwrap,
+  updateTask,
+  updateTaskStatus,
+  type Task,
+  type TaskChanges,
+  type TaskStatus,
+} from '@/lib/repository'
+
+/**
+ * ✅ Mutations rejouables (hors ligne → file d'attente)
+ * Chaque mutation porte tout ce qu'il faut pour être appliquée plus tard,
+ * avec des ids générés côté client pour rester idempotente.
+ */
+export type TaskMutation =
+  | { type: 'create'; task: Task; series: Omit<TaskSeries, 'active' | 'created_at'> | null }
+  | { type: 'toggle'; task: Task; from: TaskStatus; to: TaskStatus; at: string; actorId: string }
+  | { type: 'update'; task: Task; changes: TaskChanges; scope: RecurrenceScope }
+  | { type: 'delete'; taskId: string; householdId: string }
+
+export type MutationOutcome = { status: 'applied' | 'skipped'; spawned?: boolean }
+
+/**
+ * ✅ Applique une mutation côté Supabase
+ * Résolution des conflits (déterministe) :
+ * - create : upsert sur l'id client → rejouer n'insère jamais deux fois
+ * - toggle : update conditionnel sur le statut de départ ; si la tâche a
+ *   été supprimée ou modifiée ailleurs entre-temps, le serveur gagne (skipped)
+ * - update : dernier qui écrit gagne, champ par champ (seuls les champs modifiés
+ *   sont envoyés) ; tâche supprimée entre-temps → skipped
+ * - delete : idempotent, une tâche déjà supprimée n'est pas une erreur
+ */
+export async function applyMutation(mutation: TaskMutation): Promise<MutationOutcome> {
+  switch (mutation.type) {
+    case 'create': {
+      if (mutation.series) {
+        const { error: seriesError } = await supabase
+          .from('task_series')
+          .upsert(mutation.series, { onConflict: 'id', ignoreDuplicates: true })
+        if (seriesError) throw seriesError
+      }
+
+      unwrap(await createTask(mutation.task))
+      return { status: 'applied' }
+    }
+
+    case 'toggle': {
+      const { task, from, to, at, actorId } = mutation
+      const updated = unwrap(await updateTaskStatus(task.id, to, { actorId, expected: from }))
+      // Grand livre : crédit / contre-passation écrits par la base (trigger record_task_points)
+      if (!updated) return { status: 'skipped' }
+
+      // Tâche récurrente → on génère l'occurrence suivante
+      let spawned = false
+      if (to === 'completed' && task.recurrence) {
+        try {
+          spawned = !!(await spawnNextOccurrence(task, new Date(at)))
+        } catch (spawnErr) {
+          console.error('recurrence spawn error:', spawnErr)
+        }
+      }
+
+      return { status: 'applied', spawned }
+    }
+
+    case 'update': {
+      const { task, changes, scope } = mutation
+
+      // "Cette occurrence et les suivantes" : le modèle de la série suit (sauf l'échéance et les options de la tâche)
+      if (scope === 'future' && task.series_id) {
+        const {
+          due_date: _dueDate,
+          auto_complete: _autoComplete,
+          split_points: _splitPoints,
+          requires_photo: _requiresPhoto,
+          ...template
+        } = changes
+        if (Object.keys(template).length > 0) {
+          const { error: seriesError } = await supabase
+            .from('task_series')
+            .update(template)
+            .eq('id', task.series_id)
+          if (seriesError) throw seriesError
+        }
+      }
+
+      const updated = unwrap(await updateTask(task.id, changes))
+      return { status: updated ? 'applied' : 'skipped' }
+    }
+
+    case 'delete': {
+      unwrap(await deleteTask(mutation.taskId))
+      return { status: 'applied' }
+    }
+  }
+}
@@ -0,0 +1,496 @@
+import type { Messages } from './fr'
+
+/**
+ * ✅ Catalogue anglais — mêmes clés que fr.ts (le type Messages refuse un oubli)
+ */
+
+const en: Messages = {
+  // Commun
+  'common.loading': 'Loading...',
+  'common.retry': 'Try again',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.back': 'Back',
+  'common.error': 'Error',
+  'common.refresh': 'Refresh',
+  'common.logout': 'Log out',
+  'common.language': 'Language',
+  'common.points': { one: '{count} pt', other: '{count} pts' },
+  'common.formerMember': 'Former member',
+
+  // Erreurs partagées
+  'errors.generic': 'Something went wrong.',
+  'errors.network': 'Connection error. Check your network and try again.',
+  'errors.sessionExpired': 'Your session has expired. Please log in again.',
+  'errors.alreadyMember': 'You are already a member of this household.',
+  'errors.inviteInvalid': 'This invite code is invalid or has expired.',
+  'errors.invalidInput': 'Please fill in all fields.',
+  'errors.lastAdmin': 'The household must keep at least one administrator.',
+  'errors.notAllowed': 'Only household administrators can do this.',
+
+  // Connexion / inscription
+  'auth.email': 'Email',
+  'auth.password': 'Password',
+  'auth.login.title': 'Log in',
+  'auth.login.submit': 'Log in',
+  'auth.login.submitting': 'Logging in...',
+  'auth.login.error': 'Unable to log in.',
+  'auth.login.noAccount': 'No account yet?',
+  'auth.login.signupLink': 'Create an account',
+  'auth.signup.title': 'Create an account',
+  'auth.signup.submit': 'Create my account',
+  'auth.signup.submitting': 'Creating...',
+  'auth.signup.error': 'Unable to create the account.',
+  'auth.signup.hasAccount': 'Already have an account?',
+  'auth.signup.loginLink': 'Log in',
+
+  // Onboarding
+  'onboarding.welcome': 'Welcome to HomeFlow',
+  'onboarding.welcomeHint': 'Create your household or join your family’s.',
+  'onboarding.addTitle': 'Add a household',
+  'onboarding.addHint': 'Create another household or join one with a code.',
+  'onboarding.create': 'Create a household',
+  'onboarding.createHint': 'You will invite the other members next.',
+  'onboarding.join': 'Join a household',
+  'onboarding.joinHint': 'With the invite code you received.',
+  'onboarding.householdName': 'Household name',
+  'onboarding.householdNamePlaceholder': 'e.g. The Martin family',
+  'onboarding.displayName': 'Your first name',
+  'onboarding.createSubmit': 'Create my household',
+  'onboarding.inviteCode': 'Invite code',
+  'onboarding.inviteCodePlaceholder': 'e.g. K7PM2QXA',
+  'onboarding.invitePreview': 'Household:',
+  'onboarding.joinSubmit': 'Join the household',
+  'onboarding.backToTasks': 'Back to my tasks',
+
+  // Navigation
+  'nav.rewards': 'Rewards',
+  'nav.leaderboard': 'Leaderboard',
+  'nav.export': 'Export',
+  'nav.importExport': 'Import / export',
+  'nav.categories': 'Categories',
+  'nav.members': 'Members',
+  'nav.invite': 'Invite',
+  'nav.reminders': 'Reminders',
+  'nav.approvals': 'Approvals',
+
+  // Foyer : membres, rôles, catégories
+  'households.switch': 'Switch household',
+  'households.fallbackName': 'Household',
+  'households.add': 'Create or join a household',
+  'roles.admin': 'Administrator',
+  'roles.parent': 'Parent',
+  'roles.child': 'Child',
+  'roles.hint.admin': 'Everything, including roles and invitations',
+  'roles.hint.parent': 'Creates, edits and deletes tasks, sets points',
+  'roles.hint.child': 'Only completes the tasks assigned to them',
+  'members.title': 'Household members',
+  'members.you': '(you)',
+  'members.selfRoleConfirm': 'Change your own role? You could lose your admin rights.',
+  'members.inviteRoleHint': 'New members join with the role chosen on their invitation (parent or child).',
+  'categories.title': 'Household categories',
+  'categories.new': 'New category',
+  'categories.active': 'Active',
+  'categories.archived': 'Archived',
+  'categories.archivedHint': 'No longer offered when creating tasks; existing tasks keep their category.',
+  'categories.name': 'Name',
+  'categories.namePlaceholder': 'E.g. Garden',
+  'categories.defaultPoints': 'Default points',
+  'categories.defaultPointsBadge': { one: '{count} pt by default', other: '{count} pts by default' },
+  'categories.color': 'Colour',
+  'categories.icon': 'Icon',
+  'categories.requiresPhoto': 'Photo required to complete tasks in this category',
+  'categories.photoRequired': 'Photo required',
+  'categories.photo': 'Photo',
+  'categories.preview': 'Preview',
+  'categories.add': 'Add',
+  'categories.archive': 'Archive',
+  'categories.restore': 'Restore',
+  'categories.exclude': 'Exclude from auto-assignment:',
+  'categories.error.exists': 'This category already exists.',
+  'categories.error.create': 'Could not create the category.',
+  'categories.error.update': 'Could not update the category.',
+  'categories.error.lastActive': 'The household must keep at least one active category.',
+  'categories.error.action': 'Action failed, please try again.',
+  'categories.colors.gray': 'Grey',
+  'categories.colors.green': 'Green',
+  'categories.colors.blue': 'Blue',
+  'categories.colors.yellow': 'Yellow',
+  'categories.colors.orange': 'Orange',
+  'categories.colors.purple': 'Purple',
+  'categories.colors.red': 'Red',
+  'categories.colors.pink': 'Pink',
+  'categories.colors.teal': 'Teal',
+  'categories.colors.indigo': 'Indigo',
+
+  // Notifications
+  'notifications.title': 'Notifications',
+  'notifications.unread': { one: '{count} unread', other: '{count} unread' },
+  'notifications.markAllRead': 'Mark all as read',
+  'notifications.empty': 'No notifications yet',
+  'notifications.due': 'Due: {date}',
+  'notifications.kind.task_assigned': 'A task was assigned to you',
+  'notifications.kind.task_due_soon': 'Due soon',
+  'notifications.kind.task_overdue': 'Overdue task',
+  'notifications.kind.task_escalated': 'Overdue task in the household',
+  'notifications.kind.comment_mention': 'You were mentioned in a comment',
+  'notifications.kind.approval_requested': 'A task is waiting for your approval',
+  'notifications.kind.task_approved': 'Your task was approved',
+  'notifications.kind.task_rejected': 'Your task was rejected',
+  'notifications.settings': 'Preferences',
+  'notifications.browser': 'Browser alerts when the tab is in the background',
+  'notifications.browserDenied': 'Notifications are blocked in the browser settings.',
+  'notifications.browserUnsupported': 'This browser does not support notifications.',
+  'notifications.notifyFor': 'Alert me for:',
+
+  // Tâches
+  'tasks.title': 'Family tasks',
+  'tasks.connecting': 'Connecting...',
+  'tasks.connectionProblem': 'Connection problem',
+  'tasks.reconnect': 'Log in again',
+  'tasks.summary.pending': { one: '{count} in progress', other: '{count} in progress' },
+  'tasks.summary.completed': { one: '{count} completed', other: '{count} completed' },
+  'tasks.summary.awaiting': { one: '{count} awaiting approval', other: '{count} awaiting approval' },
+  'tasks.summary.overdue': { one: '{count} overdue', other: '{count} overdue' },
+  'tasks.offline': 'Offline',
+  'tasks.syncNow': 'Sync now',
+  'tasks.pendingSync': {
+    one: '{count} change waiting to sync',
+    other: '{count} changes waiting to sync',
+  },
+  'tasks.view.list': 'List',
+  'tasks.view.listTitle': 'List view',
+  'tasks.view.board': 'Board',
+  'tasks.view.boardTitle': 'Board view',
+  'tasks.view.calendar': 'Calendar',
+  'tasks.view.calendarTitle': 'Calendar view',
+  'tasks.board.pending': 'To do',
+  'tasks.board.inProgress': 'In progress',
+  'tasks.board.awaiting': 'To approve',
+  'tasks.board.completed': 'Done',
+  'tasks.board.move': 'Move (drag, or ← / →)',
+  'tasks.board.dropHere': 'Drop a task here',
+  'tasks.new': 'New task',
+  'tasks.filters': 'Filters:',
+  'tasks.filter.all': 'All',
+  'tasks.filter.pending': 'In progress',
+  'tasks.filter.awaiting': 'To approve',
+  'tasks.filter.completed': 'Completed',
+  'tasks.filter.overdue': 'Overdue',
+  'tasks.filter.allCategories': 'All categories',
+  'tasks.filter.allMembers': 'All members',
+  'tasks.filter.allCreators': 'All creators',
+  'tasks.filter.more': 'More filters',
+  'tasks.filter.creator': 'Created by',
+  'tasks.filter.dueFrom': 'Due from',
+  'tasks.filter.dueTo': 'to',
+  'tasks.filter.points': 'Points',
+  'tasks.filter.pointsMin': 'min',
+  'tasks.filter.pointsMax': 'max',
+  'tasks.filter.reset': 'Reset',
+  'tasks.search.placeholder': 'Search titles and descriptions…',
+  'tasks.search.clear': 'Clear search',
+  'tasks.sort.label': 'Sort',
+  'tasks.sort.createdDesc': 'Newest first',
+  'tasks.sort.createdAsc': 'Oldest first',
+  'tasks.sort.dueAsc': 'Due soonest',
+  'tasks.sort.dueDesc': 'Due latest',
+  'tasks.sort.pointsDesc': 'Most points',
+  'tasks.sort.pointsAsc': 'Fewest points',
+  'tasks.views.label': 'Saved views',
+  'tasks.views.none': 'No saved views',
+  'tasks.views.current': 'View: {name}',
+  'tasks.views.save': 'Save view',
+  'tasks.views.namePrompt': 'View name? (an existing name replaces it)',
+  'tasks.views.delete': 'Delete view',
+  'tasks.views.deleteConfirm': 'Delete the view “{name}”?',
+  'tasks.views.saveFailed': 'Could not save the view',
+  'tasks.views.deleteFailed': 'Could not delete the view',
+  'tasks.archivedSuffix': ' (archived)',
+  'tasks.balance': 'Balance:',
+  'tasks.balanceTitle': 'Points balance',
+  'tasks.empty': 'No tasks yet',
+  'tasks.emptyCompleted': 'No completed tasks',
+  'tasks.emptyOverdue': 'Nothing overdue, well done!',
+  'tasks.emptyAwaiting': 'No task is waiting for approval',
+  'tasks.emptyFiltered': 'No task matches these filters',
+  'tasks.emptyHint': 'Create your first task to get started!',
+  'tasks.loadMore': 'Show more tasks',
+  'tasks.inProgress': 'In progress',
+  'tasks.awaitingApproval': 'Awaiting approval (ticked by {name})',
+  'tasks.rejected': 'Rejected: {reason}',
+  'tasks.approve': 'Approve the task',
+  'tasks.withdraw': 'Withdraw the approval request',
+  'tasks.rejectPrompt': 'Reason for rejecting “{title}”:',
+  'tasks.overdueBy': { one: 'Overdue by {count} day', other: 'Overdue by {count} days' },
+  'tasks.onlyAssignee': 'Only the assignee can complete it',
+  'tasks.checklist': 'Checklist',
+  'tasks.comments': { one: '{count} comment', other: '{count} comments' },
+  'tasks.photos': { one: '{count} photo', other: '{count} photos' },
+  'tasks.addPhotos': 'Proof photos',
+  'tasks.photoRequired': 'Photo required',
+  'tasks.history': 'History',
+  'tasks.editRecurrence': 'Edit repeat',
+  'tasks.seriesStopped': 'Series stopped',
+  'tasks.deleteConfirm': 'Delete this task?',
+  'tasks.someone': 'Someone',
+  'tasks.toast.added': '{name} added “{title}”',
+  'tasks.toast.completed': '{name} completed “{title}”',
+  'tasks.toast.deletedMeanwhile': '“{title}” was deleted in the meantime',
+  'tasks.toast.rescheduleFailed': 'Could not reschedule “{title}”',
+  'tasks.toast.photoOffline': '“{title}” needs a photo: reconnect to upload it',
+  'tasks.toast.submitted': '{name} asks you to approve “{title}”',
+  'tasks.toast.approved': '“{title}” was approved',
+  'tasks.toast.rejected': '“{title}” was rejected: {reason}',
+  'tasks.toast.approvalRequired': '“{title}” now needs a parent’s approval: tick it again',
+  'tasks.toast.approvalOffline': 'Approvals need a connection',
+  'tasks.toast.reasonRequired': 'Give a reason to reject the task',
+  'tasks.toast.decisionFailed': 'Could not save the decision for “{title}”',
+  'tasks.error.memberNotFound': 'Your member profile could not be found. Try logging in again.',
+  'tasks.error.switchHousehold': 'Unable to load this household. Check your network and try again.',
+  'tasks.error.household': 'Household error. Refresh the page.',
+  'tasks.error.recurrenceDays': 'Pick at least one day to repeat on.',
+  'tasks.error.sessionRefresh': 'Your session has expired. Refresh the page to log in again.',
+  'tasks.error.create': 'Something went wrong while creating the task.',
+  'tasks.error.update': 'Something went wrong while saving the task.',
+  'tasks.error.titleRequired': 'The title is required.',
+
+  // Fiche tâche
+  'tasks.form.createTitle': 'Create a task',
+  'tasks.form.editTitle': 'Edit task',
+  'tasks.form.title': 'Task title *',
+  'tasks.form.titlePlaceholder': 'e.g. Do the shopping',
+  'tasks.form.description': 'Description',
+  'tasks.form.descriptionPlaceholder': 'Task details...',
+  'tasks.form.category': 'Category',
+  'tasks.form.assignee': 'Assign to',
+  'tasks.form.unassigned': 'Unassigned',
+  'tasks.form.dueDate': 'Due date',
+  'tasks.form.points': 'Points',
+  'tasks.form.recurrence': 'Repeat',
+  'tasks.form.applyTo': 'Apply to',
+  'tasks.form.scopeThis': 'This occurrence only',
+  'tasks.form.scopeFuture': 'This and following occurrences',
+  'tasks.form.create': 'Create task',
+  'tasks.form.creating': 'Creating...',
+  'tasks.form.saving': 'Saving...',
+  'tasks.form.autoAssign': 'Assign automatically',
+  'tasks.form.requiresPhoto': 'Photo required to complete',
+  'tasks.form.requiresPhotoCategory': 'Photo required to complete (already required by the category)',
+
+  // Répétition
+  'recurrence.none': 'Does not repeat',
+  'recurrence.daily': 'Every day',
+  'recurrence.weekly': 'Every week',
+  'recurrence.weeklyOn': 'Every week ({days})',
+  'recurrence.monthly': 'Every month',
+  'recurrence.monthlyOn': 'On day {day} of every month',
+  'recurrence.afterCompletionOption': 'N days after completion',
+  'recurrence.afterCompletion': { one: '{count} day after completion', other: '{count} days after completion' },
+  'recurrence.monthlyBefore': 'On day',
+  'recurrence.monthlyAfter': 'of every month',
+  'recurrence.everyBefore': 'Every',
+  'recurrence.everyAfter': 'days after the last completion',
+  'recurrence.current': 'Currently:',
+  'recurrence.scopeFuture': 'All upcoming occurrences',
+  'recurrence.stop': 'Stop repeating',
+  'recurrence.stopConfirmFuture': 'Stop repeating for all upcoming occurrences?',
+  'recurrence.stopConfirmThis': 'This occurrence will not be renewed. Continue?',
+  'recurrence.error.update': 'Could not change the repetition.',
+  'recurrence.error.days': 'Pick at least one day.',
+  'weekdays.mon': 'Monday',
+  'weekdays.tue': 'Tuesday',
+  'weekdays.wed': 'Wednesday',
+  'weekdays.thu': 'Thursday',
+  'weekdays.fri': 'Friday',
+  'weekdays.sat': 'Saturday',
+  'weekdays.sun': 'Sunday',
+  'weekdays.short.mon': 'Mon',
+  'weekdays.short.tue': 'Tue',
+  'weekdays.short.wed': 'Wed',
+  'weekdays.short.thu': 'Thu',
+  'weekdays.short.fri': 'Fri',
+  'weekdays.short.sat': 'Sat',
+  'weekdays.short.sun': 'Sun',
+
+  // Calendrier
+  'calendar.weekOf': 'Week of {date}',
+  'calendar.previous': 'Previous',
+  'calendar.next': 'Next',
+  'calendar.today': 'Today',
+  'calendar.month': 'Month',
+  'calendar.week': 'Week',
+  'calendar.more': { one: '+ {count} more', other: '+ {count} more' },
+  'calendar.unscheduled': 'No date',
+  'calendar.unscheduledHint': 'Drop a task here to remove its date',
+
+  // Historique
+  'history.field.title': 'Title',
+  'history.field.description': 'Description',
+  'history.field.category': 'Category',
+  'history.field.assigned_to': 'Assigned to',
+  'history.field.due_date': 'Due date',
+  'history.field.points': 'Points',
+  'history.field.status': 'Status',
+  'history.fieldChanged': '{field}:',
+  'history.created': 'created the task',
+  'history.unassigned': 'Unassigned',
+  'history.noDueDate': 'None',
+  'history.emptyValue': '(empty)',
+  'history.empty': 'No changes recorded.',
+  'history.error.offline': 'History is not available offline.',
+  'history.error.load': 'Could not load the history.',
+
+  // Liste de contrôle
+  'checklist.progress': 'Progress',
+  'checklist.emptyHint': 'Break the task into steps to tick off one by one.',
+  'checklist.newItem': 'New step…',
+  'checklist.nobody': 'Nobody',
+  'checklist.add': 'Add',
+  'checklist.moveUp': 'Move up',
+  'checklist.moveDown': 'Move down',
+  'checklist.autoComplete': 'Complete the task automatically once everything is ticked',
+  'checklist.splitPoints': {
+    one: 'Share the {count} pt between those who ticked the steps',
+    other: 'Share the {count} pts between those who ticked the steps',
+  },
+  'checklist.splitPointsHint': 'In proportion to the number of steps each person ticked',
+  'checklist.error.offline': 'The checklist is not available offline.',
+  'checklist.error.load': 'Could not load the checklist.',
+  'checklist.error.add': 'Could not add the item.',
+  'checklist.error.action': 'Action failed, please try again.',
+  'checklist.error.reorder': 'Could not reorder, please try again.',
+  'checklist.error.option': 'Could not save the option.',
+
+  // Automatic assignment
+  'autoAssign.strategy': 'Method',
+  'autoAssign.strategy.round_robin': 'Take turns (per category)',
+  'autoAssign.strategy.least_points': 'Fewest points this week',
+  'autoAssign.strategy.least_open': 'Fewest open tasks',
+  'autoAssign.loading': 'Working out who is next...',
+  'autoAssign.unavailable': 'Automatic assignment unavailable (offline?).',
+  'autoAssign.nobody': 'Every member is excluded from this category.',
+  'autoAssign.chosen': 'Picked: {name}',
+  'autoAssign.reason.roundRobinNever': '{name} has never had a “{category}” task yet.',
+  'autoAssign.reason.roundRobin': '{name} has not had a “{category}” task since {date}, longer than anyone else.',
+  'autoAssign.reason.leastPoints': {
+    one: '{name} has {count} point this week, the fewest in the household.',
+    other: '{name} has {count} points this week, the fewest in the household.',
+  },
+  'autoAssign.reason.leastOpen': {
+    one: '{name} has {count} open task, the fewest in the household.',
+    other: '{name} has {count} open tasks, the fewest in the household.',
+  },
+  'autoAssign.tie': 'Tie broken by open tasks, then points this week.',
+  'autoAssign.excluded': 'Excluded from “{category}”: {names}',
+  'autoAssign.col.member': 'Member',
+  'autoAssign.col.open': 'Open',
+  'autoAssign.col.points': 'Pts this week',
+  'autoAssign.col.last': 'Last time',
+  'autoAssign.never': 'never',
+
+  // Rappels et retards
+  'reminders.title': 'Reminders and delays',
+  'reminders.rules': 'Reminder rules',
+  'reminders.noRules': 'No rules: nobody will be reminded.',
+  'reminders.action': 'Action',
+  'reminders.days': 'Days',
+  'reminders.when': 'When',
+  'reminders.add': 'Add',
+  'reminders.target.assignee': 'Remind the assignee',
+  'reminders.target.parents': 'Alert the parents',
+  'reminders.when.before': 'before the due date',
+  'reminders.when.on': 'on the due date',
+  'reminders.when.after': 'after the due date',
+  'reminders.rule.assignee.before': {
+    one: 'Remind the assignee {count} day before the due date',
+    other: 'Remind the assignee {count} days before the due date',
+  },
+  'reminders.rule.assignee.on': 'Remind the assignee on the due date',
+  'reminders.rule.assignee.after': {
+    one: 'Remind the assignee {count} day after the due date',
+    other: 'Remind the assignee {count} days after the due date',
+  },
+  'reminders.rule.parents.on': 'Alert the parents on the due date',
+  'reminders.rule.parents.after': {
+    one: 'Alert the parents {count} day after the due date',
+    other: 'Alert the parents {count} days after the due date',
+  },
+  'reminders.decay': 'Points lost when late',
+  'reminders.decayPercent': '% lost per day late',
+  'reminders.decayHint': '0 = off. At 10%: a 20 pt task finished 2 days late earns 16 pts.',
+  'reminders.error.load': 'Could not load the reminders.',
+  'reminders.error.duplicate': 'This rule already exists.',
+  'reminders.error.create': 'Could not add the rule.',
+  'reminders.error.toggle': 'Action failed, please try again.',
+  'reminders.error.delete': 'Could not delete the rule.',
+  'reminders.error.decay': 'Could not save the points decay.',
+
+  // Points
+  'points.lateDays': { one: 'finished {count} day late', other: 'finished {count} days late' },
+
+  // Commentaires
+  'comments.title': 'Comments',
+  'comments.placeholder': 'Write a comment… (@ to mention)',
+  'comments.empty': 'No comments yet.',
+  'comments.edited': 'edited',
+  'comments.send': 'Send',
+  'comments.deleteConfirm': 'Delete this comment?',
+  'comments.error.offline': 'Comments are not available offline.',
+  'comments.error.load': 'Could not load the comments.',
+  'comments.error.sendOffline': 'Offline: comment not sent.',
+  'comments.error.send': 'Could not send the comment.',
+  'comments.error.update': 'Could not edit the comment.',
+  'comments.error.delete': 'Action failed, please try again.',
+
+  // Photos de preuve
+  'photos.title': 'Photos',
+  'photos.required': 'A photo is required to complete this task and earn the points.',
+  'photos.stale': 'These photos predate the task being reopened: add a new one.',
+  'photos.empty': 'No photos yet.',
+  'photos.takenBy': '{name}, {date}',
+  'photos.add': 'Add photos',
+  'photos.uploading': 'Uploading {done}/{total}...',
+  'photos.complete': 'Complete the task',
+  'photos.deleteConfirm': 'Delete this photo?',
+  'photos.error.offline': 'Photos are not available offline.',
+  'photos.error.load': 'Could not load the photos.',
+  'photos.error.notImage': '“{name}” is not an image.',
+  'photos.error.uploadOffline': 'Offline: photo not sent.',
+  'photos.error.upload': 'Could not upload “{name}”.',
+  'photos.error.open': 'Could not open the photo.',
+  'photos.error.delete': 'Action failed, please try again.',
+
+  // Approvals
+  'approvals.title': 'Approvals',
+  'approvals.pending': 'Pending',
+  'approvals.approveAll': 'Approve all',
+  'approvals.approveAllConfirm': {
+    one: 'Approve the pending task?',
+    other: 'Approve the {count} pending tasks?',
+  },
+  'approvals.empty': 'No tasks to approve.',
+  'approvals.previouslyRejected': 'Previously rejected: {reason}',
+  'approvals.approve': 'Approve',
+  'approvals.reject': 'Reject',
+  'approvals.reasonPlaceholder': 'Reason for rejecting (e.g. there are still dishes in the sink)',
+  'approvals.rejectConfirm': 'Reject task',
+  'approvals.rules.title': 'Who needs their tasks approved?',
+  'approvals.rules.help':
+    'A task checked off by a selected child, or in a selected category, waits for a parent’s approval before earning its points. Parents never need approval.',
+  'approvals.rules.members': 'Members',
+  'approvals.rules.noChildren': 'No children in the household.',
+  'approvals.rules.categories': 'Categories',
+  'approvals.error.load': 'Could not load the requests.',
+  'approvals.error.approve': 'Could not approve “{title}”.',
+  'approvals.error.approveAll': {
+    one: '{count} approval failed, please try again.',
+    other: '{count} approvals failed, please try again.',
+  },
+  'approvals.error.reject': 'Could not reject “{title}”.',
+  'approvals.error.rule': 'Action failed, please try again.',
+}
+
+export default en
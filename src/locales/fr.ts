@@ -0,0 +1,502 @@
+/**
+ * ✅ Catalogue français (langue de référence)
+ * - clés plates "écran.élément" ; {nom} est remplacé par le paramètre du même nom
+ * - pluriels : { one, other } choisi selon {count} (en français 0 et 1 sont au singulier)
+ */
+
+export type PluralMessage = { one: string; other: string }
+
+const fr = {
+  // Commun
+  'common.loading': 'Chargement...',
+  'common.retry': 'Réessayer',
+  'common.cancel': 'Annuler',
+  'common.save': 'Enregistrer',
+  'common.edit': 'Modifier',
+  'common.delete': 'Supprimer',
+  'common.back': 'Retour',
+  'common.error': 'Erreur',
+  'common.refresh': 'Rafraîchir',
+  'common.logout': 'Déconnexion',
+  'common.language': 'Langue',
+  'common.points': { one: '{count} pt', other: '{count} pts' },
+  'common.formerMember': 'Ancien membre',
+
+  // Erreurs partagées
+  'errors.generic': 'Une erreur est survenue.',
+  'errors.network': 'Erreur de connexion. Vérifiez votre réseau et réessayez.',
+  'errors.sessionExpired': 'Votre session a expiré. Veuillez vous reconnecter.',
+  'errors.alreadyMember': 'Vous faites déjà partie de ce foyer.',
+  'errors.inviteInvalid': 'Ce code d’invitation est invalide ou expiré.',
+  'errors.invalidInput': 'Merci de remplir tous les champs.',
+  'errors.lastAdmin': 'Le foyer doit garder au moins un administrateur.',
+  'errors.notAllowed': 'Action réservée aux administrateurs du foyer.',
+
+  // Connexion / inscription
+  'auth.email': 'Email',
+  'auth.password': 'Mot de passe',
+  'auth.login.title': 'Connexion',
+  'auth.login.submit': 'Se connecter',
+  'auth.login.submitting': 'Connexion...',
+  'auth.login.error': 'Impossible de se connecter.',
+  'auth.login.noAccount': 'Pas de compte ?',
+  'auth.login.signupLink': 'Créer un compte',
+  'auth.signup.title': 'Créer un compte',
+  'auth.signup.submit': 'Créer mon compte',
+  'auth.signup.submitting': 'Création...',
+  'auth.signup.error': 'Impossible de créer le compte.',
+  'auth.signup.hasAccount': 'Déjà un compte ?',
+  'auth.signup.loginLink': 'Se connecter',
+
+  // Onboarding
+  'onboarding.welcome': 'Bienvenue sur HomeFlow',
+  'onboarding.welcomeHint': 'Créez votre foyer ou rejoignez celui de votre famille.',
+  'onboarding.addTitle': 'Ajouter un foyer',
+  'onboarding.addHint': 'Créez un autre foyer ou rejoignez-en un avec un code.',
+  'onboarding.create': 'Créer un foyer',
+  'onboarding.createHint': 'Vous inviterez ensuite les autres membres.',
+  'onboarding.join': 'Rejoindre un foyer',
+  'onboarding.joinHint': 'Avec le code d’invitation reçu.',
+  'onboarding.householdName': 'Nom du foyer',
+  'onboarding.householdNamePlaceholder': 'Ex: Famille Martin',
+  'onboarding.displayName': 'Votre prénom',
+  'onboarding.createSubmit': 'Créer mon foyer',
+  'onboarding.inviteCode': 'Code d’invitation',
+  'onboarding.inviteCodePlaceholder': 'Ex: K7PM2QXA',
+  'onboarding.invitePreview': 'Foyer :',
+  'onboarding.joinSubmit': 'Rejoindre le foyer',
+  'onboarding.backToTasks': 'Retour à mes tâches',
+
+  // Navigation
+  'nav.rewards': 'Récompenses',
+  'nav.leaderboard': 'Classement',
+  'nav.export': 'Exporter',
+  'nav.importExport': 'Import / export',
+  'nav.categories': 'Catégories',
+  'nav.members': 'Membres',
+  'nav.invite': 'Inviter',
+  'nav.reminders': 'Rappels',
+  'nav.approvals': 'Validations',
+
+  // Foyer : membres, rôles, catégories
+  'households.switch': 'Changer de foyer',
+  'households.fallbackName': 'Foyer',
+  'households.add': 'Créer ou rejoindre un foyer',
+  'roles.admin': 'Administrateur',
+  'roles.parent': 'Parent',
+  'roles.child': 'Enfant',
+  'roles.hint.admin': 'Tout, y compris les rôles et les invitations',
+  'roles.hint.parent': 'Crée, modifie et supprime les tâches, fixe les points',
+  'roles.hint.child': 'Termine uniquement les tâches qui lui sont assignées',
+  'members.title': 'Membres du foyer',
+  'members.you': '(vous)',
+  'members.selfRoleConfirm': 'Modifier votre propre rôle ? Vous pourriez perdre vos droits d’admin.',
+  'members.inviteRoleHint': 'Les nouveaux membres arrivent avec le rôle choisi sur leur invitation (parent ou enfant).',
+  'categories.title': 'Catégories du foyer',
+  'categories.new': 'Nouvelle catégorie',
+  'categories.active': 'Actives',
+  'categories.archived': 'Archivées',
+  'categories.archivedHint': 'Plus proposées à la création ; les tâches existantes gardent leur catégorie.',
+  'categories.name': 'Nom',
+  'categories.namePlaceholder': 'Ex : Jardin',
+  'categories.defaultPoints': 'Points par défaut',
+  'categories.defaultPointsBadge': { one: '{count} pt par défaut', other: '{count} pts par défaut' },
+  'categories.color': 'Couleur',
+  'categories.icon': 'Icône',
+  'categories.requiresPhoto': 'Photo obligatoire pour terminer les tâches de cette catégorie',
+  'categories.photoRequired': 'Photo obligatoire',
+  'categories.photo': 'Photo',
+  'categories.preview': 'Aperçu',
+  'categories.add': 'Ajouter',
+  'categories.archive': 'Archiver',
+  'categories.restore': 'Restaurer',
+  'categories.exclude': 'Exclure de l’attribution auto :',
+  'categories.error.exists': 'Cette catégorie existe déjà.',
+  'categories.error.create': 'Impossible de créer la catégorie.',
+  'categories.error.update': 'Impossible de modifier la catégorie.',
+  'categories.error.lastActive': 'Le foyer doit garder au moins une catégorie active.',
+  'categories.error.action': 'Action impossible, réessayez.',
+  'categories.colors.gray': 'Gris',
+  'categories.colors.green': 'Vert',
+  'categories.colors.blue': 'Bleu',
+  'categories.colors.yellow': 'Jaune',
+  'categories.colors.orange': 'Orange',
+  'categories.colors.purple': 'Violet',
+  'categories.colors.red': 'Rouge',
+  'categories.colors.pink': 'Rose',
+  'categories.colors.teal': 'Turquoise',
+  'categories.colors.indigo': 'Indigo',
+
+  // Notifications
+  'notifications.title': 'Notifications',
+  'notifications.unread': { one: '{count} non lue', other: '{count} non lues' },
+  'notifications.markAllRead': 'Tout marquer comme lu',
+  'notifications.empty': 'Aucune notification pour le moment',
+  'notifications.due': 'Échéance : {date}',
+  'notifications.kind.task_assigned': 'Une tâche vous a été assignée',
+  'notifications.kind.task_due_soon': 'Échéance proche',
+  'notifications.kind.task_overdue': 'Tâche en retard',
+  'notifications.kind.task_escalated': 'Tâche en retard dans le foyer',
+  'notifications.kind.comment_mention': 'Vous êtes mentionné dans un commentaire',
+  'notifications.kind.approval_requested': 'Une tâche attend votre validation',
+  'notifications.kind.task_approved': 'Votre tâche a été validée',
+  'notifications.kind.task_rejected': 'Votre tâche a été refusée',
+  'notifications.settings': 'Préférences',
+  'notifications.browser': 'Alertes du navigateur quand l’onglet est en arrière-plan',
+  'notifications.browserDenied': 'Les notifications sont bloquées dans les réglages du navigateur.',
+  'notifications.browserUnsupported': 'Ce navigateur ne gère pas les notifications.',
+  'notifications.notifyFor': 'M’alerter pour :',
+
+  // Tâches
+  'tasks.title': 'Tâches familiales',
+  'tasks.connecting': 'Connexion en cours...',
+  'tasks.connectionProblem': 'Problème de connexion',
+  'tasks.reconnect': 'Se reconnecter',
+  'tasks.summary.pending': { one: '{count} en cours', other: '{count} en cours' },
+  'tasks.summary.completed': { one: '{count} complétée', other: '{count} complétées' },
+  'tasks.summary.awaiting': { one: '{count} à valider', other: '{count} à valider' },
+  'tasks.summary.overdue': { one: '{count} en retard', other: '{count} en retard' },
+  'tasks.offline': 'Hors ligne',
+  'tasks.syncNow': 'Synchroniser maintenant',
+  'tasks.pendingSync': {
+    one: '{count} modification en attente de synchronisation',
+    other: '{count} modifications en attente de synchronisation',
+  },
+  'tasks.view.list': 'Liste',
+  'tasks.view.listTitle': 'Vue liste',
+  'tasks.view.board': 'Tableau',
+  'tasks.view.boardTitle': 'Vue tableau',
+  'tasks.view.calendar': 'Calendrier',
+  'tasks.view.calendarTitle': 'Vue calendrier',
+  'tasks.board.pending': 'À faire',
+  'tasks.board.inProgress': 'En cours',
+  'tasks.board.awaiting': 'À valider',
+  'tasks.board.completed': 'Terminé',
+  'tasks.board.move': 'Déplacer (glisser, ou ← / →)',
+  'tasks.board.dropHere': 'Glissez une tâche ici',
+  'tasks.new': 'Nouvelle tâche',
+  'tasks.filters': 'Filtres :',
+  'tasks.filter.all': 'Toutes',
+  'tasks.filter.pending': 'En cours',
+  'tasks.filter.awaiting': 'À valider',
+  'tasks.filter.completed': 'Complétées',
+  'tasks.filter.overdue': 'En retard',
+  'tasks.filter.allCategories': 'Toutes les catégories',
+  'tasks.filter.allMembers': 'Tous les membres',
+  'tasks.filter.allCreators': 'Tous les créateurs',
+  'tasks.filter.more': 'Plus de filtres',
+  'tasks.filter.creator': 'Créée par',
+  'tasks.filter.dueFrom': 'Échéance du',
+  'tasks.filter.dueTo': 'au',
+  'tasks.filter.points': 'Points',
+  'tasks.filter.pointsMin': 'min',
+  'tasks.filter.pointsMax': 'max',
+  'tasks.filter.reset': 'Réinitialiser',
+  'tasks.search.placeholder': 'Rechercher dans les titres et descriptions…',
+  'tasks.search.clear': 'Effacer la recherche',
+  'tasks.sort.label': 'Trier',
+  'tasks.sort.createdDesc': 'Plus récentes',
+  'tasks.sort.createdAsc': 'Plus anciennes',
+  'tasks.sort.dueAsc': 'Échéance la plus proche',
+  'tasks.sort.dueDesc': 'Échéance la plus lointaine',
+  'tasks.sort.pointsDesc': 'Plus de points',
+  'tasks.sort.pointsAsc': 'Moins de points',
+  'tasks.views.label': 'Vues enregistrées',
+  'tasks.views.none': 'Aucune vue enregistrée',
+  'tasks.views.current': 'Vue : {name}',
+  'tasks.views.save': 'Enregistrer la vue',
+  'tasks.views.namePrompt': 'Nom de la vue ? (un nom existant la remplace)',
+  'tasks.views.delete': 'Supprimer la vue',
+  'tasks.views.deleteConfirm': 'Supprimer la vue « {name} » ?',
+  'tasks.views.saveFailed': 'Impossible d’enregistrer la vue',
+  'tasks.views.deleteFailed': 'Impossible de supprimer la vue',
+  'tasks.archivedSuffix': ' (archivée)',
+  'tasks.balance': 'Solde :',
+  'tasks.balanceTitle': 'Solde de points',
+  'tasks.empty': 'Aucune tâche pour le moment',
+  'tasks.emptyCompleted': 'Aucune tâche complétée',
+  'tasks.emptyOverdue': 'Aucune tâche en retard, bravo !',
+  'tasks.emptyAwaiting': 'Aucune tâche n’attend de validation',
+  'tasks.emptyFiltered': 'Aucune tâche ne correspond à ces filtres',
+  'tasks.emptyHint': 'Crée ta première tâche pour commencer !',
+  'tasks.loadMore': 'Afficher plus de tâches',
+  'tasks.inProgress': 'En cours',
+  'tasks.awaitingApproval': 'À valider (cochée par {name})',
+  'tasks.rejected': 'Refusée : {reason}',
+  'tasks.approve': 'Valider la tâche',
+  'tasks.withdraw': 'Retirer la demande de validation',
+  'tasks.rejectPrompt': 'Motif du refus de « {title} » :',
+  'tasks.overdueBy': { one: 'En retard de {count} jour', other: 'En retard de {count} jours' },
+  'tasks.onlyAssignee': 'Seule la personne assignée peut la terminer',
+  'tasks.checklist': 'Liste de contrôle',
+  'tasks.comments': { one: '{count} commentaire', other: '{count} commentaires' },
+  'tasks.photos': { one: '{count} photo', other: '{count} photos' },
+  'tasks.addPhotos': 'Photos de preuve',
+  'tasks.photoRequired': 'Photo requise',
+  'tasks.history': 'Historique',
+  'tasks.editRecurrence': 'Modifier la répétition',
+  'tasks.seriesStopped': 'Série arrêtée',
+  'tasks.deleteConfirm': 'Supprimer cette tâche ?',
+  'tasks.someone': 'Quelqu’un',
+  'tasks.toast.added': '{name} a ajouté « {title} »',
+  'tasks.toast.completed': '{name} a terminé « {title} »',
+  'tasks.toast.deletedMeanwhile': '« {title} » a été supprimée entre-temps',
+  'tasks.toast.rescheduleFailed': 'Impossible de replanifier « {title} »',
+  'tasks.toast.photoOffline': '« {title} » demande une photo : reconnectez-vous pour l’envoyer',
+  'tasks.toast.submitted': '{name} demande la validation de « {title} »',
+  'tasks.toast.approved': '« {title} » a été validée',
+  'tasks.toast.rejected': '« {title} » a été refusée : {reason}',
+  'tasks.toast.approvalRequired': '« {title} » doit maintenant être validée par un parent : cochez-la à nouveau',
+  'tasks.toast.approvalOffline': 'La validation se fait en ligne',
+  'tasks.toast.reasonRequired': 'Indiquez un motif pour refuser la tâche',
+  'tasks.toast.decisionFailed': 'Impossible d’enregistrer la décision pour « {title} »',
+  'tasks.error.memberNotFound': 'Impossible de trouver votre profil membre. Essayez de vous reconnecter.',
+  'tasks.error.switchHousehold': 'Impossible de charger ce foyer. Vérifiez votre réseau et réessayez.',
+  'tasks.error.household': 'Erreur de foyer. Rafraîchissez la page.',
+  'tasks.error.recurrenceDays': 'Choisissez au moins un jour de répétition.',
+  'tasks.error.sessionRefresh': 'Votre session a expiré. Rafraîchissez la page pour vous reconnecter.',
+  'tasks.error.create': 'Une erreur est survenue lors de la création.',
+  'tasks.error.update': 'Une erreur est survenue lors de la modification.',
+  'tasks.error.titleRequired': 'Le titre est obligatoire.',
+
+  // Fiche tâche
+  'tasks.form.createTitle': 'Créer une tâche',
+  'tasks.form.editTitle': 'Modifier la tâche',
+  'tasks.form.title': 'Titre de la tâche *',
+  'tasks.form.titlePlaceholder': 'Ex: Faire les courses',
+  'tasks.form.description': 'Description',
+  'tasks.form.descriptionPlaceholder': 'Détails de la tâche...',
+  'tasks.form.category': 'Catégorie',
+  'tasks.form.assignee': 'Assigner à',
+  'tasks.form.unassigned': 'Non assigné',
+  'tasks.form.dueDate': 'Date d’échéance',
+  'tasks.form.points': 'Points',
+  'tasks.form.recurrence': 'Répétition',
+  'tasks.form.applyTo': 'Appliquer à',
+  'tasks.form.scopeThis': 'Cette occurrence uniquement',
+  'tasks.form.scopeFuture': 'Cette occurrence et les suivantes',
+  'tasks.form.create': 'Créer la tâche',
+  'tasks.form.creating': 'Création...',
+  'tasks.form.saving': 'Enregistrement...',
+  'tasks.form.autoAssign': 'Attribution automatique',
+  'tasks.form.requiresPhoto': 'Photo obligatoire pour terminer',
+  'tasks.form.requiresPhotoCategory': 'Photo obligatoire pour terminer (déjà exigée par la catégorie)',
+
+  // Répétition
+  'recurrence.none': 'Ne se répète pas',
+  'recurrence.daily': 'Tous les jours',
+  'recurrence.weekly': 'Chaque semaine',
+  'recurrence.weeklyOn': 'Chaque semaine ({days})',
+  'recurrence.monthly': 'Chaque mois',
+  'recurrence.monthlyOn': 'Le {day} de chaque mois',
+  'recurrence.afterCompletionOption': 'N jours après complétion',
+  'recurrence.afterCompletion': { one: '{count} jour après complétion', other: '{count} jours après complétion' },
+  'recurrence.monthlyBefore': 'Le',
+  'recurrence.monthlyAfter': 'de chaque mois',
+  'recurrence.everyBefore': 'Tous les',
+  'recurrence.everyAfter': 'jours après la dernière complétion',
+  'recurrence.current': 'Actuellement :',
+  'recurrence.scopeFuture': 'Toutes les occurrences à venir',
+  'recurrence.stop': 'Ne plus répéter',
+  'recurrence.stopConfirmFuture': 'Arrêter la répétition pour toutes les occurrences à venir ?',
+  'recurrence.stopConfirmThis': 'Cette occurrence ne sera pas renouvelée. Continuer ?',
+  'recurrence.error.update': 'Impossible de modifier la répétition.',
+  'recurrence.error.days': 'Choisissez au moins un jour.',
+  'weekdays.mon': 'Lundi',
+  'weekdays.tue': 'Mardi',
+  'weekdays.wed': 'Mercredi',
+  'weekdays.thu': 'Jeudi',
+  'weekdays.fri': 'Vendredi',
+  'weekdays.sat': 'Samedi',
+  'weekdays.sun': 'Dimanche',
+  'weekdays.short.mon': 'lun',
+  'weekdays.short.tue': 'mar',
+  'weekdays.short.wed': 'mer',
+  'weekdays.short.thu': 'jeu',
+  'weekdays.short.fri': 'ven',
+  'weekdays.short.sat': 'sam',
+  'weekdays.short.sun': 'dim',
+
+  // Calendrier
+  'calendar.weekOf': 'Semaine du {date}',
+  'calendar.previous': 'Précédent',
+  'calendar.next': 'Suivant',
+  'calendar.today': 'Aujourd’hui',
+  'calendar.month': 'Mois',
+  'calendar.week': 'Semaine',
+  'calendar.more': { one: '+ {count} autre', other: '+ {count} autres' },
+  'calendar.unscheduled': 'Sans date',
+  'calendar.unscheduledHint': 'Déposez une tâche ici pour retirer sa date',
+
+  // Historique
+  'history.field.title': 'Titre',
+  'history.field.description': 'Description',
+  'history.field.category': 'Catégorie',
+  'history.field.assigned_to': 'Assignée à',
+  'history.field.due_date': 'Échéance',
+  'history.field.points': 'Points',
+  'history.field.status': 'Statut',
+  'history.fieldChanged': '{field} :',
+  'history.created': 'a créé la tâche',
+  'history.unassigned': 'Non assignée',
+  'history.noDueDate': 'Aucune',
+  'history.emptyValue': '(vide)',
+  'history.empty': 'Aucune modification enregistrée.',
+  'history.error.offline': 'L’historique n’est pas disponible hors ligne.',
+  'history.error.load': 'Impossible de charger l’historique.',
+
+  // Liste de contrôle
+  'checklist.progress': 'Progression',
+  'checklist.emptyHint': 'Découpez la tâche en étapes à cocher une par une.',
+  'checklist.newItem': 'Nouvelle étape…',
+  'checklist.nobody': 'Personne',
+  'checklist.add': 'Ajouter',
+  'checklist.moveUp': 'Monter',
+  'checklist.moveDown': 'Descendre',
+  'checklist.autoComplete': 'Terminer la tâche automatiquement quand tout est coché',
+  'checklist.splitPoints': {
+    one: 'Partager le {count} pt entre ceux qui ont coché les étapes',
+    other: 'Partager les {count} pts entre ceux qui ont coché les étapes',
+  },
+  'checklist.splitPointsHint': 'Au prorata du nombre d’étapes cochées par chacun',
+  'checklist.error.offline': 'La liste n’est pas disponible hors ligne.',
+  'checklist.error.load': 'Impossible de charger la liste.',
+  'checklist.error.add': 'Impossible d’ajouter l’élément.',
+  'checklist.error.action': 'Action impossible, réessayez.',
+  'checklist.error.reorder': 'Impossible de réordonner, réessayez.',
+  'checklist.error.option': 'Impossible d’enregistrer l’option.',
+
+  // Attribution automatique
+  'autoAssign.strategy': 'Méthode',
+  'autoAssign.strategy.round_robin': 'Chacun son tour (par catégorie)',
+  'autoAssign.strategy.least_points': 'Le moins de points cette semaine',
+  'autoAssign.strategy.least_open': 'Le moins de tâches en cours',
+  'autoAssign.loading': 'Calcul de l’attribution...',
+  'autoAssign.unavailable': 'Attribution automatique indisponible (hors ligne ?).',
+  'autoAssign.nobody': 'Tous les membres sont exclus de cette catégorie.',
+  'autoAssign.chosen': 'Choisi : {name}',
+  'autoAssign.reason.roundRobinNever': '{name} n’a encore jamais eu de tâche « {category} ».',
+  'autoAssign.reason.roundRobin': '{name} n’a pas eu de tâche « {category} » depuis le {date}, plus longtemps que les autres.',
+  'autoAssign.reason.leastPoints': {
+    one: '{name} a {count} point cette semaine, le moins du foyer.',
+    other: '{name} a {count} points cette semaine, le moins du foyer.',
+  },
+  'autoAssign.reason.leastOpen': {
+    one: '{name} a {count} tâche en cours, le moins du foyer.',
+    other: '{name} a {count} tâches en cours, le moins du foyer.',
+  },
+  'autoAssign.tie': 'Égalité départagée par les tâches en cours, puis les points de la semaine.',
+  'autoAssign.excluded': 'Exclus de « {category} » : {names}',
+  'autoAssign.col.member': 'Membre',
+  'autoAssign.col.open': 'En cours',
+  'autoAssign.col.points': 'Pts semaine',
+  'autoAssign.col.last': 'Dernière fois',
+  'autoAssign.never': 'jamais',
+
+  // Rappels et retards
+  'reminders.title': 'Rappels et retards',
+  'reminders.rules': 'Règles de rappel',
+  'reminders.noRules': 'Aucune règle : personne ne sera relancé.',
+  'reminders.action': 'Action',
+  'reminders.days': 'Jours',
+  'reminders.when': 'Quand',
+  'reminders.add': 'Ajouter',
+  'reminders.target.assignee': 'Rappeler l’assigné',
+  'reminders.target.parents': 'Alerter les parents',
+  'reminders.when.before': 'avant l’échéance',
+  'reminders.when.on': 'le jour de l’échéance',
+  'reminders.when.after': 'après l’échéance',
+  'reminders.rule.assignee.before': {
+    one: 'Rappeler l’assigné {count} jour avant l’échéance',
+    other: 'Rappeler l’assigné {count} jours avant l’échéance',
+  },
+  'reminders.rule.assignee.on': 'Rappeler l’assigné le jour de l’échéance',
+  'reminders.rule.assignee.after': {
+    one: 'Rappeler l’assigné {count} jour après l’échéance',
+    other: 'Rappeler l’assigné {count} jours après l’échéance',
+  },
+  'reminders.rule.parents.on': 'Alerter les parents le jour de l’échéance',
+  'reminders.rule.parents.after': {
+    one: 'Alerter les parents {count} jour après l’échéance',
+    other: 'Alerter les parents {count} jours après l’échéance',
+  },
+  'reminders.decay': 'Perte de points en cas de retard',
+  'reminders.decayPercent': '% en moins par jour de retard',
+  'reminders.decayHint':
+    '0 = désactivé. Exemple à 10 % : une tâche à 20 pts terminée avec 2 jours de retard rapporte 16 pts.',
+  'reminders.error.load': 'Impossible de charger les rappels.',
+  'reminders.error.duplicate': 'Cette règle existe déjà.',
+  'reminders.error.create': 'Impossible d’ajouter la règle.',
+  'reminders.error.toggle': 'Action impossible, réessayez.',
+  'reminders.error.delete': 'Impossible de supprimer la règle.',
+  'reminders.error.decay': 'Impossible d’enregistrer la perte de points.',
+
+  // Points
+  'points.lateDays': { one: 'terminée avec {count} jour de retard', other: 'terminée avec {count} jours de retard' },
+
+  // Commentaires
+  'comments.title': 'Commentaires',
+  'comments.placeholder': 'Écrire un commentaire… (@ pour mentionner)',
+  'comments.empty': 'Aucun commentaire pour l’instant.',
+  'comments.edited': 'modifié',
+  'comments.send': 'Envoyer',
+  'comments.deleteConfirm': 'Supprimer ce commentaire ?',
+  'comments.error.offline': 'Les commentaires ne sont pas disponibles hors ligne.',
+  'comments.error.load': 'Impossible de charger les commentaires.',
+  'comments.error.sendOffline': 'Hors ligne : commentaire non envoyé.',
+  'comments.error.send': 'Impossible d’envoyer le commentaire.',
+  'comments.error.update': 'Impossible de modifier le commentaire.',
+  'comments.error.delete': 'Action impossible, réessayez.',
+
+  // Photos de preuve
+  'photos.title': 'Photos',
+  'photos.required': 'Une photo est obligatoire pour terminer cette tâche et gagner les points.',
+  'photos.stale': 'Ces photos datent d’avant la réouverture de la tâche : ajoutez-en une nouvelle.',
+  'photos.empty': 'Aucune photo pour l’instant.',
+  'photos.takenBy': '{name}, {date}',
+  'photos.add': 'Ajouter des photos',
+  'photos.uploading': 'Envoi {done}/{total}...',
+  'photos.complete': 'Terminer la tâche',
+  'photos.deleteConfirm': 'Supprimer cette photo ?',
+  'photos.error.offline': 'Les photos ne sont pas disponibles hors ligne.',
+  'photos.error.load': 'Impossible de charger les photos.',
+  'photos.error.notImage': '« {name} » n’est pas une image.',
+  'photos.error.uploadOffline': 'Hors ligne : photo non envoyée.',
+  'photos.error.upload': 'Impossible d’envoyer « {name} ».',
+  'photos.error.open': 'Impossible d’ouvrir la photo.',
+  'photos.error.delete': 'Action impossible, réessayez.',
+
+  // Validations
+  'approvals.title': 'Validations',
+  'approvals.pending': 'En attente',
+  'approvals.approveAll': 'Tout valider',
+  'approvals.approveAllConfirm': {
+    one: 'Valider la tâche en attente ?',
+    other: 'Valider les {count} tâches en attente ?',
+  },
+  'approvals.empty': 'Aucune tâche à valider.',
+  'approvals.previouslyRejected': 'Refusée précédemment : {reason}',
+  'approvals.approve': 'Valider',
+  'approvals.reject': 'Refuser',
+  'approvals.reasonPlaceholder': 'Motif du refus (ex : il reste de la vaisselle dans l’évier)',
+  'approvals.rejectConfirm': 'Refuser la tâche',
+  'approvals.rules.title': 'Qui doit faire valider ses tâches ?',
+  'approvals.rules.help':
+    'Une tâche cochée par un enfant sélectionné, ou dans une catégorie sélectionnée, attend l’accord d’un parent avant de rapporter ses points. Les parents n’ont jamais besoin de validation.',
+  'approvals.rules.members': 'Membres',
+  'approvals.rules.noChildren': 'Aucun enfant dans le foyer.',
+  'approvals.rules.categories': 'Catégories',
+  'approvals.error.load': 'Impossible de charger les demandes.',
+  'approvals.error.approve': 'Impossible de valider « {title} ».',
+  'approvals.error.approveAll': {
+    one: '{count} validation en échec, réessayez.',
+    other: '{count} validations en échec, réessayez.',
+  },
+  'approvals.error.reject': 'Impossible de refuser « {title} ».',
+  'approvals.error.rule': 'Action impossible, réessayez.',
+} satisfies Record<string, string | PluralMessage>
+
+// Les autres langues doivent fournir exactement les mêmes clés, avec la même forme
+export type Messages = { [K in keyof typeof fr]: (typeof fr)[K] extends string ? string : PluralMessage }
+
+export default fr as Messages
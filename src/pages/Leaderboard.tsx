@@ -0,0 +1,276 @@
+import React, { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useI18n } from '@/hooks/useI18n'
+import { supabase } from '@/lib/supabase'
+import { getMyMembership, listMembers, type MemberMini } from '@/lib/repository'
+import { can } from '@/lib/permissions'
+import { useAuthStore } from '@/store/authStore'
+import {
+  PERIOD_LABELS,
+  addAdjustment,
+  listLedger,
+  loadLeaderboard,
+  type LeaderboardPeriod,
+  type LeaderboardRow,
+  type LedgerEntry,
+} from '@/lib/points'
+import { AlertCircle, ArrowLeft, Loader2, Medal, Trophy } from 'lucide-react'
+
+const MEDAL_COLORS = ['text-yellow-500', 'text-gray-400', 'text-amber-700']
+
+const KIND_LABELS: Record<LedgerEntry['kind'], string> = {
+  task_completed: 'Tâche terminée',
+  task_reopened: 'Tâche rouverte',
+  adjustment: 'Ajustement',
+  reward_redeemed: 'Récompense',
+}
+
+export default function Leaderboard() {
+  const navigate = useNavigate()
+  const { t } = useI18n()
+
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [isParent, setIsParent] = useState(false)
+  const [householdId, setHouseholdId] = useState<string | null>(null)
+  const [members, setMembers] = useState<MemberMini[]>([])
+
+  const [period, setPeriod] = useState<LeaderboardPeriod>('week')
+  const [ranking, setRanking] = useState<LeaderboardRow[]>([])
+  const [history, setHistory] = useState<LedgerEntry[]>([])
+
+  // Ajustement manuel (parents)
+  const [adjustMember, setAdjustMember] = useState('')
+  const [adjustAmount, setAdjustAmount] = useState(10)
+  const [adjustNote, setAdjustNote] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const memberName = (id: string) => members.find((m) => m.id === id)?.display_name ?? 'Ancien membre'
+
+  const loadBoard = async (hId: string, p: LeaderboardPeriod) => {
+    try {
+      const [rows, entries] = await Promise.all([loadLeaderboard(hId, p), listLedger(hId)])
+      setRanking(rows)
+      setHistory(entries)
+    } catch (err: any) {
+      console.error('leaderboard error:', err)
+      setError('Impossible de charger le classement.')
+    }
+  }
+
+  useEffect(() => {
+    const init = async () => {
+      try {
+        const { data } = await supabase.auth.getUser()
+        const user = data.user
+        if (!user) {
+          navigate('/login', { replace: true })
+          return
+        }
+        setCurrentUserId(user.id)
+
+        const { data: me, error: meError } = await getMyMembership(user.id, useAuthStore.getState().householdId)
+
+        if (meError) throw meError
+        if (!me) {
+          navigate('/onboarding', { replace: true })
+          return
+        }
+
+        setHouseholdId(me.householdId)
+        setIsParent(can(me.role, 'points.adjust'))
+
+        const { data: membersData, error: membersError } = await listMembers(me.householdId)
+
+        if (membersError) console.warn('Erreur members:', membersError)
+        setMembers(membersData || [])
+
+        await loadBoard(me.householdId, period)
+      } catch (err: any) {
+        console.error('leaderboard init error:', err)
+        setError('Erreur de connexion. Vérifiez votre réseau et réessayez.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    init()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  useEffect(() => {
+    if (!householdId || loading) return
+    loadBoard(householdId, period)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [period])
+
+  const handleAdjust = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!householdId || !currentUserId || isSubmitting) return
+    setFormError(null)
+
+    if (!adjustMember) {
+      setFormError('Choisissez un membre.')
+      return
+    }
+    if (!adjustAmount) {
+      setFormError('Le montant ne peut pas être nul.')
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      await addAdjustment(householdId, adjustMember, adjustAmount, adjustNote.trim(), currentUserId)
+      setAdjustNote('')
+      await loadBoard(householdId, period)
+    } catch (err: any) {
+      console.error('adjustment error:', err)
+      setFormError(err?.message || "Impossible d'enregistrer l'ajustement.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Loader2 className="h-12 w-12 animate-spin text-blue-600" />
+      </div>
+    )
+  }
+
+  // Les membres sans point apparaissent aussi, en bas du classement
+  const rows: LeaderboardRow[] = [
+    ...ranking,
+    ...members.filter((m) => !ranking.some((r) => r.member_id === m.id)).map((m) => ({ member_id: m.id, points: 0 })),
+  ]
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-50">
+      <nav className="bg-white shadow-sm border-b">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center">
+          <button
+            onClick={() => navigate('/tasks')}
+            className="flex items-center text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg px-3 py-2 transition"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" /> Tâches
+          </button>
+        </div>
+      </nav>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex items-center gap-3">
+          <Trophy className="w-8 h-8 text-yellow-500" />
+          <h2 className="text-3xl font-bold text-gray-900">Classement</h2>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          {(Object.keys(PERIOD_LABELS) as LeaderboardPeriod[]).map((p) => (
+            <button
+              key={p}
+              onClick={() => setPeriod(p)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
+                period === p ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {PERIOD_LABELS[p]}
+            </button>
+          ))}
+        </div>
+
+        <ol className="bg-white rounded-xl shadow-sm border border-gray-100 divide-y">
+          {rows.map((row, index) => (
+            <li key={row.member_id} className="flex items-center gap-4 p-4">
+              <span className="w-8 text-center font-bold text-gray-500">
+                {index < 3 && row.points > 0 ? <Medal className={`w-6 h-6 mx-auto ${MEDAL_COLORS[index]}`} /> : index + 1}
+              </span>
+              <span className="flex-1 font-medium text-gray-900">{memberName(row.member_id)}</span>
+              <span className="font-semibold text-blue-600">{row.points} pts</span>
+            </li>
+          ))}
+        </ol>
+
+        {isParent && (
+          <form onSubmit={handleAdjust} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+            <h3 className="text-lg font-semibold text-gray-900">Ajustement manuel</h3>
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+            <div className="grid grid-cols-2 gap-4">
+              <select
+                value={adjustMember}
+                onChange={(e) => setAdjustMember(e.target.value)}
+                className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={isSubmitting}
+              >
+                <option value="">Membre…</option>
+                {members.map((m) => (
+                  <option key={m.id} value={m.id}>
+                    {m.display_name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                value={adjustAmount}
+                onChange={(e) => setAdjustAmount(parseInt(e.target.value || '0'))}
+                className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={isSubmitting}
+              />
+            </div>
+            <input
+              value={adjustNote}
+              onChange={(e) => setAdjustNote(e.target.value)}
+              placeholder="Motif (ex: bonus rangement garage)"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={isSubmitting}
+            />
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50 flex items-center justify-center"
+            >
+              {isSubmitting ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Enregistrer'}
+            </button>
+          </form>
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+          <h3 className="text-lg font-semibold text-gray-900 p-4 border-b">Historique</h3>
+          {history.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">Aucun point gagné pour le moment.</p>
+          ) : (
+            <ul className="divide-y">
+              {history.map((entry) => (
+                <li key={entry.id} className="p-4 flex items-center gap-4 text-sm">
+                  <div className="flex-1">
+                    <p className="text-gray-900">
+                      <span className="font-medium">{memberName(entry.member_id)}</span> •{' '}
+                      {entry.task_title || entry.note || KIND_LABELS[entry.kind]}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {KIND_LABELS[entry.kind]} • {new Date(entry.created_at).toLocaleDateString('fr-FR')}
+                      {entry.late_days && ` • ${t('points.lateDays', { count: entry.late_days })}`}
+                    </p>
+                  </div>
+                  <span className={`font-semibold ${entry.amount > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {entry.amount > 0 ? '+' : ''}
+                    {entry.amount}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -1,10 +1,13 @@
 import React, { useState } from 'react'
 import { useNavigate, Link } from 'react-router-dom'
 import { supabase } from '@/lib/supabase'
+import LanguageSwitcher from '@/components/LanguageSwitcher'
+import { useI18n } from '@/hooks/useI18n'
 import { useAuthStore, type AuthState } from '@/store/authStore'
 
 export default function Login() {
   const navigate = useNavigate()
+  const { t } = useI18n()
   const setUser = useAuthStore((state: AuthState) => state.setUser)
 
   const [email, setEmail] = useState('')
@@ -28,7 +31,7 @@ export default function Login() {
       setUser(data.user ?? null)
       navigate('/tasks', { replace: true })
     } catch (err: any) {
-      setError(err?.message || 'Impossible de se connecter.')
+      setError(err?.message || t('auth.login.error'))
     } finally {
       setLoading(false)
     }
@@ -37,7 +40,8 @@ export default function Login() {
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
       <div className="w-full max-w-md bg-white p-8 rounded-2xl shadow-lg border">
-        <h1 className="text-2xl font-bold mb-6">Connexion</h1>
+        <LanguageSwitcher className="justify-end mb-2" />
+        <h1 className="text-2xl font-bold mb-6">{t('auth.login.title')}</h1>
 
         {error && (
           <div className="mb-4 p-3 rounded-lg bg-red-50 border border-red-200 text-red-700 text-sm">
@@ -47,7 +51,7 @@ export default function Login() {
 
         <form onSubmit={handleLogin} className="space-y-4">
           <div>
-            <label className="text-sm font-medium text-gray-700">Email</label>
+            <label className="text-sm font-medium text-gray-700">{t('auth.email')}</label>
             <input
               value={email}
               onChange={(e) => setEmail(e.target.value)}
@@ -59,7 +63,7 @@ export default function Login() {
           </div>
 
           <div>
-            <label className="text-sm font-medium text-gray-700">Mot de passe</label>
+            <label className="text-sm font-medium text-gray-700">{t('auth.password')}</label>
             <input
               value={password}
               onChange={(e) => setPassword(e.target.value)}
@@ -75,14 +79,14 @@ export default function Login() {
             disabled={loading}
             className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition disabled:opacity-60"
           >
-            {loading ? 'Connexion...' : 'Se connecter'}
+            {loading ? t('auth.login.submitting') : t('auth.login.submit')}
           </button>
         </form>
 
         <p className="mt-4 text-sm text-gray-600">
-          Pas de compte ?{' '}
+          {t('auth.login.noAccount')}{' '}
           <Link to="/signup" className="text-blue-600 font-medium hover:underline">
-            Créer un compte
+            {t('auth.login.signupLink')}
           </Link>
         </p>
       </div>
@@ -1,67 +1,331 @@
 import React, { useEffect, useState } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom'
 import { supabase } from '@/lib/supabase'
+import { getMyMembership } from '@/lib/repository'
+import LanguageSwitcher from '@/components/LanguageSwitcher'
+import { useI18n } from '@/hooks/useI18n'
+import { useAuthStore, type AuthState } from '@/store/authStore'
+import {
+  PENDING_INVITE_KEY,
+  createHousehold,
+  joinHousehold,
+  normalizeInviteCode,
+  onboardingErrorMessage,
+  previewInvite,
+  type Household,
+} from '@/lib/households'
+import { AlertCircle, Home, Loader2, LogOut, UserPlus, Users } from 'lucide-react'
+
+type Mode = 'choose' | 'create' | 'join'
 
 export default function Onboarding() {
   const navigate = useNavigate()
+  const params = useParams<{ code?: string }>()
+  const [searchParams] = useSearchParams()
+  const { t, locale } = useI18n()
+  const setHousehold = useAuthStore((state: AuthState) => state.setHousehold)
+
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [mode, setMode] = useState<Mode>('choose')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  // Déjà membre d'un foyer : on en ajoute un autre (?add=1 ou lien d'invitation)
+  const [hasHousehold, setHasHousehold] = useState(false)
+
+  const [householdName, setHouseholdName] = useState('')
+  const [displayName, setDisplayName] = useState('')
+  const [inviteCode, setInviteCode] = useState('')
+  const [invitePreview, setInvitePreview] = useState<Household | null>(null)
+
+  const enterHousehold = (household: Household) => {
+    setHousehold(household.id, household.name)
+    try {
+      localStorage.removeItem(PENDING_INVITE_KEY)
+    } catch {
+      // ignore
+    }
+    navigate('/tasks', { replace: true })
+  }
 
   useEffect(() => {
     const run = async () => {
       setLoading(true)
       setError(null)
 
+      // Code reçu par lien (/join/:code ou ?code=) ou gardé avant la connexion
+      let storedCode: string | null = null
+      try {
+        storedCode = localStorage.getItem(PENDING_INVITE_KEY)
+      } catch {
+        // ignore
+      }
+      const code = params.code || searchParams.get('code') || storedCode || ''
+
       try {
         const { data } = await supabase.auth.getUser()
         const user = data.user
         if (!user) {
+          if (code) {
+            try {
+              localStorage.setItem(PENDING_INVITE_KEY, normalizeInviteCode(code))
+            } catch {
+              // ignore
+            }
+          }
           navigate('/login', { replace: true })
           return
         }
 
-        // Si l'utilisateur est déjà membre → go tasks
-        const { data: member } = await supabase
-          .from('members')
-          .select('id')
-          .eq('id', user.id)
-          .single()
+        // Déjà membre et rien à ajouter → go tasks
+        const { data: membership } = await getMyMembership(user.id, useAuthStore.getState().householdId)
 
-        if (member?.id) {
-          navigate('/tasks', { replace: true })
+        if (membership && !code && !searchParams.has('add')) {
+          enterHousehold({ id: membership.householdId, name: membership.householdName })
           return
         }
 
-        // Sinon, fallback minimal : on redirige vers login
-        // (car créer un foyer + member dépend de tes policies RLS)
-        setError("Profil membre introuvable. Veuillez vous reconnecter.")
+        setHasHousehold(!!membership)
+        setDisplayName(membership?.displayName ?? user.email?.split('@')[0] ?? '')
+
+        if (code) {
+          const normalized = normalizeInviteCode(code)
+          setInviteCode(normalized)
+          setMode('join')
+          const preview = await previewInvite(normalized)
+          setInvitePreview(preview)
+          if (!preview) setError(t('errors.inviteInvalid'))
+        }
       } catch (e: any) {
-        setError(e?.message || "Erreur onboarding")
+        setError(onboardingErrorMessage(e, locale))
       } finally {
         setLoading(false)
       }
     }
 
     run()
-  }, [navigate])
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [navigate, params.code])
+
+  /**
+   * ✅ Aperçu du foyer dès que le code a la bonne longueur
+   */
+  useEffect(() => {
+    if (mode !== 'join') return
+    const normalized = normalizeInviteCode(inviteCode)
+    if (normalized.length < 8) {
+      setInvitePreview(null)
+      return
+    }
+
+    let cancelled = false
+    previewInvite(normalized)
+      .then((preview) => {
+        if (!cancelled) setInvitePreview(preview)
+      })
+      .catch(() => {
+        if (!cancelled) setInvitePreview(null)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [inviteCode, mode])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (isSubmitting) return
+    setError(null)
+    setIsSubmitting(true)
+
+    try {
+      const household = await createHousehold(householdName, displayName)
+      enterHousehold(household)
+    } catch (err: any) {
+      console.error('create household error:', err)
+      setError(onboardingErrorMessage(err, locale))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (isSubmitting) return
+    setError(null)
+    setIsSubmitting(true)
+
+    try {
+      const household = await joinHousehold(inviteCode, displayName)
+      enterHousehold(household)
+    } catch (err: any) {
+      console.error('join household error:', err)
+      setError(onboardingErrorMessage(err, locale))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleLogout = async () => {
+    try {
+      await supabase.auth.signOut()
+    } catch {
+      // ignore
+    }
+    navigate('/login', { replace: true })
+  }
 
   if (loading) {
-    return <div className="min-h-screen flex items-center justify-center">Chargement...</div>
+    return <div className="min-h-screen flex items-center justify-center">{t('common.loading')}</div>
   }
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
       <div className="max-w-md w-full bg-white p-8 rounded-2xl shadow-lg border">
-        <h1 className="text-xl font-bold mb-3">Onboarding</h1>
-        <p className="text-gray-600 text-sm mb-4">
-          {error || "Tout est prêt."}
-        </p>
-        <button
-          className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700"
-          onClick={() => navigate('/login', { replace: true })}
-        >
-          Retour connexion
-        </button>
+        <div className="flex items-center gap-3 mb-6">
+          <Home className="w-8 h-8 text-blue-600" />
+          <div>
+            <h1 className="text-xl font-bold">{hasHousehold ? t('onboarding.addTitle') : t('onboarding.welcome')}</h1>
+            <p className="text-gray-600 text-sm">
+              {hasHousehold ? t('onboarding.addHint') : t('onboarding.welcomeHint')}
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 rounded-lg bg-red-50 border border-red-200 text-red-700 text-sm flex items-start gap-2">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {mode === 'choose' && (
+          <div className="space-y-3">
+            <button
+              onClick={() => {
+                setError(null)
+                setMode('create')
+              }}
+              className="w-full flex items-center gap-3 p-4 border rounded-xl hover:bg-blue-50 hover:border-blue-200 transition text-left"
+            >
+              <Users className="w-6 h-6 text-blue-600" />
+              <div>
+                <p className="font-medium text-gray-900">{t('onboarding.create')}</p>
+                <p className="text-sm text-gray-500">{t('onboarding.createHint')}</p>
+              </div>
+            </button>
+            <button
+              onClick={() => {
+                setError(null)
+                setMode('join')
+              }}
+              className="w-full flex items-center gap-3 p-4 border rounded-xl hover:bg-blue-50 hover:border-blue-200 transition text-left"
+            >
+              <UserPlus className="w-6 h-6 text-blue-600" />
+              <div>
+                <p className="font-medium text-gray-900">{t('onboarding.join')}</p>
+                <p className="text-sm text-gray-500">{t('onboarding.joinHint')}</p>
+              </div>
+            </button>
+          </div>
+        )}
+
+        {mode === 'create' && (
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700">{t('onboarding.householdName')}</label>
+              <input
+                value={householdName}
+                onChange={(e) => setHouseholdName(e.target.value)}
+                placeholder={t('onboarding.householdNamePlaceholder')}
+                className="mt-1 w-full border rounded-lg px-4 py-3"
+                required
+                disabled={isSubmitting}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700">{t('onboarding.displayName')}</label>
+              <input
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                className="mt-1 w-full border rounded-lg px-4 py-3"
+                required
+                disabled={isSubmitting}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition disabled:opacity-60 flex items-center justify-center"
+            >
+              {isSubmitting ? <Loader2 className="w-5 h-5 animate-spin" /> : t('onboarding.createSubmit')}
+            </button>
+          </form>
+        )}
+
+        {mode === 'join' && (
+          <form onSubmit={handleJoin} className="space-y-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700">{t('onboarding.inviteCode')}</label>
+              <input
+                value={inviteCode}
+                onChange={(e) => setInviteCode(normalizeInviteCode(e.target.value))}
+                placeholder={t('onboarding.inviteCodePlaceholder')}
+                maxLength={8}
+                className="mt-1 w-full border rounded-lg px-4 py-3 font-mono tracking-widest uppercase"
+                required
+                disabled={isSubmitting}
+              />
+              {invitePreview && (
+                <p className="mt-2 text-sm text-green-700">
+                  {t('onboarding.invitePreview')} <span className="font-medium">{invitePreview.name}</span>
+                </p>
+              )}
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700">{t('onboarding.displayName')}</label>
+              <input
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                className="mt-1 w-full border rounded-lg px-4 py-3"
+                required
+                disabled={isSubmitting}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSubmitting || !invitePreview}
+              className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition disabled:opacity-60 flex items-center justify-center"
+            >
+              {isSubmitting ? <Loader2 className="w-5 h-5 animate-spin" /> : t('onboarding.joinSubmit')}
+            </button>
+          </form>
+        )}
+
+        <div className="mt-6 flex justify-between items-center text-sm">
+          {mode !== 'choose' ? (
+            <button
+              onClick={() => {
+                setError(null)
+                setMode('choose')
+              }}
+              className="text-blue-600 hover:underline"
+              disabled={isSubmitting}
+            >
+              {t('common.back')}
+            </button>
+          ) : hasHousehold ? (
+            <button onClick={() => navigate('/tasks')} className="text-blue-600 hover:underline">
+              {t('onboarding.backToTasks')}
+            </button>
+          ) : (
+            <span />
+          )}
+          <div className="flex items-center gap-3">
+            <LanguageSwitcher />
+            <button onClick={handleLogout} className="flex items-center text-gray-500 hover:text-gray-700">
+              <LogOut className="w-4 h-4 mr-1" /> {t('common.logout')}
+            </button>
+          </div>
+        </div>
       </div>
     </div>
   )
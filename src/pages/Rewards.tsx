@@ -0,0 +1,363 @@
+import React, { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { supabase } from '@/lib/supabase'
+import { getMyMembership, listMembers, type MemberMini } from '@/lib/repository'
+import { can } from '@/lib/permissions'
+import { useAuthStore } from '@/store/authStore'
+import {
+  REDEMPTION_STATUS_LABELS,
+  createReward,
+  decideRedemption,
+  listRedemptions,
+  listRewards,
+  loadBalances,
+  requestRedemption,
+  rewardErrorMessage,
+  updateReward,
+  type Reward,
+  type RewardRedemption,
+} from '@/lib/rewards'
+import { AlertCircle, Archive, ArrowLeft, Check, Gift, Loader2, Plus, X } from 'lucide-react'
+
+export default function Rewards() {
+  const navigate = useNavigate()
+
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [isParent, setIsParent] = useState(false)
+  const [householdId, setHouseholdId] = useState<string | null>(null)
+  const [members, setMembers] = useState<MemberMini[]>([])
+
+  const [rewards, setRewards] = useState<Reward[]>([])
+  const [redemptions, setRedemptions] = useState<RewardRedemption[]>([])
+  const [balances, setBalances] = useState<Record<string, number>>({})
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  // Création (parents)
+  const [showForm, setShowForm] = useState(false)
+  const [formData, setFormData] = useState({ title: '', description: '', cost: 50 })
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const memberName = (id: string | null) =>
+    members.find((m) => m.id === id)?.display_name ?? 'Ancien membre'
+
+  const myBalance = currentUserId ? balances[currentUserId] ?? 0 : 0
+  const myPending = redemptions
+    .filter((r) => r.member_id === currentUserId && r.status === 'pending')
+    .reduce((sum, r) => sum + r.cost, 0)
+  const myAvailable = myBalance - myPending
+
+  const pendingApprovals = redemptions.filter((r) => r.status === 'pending')
+
+  const reload = async (hId: string) => {
+    const [rewardsData, redemptionsData, balancesData] = await Promise.all([
+      listRewards(hId),
+      listRedemptions(hId),
+      loadBalances(hId),
+    ])
+    setRewards(rewardsData)
+    setRedemptions(redemptionsData)
+    setBalances(balancesData)
+  }
+
+  useEffect(() => {
+    const init = async () => {
+      try {
+        const { data } = await supabase.auth.getUser()
+        const user = data.user
+        if (!user) {
+          navigate('/login', { replace: true })
+          return
+        }
+        setCurrentUserId(user.id)
+
+        const { data: me, error: meError } = await getMyMembership(user.id, useAuthStore.getState().householdId)
+
+        if (meError) throw meError
+        if (!me) {
+          navigate('/onboarding', { replace: true })
+          return
+        }
+
+        setHouseholdId(me.householdId)
+        setIsParent(can(me.role, 'rewards.manage'))
+
+        const { data: membersData, error: membersError } = await listMembers(me.householdId)
+
+        if (membersError) console.warn('Erreur members:', membersError)
+        setMembers(membersData || [])
+
+        await reload(me.householdId)
+      } catch (err: any) {
+        console.error('rewards init error:', err)
+        setError('Erreur de connexion. Vérifiez votre réseau et réessayez.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    init()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const run = async (id: string, action: () => Promise<unknown>) => {
+    if (!householdId || busyId) return
+    setBusyId(id)
+    setError(null)
+    try {
+      await action()
+      await reload(householdId)
+    } catch (err: any) {
+      console.error('rewards action error:', err)
+      setError(rewardErrorMessage(err))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRedeem = (reward: Reward) => {
+    if (!confirm(`Échanger ${reward.cost} pts contre « ${reward.title} » ?`)) return
+    run(reward.id, () => requestRedemption(reward.id))
+  }
+
+  const handleReject = (redemption: RewardRedemption) => {
+    const note = prompt('Motif du refus (optionnel) :')
+    if (note === null) return
+    run(redemption.id, () => decideRedemption(redemption.id, false, note))
+  }
+
+  const handleArchive = (reward: Reward) => {
+    if (!confirm(`Retirer « ${reward.title} » du catalogue ?`)) return
+    run(reward.id, () => updateReward(reward.id, { active: false }))
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!householdId || !currentUserId || isSubmitting) return
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      await createReward(householdId, currentUserId, {
+        title: formData.title.trim(),
+        description: formData.description.trim() || null,
+        cost: formData.cost,
+      })
+      setFormData({ title: '', description: '', cost: 50 })
+      setShowForm(false)
+      await reload(householdId)
+    } catch (err: any) {
+      console.error('create reward error:', err)
+      setError(rewardErrorMessage(err))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Loader2 className="h-12 w-12 animate-spin text-blue-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-50">
+      <nav className="bg-white shadow-sm border-b">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
+          <button
+            onClick={() => navigate('/tasks')}
+            className="flex items-center text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg px-3 py-2 transition"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" /> Tâches
+          </button>
+          <span className="text-sm text-gray-700">
+            Mon solde : <span className="font-semibold text-blue-600">{myBalance} pts</span>
+            {myPending > 0 && <span className="text-gray-500"> ({myPending} pts réservés)</span>}
+          </span>
+        </div>
+      </nav>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Gift className="w-8 h-8 text-pink-500" />
+            <h2 className="text-3xl font-bold text-gray-900">Récompenses</h2>
+          </div>
+          {isParent && (
+            <button
+              onClick={() => setShowForm((v) => !v)}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium"
+            >
+              <Plus className="w-5 h-5 mr-1" /> Ajouter
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {showForm && isParent && (
+          <form onSubmit={handleCreate} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <input
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                placeholder="Ex: 30 min d'écran"
+                className="col-span-2 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+                disabled={isSubmitting}
+              />
+              <input
+                type="number"
+                min="1"
+                value={formData.cost}
+                onChange={(e) => setFormData({ ...formData, cost: parseInt(e.target.value || '1') })}
+                className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={isSubmitting}
+              />
+            </div>
+            <input
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              placeholder="Description (optionnel)"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={isSubmitting}
+            />
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50 flex items-center justify-center"
+            >
+              {isSubmitting ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Ajouter au catalogue'}
+            </button>
+          </form>
+        )}
+
+        {/* Catalogue */}
+        <div className="grid sm:grid-cols-2 gap-4">
+          {rewards.length === 0 ? (
+            <p className="text-sm text-gray-500">Aucune récompense dans le catalogue.</p>
+          ) : (
+            rewards.map((reward) => (
+              <div key={reward.id} className="bg-white rounded-xl shadow-sm border border-gray-100 p-5 flex flex-col gap-3">
+                <div className="flex justify-between gap-2">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">{reward.title}</h3>
+                    {reward.description && <p className="text-sm text-gray-600">{reward.description}</p>}
+                  </div>
+                  <span className="text-sm font-semibold text-blue-600 whitespace-nowrap">{reward.cost} pts</span>
+                </div>
+                <div className="flex gap-2 mt-auto">
+                  <button
+                    onClick={() => handleRedeem(reward)}
+                    disabled={busyId !== null || myAvailable < reward.cost}
+                    className="flex-1 px-4 py-2 bg-pink-500 text-white rounded-lg hover:bg-pink-600 transition text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Échanger
+                  </button>
+                  {isParent && (
+                    <button
+                      onClick={() => handleArchive(reward)}
+                      disabled={busyId !== null}
+                      className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition"
+                      title="Retirer du catalogue"
+                    >
+                      <Archive className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Validation parents */}
+        {isParent && pendingApprovals.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm border border-yellow-200">
+            <h3 className="text-lg font-semibold text-gray-900 p-4 border-b">Demandes à valider</h3>
+            <ul className="divide-y">
+              {pendingApprovals.map((r) => (
+                <li key={r.id} className="p-4 flex items-center gap-3 text-sm">
+                  <div className="flex-1">
+                    <p className="text-gray-900">
+                      <span className="font-medium">{memberName(r.member_id)}</span> • {r.reward_title}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {r.cost} pts • solde actuel {balances[r.member_id] ?? 0} pts
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => run(r.id, () => decideRedemption(r.id, true))}
+                    disabled={busyId !== null}
+                    className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition"
+                    title="Valider"
+                  >
+                    <Check className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => handleReject(r)}
+                    disabled={busyId !== null}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                    title="Refuser"
+                  >
+                    <X className="w-5 h-5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Soldes */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+          <h3 className="text-lg font-semibold text-gray-900 p-4 border-b">Soldes</h3>
+          <ul className="divide-y">
+            {members.map((m) => (
+              <li key={m.id} className="p-4 flex justify-between text-sm">
+                <span className="text-gray-900">{m.display_name}</span>
+                <span className="font-semibold text-blue-600">{balances[m.id] ?? 0} pts</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Historique */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+          <h3 className="text-lg font-semibold text-gray-900 p-4 border-b">Historique des échanges</h3>
+          {redemptions.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">Aucun échange pour le moment.</p>
+          ) : (
+            <ul className="divide-y">
+              {redemptions.map((r) => {
+                const status = REDEMPTION_STATUS_LABELS[r.status]
+                return (
+                  <li key={r.id} className="p-4 flex items-center gap-3 text-sm">
+                    <div className="flex-1">
+                      <p className="text-gray-900">
+                        <span className="font-medium">{memberName(r.member_id)}</span> • {r.reward_title}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(r.requested_at).toLocaleDateString('fr-FR')} • {r.cost} pts
+                        {r.decided_by && ` • par ${memberName(r.decided_by)}`}
+                        {r.decision_note && ` • « ${r.decision_note} »`}
+                      </p>
+                    </div>
+                    <span className={`px-3 py-1 rounded-full text-xs font-medium ${status.color}`}>{status.label}</span>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -1,9 +1,12 @@
 import React, { useState } from 'react'
 import { useNavigate, Link } from 'react-router-dom'
 import { supabase } from '@/lib/supabase'
+import LanguageSwitcher from '@/components/LanguageSwitcher'
+import { useI18n } from '@/hooks/useI18n'
 
 export default function SignUp() {
   const navigate = useNavigate()
+  const { t, locale } = useI18n()
 
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
@@ -19,13 +22,15 @@ export default function SignUp() {
       const { error } = await supabase.auth.signUp({
         email,
         password,
+        // La langue choisie à l'inscription suit le compte
+        options: { data: { locale } },
       })
 
       if (error) throw error
 
       navigate('/login', { replace: true })
     } catch (err: any) {
-      setError(err?.message || "Impossible de créer le compte.")
+      setError(err?.message || t('auth.signup.error'))
     } finally {
       setLoading(false)
     }
@@ -34,7 +39,8 @@ export default function SignUp() {
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
       <div className="w-full max-w-md bg-white p-8 rounded-2xl shadow-lg border">
-        <h1 className="text-2xl font-bold mb-6">Créer un compte</h1>
+        <LanguageSwitcher className="justify-end mb-2" />
+        <h1 className="text-2xl font-bold mb-6">{t('auth.signup.title')}</h1>
 
         {error && (
           <div className="mb-4 p-3 rounded-lg bg-red-50 border border-red-200 text-red-700 text-sm">
@@ -44,7 +50,7 @@ export default function SignUp() {
 
         <form onSubmit={handleSignUp} className="space-y-4">
           <div>
-            <label className="text-sm font-medium text-gray-700">Email</label>
+            <label className="text-sm font-medium text-gray-700">{t('auth.email')}</label>
             <input
               value={email}
               onChange={(e) => setEmail(e.target.value)}
@@ -56,7 +62,7 @@ export default function SignUp() {
           </div>
 
           <div>
-            <label className="text-sm font-medium text-gray-700">Mot de passe</label>
+            <label className="text-sm font-medium text-gray-700">{t('auth.password')}</label>
             <input
               value={password}
               onChange={(e) => setPassword(e.target.value)}
@@ -72,14 +78,14 @@ export default function SignUp() {
             disabled={loading}
             className="w-full bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition disabled:opacity-60"
           >
-            {loading ? 'Création...' : 'Créer mon compte'}
+            {loading ? t('auth.signup.submitting') : t('auth.signup.submit')}
           </button>
         </form>
 
         <p className="mt-4 text-sm text-gray-600">
-          Déjà un compte ?{' '}
+          {t('auth.signup.hasAccount')}{' '}
           <Link to="/login" className="text-blue-600 font-medium hover:underline">
-            Se connecter
+            {t('auth.signup.loginLink')}
           </Link>
         </p>
       </div>
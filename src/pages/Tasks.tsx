@@ -1,51 +1,171 @@
-import React, { useEffect, useMemo, useRef, useState } from 'react'
-import { useNavigate } from 'react-router-dom'
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import { supabase } from '@/lib/supabase'
+import { useAuthStore, type AuthState } from '@/store/authStore'
+import CalendarExportModal from '@/components/CalendarExportModal'
+import ApprovalsModal from '@/components/ApprovalsModal'
+import AutoAssignPanel from '@/components/AutoAssignPanel'
+import CategoriesModal from '@/components/CategoriesModal'
+import CategoryIcon from '@/components/CategoryIcon'
+import ChecklistModal from '@/components/ChecklistModal'
+import CommentsModal from '@/components/CommentsModal'
+import HouseholdSwitcher from '@/components/HouseholdSwitcher'
+import InvitesModal from '@/components/InvitesModal'
+import MembersModal from '@/components/MembersModal'
+import NotificationCenter from '@/components/NotificationCenter'
+import PhotoProofModal from '@/components/PhotoProofModal'
+import RecurrenceFields from '@/components/RecurrenceFields'
+import RecurrenceModal from '@/components/RecurrenceModal'
+import ReminderRulesModal from '@/components/ReminderRulesModal'
+import SavedViewsMenu from '@/components/SavedViewsMenu'
+import TaskBoard from '@/components/TaskBoard'
+import TaskCalendar from '@/components/TaskCalendar'
+import TaskHistoryModal from '@/components/TaskHistoryModal'
+import TaskTransferModal from '@/components/TaskTransferModal'
+import LanguageSwitcher from '@/components/LanguageSwitcher'
+import Toasts, { type Toast } from '@/components/Toasts'
+import { useI18n } from '@/hooks/useI18n'
+import { useTaskPhotoThumbnails } from '@/hooks/useTaskPhotoThumbnails'
+import { useVirtualList } from '@/hooks/useVirtualList'
+import { useRealtimeTasks, type RealtimeTaskEvent } from '@/hooks/useRealtimeTasks'
+import {
+  describeRecurrence,
+  firstDueDate,
+  isValidRecurrence,
+  parseDateOnly,
+  type RecurrenceRule,
+  type RecurrenceScope,
+} from '@/lib/recurrence'
+import { daysLate, isOverdue } from '@/lib/reminders'
+import { requiresPhoto } from '@/lib/photos'
+import {
+  approveTask,
+  countAwaitingApproval,
+  listApprovalRules,
+  needsApproval,
+  rejectTask,
+  type ApprovalRule,
+} from '@/lib/approvals'
+import { AUTO_ASSIGNEE, AUTO_ASSIGN_STRATEGY_KEY, isAssignStrategy, type AssignStrategy } from '@/lib/autoAssign'
+import { createCategoryLookup, listCategories, type Category } from '@/lib/categories'
+import { can, canChangeStatus } from '@/lib/permissions'
+import { loadBalances } from '@/lib/rewards'
+import {
+  isJwtExpiredError,
+  isNetworkError,
+  listMembers,
+  listMyMemberships,
+  countTasks,
+  listTaskPage,
+  listTasks,
+  unwrap,
+  type MemberMini,
+  type Membership,
+  type Task,
+  type TaskChanges,
+  type TaskCounts,
+  type TaskCursor,
+  type TaskSort,
+  type TaskStatus,
+  type TaskStatusFilter,
+} from '@/lib/repository'
+import {
+  DEFAULT_TASK_QUERY,
+  SORT_LABEL_KEYS,
+  TASK_SORTS,
+  compareTasks,
+  countAdvancedFilters,
+  isUnfiltered,
+  matchesTaskQuery,
+  parseTaskQuery,
+  tallyTasks,
+  taskQueryToParams,
+  type TaskQuery,
+} from '@/lib/taskQuery'
+import { pendingMutationCount, replayQueue, runMutation } from '@/lib/syncQueue'
+import { cacheTasks, deleteCachedTask, getCachedTasks, getMeta, putCachedTask, setMeta } from '@/lib/offlineDb'
 import {
   AlertCircle,
   AlertTriangle,
+  ArrowUpDown,
+  BellRing,
+  Camera,
+  CalendarDays,
+  CalendarPlus,
   CheckCircle2,
   Circle,
   Clock,
+  CloudOff,
+  FileSpreadsheet,
   Filter,
+  Gift,
+  History,
   Home,
+  Hourglass,
+  KanbanSquare,
+  List,
+  ListChecks,
+  MessageSquare,
   Loader2,
   LogOut,
+  Pencil,
   Plus,
   RefreshCw,
+  Repeat,
+  RotateCcw,
+  Search,
+  ShieldCheck,
+  SlidersHorizontal,
+  Tags,
   Trash2,
+  Trophy,
   User,
+  UserPlus,
+  Users,
   WifiOff,
   X,
 } from 'lucide-react'
 
-type TaskStatus = 'pending' | 'in_progress' | 'completed'
-
-type Task = {
-  id: string
-  household_id: string
-  title: string
-  description: string | null
-  category: string
-  assigned_to: string | null
-  created_by: string
-  points: number
-  due_date: string | null
-  status: TaskStatus
-  created_at?: string
-  completed_at?: string | null
+type TaskView = 'list' | 'board' | 'calendar'
+
+const VIEW_KEY = 'homeflow_tasks_view'
+
+const SEARCH_DEBOUNCE_MS = 300
+
+const COUNTS_DEBOUNCE_MS = 500
+
+// Hauteur supposée d'une carte avant mesure (px, espacement compris)
+const TASK_CARD_ESTIMATE = 140
+
+// Page suivante demandée quand il reste moins de N cartes sous l'écran
+const LOAD_MORE_THRESHOLD = 10
+
+// Contexte minimal pour démarrer hors ligne
+type OfflineSession = {
+  userId: string
+  householdId: string
+  householdName: string | null
+  members: MemberMini[]
+  categories?: Category[]
+  approvalRules?: ApprovalRule[]
 }
 
-type MemberMini = { id: string; display_name: string }
+const EMPTY_FORM = {
+  title: '',
+  description: '',
+  category: 'general',
+  assigned_to: '',
+  due_date: '',
+  points: 10,
+  recurrence: null as RecurrenceRule | null,
+  requires_photo: false,
+}
 
-const CATEGORIES = [
-  { value: 'general', label: 'Général', color: 'bg-gray-100 text-gray-700' },
-  { value: 'courses', label: 'Courses', color: 'bg-green-100 text-green-700' },
-  { value: 'menage', label: 'Ménage', color: 'bg-blue-100 text-blue-700' },
-  { value: 'bricolage', label: 'Bricolage', color: 'bg-yellow-100 text-yellow-700' },
-  { value: 'cuisine', label: 'Cuisine', color: 'bg-orange-100 text-orange-700' },
-  { value: 'administratif', label: 'Administratif', color: 'bg-purple-100 text-purple-700' },
-] as const
+// Champ vide ou invalide → pas de borne
+function readPointsInput(value: string) {
+  const points = Math.floor(Number(value))
+  return value === '' || !Number.isFinite(points) || points < 0 ? null : points
+}
 
 function sleep(ms: number) {
   return new Promise((res) => setTimeout(res, ms))
@@ -54,8 +174,15 @@ function sleep(ms: number) {
 /**
  * ✅ Source de vérité : Supabase Auth
  * - jamais de parsing localStorage à la main
+ * - hors ligne, getUser() ne peut pas joindre le serveur :
+ *   on se contente de la session locale (gérée par supabase-js)
  */
 async function getCurrentUserSafe(timeoutMs = 5000) {
+  if (!navigator.onLine) {
+    const { data } = await supabase.auth.getSession()
+    return data.session?.user ?? null
+  }
+
   const p = supabase.auth.getUser()
   const t = new Promise<null>((resolve) => setTimeout(() => resolve(null), timeoutMs))
   const result = (await Promise.race([p, t])) as Awaited<typeof p> | null
@@ -65,48 +192,131 @@ async function getCurrentUserSafe(timeoutMs = 5000) {
   return result.data.user ?? null
 }
 
-function isJwtExpiredError(err: any) {
-  const msg = String(err?.message || '')
-  const code = String(err?.code || '')
-  return (
-    msg.toLowerCase().includes('jwt') ||
-    msg.toLowerCase().includes('expired') ||
-    msg.toLowerCase().includes('token') ||
-    code === 'PGRST301' ||
-    code === '401'
-  )
-}
-
 export default function Tasks() {
   const navigate = useNavigate()
+  const setHousehold = useAuthStore((state: AuthState) => state.setHousehold)
+  const { t, formatDate, formatNumber } = useI18n()
 
   // UI state
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
   // Data state
-  const [householdId, setHouseholdId] = useState<string | null>(localStorage.getItem('homeflow_household_id'))
+  const [householdId, setHouseholdId] = useState<string | null>(() => useAuthStore.getState().householdId)
   const [householdName, setHouseholdName] = useState<string | null>(null)
+  const [memberships, setMemberships] = useState<Membership[]>([])
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
   const [members, setMembers] = useState<MemberMini[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
   const [tasks, setTasks] = useState<Task[]>([])
+  const [balances, setBalances] = useState<Record<string, number>>({})
+
+  // Validation parentale : règles du foyer + demandes en attente (tous filtres confondus)
+  const [approvalRules, setApprovalRules] = useState<ApprovalRule[]>([])
+  const [approvalInboxCount, setApprovalInboxCount] = useState(0)
+  const [showApprovals, setShowApprovals] = useState(false)
+
+  // Temps réel
+  const [toasts, setToasts] = useState<Toast[]>([])
+  const inFlight = useRef(new Map<string, number>())
+  const deferredEvents = useRef(new Map<string, RealtimeTaskEvent>())
+
+  // Pagination par curseur (défilement infini) ; loadSeq écarte les réponses d'anciens filtres
+  const [nextCursor, setNextCursor] = useState<TaskCursor | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [serverCounts, setServerCounts] = useState<TaskCounts | null>(null)
+  const loadSeq = useRef(0)
+  const countsTimer = useRef<number | null>(null)
+
+  // Offline
+  const [isOffline, setIsOffline] = useState(!navigator.onLine)
+  const [pendingSyncCount, setPendingSyncCount] = useState(0)
+  const [isSyncing, setIsSyncing] = useState(false)
+
+  // Filtres, recherche et tri : dans l'URL (liens partageables, précédent / suivant du navigateur)
+  const [searchParams, setSearchParams] = useSearchParams()
+  const query = useMemo(() => parseTaskQuery(searchParams), [searchParams])
+  const filter = query.status
+  const selectedMemberFilter = query.assignedTo
+  const categoryFilter = query.category
+  // Saisie en cours : reportée dans l'URL après une courte pause
+  const [searchInput, setSearchInput] = useState(query.search)
+  const [showAdvancedFilters, setShowAdvancedFilters] = useState(() => countAdvancedFilters(query) > 0)
+
+  // Liste, tableau ou calendrier (mémorisé sur l'appareil)
+  const [view, setView] = useState<TaskView>(() => {
+    const saved = localStorage.getItem(VIEW_KEY)
+    return saved === 'board' || saved === 'calendar' ? saved : 'list'
+  })
+  // Le tableau montre toujours toutes les colonnes : le filtre de statut ne s'applique qu'à la liste
+  const statusFilter: TaskStatusFilter = view === 'board' ? 'all' : filter
+  const activeQuery = useMemo<TaskQuery>(() => ({ ...query, status: statusFilter }), [query, statusFilter])
+  const activeQueryKey = taskQueryToParams(activeQuery).toString()
+  const sortTasks = compareTasks(activeQuery.sort)
+  // Le calendrier charge tout : sa grille suit les échéances, pas l'ordre de création
+  const paginated = view !== 'calendar'
+
+  // Chaque changement de filtre = une entrée d'historique (sauf replace)
+  const updateQuery = (changes: Partial<TaskQuery>, options?: { replace?: boolean }) =>
+    setSearchParams((current) => taskQueryToParams({ ...parseTaskQuery(current), ...changes }), options)
+  const setFilter = (status: TaskStatusFilter) => updateQuery({ status })
+  const setSelectedMemberFilter = (memberId: string | null) => updateQuery({ assignedTo: memberId })
+  const setCategoryFilter = (category: string | null) => updateQuery({ category })
+  const hasActiveFilters = !isUnfiltered(query)
+
+  // Le tri est conservé : ce n'est pas un filtre
+  const resetFilters = () => {
+    setSearchInput('')
+    updateQuery({ ...DEFAULT_TASK_QUERY, sort: query.sort })
+  }
 
-  // Filters
-  const [filter, setFilter] = useState<'all' | 'pending' | 'completed'>('all')
-  const [selectedMemberFilter, setSelectedMemberFilter] = useState<string | null>(null)
-
-  // Modal create task
+  // Modal create / edit task
   const [showModal, setShowModal] = useState(false)
+  const [editingTask, setEditingTask] = useState<Task | null>(null)
+  const [editScope, setEditScope] = useState<RecurrenceScope>('this')
   const [formError, setFormError] = useState<string | null>(null)
-  const [isSubmitting, setIsSubmitting] = useState(false)
 
-  const [formData, setFormData] = useState({
-    title: '',
-    description: '',
-    category: 'general',
-    assigned_to: '',
-    due_date: '',
-    points: 10,
+  // Attribution automatique : méthode mémorisée sur l'appareil, membre proposé par AutoAssignPanel
+  const [autoStrategy, setAutoStrategy] = useState<AssignStrategy>(() => {
+    const saved = localStorage.getItem(AUTO_ASSIGN_STRATEGY_KEY)
+    return isAssignStrategy(saved) ? saved : 'round_robin'
   })
+  const [autoAssignee, setAutoAssignee] = useState<string | null | undefined>(undefined)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Modals invitations / membres (admins)
+  const [showInvites, setShowInvites] = useState(false)
+  const [showMembers, setShowMembers] = useState(false)
+
+  // Modal export calendrier
+  const [showCalendarExport, setShowCalendarExport] = useState(false)
+  const [showTransfer, setShowTransfer] = useState(false)
+
+  // Modal catégories (parents)
+  const [showCategories, setShowCategories] = useState(false)
+
+  // Modal rappels et retards (parents)
+  const [showReminders, setShowReminders] = useState(false)
+
+  const [formData, setFormData] = useState(EMPTY_FORM)
+
+  // Modal répétition
+  const [recurrenceTask, setRecurrenceTask] = useState<Task | null>(null)
+
+  // Modal historique
+  const [historyTask, setHistoryTask] = useState<Task | null>(null)
+
+  // Liste de contrôle : on suit la tâche dans `tasks` (compteurs et options à jour)
+  const [checklistTaskId, setChecklistTaskId] = useState<string | null>(null)
+  const checklistTask = tasks.find((t) => t.id === checklistTaskId) ?? null
+
+  // Fil de commentaires (id, pour suivre les mises à jour de la tâche)
+  const [commentsTaskId, setCommentsTaskId] = useState<string | null>(null)
+  const commentsTask = tasks.find((t) => t.id === commentsTaskId) ?? null
+
+  // Photos de preuve (completing : ouvert depuis la complétion d'une tâche qui en exige une)
+  const [photoTarget, setPhotoTarget] = useState<{ taskId: string; completing: boolean } | null>(null)
+  const photoTask = tasks.find((t) => t.id === photoTarget?.taskId) ?? null
 
   // ✅ anti-boucle / anti-double init
   const hasInitialized = useRef(false)
@@ -114,12 +324,27 @@ export default function Tasks() {
   const lastRefreshTs = useRef<number>(0)
   const refreshLock = useRef(false)
 
-  const pendingCount = useMemo(() => tasks.filter((t) => t.status !== 'completed').length, [tasks])
-  const completedCount = useMemo(() => tasks.filter((t) => t.status === 'completed').length, [tasks])
-
-  const getCategoryStyle = (category: string) => {
-    return CATEGORIES.find((c) => c.value === category)?.color || CATEGORIES[0].color
-  }
+  // Compteurs de l'en-tête : serveur ; hors ligne, sur les tâches en cache
+  const counts = useMemo(
+    () => (isOffline || !serverCounts ? tallyTasks(tasks) : serverCounts),
+    [isOffline, serverCounts, tasks]
+  )
+  const pendingCount = counts.pending
+  const awaitingCount = counts.awaiting
+  const completedCount = counts.completed
+  const overdueCount = counts.overdue
+
+  const categoryLookup = useMemo(() => createCategoryLookup(categories), [categories])
+  const getCategoryStyle = categoryLookup.style
+  const getCategoryLabel = categoryLookup.label
+  const activeCategories = useMemo(() => categories.filter((c) => !c.archived), [categories])
+
+  // Rôle courant → actions visibles (la base applique la même matrice via RLS)
+  const myRole = members.find((m) => m.id === currentUserId)?.role ?? null
+  const canManageTasks = can(myRole, 'tasks.manage')
+  const canDeleteTasks = can(myRole, 'tasks.delete')
+  const canMoveTask = (task: Task) => canChangeStatus(myRole, currentUserId, task)
+  const canApprove = can(myRole, 'tasks.approve')
 
   /**
    * ✅ Hard reset propre :
@@ -147,29 +372,372 @@ export default function Tasks() {
    * (ne touche PAS à loading global pour éviter les loops)
    */
   const loadTasksForHousehold = async (targetHouseholdId: string) => {
-    try {
-      let query = supabase
-        .from('tasks')
-        .select('*')
-        .eq('household_id', targetHouseholdId)
-        .order('created_at', { ascending: false })
+    const seq = ++loadSeq.current
+    refreshTaskCounts(targetHouseholdId)
 
-      if (filter === 'pending') query = query.in('status', ['pending', 'in_progress'])
-      if (filter === 'completed') query = query.eq('status', 'completed')
-      if (selectedMemberFilter) query = query.eq('assigned_to', selectedMemberFilter)
+    try {
+      let loaded: Task[]
+      let cursor: TaskCursor | null = null
+      if (paginated) {
+        const page = unwrap(await listTaskPage(targetHouseholdId, activeQuery))
+        loaded = page.tasks
+        cursor = page.nextCursor
+      } else {
+        loaded = unwrap(await listTasks(targetHouseholdId, activeQuery))
+      }
 
-      const { data, error } = await query
+      // Filtres changés entre-temps : une réponse plus récente arrive
+      if (seq !== loadSeq.current) return
+      setTasks(loaded)
+      setNextCursor(cursor)
+      setIsOffline(false)
 
-      if (error) throw error
-      setTasks((data || []) as Task[])
+      // Copie locale : remplacée si on a tout le foyer, sinon complétée au fil des pages
+      cacheTasks(targetHouseholdId, loaded, isUnfiltered(activeQuery) && !cursor).catch((cacheErr) =>
+        console.warn('Erreur cache local:', cacheErr)
+      )
     } catch (err: any) {
       console.error('Erreur chargement tâches:', err)
+      if (isNetworkError(err)) {
+        setIsOffline(true)
+        await loadTasksFromCache(targetHouseholdId)
+        return
+      }
       if (isJwtExpiredError(err)) {
-        setError("Votre session a expiré. Veuillez vous reconnecter.")
+        setError(t('errors.sessionExpired'))
+      }
+    }
+  }
+
+  const loadTasksFromCache = async (targetHouseholdId: string) => {
+    try {
+      const cached = await getCachedTasks<Task>(targetHouseholdId)
+      setTasks(cached.filter((t) => matchesTaskQuery(t, activeQuery)).sort(sortTasks))
+      setNextCursor(null)
+    } catch (cacheErr) {
+      console.warn('Erreur lecture cache local:', cacheErr)
+    }
+  }
+
+  /**
+   * ✅ Page suivante (défilement infini)
+   * - une tâche déjà reçue par le temps réel n'est pas ajoutée deux fois
+   */
+  const loadMoreTasks = async () => {
+    const hId = householdId || localStorage.getItem('homeflow_household_id')
+    if (!hId || !nextCursor || loadingMore || isOffline) return
+
+    const seq = loadSeq.current
+    setLoadingMore(true)
+    try {
+      const page = unwrap(await listTaskPage(hId, activeQuery, nextCursor))
+      if (seq !== loadSeq.current) return
+
+      setTasks((current) => {
+        const known = new Set(current.map((t) => t.id))
+        return [...current, ...page.tasks.filter((t) => !known.has(t.id))]
+      })
+      setNextCursor(page.nextCursor)
+      cacheTasks(hId, page.tasks, false).catch((cacheErr) => console.warn('Erreur cache local:', cacheErr))
+    } catch (err: any) {
+      console.error('Erreur page suivante:', err)
+      if (isNetworkError(err)) setIsOffline(true)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  /**
+   * ✅ Compteurs de l'en-tête (mêmes filtres que la liste, statut mis à part)
+   * Hors ligne : on garde les derniers, l'en-tête se rabat sur les tâches en cache
+   */
+  const refreshTaskCounts = async (targetHouseholdId: string) => {
+    const { data, error } = await countTasks(targetHouseholdId, activeQuery)
+    if (error) {
+      if (!isNetworkError(error)) console.error('Erreur compteurs tâches:', error)
+      return
+    }
+    setServerCounts(data)
+  }
+
+  // Rafale d'événements temps réel (import, "Tout valider") → un seul recomptage
+  const scheduleCountsRefresh = () => {
+    const hId = householdId || localStorage.getItem('homeflow_household_id')
+    if (!hId) return
+    if (countsTimer.current) clearTimeout(countsTimer.current)
+    countsTimer.current = window.setTimeout(() => refreshTaskCounts(hId), COUNTS_DEBOUNCE_MS)
+  }
+
+  const refreshPendingCount = async () => {
+    setPendingSyncCount(await pendingMutationCount())
+  }
+
+  /**
+   * ✅ Fusionne un événement Realtime dans la liste
+   * - respecte les filtres et le tri (une tâche peut entrer ou sortir de la vue)
+   * - garde la copie locale (hors ligne) à jour
+   */
+  const applyRealtimeEvent = (event: RealtimeTaskEvent) => {
+    scheduleCountsRefresh()
+
+    if (event.type === 'DELETE') {
+      setTasks((current) => current.filter((t) => t.id !== event.taskId))
+      deleteCachedTask(event.taskId).catch(() => undefined)
+      return
+    }
+
+    const incoming = event.task
+    putCachedTask(incoming).catch(() => undefined)
+
+    setTasks((current) => {
+      const index = current.findIndex((t) => t.id === incoming.id)
+      if (!matchesTaskQuery(incoming, activeQuery)) {
+        return index === -1 ? current : current.filter((t) => t.id !== incoming.id)
+      }
+      if (index !== -1) return current.map((t) => (t.id === incoming.id ? incoming : t)).sort(sortTasks)
+      // Au-delà de la dernière page chargée : elle arrivera avec les pages suivantes
+      const last = current[current.length - 1]
+      if (nextCursor && last && sortTasks(incoming, last) > 0) return current
+      return [incoming, ...current].sort(sortTasks)
+    })
+
+    if (event.type === 'UPDATE' && event.previous.status !== incoming.status) {
+      refreshBalances(incoming.household_id)
+    }
+    if (
+      incoming.status === 'awaiting_approval' ||
+      (event.type === 'UPDATE' && event.previous.status === 'awaiting_approval')
+    ) {
+      refreshApprovalInbox(incoming.household_id)
+    }
+  }
+
+  const pushToast = (message: string) => {
+    setToasts((current) => [...current.slice(-2), { id: crypto.randomUUID(), message }])
+  }
+
+  const dismissToast = useCallback((id: string) => {
+    setToasts((current) => current.filter((t) => t.id !== id))
+  }, [])
+
+  const memberName = (id: string | null | undefined) =>
+    members.find((m) => m.id === id)?.display_name ?? t('tasks.someone')
+
+  /**
+   * ✅ Toast "Marie a terminé « Vaisselle »" (jamais pour mes propres actions)
+   */
+  const announceRealtimeEvent = (event: RealtimeTaskEvent) => {
+    if (event.type === 'INSERT') {
+      // Les occurrences générées par une série ne sont pas des ajouts "humains"
+      if (event.task.series_id || event.task.created_by === currentUserId) return
+      pushToast(t('tasks.toast.added', { name: memberName(event.task.created_by), title: event.task.title }))
+      return
+    }
+
+    if (event.type === 'UPDATE') {
+      const { task, previous } = event
+      if (task.status === 'completed' && previous.status !== 'completed' && task.completed_by !== currentUserId) {
+        pushToast(t('tasks.toast.completed', { name: memberName(task.completed_by), title: task.title }))
+      }
+
+      // Validation : la demande pour les parents, la décision pour celui qui l'a faite
+      if (task.status === 'awaiting_approval' && previous.status !== 'awaiting_approval') {
+        if (canApprove && task.submitted_by !== currentUserId) {
+          pushToast(t('tasks.toast.submitted', { name: memberName(task.submitted_by), title: task.title }))
+        }
+      } else if (previous.status === 'awaiting_approval' && previous.submitted_by === currentUserId) {
+        if (task.status === 'completed') pushToast(t('tasks.toast.approved', { title: task.title }))
+        else if (task.rejection_reason) {
+          pushToast(t('tasks.toast.rejected', { title: task.title, reason: task.rejection_reason }))
+        }
       }
     }
   }
 
+  /**
+   * ✅ Événement Realtime
+   * Pendant une mise à jour optimiste sur la même tâche, on diffère :
+   * l'événement (souvent l'écho de notre propre écriture) est appliqué
+   * une fois la mutation terminée, sans écraser l'état affiché entre-temps.
+   */
+  const handleRealtimeEvent = (event: RealtimeTaskEvent) => {
+    const taskId = event.type === 'DELETE' ? event.taskId : event.task.id
+    announceRealtimeEvent(event)
+
+    if (inFlight.current.has(taskId)) {
+      deferredEvents.current.set(taskId, event)
+      return
+    }
+    applyRealtimeEvent(event)
+  }
+
+  const beginMutation = (taskId: string) => {
+    inFlight.current.set(taskId, (inFlight.current.get(taskId) ?? 0) + 1)
+  }
+
+  const endMutation = (taskId: string) => {
+    const remaining = (inFlight.current.get(taskId) ?? 1) - 1
+    if (remaining > 0) {
+      inFlight.current.set(taskId, remaining)
+      return
+    }
+    inFlight.current.delete(taskId)
+
+    const deferred = deferredEvents.current.get(taskId)
+    if (deferred) {
+      deferredEvents.current.delete(taskId)
+      applyRealtimeEvent(deferred)
+    }
+  }
+
+  useRealtimeTasks(isOffline ? null : householdId, {
+    onEvent: handleRealtimeEvent,
+    onResubscribe: () => {
+      const hId = householdId || localStorage.getItem('homeflow_household_id')
+      if (hId) loadTasksForHousehold(hId)
+    },
+  })
+
+  // Liste virtualisée : seules les cartes proches de l'écran sont rendues (et leurs miniatures chargées)
+  const taskList = useVirtualList({
+    count: view === 'list' ? tasks.length : 0,
+    getKey: (index) => tasks[index].id,
+    estimateSize: TASK_CARD_ESTIMATE,
+  })
+  const photoThumbnails = useTaskPhotoThumbnails(
+    taskList.items.map((item) => tasks[item.index]),
+    isOffline
+  )
+
+  // Bas de la liste en vue : page suivante
+  useEffect(() => {
+    if (view !== 'list' || !nextCursor || loadingMore) return
+    if (taskList.range.end >= tasks.length - LOAD_MORE_THRESHOLD) loadMoreTasks()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [view, nextCursor, loadingMore, taskList.range.end, tasks.length])
+
+  useEffect(
+    () => () => {
+      if (countsTimer.current) clearTimeout(countsTimer.current)
+    },
+    []
+  )
+
+  /**
+   * ✅ Rejoue les modifications faites hors ligne, puis recharge
+   */
+  const syncPendingChanges = async () => {
+    const hId = householdId || localStorage.getItem('homeflow_household_id')
+    if (!navigator.onLine) return
+
+    setIsSyncing(true)
+    try {
+      const report = await replayQueue()
+      if (report.skipped || report.failed) {
+        console.warn('sync: conflits résolus côté serveur', report)
+      }
+    } catch (err) {
+      console.error('sync error:', err)
+    } finally {
+      setIsSyncing(false)
+      await refreshPendingCount()
+    }
+
+    if (hId) await Promise.all([loadTasksForHousehold(hId), refreshBalances(hId), refreshApprovalInbox(hId)])
+  }
+
+  /**
+   * ✅ Soldes de points (affichés à côté du filtre membre)
+   */
+  const refreshBalances = async (targetHouseholdId: string) => {
+    try {
+      setBalances(await loadBalances(targetHouseholdId))
+    } catch (err) {
+      console.warn('Erreur soldes:', err)
+    }
+  }
+
+  /**
+   * ✅ Nombre de demandes de validation (bouton "Validations" des parents)
+   */
+  const refreshApprovalInbox = async (targetHouseholdId: string) => {
+    try {
+      setApprovalInboxCount(await countAwaitingApproval(targetHouseholdId))
+    } catch (err) {
+      console.warn('Erreur validations:', err)
+    }
+  }
+
+  /**
+   * ✅ Contexte d'un foyer : membres + catégories + règles de validation (+ copie hors ligne)
+   * Partagé par init et le changement de foyer ; les tâches suivent via loadTasksForHousehold.
+   */
+  const loadHouseholdContext = async (userId: string, membership: Membership) => {
+    const hId = membership.householdId
+    const hName = membership.householdName
+
+    setHouseholdId(hId)
+    setHouseholdName(hName)
+    setHousehold(hId, hName)
+
+    const { data: membersData, error: membersError } = await listMembers(hId)
+
+    if (membersError) console.warn('Erreur members:', membersError)
+    setMembers(membersData || [])
+
+    const categoriesData = await listCategories(hId).catch((categoriesErr) => {
+      console.warn('Erreur catégories:', categoriesErr)
+      return [] as Category[]
+    })
+    setCategories(categoriesData)
+
+    const rulesData = await listApprovalRules(hId).catch((rulesErr) => {
+      console.warn('Erreur règles de validation:', rulesErr)
+      return [] as ApprovalRule[]
+    })
+    setApprovalRules(rulesData)
+
+    setMeta<OfflineSession>('session', {
+      userId,
+      householdId: hId,
+      householdName: hName,
+      members: membersData || [],
+      categories: categoriesData,
+      approvalRules: rulesData,
+    }).catch((metaErr) => console.warn('Erreur cache local:', metaErr))
+  }
+
+  /**
+   * ✅ Changement de foyer sans re-init
+   * - filtres remis à zéro (membres et catégories changent)
+   * - les tâches sont rechargées par l'effet des filtres (householdId en dépendance)
+   */
+  const switchHousehold = async (membership: Membership) => {
+    if (!currentUserId) return
+
+    setTasks([])
+    setBalances({})
+    setApprovalInboxCount(0)
+    setNextCursor(null)
+    setServerCounts(null)
+    updateQuery({ assignedTo: null, category: null, createdBy: null }, { replace: true })
+    setChecklistTaskId(null)
+    setCommentsTaskId(null)
+    setPhotoTarget(null)
+    setHistoryTask(null)
+    setRecurrenceTask(null)
+    setShowReminders(false)
+    setShowApprovals(false)
+
+    try {
+      await loadHouseholdContext(currentUserId, membership)
+      await Promise.all([refreshBalances(membership.householdId), refreshApprovalInbox(membership.householdId)])
+    } catch (err: any) {
+      console.error('switch household error:', err)
+      setError(t('tasks.error.switchHousehold'))
+    }
+  }
+
   /**
    * ✅ Init complet “sans boucle”
    * - getUser() (source de vérité)
@@ -188,35 +756,54 @@ export default function Tasks() {
       if (!user) {
         throw new Error('AUTH_INVALID')
       }
+      setCurrentUserId(user.id)
+
+      await refreshPendingCount()
+
+      const { data: mine, error: memberError } = await listMyMemberships(user.id)
+
+      // Hors ligne : on repart du dernier contexte connu
+      if (memberError?.kind === 'network') {
+        const session = await getMeta<OfflineSession>('session').catch(() => null)
+        if (session && session.userId === user.id) {
+          setIsOffline(true)
+          setHouseholdId(session.householdId)
+          setHouseholdName(session.householdName)
+          setHousehold(session.householdId, session.householdName)
+          setMembers(session.members)
+          setCategories(session.categories ?? [])
+          setApprovalRules(session.approvalRules ?? [])
+          await loadTasksFromCache(session.householdId)
+          return
+        }
+      }
 
-      const { data: memberData, error: memberError } = await supabase
-        .from('members')
-        .select('household_id, households(id, name)')
-        .eq('id', user.id)
-        .single()
-
-      if (memberError || !memberData) {
+      if (memberError) {
         console.error('Erreur membre:', memberError)
         throw new Error('MEMBER_FETCH_ERROR')
       }
 
-      const householdData = memberData.households as any
-      const hId = householdData?.id as string
-      const hName = householdData?.name as string
+      // Foyer mémorisé s'il en fait toujours partie, sinon le premier
+      const preferred = useAuthStore.getState().householdId
+      const membership = mine.find((m) => m.householdId === preferred) ?? mine[0]
 
-      setHouseholdId(hId)
-      setHouseholdName(hName)
-      localStorage.setItem('homeflow_household_id', hId)
+      // Pas encore de foyer → onboarding (création ou invitation)
+      if (!membership) {
+        navigate('/onboarding', { replace: true })
+        return
+      }
 
-      const { data: membersData, error: membersError } = await supabase
-        .from('members')
-        .select('id, display_name')
-        .eq('household_id', memberData.household_id)
+      setMemberships(mine)
+      await loadHouseholdContext(user.id, membership)
+      const hId = membership.householdId
 
-      if (membersError) console.warn('Erreur members:', membersError)
-      setMembers((membersData || []) as MemberMini[])
+      // Des modifications faites hors ligne attendent ? on les envoie d'abord
+      if ((await pendingMutationCount()) > 0) {
+        await replayQueue().catch((syncErr) => console.error('sync error:', syncErr))
+        await refreshPendingCount()
+      }
 
-      await loadTasksForHousehold(hId)
+      await Promise.all([loadTasksForHousehold(hId), refreshBalances(hId), refreshApprovalInbox(hId)])
     } catch (err: any) {
       console.error('Erreur init:', err)
 
@@ -226,11 +813,11 @@ export default function Tasks() {
       }
 
       if (err?.message === 'MEMBER_FETCH_ERROR') {
-        setError("Impossible de trouver votre profil membre. Essayez de vous reconnecter.")
+        setError(t('tasks.error.memberNotFound'))
         return
       }
 
-      setError("Erreur de connexion. Vérifiez votre réseau et réessayez.")
+      setError(t('errors.network'))
     } finally {
       setLoading(false)
     }
@@ -257,12 +844,17 @@ export default function Tasks() {
 
       if (!user) {
         // session perdue → login
-        setError("Votre session a expiré. Veuillez vous reconnecter.")
+        setError(t('errors.sessionExpired'))
         await sleep(200) // micro délai UI
         await hardLogoutAndGoLogin()
         return
       }
 
+      if (navigator.onLine && (await pendingMutationCount()) > 0) {
+        await syncPendingChanges()
+        return
+      }
+
       const hId = householdId || localStorage.getItem('homeflow_household_id')
       if (hId) {
         await loadTasksForHousehold(hId)
@@ -293,7 +885,7 @@ export default function Tasks() {
   }, [])
 
   /**
-   * ✅ Recharge tasks quand filtres changent (sans relancer init)
+   * ✅ Recharge tasks quand filtres ou foyer changent (sans relancer init)
    */
   useEffect(() => {
     const hId = householdId || localStorage.getItem('homeflow_household_id')
@@ -302,7 +894,26 @@ export default function Tasks() {
     if (error) return
     loadTasksForHousehold(hId)
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filter, selectedMemberFilter])
+  }, [householdId, activeQueryKey, paginated])
+
+  /**
+   * ✅ Recherche : l'URL suit la saisie après une pause
+   * - une seule entrée d'historique par recherche, pas une par lettre
+   */
+  useEffect(() => {
+    const search = searchInput.trim()
+    if (search === query.search) return
+    const replace = !!query.search && !!search
+    const timer = setTimeout(() => updateQuery({ search }, { replace }), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchInput])
+
+  // Précédent / suivant ou vue enregistrée : le champ reprend la recherche de l'URL
+  useEffect(() => {
+    setSearchInput((current) => (current.trim() === query.search ? current : query.search))
+    if (countAdvancedFilters(query) > 0) setShowAdvancedFilters(true)
+  }, [query])
 
   /**
    * ✅ Quand tu reviens sur l’onglet = on refresh
@@ -326,6 +937,26 @@ export default function Tasks() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [householdId])
 
+  /**
+   * ✅ Réseau : hors ligne → bandeau, retour du réseau → synchro
+   */
+  useEffect(() => {
+    const onOnline = () => {
+      setIsOffline(false)
+      syncPendingChanges()
+    }
+    const onOffline = () => setIsOffline(true)
+
+    window.addEventListener('online', onOnline)
+    window.addEventListener('offline', onOffline)
+
+    return () => {
+      window.removeEventListener('online', onOnline)
+      window.removeEventListener('offline', onOffline)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [householdId])
+
   /**
    * ✅ Si Supabase change la session (refresh token / signout),
    * on réagit immédiatement.
@@ -357,7 +988,8 @@ export default function Tasks() {
   }
 
   /**
-   * ✅ Create task (robuste)
+   * ✅ Create task (robuste, fonctionne hors ligne)
+   * - ids générés côté client → la mutation peut être rejouée sans doublon
    */
   const handleCreateTask = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -375,11 +1007,36 @@ export default function Tasks() {
       }
 
       const hId = householdId || localStorage.getItem('homeflow_household_id')
-      if (!hId) throw new Error('Erreur de foyer. Rafraîchissez la page.')
+      if (!hId) throw new Error(t('tasks.error.household'))
+
+      const isAuto = formData.assigned_to === AUTO_ASSIGNEE
+      if (isAuto && !autoAssignee) {
+        throw new Error(t(autoAssignee === undefined ? 'autoAssign.loading' : 'autoAssign.nobody'))
+      }
+      const assignedToValue = isAuto ? autoAssignee! : formData.assigned_to === '' ? null : formData.assigned_to
+      const recurrence = formData.recurrence
 
-      const assignedToValue = formData.assigned_to === '' ? null : formData.assigned_to
+      if (recurrence && !isValidRecurrence(recurrence)) {
+        throw new Error(t('tasks.error.recurrenceDays'))
+      }
 
-      const taskData = {
+      // Tâche récurrente : la série garde le modèle des prochaines occurrences
+      const series = recurrence
+        ? {
+            id: crypto.randomUUID(),
+            household_id: hId,
+            title: formData.title,
+            description: formData.description || null,
+            category: formData.category,
+            assigned_to: assignedToValue,
+            created_by: user.id,
+            points: formData.points,
+            recurrence,
+          }
+        : null
+
+      const taskData: Task = {
+        id: crypto.randomUUID(),
         household_id: hId,
         title: formData.title,
         description: formData.description || null,
@@ -387,92 +1044,431 @@ export default function Tasks() {
         assigned_to: assignedToValue,
         created_by: user.id,
         points: formData.points,
-        due_date: formData.due_date || null,
-        status: 'pending' as const,
+        due_date: formData.due_date || (recurrence ? firstDueDate(recurrence) : null),
+        status: 'pending',
+        created_at: new Date().toISOString(),
+        completed_at: null,
+        completed_by: null,
+        submitted_at: null,
+        submitted_by: null,
+        rejection_reason: null,
+        reopened_at: null,
+        series_id: series?.id ?? null,
+        recurrence,
+        checklist_total: 0,
+        comment_count: 0,
+        requires_photo: formData.requires_photo,
+        photo_count: 0,
+        checklist_done: 0,
+        auto_complete: false,
+        split_points: false,
       }
 
-      const { error: insertError } = await supabase.from('tasks').insert(taskData)
+      beginMutation(taskData.id)
+      const outcome = await runMutation({ type: 'create', task: taskData, series }).finally(() =>
+        endMutation(taskData.id)
+      )
 
-      if (insertError) throw insertError
+      setFormData(EMPTY_FORM)
+      setShowModal(false)
 
-      setFormData({
-        title: '',
-        description: '',
-        category: 'general',
-        assigned_to: '',
-        due_date: '',
-        points: 10,
-      })
+      if (outcome.status === 'queued') {
+        await putCachedTask(taskData)
+        await refreshPendingCount()
+        if (matchesTaskQuery(taskData, activeQuery)) {
+          setTasks((current) => [taskData, ...current].sort(sortTasks))
+        }
+        return
+      }
 
-      setShowModal(false)
       await loadTasksForHousehold(hId)
     } catch (err: any) {
       console.error('❌ create task error:', err)
 
       if (err?.message === 'SESSION_EXPIRED' || isJwtExpiredError(err)) {
-        setFormError('Votre session a expiré. Rafraîchissez la page pour vous reconnecter.')
+        setFormError(t('tasks.error.sessionRefresh'))
         return
       }
 
-      setFormError(err?.message || 'Une erreur est survenue lors de la création.')
+      setFormError(err?.message || t('tasks.error.create'))
     } finally {
       setIsSubmitting(false)
     }
   }
 
+  const openCreateModal = () => {
+    setFormError(null)
+    const base = editingTask ? EMPTY_FORM : formData
+    // Catégorie par défaut archivée par le foyer → première catégorie active
+    const fallback = activeCategories.some((c) => c.slug === base.category) ? null : activeCategories[0]
+    if (fallback) setFormData({ ...base, category: fallback.slug, points: fallback.default_points })
+    else if (editingTask) setFormData(EMPTY_FORM)
+    setEditingTask(null)
+    setShowModal(true)
+  }
+
+  const openEditModal = (task: Task) => {
+    setFormError(null)
+    setEditingTask(task)
+    setEditScope('this')
+    setFormData({
+      title: task.title,
+      description: task.description ?? '',
+      category: task.category,
+      assigned_to: task.assigned_to ?? '',
+      due_date: task.due_date ?? '',
+      points: task.points,
+      recurrence: task.recurrence,
+      requires_photo: task.requires_photo,
+    })
+    setShowModal(true)
+  }
+
+  const closeTaskModal = () => {
+    setShowModal(false)
+    if (editingTask) {
+      setEditingTask(null)
+      setFormData(EMPTY_FORM)
+    }
+  }
+
+  /**
+   * ✅ Envoie des modifications de champs (ou les met en file hors ligne)
+   * puis reporte le résultat dans la liste
+   */
+  const saveTaskChanges = async (task: Task, changes: TaskChanges, scope: RecurrenceScope) => {
+    beginMutation(task.id)
+    try {
+      const outcome = await runMutation({ type: 'update', task, changes, scope })
+      const updated: Task = { ...task, ...changes }
+
+      if (outcome.status === 'skipped') {
+        pushToast(t('tasks.toast.deletedMeanwhile', { title: task.title }))
+        setTasks((current) => current.filter((t) => t.id !== task.id))
+        return outcome
+      }
+
+      setTasks((current) =>
+        matchesTaskQuery(updated, activeQuery)
+          ? current.map((t) => (t.id === task.id ? updated : t)).sort(sortTasks)
+          : current.filter((t) => t.id !== task.id)
+      )
+
+      if (outcome.status === 'queued') {
+        await putCachedTask(updated)
+        await refreshPendingCount()
+      }
+      return outcome
+    } finally {
+      endMutation(task.id)
+    }
+  }
+
+  /**
+   * ✅ Edit task (fonctionne hors ligne)
+   * - seuls les champs réellement modifiés partent au serveur
+   *   (deux personnes qui modifient deux champs différents ne s'écrasent pas)
+   * - l'historique est écrit côté base par trigger
+   */
+  const handleUpdateTask = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setFormError(null)
+
+    const task = editingTask
+    if (!task || isSubmitting) return
+
+    const next: TaskChanges = {
+      title: formData.title.trim(),
+      description: formData.description.trim() || null,
+      category: formData.category,
+      assigned_to: formData.assigned_to || null,
+      due_date: formData.due_date || null,
+      points: formData.points,
+      requires_photo: formData.requires_photo,
+    }
+    const changes = Object.fromEntries(
+      Object.entries(next).filter(([key, value]) => task[key as keyof TaskChanges] !== value)
+    ) as TaskChanges
+
+    if (!next.title) {
+      setFormError(t('tasks.error.titleRequired'))
+      return
+    }
+    if (Object.keys(changes).length === 0) {
+      closeTaskModal()
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      await saveTaskChanges(task, changes, editScope)
+      closeTaskModal()
+    } catch (err: any) {
+      console.error('❌ update task error:', err)
+
+      if (isJwtExpiredError(err)) {
+        setFormError(t('tasks.error.sessionRefresh'))
+        return
+      }
+
+      setFormError(err?.message || t('tasks.error.update'))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  /**
+   * ✅ Replanification depuis le calendrier (optimistic, annulée en cas d'erreur)
+   */
+  const handleReschedule = async (task: Task, dueDate: string | null) => {
+    setTasks((current) => current.map((t) => (t.id === task.id ? { ...t, due_date: dueDate } : t)))
+
+    try {
+      await saveTaskChanges(task, { due_date: dueDate }, 'this')
+    } catch (err: any) {
+      console.error('reschedule error:', err)
+      setTasks((current) => current.map((t) => (t.id === task.id ? task : t)))
+
+      if (isJwtExpiredError(err)) {
+        setError(t('errors.sessionExpired'))
+        await hardLogoutAndGoLogin()
+        return
+      }
+      pushToast(t('tasks.toast.rescheduleFailed', { title: task.title }))
+    }
+  }
+
+  /**
+   * ✅ Progression de la liste de contrôle
+   * - compteurs mis à jour localement (le trigger serveur fait foi, relayé par Realtime)
+   * - auto_complete : dernière étape cochée → la tâche passe en "Terminé" (ou "À valider")
+   */
+  const handleChecklistProgress = (task: Task, total: number, done: number) => {
+    const updated: Task = { ...task, checklist_total: total, checklist_done: done }
+    setTasks((current) => current.map((t) => (t.id === task.id ? updated : t)))
+
+    const finished = task.status === 'completed' || task.status === 'awaiting_approval'
+    if (task.auto_complete && total > 0 && done === total && !finished) {
+      handleChangeStatus(updated, 'completed')
+    }
+  }
+
   /**
-   * ✅ Toggle completion (optimistic)
+   * ✅ Changement de statut (optimistic, fonctionne hors ligne)
+   * - case à cocher de la liste, ou carte déplacée sur le tableau
+   * - completed_at / completed_by posés en entrant dans "Terminé", effacés en sortant
+   * - terminer une tâche soumise à validation la place "À valider" (sans points)
+   * - une tâche à valider déplacée par un parent : "Terminé" valide, ailleurs refuse
    */
-  const handleToggleComplete = async (task: Task) => {
+  const handleChangeStatus = async (task: Task, requested: TaskStatus) => {
+    if (!currentUserId || requested === task.status || !canMoveTask(task)) return
+
+    if (task.status === 'awaiting_approval' && canApprove) {
+      if (requested === 'completed') handleApprove(task)
+      else handleReject(task)
+      return
+    }
+
+    const finishing = requested === 'completed' || requested === 'awaiting_approval'
+    const newStatus: TaskStatus = !finishing
+      ? requested
+      : needsApproval(task, { id: currentUserId, role: myRole }, approvalRules)
+        ? 'awaiting_approval'
+        : 'completed'
+    if (newStatus === task.status) return
+
+    // Pas de complétion (ni de points) sans la photo demandée : elle s'envoie en ligne
+    if (finishing && task.photo_count === 0 && requiresPhoto(task, categoryLookup.find)) {
+      if (isOffline) pushToast(t('tasks.toast.photoOffline', { title: task.title }))
+      else setPhotoTarget({ taskId: task.id, completing: true })
+      return
+    }
+
     const oldStatus = task.status
-    const newStatus: TaskStatus = task.status === 'completed' ? 'pending' : 'completed'
+    const at = new Date().toISOString()
+    const updated: Task = {
+      ...task,
+      status: newStatus,
+      completed_at: newStatus === 'completed' ? at : null,
+      completed_by: newStatus === 'completed' ? currentUserId : null,
+      submitted_at: newStatus === 'awaiting_approval' ? at : null,
+      submitted_by: newStatus === 'awaiting_approval' ? currentUserId : null,
+    }
 
-    setTasks((current) => current.map((t) => (t.id === task.id ? { ...t, status: newStatus } : t)))
+    setTasks((current) => current.map((t) => (t.id === task.id ? updated : t)))
+    beginMutation(task.id)
 
     try {
-      const completedAt = newStatus === 'completed' ? new Date().toISOString() : null
-      const { error } = await supabase
-        .from('tasks')
-        .update({ status: newStatus, completed_at: completedAt })
-        .eq('id', task.id)
+      const outcome = await runMutation({
+        type: 'toggle',
+        task,
+        from: oldStatus,
+        to: newStatus,
+        at,
+        actorId: currentUserId,
+      })
+
+      if (outcome.status === 'queued') {
+        await putCachedTask(updated)
+        await refreshPendingCount()
+        return
+      }
 
-      if (error) throw error
+      await refreshBalances(task.household_id)
 
-      if (filter !== 'all') {
+      // skipped = modifiée ailleurs entre-temps → on reprend l'état serveur
+      if (statusFilter !== 'all' || outcome.status === 'skipped' || outcome.spawned) {
         const hId = householdId || localStorage.getItem('homeflow_household_id')
         if (hId) await loadTasksForHousehold(hId)
       }
     } catch (err: any) {
-      console.error('toggle error:', err)
-      setTasks((current) => current.map((t) => (t.id === task.id ? { ...t, status: oldStatus } : t)))
+      console.error('status change error:', err)
+      setTasks((current) => current.map((t) => (t.id === task.id ? task : t)))
+
+      // Exigence ajoutée entre-temps (catégorie modifiée sur un autre appareil…)
+      if (String(err?.message || '').includes('PHOTO_REQUIRED')) {
+        setPhotoTarget({ taskId: task.id, completing: true })
+        return
+      }
+
+      // Règle de validation ajoutée entre-temps : on la recharge, le prochain clic demandera la validation
+      if (String(err?.message || '').includes('APPROVAL_REQUIRED')) {
+        pushToast(t('tasks.toast.approvalRequired', { title: task.title }))
+        listApprovalRules(task.household_id)
+          .then(setApprovalRules)
+          .catch((rulesErr) => console.warn('Erreur règles de validation:', rulesErr))
+        return
+      }
 
       if (isJwtExpiredError(err)) {
-        setError('Votre session a expiré. Veuillez vous reconnecter.')
+        setError(t('errors.sessionExpired'))
         await hardLogoutAndGoLogin()
       }
+    } finally {
+      endMutation(task.id)
+    }
+  }
+
+  // Case d'une tâche à valider : le parent valide, l'enfant retire sa demande
+  const handleToggleComplete = (task: Task) => {
+    if (task.status === 'awaiting_approval') {
+      handleChangeStatus(task, canApprove ? 'completed' : 'pending')
+      return
+    }
+    handleChangeStatus(task, task.status === 'completed' ? 'pending' : 'completed')
+  }
+
+  /**
+   * ✅ Décision d'un parent reportée dans la liste (boîte de validation, case ou tableau)
+   */
+  const applyApprovalDecision = async (decided: Task, spawned: boolean) => {
+    setTasks((current) =>
+      matchesTaskQuery(decided, activeQuery)
+        ? current.map((t) => (t.id === decided.id ? decided : t))
+        : current.filter((t) => t.id !== decided.id)
+    )
+    putCachedTask(decided).catch(() => undefined)
+    setApprovalInboxCount((count) => Math.max(0, count - 1))
+
+    await refreshBalances(decided.household_id)
+    if (spawned) await loadTasksForHousehold(decided.household_id)
+  }
+
+  /**
+   * ✅ Validation / refus depuis la liste ou le tableau (en ligne uniquement)
+   * null = décidée ailleurs entre-temps → on reprend l'état serveur
+   */
+  const handleApprove = async (task: Task) => {
+    if (!currentUserId) return
+    if (isOffline) {
+      pushToast(t('tasks.toast.approvalOffline'))
+      return
+    }
+
+    beginMutation(task.id)
+    try {
+      const result = await approveTask(task, currentUserId)
+      if (result) await applyApprovalDecision(result.task, result.spawned)
+      else await loadTasksForHousehold(task.household_id)
+    } catch (err: any) {
+      console.error('approve error:', err)
+      pushToast(t('tasks.toast.decisionFailed', { title: task.title }))
+    } finally {
+      endMutation(task.id)
+    }
+  }
+
+  const handleReject = async (task: Task) => {
+    if (isOffline) {
+      pushToast(t('tasks.toast.approvalOffline'))
+      return
+    }
+
+    const reason = prompt(t('tasks.rejectPrompt', { title: task.title }))
+    if (reason === null) return
+    if (!reason.trim()) {
+      pushToast(t('tasks.toast.reasonRequired'))
+      return
+    }
+
+    beginMutation(task.id)
+    try {
+      const updated = await rejectTask(task, reason)
+      if (updated) await applyApprovalDecision(updated, false)
+      else await loadTasksForHousehold(task.household_id)
+    } catch (err: any) {
+      console.error('reject error:', err)
+      pushToast(t('tasks.toast.decisionFailed', { title: task.title }))
+    } finally {
+      endMutation(task.id)
+    }
+  }
+
+  const changeAutoStrategy = (next: AssignStrategy) => {
+    setAutoStrategy(next)
+    try {
+      localStorage.setItem(AUTO_ASSIGN_STRATEGY_KEY, next)
+    } catch {
+      // ignore
+    }
+  }
+
+  const changeView = (next: TaskView) => {
+    setView(next)
+    try {
+      localStorage.setItem(VIEW_KEY, next)
+    } catch {
+      // ignore
     }
   }
 
   /**
-   * ✅ Delete task (optimistic)
+   * ✅ Delete task (optimistic, fonctionne hors ligne)
    */
   const handleDeleteTask = async (taskId: string) => {
-    if (!confirm('Supprimer cette tâche ?')) return
+    if (!canDeleteTasks || !confirm(t('tasks.deleteConfirm'))) return
 
     const previous = [...tasks]
     setTasks((curr) => curr.filter((t) => t.id !== taskId))
+    beginMutation(taskId)
 
     try {
-      const { error } = await supabase.from('tasks').delete().eq('id', taskId)
-      if (error) throw error
+      const hId = householdId || localStorage.getItem('homeflow_household_id') || ''
+      const outcome = await runMutation({ type: 'delete', taskId, householdId: hId })
+
+      await deleteCachedTask(taskId).catch((cacheErr) => console.warn('Erreur cache local:', cacheErr))
+      if (outcome.status === 'queued') await refreshPendingCount()
     } catch (err: any) {
       console.error('delete error:', err)
       setTasks(previous)
 
       if (isJwtExpiredError(err)) {
-        setError('Votre session a expiré. Veuillez vous reconnecter.')
+        setError(t('errors.sessionExpired'))
         await hardLogoutAndGoLogin()
       }
+    } finally {
+      endMutation(taskId)
     }
   }
 
@@ -482,8 +1478,8 @@ export default function Tasks() {
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
         <div className="text-center">
           <Loader2 className="h-12 w-12 animate-spin text-blue-600 mx-auto" />
-          <p className="mt-4 text-lg font-medium text-gray-700">Chargement...</p>
-          <p className="mt-2 text-sm text-gray-500">Connexion en cours...</p>
+          <p className="mt-4 text-lg font-medium text-gray-700">{t('common.loading')}</p>
+          <p className="mt-2 text-sm text-gray-500">{t('tasks.connecting')}</p>
         </div>
       </div>
     )
@@ -495,7 +1491,7 @@ export default function Tasks() {
       <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
         <div className="text-center max-w-md w-full bg-white p-8 rounded-2xl shadow-lg border border-red-100">
           <WifiOff className="h-16 w-16 text-red-500 mx-auto mb-4" />
-          <h2 className="text-xl font-bold text-gray-900 mb-2">Problème de connexion</h2>
+          <h2 className="text-xl font-bold text-gray-900 mb-2">{t('tasks.connectionProblem')}</h2>
           <p className="text-gray-600 mb-6">{error}</p>
 
           <div className="space-y-3">
@@ -506,14 +1502,14 @@ export default function Tasks() {
               }}
               className="w-full py-3 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition font-medium shadow-md flex items-center justify-center gap-2"
             >
-              <RefreshCw className="w-5 h-5" /> Réessayer
+              <RefreshCw className="w-5 h-5" /> {t('common.retry')}
             </button>
 
             <button
               onClick={hardLogoutAndGoLogin}
               className="w-full py-3 bg-white border border-red-200 text-red-600 rounded-xl hover:bg-red-50 transition font-medium flex items-center justify-center gap-2"
             >
-              <AlertTriangle className="w-5 h-5" /> Se reconnecter
+              <AlertTriangle className="w-5 h-5" /> {t('tasks.reconnect')}
             </button>
           </div>
         </div>
@@ -521,6 +1517,10 @@ export default function Tasks() {
     )
   }
 
+  // Catégories proposées : actives, plus celle de la tâche modifiée si elle a été archivée depuis
+  const formCategory = categoryLookup.find(formData.category)
+  const categoryOptions = formCategory?.archived ? [...activeCategories, formCategory] : activeCategories
+
   // ✅ UI Normal
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-50">
@@ -534,18 +1534,101 @@ export default function Tasks() {
                 className="flex items-center hover:opacity-80 transition"
               >
                 <Home className="w-8 h-8 text-blue-600 mr-3" />
-                <div>
-                  <h1 className="text-xl font-bold text-gray-900">HomeFlow</h1>
-                  {householdName && <p className="text-xs text-gray-500">{householdName}</p>}
-                </div>
+                <h1 className="text-xl font-bold text-gray-900">HomeFlow</h1>
+              </button>
+              <div className="ml-3">
+                <HouseholdSwitcher
+                  memberships={memberships}
+                  currentHouseholdId={householdId}
+                  currentHouseholdName={householdName}
+                  disabled={isOffline || memberships.length === 0}
+                  onSwitch={switchHousehold}
+                  onAdd={() => navigate('/onboarding?add=1')}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <NotificationCenter householdId={householdId} memberId={currentUserId} disabled={isOffline} />
+              <button
+                onClick={() => navigate('/rewards')}
+                className="flex items-center px-4 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+              >
+                <Gift className="w-4 h-4 mr-2" /> {t('nav.rewards')}
+              </button>
+              <button
+                onClick={() => navigate('/leaderboard')}
+                className="flex items-center px-4 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+              >
+                <Trophy className="w-4 h-4 mr-2" /> {t('nav.leaderboard')}
+              </button>
+              <button
+                onClick={() => setShowCalendarExport(true)}
+                className="flex items-center px-4 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+              >
+                <CalendarPlus className="w-4 h-4 mr-2" /> {t('nav.export')}
+              </button>
+              {canManageTasks && (
+                <button
+                  onClick={() => setShowTransfer(true)}
+                  className="flex items-center px-4 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+                >
+                  <FileSpreadsheet className="w-4 h-4 mr-2" /> {t('nav.importExport')}
+                </button>
+              )}
+              {can(myRole, 'categories.manage') && (
+                <button
+                  onClick={() => setShowCategories(true)}
+                  className="flex items-center px-4 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+                >
+                  <Tags className="w-4 h-4 mr-2" /> {t('nav.categories')}
+                </button>
+              )}
+              {canApprove && (
+                <button
+                  onClick={() => setShowApprovals(true)}
+                  disabled={isOffline}
+                  className="flex items-center px-4 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition disabled:opacity-50"
+                >
+                  <ShieldCheck className="w-4 h-4 mr-2" /> {t('nav.approvals')}
+                  {approvalInboxCount > 0 && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full bg-amber-500 text-white text-xs font-semibold">
+                      {formatNumber(approvalInboxCount)}
+                    </span>
+                  )}
+                </button>
+              )}
+              {can(myRole, 'reminders.manage') && (
+                <button
+                  onClick={() => setShowReminders(true)}
+                  className="flex items-center px-4 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+                >
+                  <BellRing className="w-4 h-4 mr-2" /> {t('nav.reminders')}
+                </button>
+              )}
+              {can(myRole, 'members.manage') && (
+                <>
+                  <button
+                    onClick={() => setShowMembers(true)}
+                    className="flex items-center px-4 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+                  >
+                    <Users className="w-4 h-4 mr-2" /> {t('nav.members')}
+                  </button>
+                  <button
+                    onClick={() => setShowInvites(true)}
+                    className="flex items-center px-4 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+                  >
+                    <UserPlus className="w-4 h-4 mr-2" /> {t('nav.invite')}
+                  </button>
+                </>
+              )}
+              <LanguageSwitcher className="px-2" />
+              <button
+                onClick={handleLogout}
+                className="flex items-center px-4 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+              >
+                <LogOut className="w-4 h-4 mr-2" /> {t('common.logout')}
               </button>
             </div>
-            <button
-              onClick={handleLogout}
-              className="flex items-center px-4 py-2 text-sm text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
-            >
-              <LogOut className="w-4 h-4 mr-2" /> Déconnexion
-            </button>
           </div>
         </div>
       </nav>
@@ -555,162 +1638,771 @@ export default function Tasks() {
         {/* Header */}
         <div className="flex justify-between items-center mb-8">
           <div>
-            <h2 className="text-3xl font-bold text-gray-900 mb-2">Tâches familiales</h2>
+            <h2 className="text-3xl font-bold text-gray-900 mb-2">{t('tasks.title')}</h2>
             <p className="text-gray-600">
-              {pendingCount} en cours • {completedCount} complétées
+              {t('tasks.summary.pending', { count: pendingCount })} •{' '}
+              {t('tasks.summary.completed', { count: completedCount })}
+              {awaitingCount > 0 && (
+                <span className="text-amber-700 font-medium">
+                  {' '}
+                  • {t('tasks.summary.awaiting', { count: awaitingCount })}
+                </span>
+              )}
+              {overdueCount > 0 && (
+                <span className="text-red-600 font-medium">
+                  {' '}
+                  • {t('tasks.summary.overdue', { count: overdueCount })}
+                </span>
+              )}
             </p>
+            {(isOffline || pendingSyncCount > 0) && (
+              <div className="mt-2 flex items-center gap-2 text-sm">
+                {isOffline && (
+                  <span className="flex items-center px-3 py-1 rounded-full bg-gray-200 text-gray-700">
+                    <CloudOff className="w-4 h-4 mr-1" /> {t('tasks.offline')}
+                  </span>
+                )}
+                {pendingSyncCount > 0 && (
+                  <button
+                    onClick={syncPendingChanges}
+                    disabled={isOffline || isSyncing}
+                    className="flex items-center px-3 py-1 rounded-full bg-amber-100 text-amber-800 hover:bg-amber-200 transition disabled:cursor-default disabled:hover:bg-amber-100"
+                    title={t('tasks.syncNow')}
+                  >
+                    <RefreshCw className={`w-4 h-4 mr-1 ${isSyncing ? 'animate-spin' : ''}`} />
+                    {t('tasks.pendingSync', { count: pendingSyncCount })}
+                  </button>
+                )}
+              </div>
+            )}
           </div>
 
-          <button
-            onClick={() => {
-              setFormError(null)
-              setShowModal(true)
-            }}
-            className="flex items-center px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium shadow-lg hover:shadow-xl"
-          >
-            <Plus className="w-5 h-5 mr-2" /> Nouvelle tâche
-          </button>
-        </div>
-
-        {/* Filtres */}
-        <div className="bg-white rounded-xl shadow-sm p-4 mb-6 border border-gray-100">
-          <div className="flex flex-wrap gap-4 items-center">
-            <div className="flex items-center gap-2">
-              <Filter className="w-5 h-5 text-gray-500" />
-              <span className="text-sm font-medium text-gray-700">Filtres :</span>
-            </div>
-
-            <div className="flex gap-2">
+          <div className="flex items-center gap-3">
+            <div className="flex bg-white rounded-lg border border-gray-200 p-1 shadow-sm">
               <button
-                onClick={() => setFilter('all')}
-                className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
-                  filter === 'all' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                onClick={() => changeView('list')}
+                className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition ${
+                  view === 'list' ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
                 }`}
+                title={t('tasks.view.listTitle')}
               >
-                Toutes
+                <List className="w-4 h-4 mr-1" /> {t('tasks.view.list')}
               </button>
               <button
-                onClick={() => setFilter('pending')}
-                className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
-                  filter === 'pending'
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                onClick={() => changeView('board')}
+                className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition ${
+                  view === 'board' ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
                 }`}
+                title={t('tasks.view.boardTitle')}
               >
-                En cours
+                <KanbanSquare className="w-4 h-4 mr-1" /> {t('tasks.view.board')}
               </button>
               <button
-                onClick={() => setFilter('completed')}
-                className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
-                  filter === 'completed'
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                onClick={() => changeView('calendar')}
+                className={`flex items-center px-3 py-2 rounded-md text-sm font-medium transition ${
+                  view === 'calendar' ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
                 }`}
+                title={t('tasks.view.calendarTitle')}
               >
-                Complétées
+                <CalendarDays className="w-4 h-4 mr-1" /> {t('tasks.view.calendar')}
               </button>
             </div>
 
+            {canManageTasks && (
+              <button
+                onClick={openCreateModal}
+                className="flex items-center px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium shadow-lg hover:shadow-xl"
+              >
+                <Plus className="w-5 h-5 mr-2" /> {t('tasks.new')}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Recherche, filtres et tri (reflétés dans l'URL) */}
+        <div className="bg-white rounded-xl shadow-sm p-4 mb-6 border border-gray-100">
+          <div className="flex flex-wrap gap-3 items-center mb-4">
+            <div className="relative flex-1 min-w-[16rem]">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="search"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder={t('tasks.search.placeholder')}
+                className="w-full pl-9 pr-9 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              {searchInput && (
+                <button
+                  onClick={() => setSearchInput('')}
+                  className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-gray-400 hover:text-gray-600 rounded"
+                  title={t('tasks.search.clear')}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+
+            <div className="flex gap-2 items-center">
+              <ArrowUpDown className="w-4 h-4 text-gray-500" />
+              <select
+                value={query.sort}
+                onChange={(e) => updateQuery({ sort: e.target.value as TaskSort })}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                title={t('tasks.sort.label')}
+              >
+                {TASK_SORTS.map((sort) => (
+                  <option key={sort} value={sort}>
+                    {t(SORT_LABEL_KEYS[sort])}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <button
+              onClick={() => setShowAdvancedFilters((v) => !v)}
+              className={`flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium transition ${
+                showAdvancedFilters ? 'bg-blue-50 text-blue-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              <SlidersHorizontal className="w-4 h-4" /> {t('tasks.filter.more')}
+              {countAdvancedFilters(query) > 0 && (
+                <span className="ml-1 px-1.5 rounded-full bg-blue-600 text-white text-xs">
+                  {countAdvancedFilters(query)}
+                </span>
+              )}
+            </button>
+
+            {householdId && currentUserId && (
+              <SavedViewsMenu
+                householdId={householdId}
+                memberId={currentUserId}
+                currentQuery={taskQueryToParams(query).toString()}
+                disabled={isOffline}
+                onApply={(saved) => setSearchParams(taskQueryToParams(parseTaskQuery(new URLSearchParams(saved))))}
+                onError={pushToast}
+              />
+            )}
+
+            {hasActiveFilters && (
+              <button
+                onClick={resetFilters}
+                className="flex items-center gap-1 px-3 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition"
+              >
+                <RotateCcw className="w-4 h-4" /> {t('tasks.filter.reset')}
+              </button>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-4 items-center">
+            <div className="flex items-center gap-2">
+              <Filter className="w-5 h-5 text-gray-500" />
+              <span className="text-sm font-medium text-gray-700">{t('tasks.filters')}</span>
+            </div>
+
+            {view !== 'board' && (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setFilter('all')}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
+                    filter === 'all' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {t('tasks.filter.all')}
+                </button>
+                <button
+                  onClick={() => setFilter('pending')}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
+                    filter === 'pending'
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {t('tasks.filter.pending')}
+                </button>
+                <button
+                  onClick={() => setFilter('awaiting_approval')}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
+                    filter === 'awaiting_approval'
+                      ? 'bg-amber-500 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {t('tasks.filter.awaiting')}
+                </button>
+                <button
+                  onClick={() => setFilter('completed')}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
+                    filter === 'completed'
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {t('tasks.filter.completed')}
+                </button>
+                <button
+                  onClick={() => setFilter('overdue')}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
+                    filter === 'overdue' ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {t('tasks.filter.overdue')}
+                </button>
+              </div>
+            )}
+
             <div className="flex gap-2 items-center ml-auto">
+              <Tags className="w-4 h-4 text-gray-500" />
+              <select
+                value={categoryFilter || ''}
+                onChange={(e) => setCategoryFilter(e.target.value || null)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">{t('tasks.filter.allCategories')}</option>
+                {categories.map((c) => (
+                  <option key={c.slug} value={c.slug}>
+                    {c.label}
+                    {c.archived ? t('tasks.archivedSuffix') : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex gap-2 items-center">
               <User className="w-4 h-4 text-gray-500" />
               <select
                 value={selectedMemberFilter || ''}
                 onChange={(e) => setSelectedMemberFilter(e.target.value || null)}
                 className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
-                <option value="">Tous les membres</option>
+                <option value="">{t('tasks.filter.allMembers')}</option>
                 {members.map((m) => (
                   <option key={m.id} value={m.id}>
-                    {m.display_name}
+                    {m.display_name} ({t('common.points', { count: balances[m.id] ?? 0 })})
                   </option>
                 ))}
               </select>
+              {selectedMemberFilter && (
+                <span className="text-sm text-gray-600" title={t('tasks.balanceTitle')}>
+                  {t('tasks.balance')}{' '}
+                  <span className="font-semibold text-blue-600">
+                    {t('common.points', { count: balances[selectedMemberFilter] ?? 0 })}
+                  </span>
+                </span>
+              )}
             </div>
           </div>
-        </div>
 
-        {/* Liste */}
-        <div className="space-y-3">
-          {tasks.length === 0 ? (
-            <div className="bg-white rounded-xl shadow-sm p-12 text-center border border-gray-100">
-              <CheckCircle2 className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-              <p className="text-gray-500 mb-2">Aucune tâche pour le moment</p>
-              <p className="text-sm text-gray-400">
-                {filter === 'completed' ? 'Aucune tâche complétée' : 'Crée ta première tâche pour commencer !'}
-              </p>
+          {showAdvancedFilters && (
+            <div className="flex flex-wrap gap-4 items-center mt-4 pt-4 border-t border-gray-100">
+              <label className="flex gap-2 items-center text-sm text-gray-700">
+                {t('tasks.filter.creator')}
+                <select
+                  value={query.createdBy || ''}
+                  onChange={(e) => updateQuery({ createdBy: e.target.value || null })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">{t('tasks.filter.allCreators')}</option>
+                  {members.map((m) => (
+                    <option key={m.id} value={m.id}>
+                      {m.display_name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <div className="flex gap-2 items-center text-sm text-gray-700">
+                <CalendarDays className="w-4 h-4 text-gray-500" />
+                {t('tasks.filter.dueFrom')}
+                <input
+                  type="date"
+                  value={query.dueFrom ?? ''}
+                  max={query.dueTo ?? undefined}
+                  onChange={(e) => updateQuery({ dueFrom: e.target.value || null })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                {t('tasks.filter.dueTo')}
+                <input
+                  type="date"
+                  value={query.dueTo ?? ''}
+                  min={query.dueFrom ?? undefined}
+                  onChange={(e) => updateQuery({ dueTo: e.target.value || null })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              {/* Saisie au clavier : on remplace l'entrée d'historique au lieu d'en empiler une par chiffre */}
+              <div className="flex gap-2 items-center text-sm text-gray-700">
+                <Trophy className="w-4 h-4 text-gray-500" />
+                {t('tasks.filter.points')}
+                <input
+                  type="number"
+                  min={0}
+                  value={query.pointsMin ?? ''}
+                  onChange={(e) => updateQuery({ pointsMin: readPointsInput(e.target.value) }, { replace: true })}
+                  placeholder={t('tasks.filter.pointsMin')}
+                  className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                –
+                <input
+                  type="number"
+                  min={0}
+                  value={query.pointsMax ?? ''}
+                  onChange={(e) => updateQuery({ pointsMax: readPointsInput(e.target.value) }, { replace: true })}
+                  placeholder={t('tasks.filter.pointsMax')}
+                  className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
             </div>
-          ) : (
-            tasks.map((task) => (
-              <div
-                key={task.id}
-                className={`bg-white rounded-xl shadow-sm p-6 border transition hover:shadow-md ${
-                  task.status === 'completed' ? 'border-green-200 bg-green-50' : 'border-gray-100'
-                }`}
-              >
-                <div className="flex items-start gap-4">
-                  <button onClick={() => handleToggleComplete(task)} className="mt-1 flex-shrink-0">
-                    {task.status === 'completed' ? (
-                      <CheckCircle2 className="w-6 h-6 text-green-600" />
-                    ) : (
-                      <Circle className="w-6 h-6 text-gray-400 hover:text-blue-600 transition" />
-                    )}
-                  </button>
+          )}
+        </div>
 
-                  <div className="flex-1">
-                    <div className="flex items-start justify-between gap-4">
-                      <div className="flex-1">
-                        <h3
-                          className={`text-lg font-semibold mb-1 ${
-                            task.status === 'completed' ? 'text-gray-500 line-through' : 'text-gray-900'
-                          }`}
-                        >
-                          {task.title}
-                        </h3>
-
-                        {task.description && <p className="text-gray-600 text-sm mb-3">{task.description}</p>}
-
-                        <div className="flex flex-wrap gap-2 items-center">
-                          <span className={`px-3 py-1 rounded-full text-xs font-medium ${getCategoryStyle(task.category)}`}>
-                            {CATEGORIES.find((c) => c.value === task.category)?.label || 'Général'}
-                          </span>
-
-                          {task.due_date && (
-                            <span className="flex items-center text-xs text-gray-600">
-                              <Clock className="w-3 h-3 mr-1" />
-                              {new Date(task.due_date).toLocaleDateString('fr-FR')}
-                            </span>
-                          )}
-
-                          <span className="text-xs font-medium text-blue-600">{task.points} pts</span>
+        {/* Liste / tableau / calendrier */}
+        {view === 'board' ? (
+          <TaskBoard
+            tasks={tasks}
+            members={members}
+            categoryLabel={getCategoryLabel}
+            categoryStyle={getCategoryStyle}
+            onMove={handleChangeStatus}
+            onEdit={canManageTasks ? openEditModal : undefined}
+            canMove={canMoveTask}
+          />
+        ) : view === 'calendar' ? (
+          <TaskCalendar
+            tasks={tasks}
+            categoryLabel={getCategoryLabel}
+            categoryStyle={getCategoryStyle}
+            onReschedule={canManageTasks ? handleReschedule : undefined}
+            onEdit={canManageTasks ? openEditModal : undefined}
+          />
+        ) : (
+          <div className="space-y-3">
+            {tasks.length === 0 ? (
+              <div className="bg-white rounded-xl shadow-sm p-12 text-center border border-gray-100">
+                <CheckCircle2 className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <p className="text-gray-500 mb-2">{t('tasks.empty')}</p>
+                <p className="text-sm text-gray-400">
+                  {query.search || countAdvancedFilters(query) > 0
+                    ? t('tasks.emptyFiltered')
+                    : filter === 'completed'
+                      ? t('tasks.emptyCompleted')
+                      : filter === 'overdue'
+                        ? t('tasks.emptyOverdue')
+                        : filter === 'awaiting_approval'
+                          ? t('tasks.emptyAwaiting')
+                          : t('tasks.emptyHint')}
+                </p>
+              </div>
+            ) : (
+              <div ref={taskList.containerRef} className="relative" style={{ height: taskList.totalSize }}>
+                {taskList.items.map(({ index, key, start }) => {
+                  const task = tasks[index]
+                  return (
+                    <div
+                      key={key}
+                      ref={taskList.measure}
+                      data-virtual-key={key}
+                      className="absolute inset-x-0 top-0 pb-3"
+                      style={{ transform: `translateY(${start}px)` }}
+                    >
+                      <div
+                        className={`bg-white rounded-xl shadow-sm p-6 border transition hover:shadow-md ${
+                          task.status === 'completed'
+                            ? 'border-green-200 bg-green-50'
+                            : task.status === 'awaiting_approval'
+                              ? 'border-amber-200 bg-amber-50/40'
+                              : isOverdue(task)
+                              ? 'border-red-200 bg-red-50/40'
+                              : 'border-gray-100'
+                        }`}
+                      >
+                        <div className="flex items-start gap-4">
+                          <button
+                            onClick={() => handleToggleComplete(task)}
+                            disabled={!canMoveTask(task)}
+                            className="mt-1 flex-shrink-0 disabled:cursor-not-allowed disabled:opacity-50"
+                            title={
+                              !canMoveTask(task)
+                                ? t('tasks.onlyAssignee')
+                                : task.status === 'awaiting_approval'
+                                  ? t(canApprove ? 'tasks.approve' : 'tasks.withdraw')
+                                  : undefined
+                            }
+                          >
+                            {task.status === 'completed' ? (
+                              <CheckCircle2 className="w-6 h-6 text-green-600" />
+                            ) : task.status === 'awaiting_approval' ? (
+                              <Hourglass className="w-6 h-6 text-amber-500" />
+                            ) : (
+                              <Circle className="w-6 h-6 text-gray-400 hover:text-blue-600 transition" />
+                            )}
+                          </button>
+
+                          <div className="flex-1">
+                            <div className="flex items-start justify-between gap-4">
+                              <div className="flex-1">
+                                <h3
+                                  className={`text-lg font-semibold mb-1 ${
+                                    task.status === 'completed' ? 'text-gray-500 line-through' : 'text-gray-900'
+                                  }`}
+                                >
+                                  {task.title}
+                                </h3>
+
+                                {task.description && <p className="text-gray-600 text-sm mb-3">{task.description}</p>}
+
+                                <div className="flex flex-wrap gap-2 items-center">
+                                  <span
+                                    className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium ${getCategoryStyle(
+                                      task.category
+                                    )}`}
+                                  >
+                                    <CategoryIcon icon={categoryLookup.find(task.category)?.icon ?? 'tag'} />
+                                    {getCategoryLabel(task.category)}
+                                  </span>
+
+                                  {task.due_date && (
+                                    <span
+                                      className={`flex items-center text-xs ${
+                                        isOverdue(task) ? 'text-red-600 font-medium' : 'text-gray-600'
+                                      }`}
+                                    >
+                                      <Clock className="w-3 h-3 mr-1" />
+                                      {formatDate(parseDateOnly(task.due_date))}
+                                    </span>
+                                  )}
+
+                                  {isOverdue(task) && (
+                                    <span className="px-3 py-1 rounded-full text-xs font-medium bg-red-100 text-red-700">
+                                      {t('tasks.overdueBy', { count: daysLate(task.due_date) })}
+                                    </span>
+                                  )}
+
+                                  {task.status === 'in_progress' && (
+                                    <span className="px-3 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-700">
+                                      {t('tasks.inProgress')}
+                                    </span>
+                                  )}
+
+                                  {task.status === 'awaiting_approval' && (
+                                    <span className="flex items-center px-3 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                                      <Hourglass className="w-3 h-3 mr-1" />
+                                      {t('tasks.awaitingApproval', { name: memberName(task.submitted_by) })}
+                                    </span>
+                                  )}
+
+                                  {(task.status === 'pending' || task.status === 'in_progress') &&
+                                    task.rejection_reason && (
+                                      <span className="px-3 py-1 rounded-full text-xs font-medium bg-red-100 text-red-700">
+                                        {t('tasks.rejected', { reason: task.rejection_reason })}
+                                      </span>
+                                    )}
+
+                                  <span className="text-xs font-medium text-blue-600">{t('common.points', { count: task.points })}</span>
+
+                                  {task.checklist_total > 0 && (
+                                    <button
+                                      onClick={() => setChecklistTaskId(task.id)}
+                                      className={`flex items-center text-xs font-medium hover:underline ${
+                                        task.checklist_done === task.checklist_total ? 'text-green-600' : 'text-gray-600'
+                                      }`}
+                                      title={t('tasks.checklist')}
+                                    >
+                                      <ListChecks className="w-3 h-3 mr-1" />
+                                      {task.checklist_done}/{task.checklist_total}
+                                    </button>
+                                  )}
+
+                                  <button
+                                    onClick={() => setCommentsTaskId(task.id)}
+                                    disabled={isOffline}
+                                    className={`flex items-center text-xs font-medium enabled:hover:underline ${
+                                      task.comment_count > 0 ? 'text-gray-700' : 'text-gray-400'
+                                    }`}
+                                    title={t('tasks.comments', { count: task.comment_count })}
+                                  >
+                                    <MessageSquare className="w-3 h-3 mr-1" />
+                                    {task.comment_count}
+                                  </button>
+
+                                  {task.status !== 'completed' &&
+                                    task.photo_count === 0 &&
+                                    requiresPhoto(task, categoryLookup.find) && (
+                                      <span className="flex items-center px-3 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-700">
+                                        <Camera className="w-3 h-3 mr-1" />
+                                        {t('tasks.photoRequired')}
+                                      </span>
+                                    )}
+
+                                  {(task.recurrence || task.series_id) && (
+                                    <button
+                                      onClick={() => setRecurrenceTask(task)}
+                                      disabled={!canManageTasks}
+                                      className="flex items-center text-xs text-indigo-600 enabled:hover:underline"
+                                      title={canManageTasks ? t('tasks.editRecurrence') : undefined}
+                                    >
+                                      <Repeat className="w-3 h-3 mr-1" />
+                                      {task.recurrence
+                                        ? describeRecurrence(task.recurrence, t)
+                                        : t('tasks.seriesStopped')}
+                                    </button>
+                                  )}
+                                </div>
+
+                                {task.photo_count > 0 && (photoThumbnails[task.id]?.length ?? 0) > 0 && (
+                                  <button
+                                    onClick={() => setPhotoTarget({ taskId: task.id, completing: false })}
+                                    disabled={isOffline}
+                                    className="mt-3 flex items-center gap-2"
+                                    title={t('tasks.photos', { count: task.photo_count })}
+                                  >
+                                    {photoThumbnails[task.id].slice(0, 3).map((thumb) => (
+                                      <img key={thumb.id} src={thumb.url} alt="" className="w-12 h-12 rounded-lg object-cover border" />
+                                    ))}
+                                    {task.photo_count > 3 && (
+                                      <span className="text-xs font-medium text-gray-600">+{task.photo_count - 3}</span>
+                                    )}
+                                  </button>
+                                )}
+                              </div>
+
+                              <div className="flex gap-2">
+                                {canMoveTask(task) && (
+                                  <button
+                                    onClick={() => setPhotoTarget({ taskId: task.id, completing: false })}
+                                    disabled={isOffline}
+                                    className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition disabled:opacity-50"
+                                    title={t('tasks.addPhotos')}
+                                  >
+                                    <Camera className="w-5 h-5" />
+                                  </button>
+                                )}
+                                {canManageTasks && (
+                                  <button
+                                    onClick={() => openEditModal(task)}
+                                    className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition"
+                                    title={t('common.edit')}
+                                  >
+                                    <Pencil className="w-5 h-5" />
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => setChecklistTaskId(task.id)}
+                                  className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition"
+                                  title={t('tasks.checklist')}
+                                >
+                                  <ListChecks className="w-5 h-5" />
+                                </button>
+                                <button
+                                  onClick={() => setHistoryTask(task)}
+                                  className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition"
+                                  title={t('tasks.history')}
+                                >
+                                  <History className="w-5 h-5" />
+                                </button>
+                                {canDeleteTasks && (
+                                  <button
+                                    onClick={() => handleDeleteTask(task.id)}
+                                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                                    title={t('common.delete')}
+                                  >
+                                    <Trash2 className="w-5 h-5" />
+                                  </button>
+                                )}
+                              </div>
+                            </div>
+                          </div>
                         </div>
                       </div>
-
-                      <div className="flex gap-2">
-                        <button
-                          onClick={() => handleDeleteTask(task.id)}
-                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
-                          title="Supprimer"
-                        >
-                          <Trash2 className="w-5 h-5" />
-                        </button>
-                      </div>
                     </div>
-                  </div>
-                </div>
+                  )
+                })}
               </div>
-            ))
-          )}
-        </div>
+            )}
+          </div>
+        )}
+
+        {/* Pages suivantes : au défilement dans la liste, à la demande dans le tableau */}
+        {nextCursor && (
+          <div className="flex justify-center py-6">
+            {loadingMore ? (
+              <span className="flex items-center text-sm text-gray-500">
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" /> {t('common.loading')}
+              </span>
+            ) : (
+              <button
+                onClick={loadMoreTasks}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition"
+              >
+                {t('tasks.loadMore')}
+              </button>
+            )}
+          </div>
+        )}
       </main>
 
+      <Toasts toasts={toasts} onDismiss={dismissToast} />
+
+      {showInvites && householdId && currentUserId && (
+        <InvitesModal
+          householdId={householdId}
+          currentMemberId={currentUserId}
+          onClose={() => setShowInvites(false)}
+        />
+      )}
+
+      {showMembers && householdId && currentUserId && (
+        <MembersModal
+          householdId={householdId}
+          currentMemberId={currentUserId}
+          members={members}
+          onClose={() => setShowMembers(false)}
+          onChange={(next) => {
+            setMembers(next)
+            getMeta<OfflineSession>('session')
+              .then((session) => session && setMeta<OfflineSession>('session', { ...session, members: next }))
+              .catch(() => undefined)
+          }}
+        />
+      )}
+
+      {showApprovals && householdId && currentUserId && (
+        <ApprovalsModal
+          householdId={householdId}
+          currentUserId={currentUserId}
+          members={members}
+          categories={categories}
+          rules={approvalRules}
+          refreshKey={approvalInboxCount}
+          onClose={() => setShowApprovals(false)}
+          onRulesChange={(next) => {
+            setApprovalRules(next)
+            getMeta<OfflineSession>('session')
+              .then((session) => session && setMeta<OfflineSession>('session', { ...session, approvalRules: next }))
+              .catch(() => undefined)
+          }}
+          onDecided={applyApprovalDecision}
+        />
+      )}
+
+      {showReminders && householdId && (
+        <ReminderRulesModal householdId={householdId} onClose={() => setShowReminders(false)} />
+      )}
+
+      {showCalendarExport && householdId && currentUserId && (
+        <CalendarExportModal
+          householdId={householdId}
+          householdName={householdName}
+          currentMemberId={currentUserId}
+          members={members}
+          categoryLabel={getCategoryLabel}
+          onClose={() => setShowCalendarExport(false)}
+        />
+      )}
+
+      {showCategories && householdId && (
+        <CategoriesModal
+          householdId={householdId}
+          categories={categories}
+          members={members}
+          onClose={() => setShowCategories(false)}
+          onChange={(next) => {
+            setCategories(next)
+            getMeta<OfflineSession>('session')
+              .then((session) => session && setMeta<OfflineSession>('session', { ...session, categories: next }))
+              .catch(() => undefined)
+          }}
+        />
+      )}
+
+      {showTransfer && householdId && currentUserId && (
+        <TaskTransferModal
+          householdId={householdId}
+          householdName={householdName}
+          currentMemberId={currentUserId}
+          members={members}
+          categories={categories}
+          onClose={() => setShowTransfer(false)}
+          onImported={() => loadTasksForHousehold(householdId)}
+        />
+      )}
+
+      {recurrenceTask && (
+        <RecurrenceModal
+          task={recurrenceTask}
+          onClose={() => setRecurrenceTask(null)}
+          onSaved={() => {
+            setRecurrenceTask(null)
+            const hId = householdId || localStorage.getItem('homeflow_household_id')
+            if (hId) loadTasksForHousehold(hId)
+          }}
+        />
+      )}
+
+      {checklistTask && (
+        <ChecklistModal
+          task={checklistTask}
+          members={members}
+          onClose={() => setChecklistTaskId(null)}
+          onProgress={(total, done) => handleChecklistProgress(checklistTask, total, done)}
+          onOptionsChange={(changes) => saveTaskChanges(checklistTask, changes, 'this')}
+          canEdit={canManageTasks}
+          canCheck={canMoveTask(checklistTask)}
+        />
+      )}
+
+      {commentsTask && currentUserId && (
+        <CommentsModal
+          task={commentsTask}
+          members={members}
+          currentUserId={currentUserId}
+          onClose={() => setCommentsTaskId(null)}
+          onCountChange={(count) =>
+            setTasks((current) => current.map((t) => (t.id === commentsTask.id ? { ...t, comment_count: count } : t)))
+          }
+        />
+      )}
+
+      {photoTask && photoTarget && currentUserId && (
+        <PhotoProofModal
+          task={photoTask}
+          members={members}
+          currentUserId={currentUserId}
+          canDeleteAny={canManageTasks}
+          required={requiresPhoto(photoTask, categoryLookup.find)}
+          completing={
+            photoTarget.completing && photoTask.status !== 'completed' && photoTask.status !== 'awaiting_approval'
+          }
+          onClose={() => setPhotoTarget(null)}
+          onPhotosChange={(count) =>
+            setTasks((current) => current.map((t) => (t.id === photoTask.id ? { ...t, photo_count: count } : t)))
+          }
+          onComplete={(count) => {
+            setPhotoTarget(null)
+            handleChangeStatus({ ...photoTask, photo_count: count }, 'completed')
+          }}
+        />
+      )}
+
+      {historyTask && (
+        <TaskHistoryModal
+          task={historyTask}
+          members={members}
+          categoryLabel={getCategoryLabel}
+          onClose={() => setHistoryTask(null)}
+        />
+      )}
+
       {/* MODAL */}
       {showModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
             <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center">
-              <h3 className="text-2xl font-bold text-gray-900">Créer une tâche</h3>
+              <h3 className="text-2xl font-bold text-gray-900">
+                {editingTask ? t('tasks.form.editTitle') : t('tasks.form.createTitle')}
+              </h3>
               <button
-                onClick={() => setShowModal(false)}
+                onClick={closeTaskModal}
                 className="p-2 hover:bg-gray-100 rounded-lg transition"
                 disabled={isSubmitting}
               >
@@ -723,30 +2415,30 @@ export default function Tasks() {
                 <div className="flex items-start gap-3">
                   <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
                   <div>
-                    <h4 className="text-sm font-medium text-red-800">Erreur</h4>
+                    <h4 className="text-sm font-medium text-red-800">{t('common.error')}</h4>
                     <p className="text-sm text-red-600 mt-1">{formError}</p>
                   </div>
                 </div>
                 <button
                   onClick={() => {
-                    setShowModal(false)
+                    closeTaskModal()
                     refreshIfNeeded()
                   }}
                   className="mt-2 text-sm text-blue-600 font-medium hover:underline flex items-center gap-1 self-end"
                 >
-                  <RefreshCw className="w-4 h-4" /> Rafraîchir
+                  <RefreshCw className="w-4 h-4" /> {t('common.refresh')}
                 </button>
               </div>
             )}
 
-            <form onSubmit={handleCreateTask} className="p-6 space-y-6">
+            <form onSubmit={editingTask ? handleUpdateTask : handleCreateTask} className="p-6 space-y-6">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Titre de la tâche *</label>
+                <label className="block text-sm font-medium text-gray-700 mb-2">{t('tasks.form.title')}</label>
                 <input
                   type="text"
                   value={formData.title}
                   onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                  placeholder="Ex: Faire les courses"
+                  placeholder={t('tasks.form.titlePlaceholder')}
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   required
                   disabled={isSubmitting}
@@ -754,11 +2446,11 @@ export default function Tasks() {
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                <label className="block text-sm font-medium text-gray-700 mb-2">{t('tasks.form.description')}</label>
                 <textarea
                   value={formData.description}
                   onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  placeholder="Détails de la tâche..."
+                  placeholder={t('tasks.form.descriptionPlaceholder')}
                   rows={3}
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   disabled={isSubmitting}
@@ -767,30 +2459,40 @@ export default function Tasks() {
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Catégorie</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t('tasks.form.category')}</label>
                   <select
                     value={formData.category}
-                    onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                    onChange={(e) => {
+                      const category = e.target.value
+                      // Création : les points suivent la catégorie choisie
+                      const defaults = editingTask ? null : categoryLookup.find(category)
+                      setFormData({ ...formData, category, points: defaults?.default_points ?? formData.points })
+                    }}
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     disabled={isSubmitting}
                   >
-                    {CATEGORIES.map((cat) => (
-                      <option key={cat.value} value={cat.value}>
+                    {categoryOptions.map((cat) => (
+                      <option key={cat.slug} value={cat.slug}>
                         {cat.label}
+                        {cat.archived ? t('tasks.archivedSuffix') : ''}
                       </option>
                     ))}
+                    {!formCategory && <option value={formData.category}>{getCategoryLabel(formData.category)}</option>}
                   </select>
                 </div>
 
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Assigner à</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t('tasks.form.assignee')}</label>
                   <select
                     value={formData.assigned_to}
                     onChange={(e) => setFormData({ ...formData, assigned_to: e.target.value })}
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     disabled={isSubmitting}
                   >
-                    <option value="">Non assigné</option>
+                    <option value="">{t('tasks.form.unassigned')}</option>
+                    {!editingTask && !isOffline && members.length > 1 && (
+                      <option value={AUTO_ASSIGNEE}>{t('tasks.form.autoAssign')}</option>
+                    )}
                     {members.map((m) => (
                       <option key={m.id} value={m.id}>
                         {m.display_name}
@@ -800,9 +2502,22 @@ export default function Tasks() {
                 </div>
               </div>
 
+              {!editingTask && formData.assigned_to === AUTO_ASSIGNEE && householdId && (
+                <AutoAssignPanel
+                  householdId={householdId}
+                  category={formData.category}
+                  categoryLabel={getCategoryLabel(formData.category)}
+                  members={members}
+                  strategy={autoStrategy}
+                  onStrategyChange={changeAutoStrategy}
+                  onPick={setAutoAssignee}
+                  disabled={isSubmitting}
+                />
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Date d'échéance</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t('tasks.form.dueDate')}</label>
                   <input
                     type="date"
                     value={formData.due_date}
@@ -812,7 +2527,7 @@ export default function Tasks() {
                   />
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Points</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t('tasks.form.points')}</label>
                   <input
                     type="number"
                     value={formData.points}
@@ -825,28 +2540,76 @@ export default function Tasks() {
                 </div>
               </div>
 
+              {!editingTask && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t('tasks.form.recurrence')}</label>
+                  <RecurrenceFields
+                    value={formData.recurrence}
+                    onChange={(recurrence) => setFormData({ ...formData, recurrence })}
+                    disabled={isSubmitting}
+                  />
+                </div>
+              )}
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.requires_photo}
+                  onChange={(e) => setFormData({ ...formData, requires_photo: e.target.checked })}
+                  disabled={isSubmitting}
+                />
+                <Camera className="w-4 h-4 text-gray-500" />
+                {formCategory?.requires_photo ? t('tasks.form.requiresPhotoCategory') : t('tasks.form.requiresPhoto')}
+              </label>
+
+              {editingTask?.series_id && (
+                <fieldset className="space-y-2">
+                  <legend className="block text-sm font-medium text-gray-700 mb-2">{t('tasks.form.applyTo')}</legend>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      checked={editScope === 'this'}
+                      onChange={() => setEditScope('this')}
+                      disabled={isSubmitting}
+                    />
+                    {t('tasks.form.scopeThis')}
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      checked={editScope === 'future'}
+                      onChange={() => setEditScope('future')}
+                      disabled={isSubmitting}
+                    />
+                    {t('tasks.form.scopeFuture')}
+                  </label>
+                </fieldset>
+              )}
+
               <div className="flex gap-3 pt-4">
                 <button
                   type="button"
-                  onClick={() => setShowModal(false)}
+                  onClick={closeTaskModal}
                   className="flex-1 px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition font-medium"
                   disabled={isSubmitting}
                 >
-                  Annuler
+                  {t('common.cancel')}
                 </button>
 
                 <button
                   type="submit"
-                  disabled={isSubmitting}
+                  disabled={isSubmitting || (!editingTask && formData.assigned_to === AUTO_ASSIGNEE && !autoAssignee)}
                   className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
                 >
                   {isSubmitting ? (
                     <>
                       <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                      Création...
+                      {editingTask ? t('tasks.form.saving') : t('tasks.form.creating')}
                     </>
+                  ) : editingTask ? (
+                    t('common.save')
                   ) : (
-                    'Créer la tâche'
+                    t('tasks.form.create')
                   )}
                 </button>
               </div>
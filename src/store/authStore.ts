@@ -13,14 +13,33 @@ export type AuthState = {
   clearAuth: () => void
 }
 
+// Foyer actif (un utilisateur peut appartenir à plusieurs foyers) : mémorisé entre les visites
+export const HOUSEHOLD_KEY = 'homeflow_household_id'
+
+function readStoredHousehold() {
+  try {
+    return localStorage.getItem(HOUSEHOLD_KEY)
+  } catch {
+    return null
+  }
+}
+
 export const useAuthStore = create<AuthState>((set) => ({
   user: null,
-  householdId: null,
+  householdId: readStoredHousehold(),
   householdName: null,
   loading: true,
 
   setUser: (user) => set({ user }),
-  setHousehold: (id, name = null) => set({ householdId: id, householdName: name }),
+  setHousehold: (id, name = null) => {
+    try {
+      if (id) localStorage.setItem(HOUSEHOLD_KEY, id)
+      else localStorage.removeItem(HOUSEHOLD_KEY)
+    } catch {
+      // ignore
+    }
+    set({ householdId: id, householdName: name })
+  },
   setLoading: (loading) => set({ loading }),
   clearAuth: () =>
     set({
@@ -0,0 +1,28 @@
+import { create } from 'zustand'
+import { detectLocale, LOCALE_KEY, type Locale } from '@/lib/i18n'
+
+export type LocaleState = {
+  locale: Locale
+  setLocale: (locale: Locale) => void
+}
+
+function applyLocale(locale: Locale) {
+  try {
+    localStorage.setItem(LOCALE_KEY, locale)
+  } catch {
+    // ignore
+  }
+  document.documentElement.lang = locale
+}
+
+const initialLocale = detectLocale()
+document.documentElement.lang = initialLocale
+
+export const useLocaleStore = create<LocaleState>((set) => ({
+  locale: initialLocale,
+
+  setLocale: (locale) => {
+    applyLocale(locale)
+    set({ locale })
+  },
+}))
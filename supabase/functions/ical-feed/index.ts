@@ -0,0 +1,79 @@
+// Flux iCalendar d'un foyer ou d'un membre : GET /functions/v1/ical-feed?token=…[&type=todo]
+// Les applis calendrier n'envoient pas de JWT : le jeton du flux fait office d'accès
+// (verify_jwt = false dans supabase/config.toml), la lecture se fait en service role.
+
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { buildCalendar } from '../../../src/lib/ical.ts'
+
+const notFound = () => new Response('Flux introuvable', { status: 404 })
+
+Deno.serve(async (req) => {
+  const url = new URL(req.url)
+  const token = url.searchParams.get('token') ?? ''
+  if (!/^[0-9a-f]{64}$/.test(token)) return notFound()
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false },
+  })
+
+  const { data: feed, error: feedError } = await supabase
+    .from('calendar_feeds')
+    .select('household_id, member_id, households(name)')
+    .eq('token', token)
+    .is('revoked_at', null)
+    .maybeSingle()
+
+  if (feedError) {
+    console.error('ical-feed feed error:', feedError)
+    return new Response('Erreur serveur', { status: 500 })
+  }
+  if (!feed) return notFound()
+
+  const { data: members, error: membersError } = await supabase
+    .from('members')
+    .select('id, display_name')
+    .eq('household_id', feed.household_id)
+
+  const { data: categories, error: categoriesError } = await supabase
+    .from('household_categories')
+    .select('slug, label')
+    .eq('household_id', feed.household_id)
+
+  let query = supabase
+    .from('tasks')
+    .select('id, title, description, category, assigned_to, points, due_date, status, completed_at, series_id, recurrence')
+    .eq('household_id', feed.household_id)
+    .not('due_date', 'is', null)
+
+  if (feed.member_id) query = query.eq('assigned_to', feed.member_id)
+
+  const { data: tasks, error: tasksError } = await query
+
+  if (membersError || categoriesError || tasksError) {
+    console.error('ical-feed load error:', membersError ?? categoriesError ?? tasksError)
+    return new Response('Erreur serveur', { status: 500 })
+  }
+
+  const memberName = (id: string) => members?.find((m) => m.id === id)?.display_name ?? null
+  const categoryLabel = (slug: string) => categories?.find((c) => c.slug === slug)?.label ?? slug
+  // deno-lint-ignore no-explicit-any
+  const householdName = (feed.households as any)?.name ?? 'Foyer'
+  const calendarName = feed.member_id
+    ? `HomeFlow · ${householdName} · ${memberName(feed.member_id) ?? 'Membre'}`
+    : `HomeFlow · ${householdName}`
+
+  const ics = buildCalendar(tasks ?? [], {
+    calendarName,
+    component: url.searchParams.get('type') === 'todo' ? 'VTODO' : 'VEVENT',
+    categoryLabel,
+    memberName,
+  })
+
+  return new Response(ics, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="homeflow.ics"',
+      'Cache-Control': 'private, max-age=300',
+    },
+  })
+})
@@ -0,0 +1,78 @@
+-- HomeFlow : schéma de base (foyers, membres, tâches)
+-- Idempotent : reflète les tables déjà présentes en production.
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.households (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+-- members.id = auth.users.id (un membre = un utilisateur)
+create table if not exists public.members (
+  id uuid primary key references auth.users (id) on delete cascade,
+  household_id uuid not null references public.households (id) on delete cascade,
+  display_name text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists members_household_id_idx on public.members (household_id);
+
+create table if not exists public.tasks (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  title text not null,
+  description text,
+  category text not null default 'general',
+  assigned_to uuid references public.members (id) on delete set null,
+  created_by uuid not null references public.members (id) on delete cascade,
+  points integer not null default 10,
+  due_date date,
+  status text not null default 'pending' check (status in ('pending', 'in_progress', 'completed')),
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists tasks_household_id_created_at_idx on public.tasks (household_id, created_at desc);
+
+-- ✅ Helper RLS : l'utilisateur courant appartient-il au foyer ?
+-- security definer pour éviter la récursion des policies sur members.
+create or replace function public.is_household_member(p_household_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.members m
+    where m.household_id = p_household_id
+      and m.id = auth.uid()
+  );
+$$;
+
+alter table public.households enable row level security;
+alter table public.members enable row level security;
+alter table public.tasks enable row level security;
+
+drop policy if exists "households_select_member" on public.households;
+create policy "households_select_member" on public.households
+  for select using (public.is_household_member(id));
+
+drop policy if exists "households_update_member" on public.households;
+create policy "households_update_member" on public.households
+  for update using (public.is_household_member(id));
+
+drop policy if exists "members_select_same_household" on public.members;
+create policy "members_select_same_household" on public.members
+  for select using (id = auth.uid() or public.is_household_member(household_id));
+
+drop policy if exists "members_update_self" on public.members;
+create policy "members_update_self" on public.members
+  for update using (id = auth.uid());
+
+drop policy if exists "tasks_all_member" on public.tasks;
+create policy "tasks_all_member" on public.tasks
+  for all using (public.is_household_member(household_id))
+  with check (public.is_household_member(household_id));
@@ -0,0 +1,153 @@
+-- Onboarding : création de foyer + codes d'invitation
+
+create table if not exists public.household_invites (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  code text not null unique,
+  created_by uuid not null references public.members (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz,
+  max_uses integer check (max_uses is null or max_uses > 0),
+  use_count integer not null default 0,
+  revoked_at timestamptz
+);
+
+create index if not exists household_invites_household_id_idx on public.household_invites (household_id);
+
+alter table public.household_invites enable row level security;
+
+drop policy if exists "invites_select_member" on public.household_invites;
+create policy "invites_select_member" on public.household_invites
+  for select using (public.is_household_member(household_id));
+
+drop policy if exists "invites_insert_member" on public.household_invites;
+create policy "invites_insert_member" on public.household_invites
+  for insert with check (public.is_household_member(household_id) and created_by = auth.uid());
+
+-- Pas d'update direct (role, use_count, expires_at...) : use_count n'avance que dans join_household,
+-- l'expiration passe par expire_invite
+drop policy if exists "invites_update_member" on public.household_invites;
+
+-- ✅ Crée le foyer + le membre créateur en une transaction
+create or replace function public.create_household(p_name text, p_display_name text)
+returns public.households
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_household public.households;
+begin
+  if auth.uid() is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '28000';
+  end if;
+
+  if exists (select 1 from public.members where id = auth.uid()) then
+    raise exception 'ALREADY_MEMBER' using errcode = 'P0001';
+  end if;
+
+  if coalesce(trim(p_name), '') = '' or coalesce(trim(p_display_name), '') = '' then
+    raise exception 'INVALID_INPUT' using errcode = '22023';
+  end if;
+
+  insert into public.households (name)
+  values (trim(p_name))
+  returning * into v_household;
+
+  insert into public.members (id, household_id, display_name)
+  values (auth.uid(), v_household.id, trim(p_display_name));
+
+  return v_household;
+end;
+$$;
+
+-- ✅ Aperçu d'un code (nom du foyer) sans être membre
+create or replace function public.preview_invite(p_code text)
+returns table (household_id uuid, household_name text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select h.id, h.name
+  from public.household_invites i
+  join public.households h on h.id = i.household_id
+  where i.code = upper(trim(p_code))
+    and i.revoked_at is null
+    and (i.expires_at is null or i.expires_at > now())
+    and (i.max_uses is null or i.use_count < i.max_uses);
+$$;
+
+-- ✅ Rejoint un foyer via un code valide
+create or replace function public.join_household(p_code text, p_display_name text)
+returns public.households
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invite public.household_invites;
+  v_household public.households;
+begin
+  if auth.uid() is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '28000';
+  end if;
+
+  if exists (select 1 from public.members where id = auth.uid()) then
+    raise exception 'ALREADY_MEMBER' using errcode = 'P0001';
+  end if;
+
+  if coalesce(trim(p_display_name), '') = '' then
+    raise exception 'INVALID_INPUT' using errcode = '22023';
+  end if;
+
+  select * into v_invite
+  from public.household_invites
+  where code = upper(trim(p_code))
+  for update;
+
+  if not found
+    or v_invite.revoked_at is not null
+    or (v_invite.expires_at is not null and v_invite.expires_at <= now())
+    or (v_invite.max_uses is not null and v_invite.use_count >= v_invite.max_uses) then
+    raise exception 'INVITE_INVALID' using errcode = 'P0001';
+  end if;
+
+  insert into public.members (id, household_id, display_name)
+  values (auth.uid(), v_invite.household_id, trim(p_display_name));
+
+  update public.household_invites
+  set use_count = use_count + 1
+  where id = v_invite.id;
+
+  select * into v_household from public.households where id = v_invite.household_id;
+  return v_household;
+end;
+$$;
+
+-- ✅ Expiration immédiate d'un code : seule modification ouverte aux membres
+create or replace function public.expire_invite(p_invite_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.household_invites i
+    where i.id = p_invite_id and public.is_household_member(i.household_id)
+  ) then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  update public.household_invites
+  set expires_at = now()
+  where id = p_invite_id
+    and (expires_at is null or expires_at > now());
+end;
+$$;
+
+grant execute on function public.create_household(text, text) to authenticated;
+grant execute on function public.preview_invite(text) to authenticated;
+grant execute on function public.join_household(text, text) to authenticated;
+grant execute on function public.expire_invite(uuid) to authenticated;
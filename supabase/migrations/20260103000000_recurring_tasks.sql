@@ -0,0 +1,34 @@
+-- Tâches récurrentes : une série porte le modèle + la règle,
+-- chaque occurrence est une ligne de tasks rattachée à la série.
+
+create table if not exists public.task_series (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  title text not null,
+  description text,
+  category text not null default 'general',
+  assigned_to uuid references public.members (id) on delete set null,
+  created_by uuid not null references public.members (id) on delete cascade,
+  points integer not null default 10,
+  -- { type: 'daily' } | { type: 'weekly', weekdays: int[] } | { type: 'monthly', day: int }
+  -- | { type: 'after_completion', days: int }
+  recurrence jsonb not null,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists task_series_household_id_idx on public.task_series (household_id);
+
+alter table public.tasks
+  add column if not exists series_id uuid references public.task_series (id) on delete set null,
+  -- Règle propre à l'occurrence (modifiable "pour cette occurrence uniquement")
+  add column if not exists recurrence jsonb;
+
+create index if not exists tasks_series_id_idx on public.tasks (series_id);
+
+alter table public.task_series enable row level security;
+
+drop policy if exists "task_series_all_member" on public.task_series;
+create policy "task_series_all_member" on public.task_series
+  for all using (public.is_household_member(household_id))
+  with check (public.is_household_member(household_id));
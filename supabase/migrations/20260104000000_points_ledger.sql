@@ -0,0 +1,186 @@
+-- Points : rôle parent/enfant + grand livre des points (append-only)
+-- - les points des tâches sont écrits par trigger (complétion / réouverture), jamais par le client
+-- - le client n'écrit que les ajustements d'un parent
+
+alter table public.members
+  add column if not exists role text not null default 'parent' check (role in ('parent', 'child'));
+
+alter table public.household_invites
+  add column if not exists role text not null default 'parent' check (role in ('parent', 'child'));
+
+create or replace function public.is_household_parent(p_household_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.members m
+    where m.household_id = p_household_id
+      and m.id = auth.uid()
+      and m.role = 'parent'
+  );
+$$;
+
+create table if not exists public.points_ledger (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  member_id uuid not null references public.members (id) on delete cascade,
+  -- set null : l'historique survit à la suppression de la tâche
+  task_id uuid references public.tasks (id) on delete set null,
+  task_title text,
+  amount integer not null check (amount <> 0),
+  kind text not null check (kind in ('task_completed', 'task_reopened', 'adjustment')),
+  note text,
+  created_by uuid references public.members (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists points_ledger_household_created_idx on public.points_ledger (household_id, created_at desc);
+create index if not exists points_ledger_task_id_idx on public.points_ledger (task_id);
+
+alter table public.points_ledger enable row level security;
+
+drop policy if exists "points_ledger_select_member" on public.points_ledger;
+create policy "points_ledger_select_member" on public.points_ledger
+  for select using (public.is_household_member(household_id));
+
+-- Pas de update/delete : une correction = une nouvelle écriture
+drop policy if exists "points_ledger_insert" on public.points_ledger;
+create policy "points_ledger_insert" on public.points_ledger
+  for insert with check (
+    public.is_household_parent(household_id)
+    and created_by = auth.uid()
+    and kind = 'adjustment'
+  );
+
+-- ✅ Classement : une ligne par membre, sommée par la base (pas de plafond max-rows sur le grand livre)
+-- - p_since null = depuis le début
+-- - seuls les points gagnés comptent : une dépense ne fait pas reculer au classement
+-- - security invoker : la policy de lecture du grand livre s'applique
+create or replace function public.household_leaderboard(p_household_id uuid, p_since timestamptz default null)
+returns table (member_id uuid, points integer)
+language sql
+stable
+set search_path = public
+as $$
+  select l.member_id, sum(l.amount)::integer as points
+  from public.points_ledger l
+  where l.household_id = p_household_id
+    and l.kind in ('task_completed', 'task_reopened', 'adjustment')
+    and (p_since is null or l.created_at >= p_since)
+  group by l.member_id
+  order by points desc;
+$$;
+
+grant execute on function public.household_leaderboard(uuid, timestamptz) to authenticated;
+
+-- ✅ Crédit à la complétion, contre-passation à la réouverture
+-- - crédit : à l'assigné, à défaut à celui qui a coché la tâche (auteur de la mise à jour)
+-- - réouverture : on contre-passe le solde net par membre (correct même si
+--   l'assigné a changé entre-temps ou après plusieurs allers-retours)
+create or replace function public.record_task_points()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_member_id uuid := coalesce(new.assigned_to, auth.uid());
+begin
+  if new.status = 'completed' and old.status <> 'completed' then
+    if new.points > 0 and v_member_id is not null then
+      insert into public.points_ledger (household_id, member_id, task_id, task_title, amount, kind, created_by)
+      values (new.household_id, v_member_id, new.id, new.title, new.points, 'task_completed', auth.uid());
+    end if;
+  elsif old.status = 'completed' and new.status <> 'completed' then
+    insert into public.points_ledger (household_id, member_id, task_id, task_title, amount, kind, created_by)
+    select new.household_id, l.member_id, new.id, new.title, -sum(l.amount)::integer, 'task_reopened', auth.uid()
+    from public.points_ledger l
+    where l.task_id = new.id and l.kind in ('task_completed', 'task_reopened')
+    group by l.member_id
+    having sum(l.amount) <> 0;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists tasks_record_points on public.tasks;
+create trigger tasks_record_points
+  after update of status on public.tasks
+  for each row execute function public.record_task_points();
+
+-- members_update_self ne dit pas quelles colonnes changent : on garde la main sur son nom, pas sur son rôle
+create or replace function public.guard_member_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- auth.uid() est null pour le service role : pas de contrôle
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if new.household_id <> old.household_id or new.role <> old.role then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists members_guard_update on public.members;
+create trigger members_guard_update
+  before update on public.members
+  for each row execute function public.guard_member_update();
+
+-- Le rôle du nouveau membre vient de l'invitation
+create or replace function public.join_household(p_code text, p_display_name text)
+returns public.households
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invite public.household_invites;
+  v_household public.households;
+begin
+  if auth.uid() is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '28000';
+  end if;
+
+  if exists (select 1 from public.members where id = auth.uid()) then
+    raise exception 'ALREADY_MEMBER' using errcode = 'P0001';
+  end if;
+
+  if coalesce(trim(p_display_name), '') = '' then
+    raise exception 'INVALID_INPUT' using errcode = '22023';
+  end if;
+
+  select * into v_invite
+  from public.household_invites
+  where code = upper(trim(p_code))
+  for update;
+
+  if not found
+    or v_invite.revoked_at is not null
+    or (v_invite.expires_at is not null and v_invite.expires_at <= now())
+    or (v_invite.max_uses is not null and v_invite.use_count >= v_invite.max_uses) then
+    raise exception 'INVITE_INVALID' using errcode = 'P0001';
+  end if;
+
+  insert into public.members (id, household_id, display_name, role)
+  values (auth.uid(), v_invite.household_id, trim(p_display_name), v_invite.role);
+
+  update public.household_invites
+  set use_count = use_count + 1
+  where id = v_invite.id;
+
+  select * into v_household from public.households where id = v_invite.household_id;
+  return v_household;
+end;
+$$;
@@ -0,0 +1,159 @@
+-- Récompenses : catalogue du foyer + demandes d'échange validées par un parent
+
+create table if not exists public.rewards (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  title text not null,
+  description text,
+  cost integer not null check (cost > 0),
+  active boolean not null default true,
+  created_by uuid references public.members (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists rewards_household_id_idx on public.rewards (household_id);
+
+create table if not exists public.reward_redemptions (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  reward_id uuid references public.rewards (id) on delete set null,
+  reward_title text not null,
+  member_id uuid not null references public.members (id) on delete cascade,
+  cost integer not null check (cost > 0),
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  requested_at timestamptz not null default now(),
+  decided_by uuid references public.members (id) on delete set null,
+  decided_at timestamptz,
+  decision_note text
+);
+
+create index if not exists reward_redemptions_household_idx on public.reward_redemptions (household_id, requested_at desc);
+
+alter table public.points_ledger
+  add column if not exists redemption_id uuid references public.reward_redemptions (id) on delete set null;
+
+-- reward_redeemed : écrit uniquement par decide_redemption() (le client n'insère que des ajustements)
+alter table public.points_ledger drop constraint if exists points_ledger_kind_check;
+alter table public.points_ledger
+  add constraint points_ledger_kind_check
+  check (kind in ('task_completed', 'task_reopened', 'adjustment', 'reward_redeemed'));
+
+-- ✅ Solde par membre = somme du grand livre
+create or replace view public.member_points_balance
+with (security_invoker = true) as
+select household_id, member_id, sum(amount)::integer as balance
+from public.points_ledger
+group by household_id, member_id;
+
+alter table public.rewards enable row level security;
+alter table public.reward_redemptions enable row level security;
+
+drop policy if exists "rewards_select_member" on public.rewards;
+create policy "rewards_select_member" on public.rewards
+  for select using (public.is_household_member(household_id));
+
+drop policy if exists "rewards_write_parent" on public.rewards;
+create policy "rewards_write_parent" on public.rewards
+  for all using (public.is_household_parent(household_id))
+  with check (public.is_household_parent(household_id));
+
+drop policy if exists "redemptions_select_member" on public.reward_redemptions;
+create policy "redemptions_select_member" on public.reward_redemptions
+  for select using (public.is_household_member(household_id));
+
+-- ✅ Demande d'échange : vérifie le solde disponible (solde - demandes en attente)
+create or replace function public.request_redemption(p_reward_id uuid)
+returns public.reward_redemptions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reward public.rewards;
+  v_available integer;
+  v_redemption public.reward_redemptions;
+begin
+  select * into v_reward from public.rewards where id = p_reward_id and active;
+  if not found or not public.is_household_member(v_reward.household_id) then
+    raise exception 'REWARD_NOT_FOUND' using errcode = 'P0001';
+  end if;
+
+  -- Sérialise les demandes d'un même membre
+  perform 1 from public.members where id = auth.uid() for update;
+
+  select coalesce((select sum(amount) from public.points_ledger
+                   where member_id = auth.uid() and household_id = v_reward.household_id), 0)
+       - coalesce((select sum(cost) from public.reward_redemptions
+                   where member_id = auth.uid() and household_id = v_reward.household_id and status = 'pending'), 0)
+  into v_available;
+
+  if v_available < v_reward.cost then
+    raise exception 'INSUFFICIENT_POINTS' using errcode = 'P0001';
+  end if;
+
+  insert into public.reward_redemptions (household_id, reward_id, reward_title, member_id, cost)
+  values (v_reward.household_id, v_reward.id, v_reward.title, auth.uid(), v_reward.cost)
+  returning * into v_redemption;
+
+  return v_redemption;
+end;
+$$;
+
+-- ✅ Décision d'un parent : l'approbation débite le grand livre
+-- Le solde est revérifié à l'approbation : deux demandes en attente ne peuvent pas le rendre négatif
+create or replace function public.decide_redemption(p_redemption_id uuid, p_approve boolean, p_note text default null)
+returns public.reward_redemptions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_redemption public.reward_redemptions;
+  v_balance integer;
+begin
+  select * into v_redemption from public.reward_redemptions where id = p_redemption_id for update;
+  if not found or not public.is_household_parent(v_redemption.household_id) then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  if v_redemption.status <> 'pending' then
+    raise exception 'ALREADY_DECIDED' using errcode = 'P0001';
+  end if;
+
+  if p_approve then
+    -- Même verrou que request_redemption : les débits d'un membre passent un par un
+    perform 1 from public.members
+    where id = v_redemption.member_id and household_id = v_redemption.household_id
+    for update;
+
+    select coalesce((
+      select b.balance from public.member_points_balance b
+      where b.member_id = v_redemption.member_id and b.household_id = v_redemption.household_id
+    ), 0)
+    into v_balance;
+
+    if v_balance < v_redemption.cost then
+      raise exception 'INSUFFICIENT_POINTS' using errcode = 'P0001';
+    end if;
+  end if;
+
+  update public.reward_redemptions
+  set status = case when p_approve then 'approved' else 'rejected' end,
+      decided_by = auth.uid(),
+      decided_at = now(),
+      decision_note = nullif(trim(p_note), '')
+  where id = p_redemption_id
+  returning * into v_redemption;
+
+  if p_approve then
+    insert into public.points_ledger (household_id, member_id, amount, kind, note, redemption_id, created_by)
+    values (v_redemption.household_id, v_redemption.member_id, -v_redemption.cost, 'reward_redeemed',
+            v_redemption.reward_title, v_redemption.id, auth.uid());
+  end if;
+
+  return v_redemption;
+end;
+$$;
+
+grant execute on function public.request_redemption(uuid) to authenticated;
+grant execute on function public.decide_redemption(uuid, boolean, text) to authenticated;
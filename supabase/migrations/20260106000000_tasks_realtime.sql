@@ -0,0 +1,19 @@
+-- Temps réel sur les tâches (Supabase Realtime / postgres_changes)
+
+-- Qui a terminé la tâche (pour "Marie a terminé « Vaisselle »")
+alter table public.tasks
+  add column if not exists completed_by uuid references public.members (id) on delete set null;
+
+-- old record complet sur UPDATE (avec RLS, un DELETE ne renvoie que la clé primaire)
+alter table public.tasks replica identity full;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'tasks'
+  ) then
+    alter publication supabase_realtime add table public.tasks;
+  end if;
+end;
+$$;
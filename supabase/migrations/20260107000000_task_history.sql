@@ -0,0 +1,64 @@
+-- Historique des modifications de tâches (qui, quand, ancienne → nouvelle valeur)
+-- Alimenté uniquement par trigger : impossible d'oublier une écriture côté client.
+
+create table if not exists public.task_history (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  household_id uuid not null references public.households (id) on delete cascade,
+  changed_by uuid references public.members (id) on delete set null,
+  changed_at timestamptz not null default now(),
+  -- 'created' | title | description | category | assigned_to | due_date | points | status
+  field text not null,
+  old_value text,
+  new_value text
+);
+
+create index if not exists task_history_task_changed_idx on public.task_history (task_id, changed_at desc);
+
+alter table public.task_history enable row level security;
+
+-- Lecture seule pour les membres : ni insert, ni update, ni delete côté client
+drop policy if exists "task_history_select_member" on public.task_history;
+create policy "task_history_select_member" on public.task_history
+  for select using (public.is_household_member(household_id));
+
+create or replace function public.log_task_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid;
+begin
+  -- auth.uid() est null pour le service role / les jobs : on garde la ligne sans auteur
+  select m.id into v_actor from public.members m where m.id = auth.uid();
+
+  if tg_op = 'INSERT' then
+    insert into public.task_history (task_id, household_id, changed_by, field, new_value)
+    values (new.id, new.household_id, coalesce(v_actor, new.created_by), 'created', new.title);
+    return new;
+  end if;
+
+  insert into public.task_history (task_id, household_id, changed_by, field, old_value, new_value)
+  select new.id, new.household_id, v_actor, c.field, c.old_value, c.new_value
+  from (
+    values
+      ('title', old.title, new.title),
+      ('description', old.description, new.description),
+      ('category', old.category, new.category),
+      ('assigned_to', old.assigned_to::text, new.assigned_to::text),
+      ('due_date', old.due_date::text, new.due_date::text),
+      ('points', old.points::text, new.points::text),
+      ('status', old.status, new.status)
+  ) as c (field, old_value, new_value)
+  where c.old_value is distinct from c.new_value;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_log_changes on public.tasks;
+create trigger tasks_log_changes
+  after insert or update on public.tasks
+  for each row execute function public.log_task_changes();
@@ -0,0 +1,69 @@
+-- Abonnements calendrier (.ics) : un jeton secret par flux
+-- member_id null = tout le foyer, sinon seulement les tâches assignées à ce membre.
+-- Lu par la fonction Edge ical-feed (service role) : le jeton tient lieu d'authentification.
+
+create table if not exists public.calendar_feeds (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  member_id uuid references public.members (id) on delete cascade,
+  -- 256 bits aléatoires (pgcrypto), toujours générés par le serveur : voir stamp_calendar_feed()
+  token text not null unique default encode(gen_random_bytes(32), 'hex'),
+  created_by uuid not null references public.members (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz
+);
+
+create index if not exists calendar_feeds_household_id_idx on public.calendar_feeds (household_id);
+
+alter table public.calendar_feeds enable row level security;
+
+-- Le jeton est un secret : visible seulement par le membre du flux et par celui qui l'a créé
+drop policy if exists "calendar_feeds_select_member" on public.calendar_feeds;
+drop policy if exists "calendar_feeds_select_own" on public.calendar_feeds;
+create policy "calendar_feeds_select_own" on public.calendar_feeds
+  for select using (
+    public.is_household_member(household_id)
+    and (member_id = auth.uid() or created_by = auth.uid())
+  );
+
+drop policy if exists "calendar_feeds_insert_member" on public.calendar_feeds;
+create policy "calendar_feeds_insert_member" on public.calendar_feeds
+  for insert with check (public.is_household_member(household_id) and created_by = auth.uid());
+
+-- Révocation uniquement (pas de suppression : le lien reste listé comme révoqué)
+drop policy if exists "calendar_feeds_update_member" on public.calendar_feeds;
+drop policy if exists "calendar_feeds_update_own" on public.calendar_feeds;
+create policy "calendar_feeds_update_own" on public.calendar_feeds
+  for update using (
+    public.is_household_member(household_id)
+    and (member_id = auth.uid() or created_by = auth.uid())
+  )
+  with check (public.is_household_member(household_id));
+
+-- Le jeton ne vient jamais du client (un jeton choisi serait devinable) et ne change pas ensuite ;
+-- une mise à jour ne peut que révoquer le lien
+create or replace function public.stamp_calendar_feed()
+returns trigger
+language plpgsql
+-- pgcrypto vit dans le schéma extensions sur Supabase
+set search_path = public, extensions
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.token := encode(gen_random_bytes(32), 'hex');
+    new.revoked_at := null;
+    return new;
+  end if;
+
+  if (to_jsonb(new) - 'revoked_at') is distinct from (to_jsonb(old) - 'revoked_at') then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists calendar_feeds_stamp on public.calendar_feeds;
+create trigger calendar_feeds_stamp
+  before insert or update on public.calendar_feeds
+  for each row execute function public.stamp_calendar_feed();
@@ -0,0 +1,184 @@
+-- Sous-tâches : liste de contrôle ordonnée dans une tâche
+
+alter table public.tasks
+  -- Compteurs dénormalisés (carte "3/7", cache hors ligne, Realtime) : tenus à jour par trigger
+  add column if not exists checklist_total integer not null default 0,
+  add column if not exists checklist_done integer not null default 0,
+  -- Tâche terminée automatiquement quand tous les éléments sont cochés
+  add column if not exists auto_complete boolean not null default false,
+  -- Points répartis entre ceux qui ont coché les éléments (au prorata)
+  add column if not exists split_points boolean not null default false;
+
+create table if not exists public.task_checklist_items (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  household_id uuid not null references public.households (id) on delete cascade,
+  title text not null check (length(trim(title)) > 0),
+  position integer not null default 0,
+  assigned_to uuid references public.members (id) on delete set null,
+  done boolean not null default false,
+  completed_at timestamptz,
+  completed_by uuid references public.members (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists task_checklist_items_task_position_idx on public.task_checklist_items (task_id, position);
+
+alter table public.task_checklist_items enable row level security;
+
+drop policy if exists "task_checklist_items_select_member" on public.task_checklist_items;
+create policy "task_checklist_items_select_member" on public.task_checklist_items
+  for select using (public.is_household_member(household_id));
+
+-- household_id doit être celui de la tâche (sinon on pourrait glisser un élément dans un autre foyer)
+drop policy if exists "task_checklist_items_insert_member" on public.task_checklist_items;
+create policy "task_checklist_items_insert_member" on public.task_checklist_items
+  for insert with check (
+    public.is_household_member(household_id)
+    and exists (
+      select 1 from public.tasks t
+      where t.id = task_checklist_items.task_id and t.household_id = task_checklist_items.household_id
+    )
+  );
+
+drop policy if exists "task_checklist_items_update_member" on public.task_checklist_items;
+create policy "task_checklist_items_update_member" on public.task_checklist_items
+  for update using (public.is_household_member(household_id))
+  with check (
+    public.is_household_member(household_id)
+    and exists (
+      select 1 from public.tasks t
+      where t.id = task_checklist_items.task_id and t.household_id = task_checklist_items.household_id
+    )
+  );
+
+drop policy if exists "task_checklist_items_delete_member" on public.task_checklist_items;
+create policy "task_checklist_items_delete_member" on public.task_checklist_items
+  for delete using (public.is_household_member(household_id));
+
+-- Qui a coché / quand : fixé par le serveur (sert au partage des points)
+create or replace function public.stamp_checklist_item()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.done is distinct from old.done then
+    if new.done then
+      new.completed_at := now();
+      new.completed_by := auth.uid();
+    else
+      new.completed_at := null;
+      new.completed_by := null;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists task_checklist_items_stamp on public.task_checklist_items;
+create trigger task_checklist_items_stamp
+  before insert or update on public.task_checklist_items
+  for each row execute function public.stamp_checklist_item();
+
+create or replace function public.refresh_checklist_counts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_task_id uuid := coalesce(new.task_id, old.task_id);
+begin
+  update public.tasks t
+  set checklist_total = c.total, checklist_done = c.done
+  from (
+    select count(*)::integer as total, count(*) filter (where i.done)::integer as done
+    from public.task_checklist_items i
+    where i.task_id = v_task_id
+  ) c
+  where t.id = v_task_id
+    and (t.checklist_total, t.checklist_done) is distinct from (c.total, c.done);
+
+  return null;
+end;
+$$;
+
+drop trigger if exists task_checklist_items_counts on public.task_checklist_items;
+create trigger task_checklist_items_counts
+  after insert or update of done or delete on public.task_checklist_items
+  for each row execute function public.refresh_checklist_counts();
+
+-- Réordonne en une seule requête (les positions suivent l'ordre du tableau)
+create or replace function public.reorder_checklist_items(p_task_id uuid, p_item_ids uuid[])
+returns void
+language sql
+set search_path = public
+as $$
+  update public.task_checklist_items i
+  set position = o.ordinality::integer
+  from unnest(p_item_ids) with ordinality as o (id, ordinality)
+  where i.id = o.id and i.task_id = p_task_id;
+$$;
+
+-- ✅ split_points : la tâche complétée est partagée entre ceux qui ont coché les éléments
+-- - au prorata des éléments cochés, plus forts restes : la somme des parts = points de la tâche
+-- - éléments cochés par un membre parti ignorés ; liste vide → comme avant (assigné, sinon qui a coché)
+create or replace function public.record_task_points()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_member_id uuid := coalesce(new.assigned_to, new.completed_by);
+  v_shared integer := 0;
+begin
+  if new.status = 'completed' and old.status <> 'completed' then
+    if new.points <= 0 then
+      return null;
+    end if;
+
+    if new.split_points then
+      insert into public.points_ledger (household_id, member_id, task_id, task_title, amount, kind, created_by)
+      select new.household_id, s.member_id, new.id, new.title, s.amount, 'task_completed', auth.uid()
+      from (
+        select r.member_id,
+               (r.base + case when r.rank <= new.points - r.distributed then 1 else 0 end)::integer as amount
+        from (
+          select w.member_id,
+                 new.points * w.weight / w.total as base,
+                 sum(new.points * w.weight / w.total) over () as distributed,
+                 -- À reste égal, ordre stable sur l'id du membre
+                 row_number() over (order by new.points * w.weight % w.total desc, w.member_id) as rank
+          from (
+            select i.completed_by as member_id,
+                   count(*) as weight,
+                   (sum(count(*)) over ())::bigint as total
+            from public.task_checklist_items i
+            where i.task_id = new.id and i.done and i.completed_by is not null
+            group by i.completed_by
+          ) w
+        ) r
+      ) s
+      where s.amount > 0;
+
+      get diagnostics v_shared = row_count;
+    end if;
+
+    if v_shared = 0 and v_member_id is not null then
+      insert into public.points_ledger (household_id, member_id, task_id, task_title, amount, kind, created_by)
+      values (new.household_id, v_member_id, new.id, new.title, new.points, 'task_completed', auth.uid());
+    end if;
+  elsif old.status = 'completed' and new.status <> 'completed' then
+    insert into public.points_ledger (household_id, member_id, task_id, task_title, amount, kind, created_by)
+    select new.household_id, l.member_id, new.id, new.title, -sum(l.amount)::integer, 'task_reopened', auth.uid()
+    from public.points_ledger l
+    where l.task_id = new.id and l.kind in ('task_completed', 'task_reopened')
+    group by l.member_id
+    having sum(l.amount) <> 0;
+  end if;
+
+  return null;
+end;
+$$;
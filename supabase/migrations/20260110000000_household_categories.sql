@@ -0,0 +1,109 @@
+-- Catégories propres à chaque foyer (remplace la liste figée côté client)
+-- tasks.category garde la valeur technique (slug) : les données existantes restent valides.
+
+create table if not exists public.household_categories (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  -- Valeur stockée dans tasks.category ; jamais modifiée (on archive au lieu de supprimer)
+  slug text not null check (slug ~ '^[a-z0-9][a-z0-9-]*$'),
+  label text not null check (length(trim(label)) > 0),
+  -- Clés de palette / d'icône connues du client (src/lib/categories.ts)
+  color text not null default 'gray',
+  icon text not null default 'tag',
+  default_points integer not null default 10 check (default_points between 1 and 100),
+  archived boolean not null default false,
+  position integer not null default 0,
+  created_at timestamptz not null default now(),
+  unique (household_id, slug)
+);
+
+alter table public.household_categories enable row level security;
+
+drop policy if exists "household_categories_select_member" on public.household_categories;
+create policy "household_categories_select_member" on public.household_categories
+  for select using (public.is_household_member(household_id));
+
+drop policy if exists "household_categories_insert_parent" on public.household_categories;
+create policy "household_categories_insert_parent" on public.household_categories
+  for insert with check (public.is_household_parent(household_id));
+
+-- Pas de delete : les tâches y font référence
+drop policy if exists "household_categories_update_parent" on public.household_categories;
+create policy "household_categories_update_parent" on public.household_categories
+  for update using (public.is_household_parent(household_id))
+  with check (public.is_household_parent(household_id));
+
+-- Catégories par défaut (mêmes valeurs que l'ancienne constante CATEGORIES)
+create or replace function public.seed_household_categories()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.household_categories (household_id, slug, label, color, icon, position)
+  values
+    (new.id, 'general', 'Général', 'gray', 'tag', 1),
+    (new.id, 'courses', 'Courses', 'green', 'cart', 2),
+    (new.id, 'menage', 'Ménage', 'blue', 'sparkles', 3),
+    (new.id, 'bricolage', 'Bricolage', 'yellow', 'hammer', 4),
+    (new.id, 'cuisine', 'Cuisine', 'orange', 'chef', 5),
+    (new.id, 'administratif', 'Administratif', 'purple', 'file', 6)
+  on conflict (household_id, slug) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists households_seed_categories on public.households;
+create trigger households_seed_categories
+  after insert on public.households
+  for each row execute function public.seed_household_categories();
+
+-- Foyers existants
+insert into public.household_categories (household_id, slug, label, color, icon, position)
+select h.id, d.slug, d.label, d.color, d.icon, d.position
+from public.households h
+cross join (
+  values
+    ('general', 'Général', 'gray', 'tag', 1),
+    ('courses', 'Courses', 'green', 'cart', 2),
+    ('menage', 'Ménage', 'blue', 'sparkles', 3),
+    ('bricolage', 'Bricolage', 'yellow', 'hammer', 4),
+    ('cuisine', 'Cuisine', 'orange', 'chef', 5),
+    ('administratif', 'Administratif', 'purple', 'file', 6)
+) as d (slug, label, color, icon, position)
+on conflict (household_id, slug) do nothing;
+
+-- Valeurs hors liste déjà en base : conservées telles quelles (archivées) plutôt que perdues
+insert into public.household_categories (household_id, slug, label, archived, position)
+select distinct v.household_id, v.category, v.category, true, 100
+from (
+  select household_id, category from public.tasks
+  union
+  select household_id, category from public.task_series
+) v
+where v.category ~ '^[a-z0-9][a-z0-9-]*$'
+on conflict (household_id, slug) do nothing;
+
+update public.tasks t
+set category = 'general'
+where not exists (
+  select 1 from public.household_categories c where c.household_id = t.household_id and c.slug = t.category
+);
+
+update public.task_series s
+set category = 'general'
+where not exists (
+  select 1 from public.household_categories c where c.household_id = s.household_id and c.slug = s.category
+);
+
+-- Une tâche ne peut pointer que vers une catégorie de son foyer
+alter table public.tasks drop constraint if exists tasks_category_fkey;
+alter table public.tasks
+  add constraint tasks_category_fkey foreign key (household_id, category)
+  references public.household_categories (household_id, slug);
+
+alter table public.task_series drop constraint if exists task_series_category_fkey;
+alter table public.task_series
+  add constraint task_series_category_fkey foreign key (household_id, category)
+  references public.household_categories (household_id, slug);
@@ -0,0 +1,327 @@
+-- Rôles des membres : admin / parent / enfant + permissions appliquées côté base
+-- Matrice (miroir de src/lib/permissions.ts) :
+--   admin  : tout, dont la gestion des membres (rôles, invitations)
+--   parent : créer / modifier / supprimer les tâches, fixer les points, catégories, récompenses
+--   enfant : faire avancer uniquement les tâches qui lui sont assignées (statut, liste de contrôle)
+
+alter table public.members drop constraint if exists members_role_check;
+alter table public.members
+  add constraint members_role_check check (role in ('admin', 'parent', 'child'));
+
+-- Les invitations ne créent pas d'admin : un admin promeut ensuite
+alter table public.household_invites drop constraint if exists household_invites_role_check;
+alter table public.household_invites
+  add constraint household_invites_role_check check (role in ('parent', 'child'));
+
+-- Foyers existants : le premier parent (à défaut le premier membre) devient admin
+update public.members m
+set role = 'admin'
+where m.id in (
+  select distinct on (household_id) id
+  from public.members
+  order by household_id, (role = 'parent') desc, created_at
+)
+and not exists (
+  select 1 from public.members a where a.household_id = m.household_id and a.role = 'admin'
+);
+
+-- Un admin a tous les droits d'un parent
+create or replace function public.is_household_parent(p_household_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.members m
+    where m.household_id = p_household_id
+      and m.id = auth.uid()
+      and m.role in ('admin', 'parent')
+  );
+$$;
+
+create or replace function public.is_household_admin(p_household_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.members m
+    where m.household_id = p_household_id
+      and m.id = auth.uid()
+      and m.role = 'admin'
+  );
+$$;
+
+-- Le créateur du foyer en est l'admin
+create or replace function public.create_household(p_name text, p_display_name text)
+returns public.households
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_household public.households;
+begin
+  if auth.uid() is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '28000';
+  end if;
+
+  if exists (select 1 from public.members where id = auth.uid()) then
+    raise exception 'ALREADY_MEMBER' using errcode = 'P0001';
+  end if;
+
+  if coalesce(trim(p_name), '') = '' or coalesce(trim(p_display_name), '') = '' then
+    raise exception 'INVALID_INPUT' using errcode = '22023';
+  end if;
+
+  insert into public.households (name)
+  values (trim(p_name))
+  returning * into v_household;
+
+  insert into public.members (id, household_id, display_name, role)
+  values (auth.uid(), v_household.id, trim(p_display_name), 'admin');
+
+  return v_household;
+end;
+$$;
+
+-- ---- Membres : seuls les admins changent les rôles ----
+
+drop policy if exists "members_update_admin" on public.members;
+create policy "members_update_admin" on public.members
+  for update using (public.is_household_admin(household_id))
+  with check (public.is_household_admin(household_id));
+
+-- members_update_self reste (nom affiché) : le trigger empêche un membre de changer son propre rôle
+create or replace function public.guard_member_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- auth.uid() est null pour le service role : pas de contrôle
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if new.household_id <> old.household_id then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  -- Chacun garde la main sur son nom affiché
+  if new.id <> auth.uid() and new.display_name <> old.display_name then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  if new.role <> old.role then
+    if not public.is_household_admin(old.household_id) then
+      raise exception 'NOT_ALLOWED' using errcode = '42501';
+    end if;
+
+    if old.role = 'admin' and not exists (
+      select 1 from public.members a
+      where a.household_id = old.household_id and a.role = 'admin' and a.id <> old.id
+    ) then
+      raise exception 'LAST_ADMIN' using errcode = 'P0001';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists members_guard_update on public.members;
+create trigger members_guard_update
+  before update on public.members
+  for each row execute function public.guard_member_update();
+
+-- ---- Invitations : réservées aux admins ----
+
+drop policy if exists "invites_insert_member" on public.household_invites;
+drop policy if exists "invites_insert_admin" on public.household_invites;
+create policy "invites_insert_admin" on public.household_invites
+  for insert with check (public.is_household_admin(household_id) and created_by = auth.uid());
+
+-- Toujours pas d'update direct : l'expiration (expire_invite) passe aux admins
+drop policy if exists "invites_update_member" on public.household_invites;
+drop policy if exists "invites_update_admin" on public.household_invites;
+
+create or replace function public.expire_invite(p_invite_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.household_invites i
+    where i.id = p_invite_id and public.is_household_admin(i.household_id)
+  ) then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  update public.household_invites
+  set expires_at = now()
+  where id = p_invite_id
+    and (expires_at is null or expires_at > now());
+end;
+$$;
+
+-- ---- Tâches ----
+
+drop policy if exists "tasks_all_member" on public.tasks;
+
+drop policy if exists "tasks_select_member" on public.tasks;
+create policy "tasks_select_member" on public.tasks
+  for select using (public.is_household_member(household_id));
+
+drop policy if exists "tasks_insert_parent" on public.tasks;
+create policy "tasks_insert_parent" on public.tasks
+  for insert with check (public.is_household_parent(household_id));
+
+-- Un enfant qui termine une tâche récurrente génère l'occurrence suivante :
+-- autorisé seulement si elle reprend le modèle fixé par un parent sur la série (titre, assigné,
+-- catégorie, points…) et qu'aucune autre occurrence n'est encore ouverte
+drop policy if exists "tasks_insert_occurrence" on public.tasks;
+create policy "tasks_insert_occurrence" on public.tasks
+  for insert with check (
+    public.is_household_member(household_id)
+    and status = 'pending'
+    and exists (
+      select 1 from public.task_series s
+      where s.id = tasks.series_id
+        and s.household_id = tasks.household_id
+        and s.active
+        and s.title = tasks.title
+        and s.description is not distinct from tasks.description
+        and s.category = tasks.category
+        and s.assigned_to is not distinct from tasks.assigned_to
+        and s.created_by = tasks.created_by
+        and s.points = tasks.points
+        and s.recurrence = tasks.recurrence
+    )
+    and not exists (
+      select 1 from public.tasks o
+      where o.series_id = tasks.series_id and o.status <> 'completed'
+    )
+  );
+
+drop policy if exists "tasks_update_parent" on public.tasks;
+create policy "tasks_update_parent" on public.tasks
+  for update using (public.is_household_parent(household_id))
+  with check (public.is_household_parent(household_id));
+
+drop policy if exists "tasks_update_assignee" on public.tasks;
+create policy "tasks_update_assignee" on public.tasks
+  for update using (public.is_household_member(household_id) and assigned_to = auth.uid())
+  with check (public.is_household_member(household_id) and assigned_to = auth.uid());
+
+drop policy if exists "tasks_delete_parent" on public.tasks;
+create policy "tasks_delete_parent" on public.tasks
+  for delete using (public.is_household_parent(household_id));
+
+-- La policy assignee ne dit pas quelles colonnes changent : un enfant ne touche qu'au statut
+-- (les compteurs de liste de contrôle sont recalculés par trigger)
+create or replace function public.guard_task_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_allowed text[] := array['status', 'completed_at', 'completed_by', 'checklist_total', 'checklist_done'];
+begin
+  if auth.uid() is null or public.is_household_parent(old.household_id) then
+    return new;
+  end if;
+
+  if (to_jsonb(new) - v_allowed) is distinct from (to_jsonb(old) - v_allowed) then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_guard_update on public.tasks;
+create trigger tasks_guard_update
+  before update on public.tasks
+  for each row execute function public.guard_task_update();
+
+-- ---- Listes de contrôle : mêmes droits que la tâche (parent, ou l'enfant assigné) ----
+-- Cocher une étape rapporte des points (split_points) : un enfant ne touche qu'aux listes de ses tâches
+
+drop policy if exists "task_checklist_items_insert_member" on public.task_checklist_items;
+drop policy if exists "task_checklist_items_insert_assignee" on public.task_checklist_items;
+create policy "task_checklist_items_insert_assignee" on public.task_checklist_items
+  for insert with check (
+    public.is_household_member(household_id)
+    and exists (
+      select 1 from public.tasks t
+      where t.id = task_checklist_items.task_id
+        and t.household_id = task_checklist_items.household_id
+        and (public.is_household_parent(t.household_id) or t.assigned_to = auth.uid())
+    )
+  );
+
+drop policy if exists "task_checklist_items_update_member" on public.task_checklist_items;
+drop policy if exists "task_checklist_items_update_assignee" on public.task_checklist_items;
+create policy "task_checklist_items_update_assignee" on public.task_checklist_items
+  for update using (
+    public.is_household_member(household_id)
+    and exists (
+      select 1 from public.tasks t
+      where t.id = task_checklist_items.task_id
+        and (public.is_household_parent(t.household_id) or t.assigned_to = auth.uid())
+    )
+  )
+  with check (
+    public.is_household_member(household_id)
+    and exists (
+      select 1 from public.tasks t
+      where t.id = task_checklist_items.task_id
+        and t.household_id = task_checklist_items.household_id
+        and (public.is_household_parent(t.household_id) or t.assigned_to = auth.uid())
+    )
+  );
+
+drop policy if exists "task_checklist_items_delete_member" on public.task_checklist_items;
+drop policy if exists "task_checklist_items_delete_assignee" on public.task_checklist_items;
+create policy "task_checklist_items_delete_assignee" on public.task_checklist_items
+  for delete using (
+    public.is_household_member(household_id)
+    and exists (
+      select 1 from public.tasks t
+      where t.id = task_checklist_items.task_id
+        and (public.is_household_parent(t.household_id) or t.assigned_to = auth.uid())
+    )
+  );
+
+-- ---- Grand livre : seuls les admins / parents écrivent (ajustements) ----
+-- Les points des tâches sont écrits par trigger (record_task_points), les débits par decide_redemption()
+
+drop policy if exists "points_ledger_insert" on public.points_ledger;
+create policy "points_ledger_insert" on public.points_ledger
+  for insert with check (
+    public.is_household_parent(household_id)
+    and created_by = auth.uid()
+    and kind = 'adjustment'
+  );
+
+-- ---- Séries : le modèle (points compris) appartient aux parents ----
+
+drop policy if exists "task_series_all_member" on public.task_series;
+
+drop policy if exists "task_series_select_member" on public.task_series;
+create policy "task_series_select_member" on public.task_series
+  for select using (public.is_household_member(household_id));
+
+drop policy if exists "task_series_write_parent" on public.task_series;
+create policy "task_series_write_parent" on public.task_series
+  for all using (public.is_household_parent(household_id))
+  with check (public.is_household_parent(household_id));
@@ -0,0 +1,158 @@
+-- Plusieurs foyers par utilisateur (parents séparés, maison de vacances…)
+-- members.id reste l'id auth de l'utilisateur : une ligne par (foyer, utilisateur).
+-- Les helpers RLS (m.household_id = … and m.id = auth.uid()) restent valables tels quels ;
+-- les références vers members deviennent composites pour pointer le bon foyer.
+
+-- Références existantes vers members(id) : supprimées puis recréées plus bas
+do $$
+declare
+  v_constraint record;
+begin
+  for v_constraint in
+    select c.conname, c.conrelid::regclass as tbl
+    from pg_constraint c
+    where c.contype = 'f' and c.confrelid = 'public.members'::regclass
+  loop
+    execute format('alter table %s drop constraint %I', v_constraint.tbl, v_constraint.conname);
+  end loop;
+end;
+$$;
+
+alter table public.members drop constraint if exists members_pkey;
+alter table public.members add constraint members_pkey primary key (household_id, id);
+
+-- Lookups "mes foyers" (getMyMemberships)
+create index if not exists members_id_idx on public.members (id);
+
+-- ---- Références composites (household_id, membre) ----
+-- set null (colonne) : on vide le membre sans toucher au household_id (Postgres 15+)
+
+alter table public.tasks
+  add constraint tasks_assigned_to_fkey foreign key (household_id, assigned_to)
+    references public.members (household_id, id) on delete set null (assigned_to),
+  add constraint tasks_created_by_fkey foreign key (household_id, created_by)
+    references public.members (household_id, id) on delete cascade,
+  add constraint tasks_completed_by_fkey foreign key (household_id, completed_by)
+    references public.members (household_id, id) on delete set null (completed_by);
+
+alter table public.task_series
+  add constraint task_series_assigned_to_fkey foreign key (household_id, assigned_to)
+    references public.members (household_id, id) on delete set null (assigned_to),
+  add constraint task_series_created_by_fkey foreign key (household_id, created_by)
+    references public.members (household_id, id) on delete cascade;
+
+alter table public.household_invites
+  add constraint household_invites_created_by_fkey foreign key (household_id, created_by)
+    references public.members (household_id, id) on delete cascade;
+
+alter table public.points_ledger
+  add constraint points_ledger_member_id_fkey foreign key (household_id, member_id)
+    references public.members (household_id, id) on delete cascade,
+  add constraint points_ledger_created_by_fkey foreign key (household_id, created_by)
+    references public.members (household_id, id) on delete set null (created_by);
+
+alter table public.rewards
+  add constraint rewards_created_by_fkey foreign key (household_id, created_by)
+    references public.members (household_id, id) on delete set null (created_by);
+
+alter table public.reward_redemptions
+  add constraint reward_redemptions_member_id_fkey foreign key (household_id, member_id)
+    references public.members (household_id, id) on delete cascade,
+  add constraint reward_redemptions_decided_by_fkey foreign key (household_id, decided_by)
+    references public.members (household_id, id) on delete set null (decided_by);
+
+alter table public.task_history
+  add constraint task_history_changed_by_fkey foreign key (household_id, changed_by)
+    references public.members (household_id, id) on delete set null (changed_by);
+
+alter table public.calendar_feeds
+  add constraint calendar_feeds_member_id_fkey foreign key (household_id, member_id)
+    references public.members (household_id, id) on delete cascade,
+  add constraint calendar_feeds_created_by_fkey foreign key (household_id, created_by)
+    references public.members (household_id, id) on delete cascade;
+
+alter table public.task_checklist_items
+  add constraint task_checklist_items_assigned_to_fkey foreign key (household_id, assigned_to)
+    references public.members (household_id, id) on delete set null (assigned_to),
+  add constraint task_checklist_items_completed_by_fkey foreign key (household_id, completed_by)
+    references public.members (household_id, id) on delete set null (completed_by);
+
+-- ---- RPC : plus de limite "un seul foyer" ----
+
+create or replace function public.create_household(p_name text, p_display_name text)
+returns public.households
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_household public.households;
+begin
+  if auth.uid() is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '28000';
+  end if;
+
+  if coalesce(trim(p_name), '') = '' or coalesce(trim(p_display_name), '') = '' then
+    raise exception 'INVALID_INPUT' using errcode = '22023';
+  end if;
+
+  insert into public.households (name)
+  values (trim(p_name))
+  returning * into v_household;
+
+  insert into public.members (id, household_id, display_name, role)
+  values (auth.uid(), v_household.id, trim(p_display_name), 'admin');
+
+  return v_household;
+end;
+$$;
+
+-- ALREADY_MEMBER ne concerne plus que le foyer de l'invitation
+create or replace function public.join_household(p_code text, p_display_name text)
+returns public.households
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invite public.household_invites;
+  v_household public.households;
+begin
+  if auth.uid() is null then
+    raise exception 'AUTH_REQUIRED' using errcode = '28000';
+  end if;
+
+  if coalesce(trim(p_display_name), '') = '' then
+    raise exception 'INVALID_INPUT' using errcode = '22023';
+  end if;
+
+  select * into v_invite
+  from public.household_invites
+  where code = upper(trim(p_code))
+  for update;
+
+  if not found
+    or v_invite.revoked_at is not null
+    or (v_invite.expires_at is not null and v_invite.expires_at <= now())
+    or (v_invite.max_uses is not null and v_invite.use_count >= v_invite.max_uses) then
+    raise exception 'INVITE_INVALID' using errcode = 'P0001';
+  end if;
+
+  if exists (
+    select 1 from public.members where id = auth.uid() and household_id = v_invite.household_id
+  ) then
+    raise exception 'ALREADY_MEMBER' using errcode = 'P0001';
+  end if;
+
+  insert into public.members (id, household_id, display_name, role)
+  values (auth.uid(), v_invite.household_id, trim(p_display_name), v_invite.role);
+
+  update public.household_invites
+  set use_count = use_count + 1
+  where id = v_invite.id;
+
+  select * into v_household from public.households where id = v_invite.household_id;
+  return v_household;
+end;
+$$;
+
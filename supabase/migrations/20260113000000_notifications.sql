@@ -0,0 +1,160 @@
+-- Centre de notifications : tâche assignée, échéance demain, tâche en retard
+-- - assignation : trigger sur tasks (impossible d'oublier une écriture côté client)
+-- - échéances : refresh_due_notifications, appelé par le client (date locale) ;
+--   peut aussi être planifié (pg_cron) pour les membres qui n'ouvrent pas l'app
+-- - préférences par utilisateur (tous foyers confondus) : alertes navigateur et types d'événements
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  member_id uuid not null,
+  task_id uuid references public.tasks (id) on delete cascade,
+  kind text not null check (kind in ('task_assigned', 'task_due_soon', 'task_overdue')),
+  -- Copie au moment de l'événement : la notification reste lisible si la tâche change
+  task_title text not null,
+  due_date date,
+  actor_id uuid,
+  created_at timestamptz not null default now(),
+  read_at timestamptz,
+  constraint notifications_member_id_fkey foreign key (household_id, member_id)
+    references public.members (household_id, id) on delete cascade,
+  constraint notifications_actor_id_fkey foreign key (household_id, actor_id)
+    references public.members (household_id, id) on delete set null (actor_id)
+);
+
+create index if not exists notifications_member_created_idx
+  on public.notifications (member_id, household_id, created_at desc);
+
+-- Un seul rappel par tâche, type et échéance (replanifier = nouveau rappel)
+create unique index if not exists notifications_reminder_key
+  on public.notifications (member_id, task_id, kind, due_date)
+  where kind <> 'task_assigned';
+
+alter table public.notifications enable row level security;
+
+drop policy if exists "notifications_select_own" on public.notifications;
+create policy "notifications_select_own" on public.notifications
+  for select using (member_id = auth.uid() and public.is_household_member(household_id));
+
+-- Seule la lecture (read_at) est modifiable côté client
+drop policy if exists "notifications_update_own" on public.notifications;
+create policy "notifications_update_own" on public.notifications
+  for update using (member_id = auth.uid())
+  with check (member_id = auth.uid());
+
+revoke update on public.notifications from authenticated;
+grant update (read_at) on public.notifications to authenticated;
+
+drop policy if exists "notifications_delete_own" on public.notifications;
+create policy "notifications_delete_own" on public.notifications
+  for delete using (member_id = auth.uid());
+
+-- ---- Tâche assignée ----
+
+create or replace function public.notify_task_assigned()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.assigned_to is null
+    or new.status = 'completed'
+    or (auth.uid() is not null and new.assigned_to = auth.uid())
+    or (tg_op = 'UPDATE' and new.assigned_to is not distinct from old.assigned_to) then
+    return new;
+  end if;
+
+  -- Occurrence suivante d'une série déjà assignée à ce membre : pas de nouvelle alerte
+  if tg_op = 'INSERT' and new.series_id is not null and exists (
+    select 1 from public.tasks t
+    where t.series_id = new.series_id and t.id <> new.id and t.assigned_to = new.assigned_to
+  ) then
+    return new;
+  end if;
+
+  insert into public.notifications (household_id, member_id, task_id, kind, task_title, due_date, actor_id)
+  values (
+    new.household_id,
+    new.assigned_to,
+    new.id,
+    'task_assigned',
+    new.title,
+    new.due_date,
+    (select m.id from public.members m where m.household_id = new.household_id and m.id = auth.uid())
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_notify_assigned on public.tasks;
+create trigger tasks_notify_assigned
+  after insert or update of assigned_to on public.tasks
+  for each row execute function public.notify_task_assigned();
+
+-- ---- Échéances (demain / dépassée) pour les tâches qui me sont assignées ----
+
+create or replace function public.refresh_due_notifications(p_household_id uuid, p_today date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  if not public.is_household_member(p_household_id) then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  insert into public.notifications (household_id, member_id, task_id, kind, task_title, due_date)
+  select
+    t.household_id,
+    t.assigned_to,
+    t.id,
+    case when t.due_date < p_today then 'task_overdue' else 'task_due_soon' end,
+    t.title,
+    t.due_date
+  from public.tasks t
+  where t.household_id = p_household_id
+    and t.assigned_to = auth.uid()
+    and t.status <> 'completed'
+    and (t.due_date < p_today or t.due_date = p_today + 1)
+  on conflict (member_id, task_id, kind, due_date) where kind <> 'task_assigned' do nothing;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+-- ---- Préférences ----
+
+create table if not exists public.notification_preferences (
+  user_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+  browser_enabled boolean not null default false,
+  task_assigned boolean not null default true,
+  task_due_soon boolean not null default true,
+  task_overdue boolean not null default true,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.notification_preferences enable row level security;
+
+drop policy if exists "notification_preferences_own" on public.notification_preferences;
+create policy "notification_preferences_own" on public.notification_preferences
+  for all using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- ---- Temps réel : la cloche se met à jour sans recharger ----
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'notifications'
+  ) then
+    alter publication supabase_realtime add table public.notifications;
+  end if;
+end;
+$$;
@@ -0,0 +1,269 @@
+-- Tâches en retard : règles de rappel / d'escalade par foyer + perte de points optionnelle
+-- offset_days est relatif à l'échéance : -1 = la veille, 0 = le jour même, 2 = deux jours après.
+-- Les notifications restent générées par refresh_due_notifications (appelé par chaque membre).
+
+create table if not exists public.reminder_rules (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  offset_days integer not null check (offset_days between -30 and 30),
+  -- assignee : rappel au membre assigné ; parents : escalade vers les parents (après l'échéance)
+  target text not null check (target in ('assignee', 'parents')),
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  unique (household_id, target, offset_days),
+  check (target = 'assignee' or offset_days >= 0)
+);
+
+alter table public.reminder_rules enable row level security;
+
+drop policy if exists "reminder_rules_select_member" on public.reminder_rules;
+create policy "reminder_rules_select_member" on public.reminder_rules
+  for select using (public.is_household_member(household_id));
+
+drop policy if exists "reminder_rules_insert_parent" on public.reminder_rules;
+create policy "reminder_rules_insert_parent" on public.reminder_rules
+  for insert with check (public.is_household_parent(household_id));
+
+drop policy if exists "reminder_rules_update_parent" on public.reminder_rules;
+create policy "reminder_rules_update_parent" on public.reminder_rules
+  for update using (public.is_household_parent(household_id))
+  with check (public.is_household_parent(household_id));
+
+drop policy if exists "reminder_rules_delete_parent" on public.reminder_rules;
+create policy "reminder_rules_delete_parent" on public.reminder_rules
+  for delete using (public.is_household_parent(household_id));
+
+-- Règles par défaut : la veille, le lendemain de l'échéance, escalade aux parents à J+2
+create or replace function public.seed_reminder_rules()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.reminder_rules (household_id, offset_days, target)
+  values (new.id, -1, 'assignee'), (new.id, 1, 'assignee'), (new.id, 2, 'parents')
+  on conflict (household_id, target, offset_days) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists households_seed_reminder_rules on public.households;
+create trigger households_seed_reminder_rules
+  after insert on public.households
+  for each row execute function public.seed_reminder_rules();
+
+insert into public.reminder_rules (household_id, offset_days, target)
+select h.id, r.offset_days, r.target
+from public.households h
+cross join (values (-1, 'assignee'), (1, 'assignee'), (2, 'parents')) as r (offset_days, target)
+on conflict (household_id, target, offset_days) do nothing;
+
+-- ---- Perte de points en cas de retard (0 = désactivée) ----
+
+alter table public.households
+  add column if not exists late_decay_percent integer not null default 0
+    check (late_decay_percent between 0 and 100);
+
+-- households_update_member laisse tout membre renommer le foyer : le réglage reste aux parents
+create or replace function public.guard_household_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.late_decay_percent is distinct from old.late_decay_percent
+    and auth.uid() is not null
+    and not public.is_household_parent(new.id) then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists households_guard_update on public.households;
+create trigger households_guard_update
+  before update on public.households
+  for each row execute function public.guard_household_update();
+
+-- Crédit amputé par le retard : nombre de jours, affiché (et traduit) par le client
+alter table public.points_ledger
+  add column if not exists late_days integer check (late_days > 0);
+
+-- Date de complétion fixée par le serveur : le retard ne dépend pas d'une date envoyée par le client
+-- (tasks_stamp_completion passe après tasks_guard_update : triggers before dans l'ordre alphabétique)
+create or replace function public.stamp_task_completion()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.status <> 'completed' then
+    new.completed_at := null;
+  elsif old.status = 'completed' then
+    new.completed_at := old.completed_at;
+  else
+    new.completed_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_stamp_completion on public.tasks;
+create trigger tasks_stamp_completion
+  before update on public.tasks
+  for each row execute function public.stamp_task_completion();
+
+-- ✅ Points de la tâche terminée en retard : late_decay_percent % en moins par jour, jamais sous 0
+-- Retard compté en jours entiers entre l'échéance et le jour de complétion (fuseau du serveur)
+create or replace function public.record_task_points()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_member_id uuid := coalesce(new.assigned_to, new.completed_by);
+  v_late_days integer := greatest(0, new.completed_at::date - new.due_date);
+  v_total integer := new.points;
+  v_decayed_days integer;
+  v_shared integer := 0;
+begin
+  if new.status = 'completed' and old.status <> 'completed' then
+    if v_late_days > 0 then
+      select greatest(0, round(new.points * (1 - v_late_days * h.late_decay_percent / 100.0)))::integer
+      into v_total
+      from public.households h
+      where h.id = new.household_id;
+
+      if v_total < new.points then
+        v_decayed_days := v_late_days;
+      end if;
+    end if;
+
+    if v_total <= 0 then
+      return null;
+    end if;
+
+    if new.split_points then
+      insert into public.points_ledger (household_id, member_id, task_id, task_title, amount, kind, late_days, created_by)
+      select new.household_id, s.member_id, new.id, new.title, s.amount, 'task_completed', v_decayed_days, auth.uid()
+      from (
+        select r.member_id,
+               (r.base + case when r.rank <= v_total - r.distributed then 1 else 0 end)::integer as amount
+        from (
+          select w.member_id,
+                 v_total * w.weight / w.total as base,
+                 sum(v_total * w.weight / w.total) over () as distributed,
+                 -- À reste égal, ordre stable sur l'id du membre
+                 row_number() over (order by v_total * w.weight % w.total desc, w.member_id) as rank
+          from (
+            select i.completed_by as member_id,
+                   count(*) as weight,
+                   (sum(count(*)) over ())::bigint as total
+            from public.task_checklist_items i
+            where i.task_id = new.id and i.done and i.completed_by is not null
+            group by i.completed_by
+          ) w
+        ) r
+      ) s
+      where s.amount > 0;
+
+      get diagnostics v_shared = row_count;
+    end if;
+
+    if v_shared = 0 and v_member_id is not null then
+      insert into public.points_ledger (household_id, member_id, task_id, task_title, amount, kind, late_days, created_by)
+      values (new.household_id, v_member_id, new.id, new.title, v_total, 'task_completed', v_decayed_days, auth.uid());
+    end if;
+  elsif old.status = 'completed' and new.status <> 'completed' then
+    insert into public.points_ledger (household_id, member_id, task_id, task_title, amount, kind, created_by)
+    select new.household_id, l.member_id, new.id, new.title, -sum(l.amount)::integer, 'task_reopened', auth.uid()
+    from public.points_ledger l
+    where l.task_id = new.id and l.kind in ('task_completed', 'task_reopened')
+    group by l.member_id
+    having sum(l.amount) <> 0;
+  end if;
+
+  return null;
+end;
+$$;
+
+-- ---- Notifications : une par règle et par échéance ----
+
+alter table public.notifications
+  add column if not exists rule_id uuid references public.reminder_rules (id) on delete set null;
+
+alter table public.notifications drop constraint if exists notifications_kind_check;
+alter table public.notifications
+  add constraint notifications_kind_check
+    check (kind in ('task_assigned', 'task_due_soon', 'task_overdue', 'task_escalated'));
+
+-- Alerte navigateur pour les escalades (parents)
+alter table public.notification_preferences
+  add column if not exists task_escalated boolean not null default true;
+
+drop index if exists public.notifications_reminder_key;
+create unique index if not exists notifications_rule_key
+  on public.notifications (member_id, task_id, rule_id, due_date)
+  where rule_id is not null;
+
+create or replace function public.refresh_due_notifications(p_household_id uuid, p_today date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+  v_escalated integer := 0;
+begin
+  if not public.is_household_member(p_household_id) then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  -- Rappels au membre assigné (un rappel "avant" n'a plus de sens une fois l'échéance passée)
+  insert into public.notifications (household_id, member_id, task_id, kind, task_title, due_date, rule_id)
+  select
+    t.household_id,
+    t.assigned_to,
+    t.id,
+    case when r.offset_days > 0 then 'task_overdue' else 'task_due_soon' end,
+    t.title,
+    t.due_date,
+    r.id
+  from public.tasks t
+  join public.reminder_rules r
+    on r.household_id = t.household_id and r.target = 'assignee' and r.enabled
+  where t.household_id = p_household_id
+    and t.assigned_to = auth.uid()
+    and t.status <> 'completed'
+    and t.due_date is not null
+    and t.due_date + r.offset_days <= p_today
+    and (r.offset_days > 0 or t.due_date >= p_today)
+  on conflict (member_id, task_id, rule_id, due_date) where rule_id is not null do nothing;
+
+  get diagnostics v_count = row_count;
+
+  -- Escalade : chaque parent reçoit les tâches des autres restées en retard
+  if public.is_household_parent(p_household_id) then
+    insert into public.notifications (household_id, member_id, task_id, kind, task_title, due_date, rule_id)
+    select t.household_id, auth.uid(), t.id, 'task_escalated', t.title, t.due_date, r.id
+    from public.tasks t
+    join public.reminder_rules r
+      on r.household_id = t.household_id and r.target = 'parents' and r.enabled
+    where t.household_id = p_household_id
+      and t.assigned_to is distinct from auth.uid()
+      and t.status <> 'completed'
+      and t.due_date is not null
+      and t.due_date + r.offset_days <= p_today
+      and t.due_date < p_today
+    on conflict (member_id, task_id, rule_id, due_date) where rule_id is not null do nothing;
+
+    get diagnostics v_escalated = row_count;
+  end if;
+
+  return v_count + v_escalated;
+end;
+$$;
@@ -0,0 +1,34 @@
+-- Attribution automatique : exclusions par membre et par catégorie
+-- Le choix du membre (tour de rôle, points de la semaine, tâches ouvertes) est calculé côté client
+-- à partir de tasks et points_ledger ; seules les exclusions ont besoin d'être stockées.
+
+create table if not exists public.member_category_exclusions (
+  household_id uuid not null references public.households (id) on delete cascade,
+  member_id uuid not null,
+  -- Slug de household_categories (comme tasks.category)
+  category text not null,
+  created_at timestamptz not null default now(),
+  primary key (household_id, member_id, category),
+  constraint member_category_exclusions_member_id_fkey foreign key (household_id, member_id)
+    references public.members (household_id, id) on delete cascade,
+  constraint member_category_exclusions_category_fkey foreign key (household_id, category)
+    references public.household_categories (household_id, slug) on delete cascade
+);
+
+alter table public.member_category_exclusions enable row level security;
+
+drop policy if exists "member_category_exclusions_select_member" on public.member_category_exclusions;
+create policy "member_category_exclusions_select_member" on public.member_category_exclusions
+  for select using (public.is_household_member(household_id));
+
+drop policy if exists "member_category_exclusions_insert_parent" on public.member_category_exclusions;
+create policy "member_category_exclusions_insert_parent" on public.member_category_exclusions
+  for insert with check (public.is_household_parent(household_id));
+
+drop policy if exists "member_category_exclusions_delete_parent" on public.member_category_exclusions;
+create policy "member_category_exclusions_delete_parent" on public.member_category_exclusions
+  for delete using (public.is_household_parent(household_id));
+
+-- Tour de rôle : dernière tâche reçue par membre dans une catégorie
+create index if not exists tasks_household_category_created_idx
+  on public.tasks (household_id, category, created_at desc);
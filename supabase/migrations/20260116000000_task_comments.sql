@@ -0,0 +1,170 @@
+-- Fil de commentaires par tâche, avec @mentions des membres du foyer
+-- - chacun modifie / supprime uniquement ses propres commentaires
+-- - un membre mentionné reçoit une notification (comment_mention)
+
+alter table public.tasks
+  -- Compteur dénormalisé (carte, cache hors ligne, Realtime) : tenu à jour par trigger
+  add column if not exists comment_count integer not null default 0;
+
+-- Un enfant qui commente fait changer comment_count (trigger) : la colonne rejoint les compteurs autorisés
+create or replace function public.guard_task_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_allowed text[] := array['status', 'completed_at', 'completed_by', 'checklist_total', 'checklist_done', 'comment_count'];
+begin
+  if auth.uid() is null or public.is_household_parent(old.household_id) then
+    return new;
+  end if;
+
+  if (to_jsonb(new) - v_allowed) is distinct from (to_jsonb(old) - v_allowed) then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+create table if not exists public.task_comments (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  household_id uuid not null references public.households (id) on delete cascade,
+  -- null : l'auteur a quitté le foyer, le commentaire reste dans le fil
+  author_id uuid default auth.uid(),
+  body text not null check (length(trim(body)) between 1 and 2000),
+  -- Membres mentionnés (@Prénom), déduits du texte par le client
+  mentions uuid[] not null default '{}',
+  created_at timestamptz not null default now(),
+  edited_at timestamptz,
+  constraint task_comments_author_id_fkey foreign key (household_id, author_id)
+    references public.members (household_id, id) on delete set null (author_id)
+);
+
+create index if not exists task_comments_task_created_idx on public.task_comments (task_id, created_at);
+
+alter table public.task_comments enable row level security;
+
+drop policy if exists "task_comments_select_member" on public.task_comments;
+create policy "task_comments_select_member" on public.task_comments
+  for select using (public.is_household_member(household_id));
+
+-- household_id doit être celui de la tâche (même règle que la liste de contrôle)
+drop policy if exists "task_comments_insert_own" on public.task_comments;
+create policy "task_comments_insert_own" on public.task_comments
+  for insert with check (
+    author_id = auth.uid()
+    and public.is_household_member(household_id)
+    and exists (
+      select 1 from public.tasks t
+      where t.id = task_comments.task_id and t.household_id = task_comments.household_id
+    )
+  );
+
+drop policy if exists "task_comments_update_own" on public.task_comments;
+create policy "task_comments_update_own" on public.task_comments
+  for update using (author_id = auth.uid())
+  with check (author_id = auth.uid());
+
+-- Seuls le texte et les mentions sont modifiables
+revoke update on public.task_comments from authenticated;
+grant update (body, mentions) on public.task_comments to authenticated;
+
+drop policy if exists "task_comments_delete_own" on public.task_comments;
+create policy "task_comments_delete_own" on public.task_comments
+  for delete using (author_id = auth.uid());
+
+create or replace function public.stamp_task_comment()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.body is distinct from old.body then
+    new.edited_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists task_comments_stamp on public.task_comments;
+create trigger task_comments_stamp
+  before update on public.task_comments
+  for each row execute function public.stamp_task_comment();
+
+create or replace function public.refresh_comment_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_task_id uuid := coalesce(new.task_id, old.task_id);
+begin
+  update public.tasks t
+  set comment_count = c.total
+  from (
+    select count(*)::integer as total from public.task_comments where task_id = v_task_id
+  ) c
+  where t.id = v_task_id and t.comment_count is distinct from c.total;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists task_comments_count on public.task_comments;
+create trigger task_comments_count
+  after insert or delete on public.task_comments
+  for each row execute function public.refresh_comment_count();
+
+-- ---- Mentions → notifications ----
+
+alter table public.notifications drop constraint if exists notifications_kind_check;
+alter table public.notifications
+  add constraint notifications_kind_check
+    check (kind in ('task_assigned', 'task_due_soon', 'task_overdue', 'task_escalated', 'comment_mention'));
+
+alter table public.notification_preferences
+  add column if not exists comment_mention boolean not null default true;
+
+-- Seules les nouvelles mentions sont notifiées (modifier un commentaire ne relance pas les autres)
+create or replace function public.notify_comment_mentions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_previous uuid[] := case when tg_op = 'UPDATE' then old.mentions else '{}' end;
+begin
+  insert into public.notifications (household_id, member_id, task_id, kind, task_title, due_date, actor_id)
+  select new.household_id, m.id, t.id, 'comment_mention', t.title, t.due_date, new.author_id
+  from (select distinct unnest(new.mentions) as id) mention
+  join public.members m on m.household_id = new.household_id and m.id = mention.id
+  join public.tasks t on t.id = new.task_id
+  where m.id is distinct from new.author_id
+    and not (m.id = any (v_previous));
+
+  return new;
+end;
+$$;
+
+drop trigger if exists task_comments_notify_mentions on public.task_comments;
+create trigger task_comments_notify_mentions
+  after insert or update of mentions on public.task_comments
+  for each row execute function public.notify_comment_mentions();
+
+-- ---- Temps réel : le fil se met à jour chez les autres membres ----
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'task_comments'
+  ) then
+    alter publication supabase_realtime add table public.task_comments;
+  end if;
+end;
+$$;
@@ -0,0 +1,213 @@
+-- Photo de preuve à la complétion (Supabase Storage, bucket privé task-photos)
+-- - chemins : <household_id>/<task_id>/<photo_id>.jpg (+ _thumb.jpg), compressés par le client
+-- - photo obligatoire par tâche (tasks.requires_photo) ou par catégorie (household_categories.requires_photo)
+-- - sans photo, la base refuse de passer une tâche obligatoire en "Terminé" : pas de points sans preuve
+-- - une preuve compte si elle a été envoyée depuis la dernière réouverture, et reste une fois la tâche terminée
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('task-photos', 'task-photos', false, 5242880, array['image/jpeg'])
+on conflict (id) do nothing;
+
+-- Premier dossier du chemin = foyer (null si le chemin ne commence pas par un uuid)
+create or replace function public.storage_household_id(p_name text)
+returns uuid
+language sql
+immutable
+as $$
+  select case
+    when split_part(p_name, '/', 1) ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    then split_part(p_name, '/', 1)::uuid
+  end;
+$$;
+
+drop policy if exists "task_photos_objects_select_member" on storage.objects;
+create policy "task_photos_objects_select_member" on storage.objects
+  for select using (bucket_id = 'task-photos' and public.is_household_member(public.storage_household_id(name)));
+
+drop policy if exists "task_photos_objects_insert_member" on storage.objects;
+create policy "task_photos_objects_insert_member" on storage.objects
+  for insert with check (bucket_id = 'task-photos' and public.is_household_member(public.storage_household_id(name)));
+
+-- Suppression : un parent, ou l'auteur de l'envoi une fois la ligne task_photos supprimée
+-- (la ligne suit les règles de task_photos_delete_owner ; un fichier encore référencé reste)
+drop policy if exists "task_photos_objects_delete_owner" on storage.objects;
+create policy "task_photos_objects_delete_owner" on storage.objects
+  for delete using (
+    bucket_id = 'task-photos'
+    and (
+      public.is_household_parent(public.storage_household_id(name))
+      or (
+        owner = auth.uid()
+        and not exists (
+          select 1 from public.task_photos p
+          where p.path = storage.objects.name or p.thumb_path = storage.objects.name
+        )
+      )
+    )
+  );
+
+-- ---- Photos rattachées aux tâches ----
+
+alter table public.tasks
+  add column if not exists requires_photo boolean not null default false,
+  -- Compteur dénormalisé (carte, cache hors ligne, Realtime) : tenu à jour par trigger
+  add column if not exists photo_count integer not null default 0,
+  -- Dernière réouverture d'une tâche terminée : les photos plus anciennes ne prouvent plus rien
+  add column if not exists reopened_at timestamptz;
+
+alter table public.household_categories
+  add column if not exists requires_photo boolean not null default false;
+
+create table if not exists public.task_photos (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  household_id uuid not null references public.households (id) on delete cascade,
+  path text not null unique,
+  thumb_path text not null,
+  width integer not null check (width > 0),
+  height integer not null check (height > 0),
+  uploaded_by uuid default auth.uid(),
+  created_at timestamptz not null default now(),
+  constraint task_photos_uploaded_by_fkey foreign key (household_id, uploaded_by)
+    references public.members (household_id, id) on delete set null (uploaded_by),
+  -- Le fichier doit être rangé dans le dossier de son foyer et de sa tâche
+  check (path like household_id::text || '/' || task_id::text || '/%'),
+  check (thumb_path like household_id::text || '/' || task_id::text || '/%')
+);
+
+create index if not exists task_photos_task_created_idx on public.task_photos (task_id, created_at);
+
+alter table public.task_photos enable row level security;
+
+drop policy if exists "task_photos_select_member" on public.task_photos;
+create policy "task_photos_select_member" on public.task_photos
+  for select using (public.is_household_member(household_id));
+
+drop policy if exists "task_photos_insert_member" on public.task_photos;
+create policy "task_photos_insert_member" on public.task_photos
+  for insert with check (
+    uploaded_by = auth.uid()
+    and public.is_household_member(household_id)
+    and exists (
+      select 1 from public.tasks t
+      where t.id = task_photos.task_id and t.household_id = task_photos.household_id
+    )
+  );
+
+-- La preuve d'une tâche terminée ne peut plus être retirée par son auteur (un parent le peut)
+drop policy if exists "task_photos_delete_owner" on public.task_photos;
+create policy "task_photos_delete_owner" on public.task_photos
+  for delete using (
+    public.is_household_parent(household_id)
+    or (
+      uploaded_by = auth.uid()
+      and exists (
+        select 1 from public.tasks t
+        where t.id = task_photos.task_id and t.status <> 'completed'
+      )
+    )
+  );
+
+-- Date d'envoi fixée par le serveur : une photo antidatée ou postdatée fausserait la règle de réouverture
+create or replace function public.stamp_task_photo()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.created_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists task_photos_stamp on public.task_photos;
+create trigger task_photos_stamp
+  before insert on public.task_photos
+  for each row execute function public.stamp_task_photo();
+
+create or replace function public.refresh_photo_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_task_id uuid := coalesce(new.task_id, old.task_id);
+begin
+  update public.tasks t
+  set photo_count = c.total
+  from (
+    select count(*)::integer as total from public.task_photos where task_id = v_task_id
+  ) c
+  where t.id = v_task_id and t.photo_count is distinct from c.total;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists task_photos_count on public.task_photos;
+create trigger task_photos_count
+  after insert or delete on public.task_photos
+  for each row execute function public.refresh_photo_count();
+
+-- Un enfant qui ajoute une photo fait changer photo_count (trigger) : la colonne rejoint les compteurs autorisés
+create or replace function public.guard_task_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_allowed text[] := array[
+    'status', 'completed_at', 'completed_by', 'checklist_total', 'checklist_done', 'comment_count', 'photo_count'
+  ];
+begin
+  if auth.uid() is null or public.is_household_parent(old.household_id) then
+    return new;
+  end if;
+
+  if (to_jsonb(new) - v_allowed) is distinct from (to_jsonb(old) - v_allowed) then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- ---- Pas de complétion sans preuve ----
+
+-- Preuve = photo envoyée depuis la dernière réouverture (une ancienne photo ne sert pas deux fois)
+create or replace function public.require_task_photo()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.status = 'completed' and new.status <> 'completed' then
+    new.reopened_at := now();
+  end if;
+
+  if new.status = 'completed'
+    and old.status <> 'completed'
+    and (
+      new.requires_photo
+      or exists (
+        select 1 from public.household_categories c
+        where c.household_id = new.household_id and c.slug = new.category and c.requires_photo
+      )
+    )
+    and not exists (
+      select 1 from public.task_photos p
+      where p.task_id = new.id and p.created_at > coalesce(new.reopened_at, '-infinity')
+    ) then
+    raise exception 'PHOTO_REQUIRED' using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_require_photo on public.tasks;
+create trigger tasks_require_photo
+  before update of status on public.tasks
+  for each row execute function public.require_task_photo();
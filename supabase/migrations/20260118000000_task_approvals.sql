@@ -0,0 +1,318 @@
+-- Validation parentale : une tâche cochée par un enfant attend l'accord d'un parent
+-- - règles par foyer (approval_rules) : tel membre, ou telle catégorie, passe par la validation
+-- - l'enfant coche → "awaiting_approval" ; un parent valide (→ completed, points)
+--   ou refuse avec un motif (→ pending)
+-- - les points sont crédités par le trigger record_task_points au passage en "completed" :
+--   à l'assigné, à défaut à celui qui a coché (completed_by = submitted_by), retard compté à la demande
+
+alter table public.tasks drop constraint if exists tasks_status_check;
+alter table public.tasks
+  add constraint tasks_status_check
+    check (status in ('pending', 'in_progress', 'awaiting_approval', 'completed'));
+
+alter table public.tasks
+  -- Demande de validation : qui a coché, et quand (sert aussi au calcul du retard)
+  add column if not exists submitted_at timestamptz,
+  add column if not exists submitted_by uuid,
+  -- Dernier refus d'un parent, effacé à la validation
+  add column if not exists rejection_reason text check (length(rejection_reason) <= 500);
+
+alter table public.tasks drop constraint if exists tasks_submitted_by_fkey;
+alter table public.tasks
+  add constraint tasks_submitted_by_fkey foreign key (household_id, submitted_by)
+    references public.members (household_id, id) on delete set null (submitted_by);
+
+create index if not exists tasks_household_awaiting_idx
+  on public.tasks (household_id, submitted_at)
+  where status = 'awaiting_approval';
+
+-- ---- Règles : un membre OU une catégorie ----
+
+create table if not exists public.approval_rules (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  member_id uuid,
+  -- Slug de household_categories (comme tasks.category)
+  category text,
+  created_at timestamptz not null default now(),
+  check (num_nonnulls(member_id, category) = 1),
+  unique (household_id, member_id),
+  unique (household_id, category),
+  constraint approval_rules_member_id_fkey foreign key (household_id, member_id)
+    references public.members (household_id, id) on delete cascade,
+  constraint approval_rules_category_fkey foreign key (household_id, category)
+    references public.household_categories (household_id, slug) on delete cascade
+);
+
+alter table public.approval_rules enable row level security;
+
+drop policy if exists "approval_rules_select_member" on public.approval_rules;
+create policy "approval_rules_select_member" on public.approval_rules
+  for select using (public.is_household_member(household_id));
+
+drop policy if exists "approval_rules_insert_parent" on public.approval_rules;
+create policy "approval_rules_insert_parent" on public.approval_rules
+  for insert with check (public.is_household_parent(household_id));
+
+drop policy if exists "approval_rules_delete_parent" on public.approval_rules;
+create policy "approval_rules_delete_parent" on public.approval_rules
+  for delete using (public.is_household_parent(household_id));
+
+create or replace function public.task_needs_approval(p_household_id uuid, p_member_id uuid, p_category text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.approval_rules r
+    where r.household_id = p_household_id
+      and (r.member_id = p_member_id or r.category = p_category)
+  );
+$$;
+
+-- submitted_at / submitted_by sont posés par le serveur (require_task_approval), comme completed_at :
+-- un enfant n'envoie que le statut et completed_by
+create or replace function public.guard_task_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_allowed text[] := array['status', 'completed_by', 'checklist_total', 'checklist_done', 'comment_count', 'photo_count'];
+begin
+  if auth.uid() is null or public.is_household_parent(old.household_id) then
+    return new;
+  end if;
+
+  if (to_jsonb(new) - v_allowed) is distinct from (to_jsonb(old) - v_allowed) then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Seuls les parents terminent une tâche soumise à validation (ou en attente de validation)
+-- Date et auteur de la demande fixés ici : la date de complétion en découle, le client ne peut pas l'antidater
+create or replace function public.require_task_approval()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  if new.status = 'awaiting_approval' then
+    new.submitted_by := coalesce(auth.uid(), new.submitted_by);
+    new.submitted_at := now();
+  elsif old.status = 'awaiting_approval' and new.status <> 'completed' then
+    -- Demande retirée ou refusée
+    new.submitted_by := null;
+    new.submitted_at := null;
+  end if;
+
+  if auth.uid() is null or public.is_household_parent(new.household_id) then
+    return new;
+  end if;
+
+  if new.status = 'completed'
+    and (old.status = 'awaiting_approval' or public.task_needs_approval(new.household_id, auth.uid(), new.category)) then
+    raise exception 'APPROVAL_REQUIRED' using errcode = 'P0001';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_require_approval on public.tasks;
+create trigger tasks_require_approval
+  before update of status on public.tasks
+  for each row execute function public.require_task_approval();
+
+-- Validée : terminée à la date de la demande (retard compris), pas à celle de la décision du parent
+create or replace function public.stamp_task_completion()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.status <> 'completed' then
+    new.completed_at := null;
+  elsif old.status = 'completed' then
+    new.completed_at := old.completed_at;
+  elsif old.status = 'awaiting_approval' then
+    new.completed_at := coalesce(old.submitted_at, now());
+  else
+    new.completed_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+-- La preuve est exigée dès la demande de validation : le parent valide en la regardant
+-- Un refus compte comme une réouverture : la photo refusée ne sert pas à la demande suivante
+create or replace function public.require_task_photo()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.status in ('awaiting_approval', 'completed') and new.status not in ('awaiting_approval', 'completed') then
+    new.reopened_at := now();
+  end if;
+
+  if new.status in ('awaiting_approval', 'completed')
+    and old.status not in ('awaiting_approval', 'completed')
+    and (
+      new.requires_photo
+      or exists (
+        select 1 from public.household_categories c
+        where c.household_id = new.household_id and c.slug = new.category and c.requires_photo
+      )
+    )
+    and not exists (
+      select 1 from public.task_photos p
+      where p.task_id = new.id and p.created_at > coalesce(new.reopened_at, '-infinity')
+    ) then
+    raise exception 'PHOTO_REQUIRED' using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+-- Soumise à validation, la preuve ne bouge plus non plus
+drop policy if exists "task_photos_delete_owner" on public.task_photos;
+create policy "task_photos_delete_owner" on public.task_photos
+  for delete using (
+    public.is_household_parent(household_id)
+    or (
+      uploaded_by = auth.uid()
+      and exists (
+        select 1 from public.tasks t
+        where t.id = task_photos.task_id and t.status not in ('awaiting_approval', 'completed')
+      )
+    )
+  );
+
+-- ---- Notifications : demande (parents), validation / refus (enfant) ----
+
+alter table public.notifications drop constraint if exists notifications_kind_check;
+alter table public.notifications
+  add constraint notifications_kind_check
+    check (kind in (
+      'task_assigned', 'task_due_soon', 'task_overdue', 'task_escalated', 'comment_mention',
+      'approval_requested', 'task_approved', 'task_rejected'
+    ));
+
+alter table public.notification_preferences
+  add column if not exists approval_requested boolean not null default true,
+  add column if not exists task_approved boolean not null default true,
+  add column if not exists task_rejected boolean not null default true;
+
+create or replace function public.notify_task_approval()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := (select m.id from public.members m where m.household_id = new.household_id and m.id = auth.uid());
+begin
+  if new.status = 'awaiting_approval' and old.status <> 'awaiting_approval' then
+    insert into public.notifications (household_id, member_id, task_id, kind, task_title, due_date, actor_id)
+    select new.household_id, m.id, new.id, 'approval_requested', new.title, new.due_date, v_actor
+    from public.members m
+    where m.household_id = new.household_id
+      and m.role in ('admin', 'parent')
+      and m.id is distinct from v_actor;
+  elsif old.status = 'awaiting_approval' and new.status <> 'awaiting_approval'
+    and old.submitted_by is not null
+    and old.submitted_by is distinct from v_actor then
+    insert into public.notifications (household_id, member_id, task_id, kind, task_title, due_date, actor_id)
+    values (
+      new.household_id,
+      old.submitted_by,
+      new.id,
+      case when new.status = 'completed' then 'task_approved' else 'task_rejected' end,
+      new.title,
+      new.due_date,
+      v_actor
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists tasks_notify_approval on public.tasks;
+create trigger tasks_notify_approval
+  after update of status on public.tasks
+  for each row execute function public.notify_task_approval();
+
+-- ---- Retards : une tâche en attente de validation a été faite à temps ----
+
+create or replace function public.refresh_due_notifications(p_household_id uuid, p_today date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+  v_escalated integer := 0;
+begin
+  if not public.is_household_member(p_household_id) then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  -- Rappels au membre assigné (un rappel "avant" n'a plus de sens une fois l'échéance passée)
+  insert into public.notifications (household_id, member_id, task_id, kind, task_title, due_date, rule_id)
+  select
+    t.household_id,
+    t.assigned_to,
+    t.id,
+    case when r.offset_days > 0 then 'task_overdue' else 'task_due_soon' end,
+    t.title,
+    t.due_date,
+    r.id
+  from public.tasks t
+  join public.reminder_rules r
+    on r.household_id = t.household_id and r.target = 'assignee' and r.enabled
+  where t.household_id = p_household_id
+    and t.assigned_to = auth.uid()
+    and t.status in ('pending', 'in_progress')
+    and t.due_date is not null
+    and t.due_date + r.offset_days <= p_today
+    and (r.offset_days > 0 or t.due_date >= p_today)
+  on conflict (member_id, task_id, rule_id, due_date) where rule_id is not null do nothing;
+
+  get diagnostics v_count = row_count;
+
+  -- Escalade : chaque parent reçoit les tâches des autres restées en retard
+  if public.is_household_parent(p_household_id) then
+    insert into public.notifications (household_id, member_id, task_id, kind, task_title, due_date, rule_id)
+    select t.household_id, auth.uid(), t.id, 'task_escalated', t.title, t.due_date, r.id
+    from public.tasks t
+    join public.reminder_rules r
+      on r.household_id = t.household_id and r.target = 'parents' and r.enabled
+    where t.household_id = p_household_id
+      and t.assigned_to is distinct from auth.uid()
+      and t.status in ('pending', 'in_progress')
+      and t.due_date is not null
+      and t.due_date + r.offset_days <= p_today
+      and t.due_date < p_today
+    on conflict (member_id, task_id, rule_id, due_date) where rule_id is not null do nothing;
+
+    get diagnostics v_escalated = row_count;
+  end if;
+
+  return v_count + v_escalated;
+end;
+$$;
@@ -0,0 +1,62 @@
+-- Recherche plein texte et vues enregistrées
+-- - tasks.search_vector : titre + description, analysés en français (index GIN)
+-- - le client interroge avec des préfixes ("vaiss" trouve "vaisselle")
+-- - task_views : filtres nommés de chaque membre (la chaîne de requête de /tasks)
+
+alter table public.tasks
+  add column if not exists search_vector tsvector
+    generated always as (
+      to_tsvector('french', coalesce(title, '') || ' ' || coalesce(description, ''))
+    ) stored;
+
+create index if not exists tasks_search_vector_idx on public.tasks using gin (search_vector);
+
+-- Tri par échéance ou par points au sein d'un foyer
+create index if not exists tasks_household_due_date_idx on public.tasks (household_id, due_date);
+create index if not exists tasks_household_points_idx on public.tasks (household_id, points);
+
+-- Colonne générée : recalculée après les triggers BEFORE, on ne la compare pas
+create or replace function public.guard_task_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_allowed text[] := array[
+    'status', 'completed_by', 'checklist_total', 'checklist_done', 'comment_count', 'photo_count', 'search_vector'
+  ];
+begin
+  if auth.uid() is null or public.is_household_parent(old.household_id) then
+    return new;
+  end if;
+
+  if (to_jsonb(new) - v_allowed) is distinct from (to_jsonb(old) - v_allowed) then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- ---- Vues enregistrées ----
+
+create table if not exists public.task_views (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  member_id uuid not null default auth.uid(),
+  name text not null check (length(trim(name)) between 1 and 60),
+  -- Chaîne de requête de /tasks, sans le "?" (q=...&status=...)
+  query text not null check (length(query) <= 2000),
+  created_at timestamptz not null default now(),
+  unique (household_id, member_id, name),
+  constraint task_views_member_id_fkey foreign key (household_id, member_id)
+    references public.members (household_id, id) on delete cascade
+);
+
+alter table public.task_views enable row level security;
+
+drop policy if exists "task_views_own" on public.task_views;
+create policy "task_views_own" on public.task_views
+  for all using (member_id = auth.uid() and public.is_household_member(household_id))
+  with check (member_id = auth.uid() and public.is_household_member(household_id));
@@ -0,0 +1,18 @@
+-- Pagination par curseur de la liste des tâches
+-- - ordre complet et stable : (colonne de tri), created_at, id
+-- - les index suivent cet ordre : chaque page est une lecture d'index, même après des années de tâches
+-- - compteurs de l'en-tête : count(*) par statut, servis par l'index (household_id, status)
+
+drop index if exists public.tasks_household_id_created_at_idx;
+create index if not exists tasks_household_created_id_idx
+  on public.tasks (household_id, created_at desc, id desc);
+
+drop index if exists public.tasks_household_due_date_idx;
+create index if not exists tasks_household_due_created_id_idx
+  on public.tasks (household_id, due_date, created_at desc, id desc);
+
+drop index if exists public.tasks_household_points_idx;
+create index if not exists tasks_household_points_created_id_idx
+  on public.tasks (household_id, points, created_at desc, id desc);
+
+create index if not exists tasks_household_status_idx on public.tasks (household_id, status);
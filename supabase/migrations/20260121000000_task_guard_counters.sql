@@ -0,0 +1,32 @@
+-- Compteurs dénormalisés des tâches : écrits uniquement par leurs triggers
+-- - checklist_total / checklist_done, comment_count, photo_count changent quand un enfant coche,
+--   commente ou envoie une photo : la mise à jour de la tâche vient alors d'un trigger (pg_trigger_depth() > 1)
+-- - un update direct du client (profondeur 1) ne peut plus les modifier : seuls le statut et completed_by passent
+-- - completed_at, submitted_at / submitted_by restent posés par le serveur (stamp_task_completion, require_task_approval)
+
+create or replace function public.guard_task_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  -- search_vector : colonne générée, recalculée après les triggers BEFORE, on ne la compare pas
+  v_allowed text[] := array['status', 'completed_by', 'search_vector'];
+begin
+  if auth.uid() is null or public.is_household_parent(old.household_id) then
+    return new;
+  end if;
+
+  -- Mise à jour faite par un trigger de compteur : seules ces colonnes s'ajoutent, rien d'autre
+  if pg_trigger_depth() > 1 then
+    v_allowed := v_allowed || array['checklist_total', 'checklist_done', 'comment_count', 'photo_count'];
+  end if;
+
+  if (to_jsonb(new) - v_allowed) is distinct from (to_jsonb(old) - v_allowed) then
+    raise exception 'NOT_ALLOWED' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;